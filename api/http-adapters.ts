@@ -0,0 +1,282 @@
+// DM Shop Webhook HTTP Adapters
+// Mount the Paystack webhook handler on Node http, Express-style servers or Fetch API runtimes
+
+import { IncomingMessage, ServerResponse } from 'http';
+import {
+  DMShopWebhookHandler,
+  WebhookProcessingResult,
+  WebhookRequestContext,
+  WebhookResultCode
+} from './webhook-handler';
+
+export interface WebhookAdapterOptions {
+  trustProxy?: boolean; // Take the client IP from X-Forwarded-For, only behind a proxy that sets it
+  maxBodyBytes?: number; // Larger bodies get a 413, default 1 MB
+}
+
+export interface FetchWebhookAdapterOptions extends WebhookAdapterOptions {
+  getSourceIp?: (request: Request) => string | undefined; // Runtime-specific client IP lookup
+}
+
+// Express-style request, body is set when a body parser ran before the middleware
+export interface ExpressLikeRequest extends IncomingMessage {
+  body?: unknown;
+  ip?: string;
+}
+
+export type ExpressLikeNext = (error?: unknown) => void;
+
+const paystackSignatureHeader = 'x-paystack-signature';
+const defaultMaxBodyBytes = 1024 * 1024;
+
+/**
+ * Raised while reading a request before the webhook handler sees it
+ */
+export class WebhookRequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'WebhookRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * HTTP status for a webhook result
+ * Paystack retries anything other than 200, so only failures a retry could fix get a 5xx
+ */
+export function webhookResultStatus(result: WebhookProcessingResult): number {
+  const statuses: Record<WebhookResultCode, number> = {
+    accepted: 200,
+    processed: 200,
+    ignored: 200,
+    duplicate: 200,
+    missing_signature: 401,
+    invalid_signature: 401,
+    ip_not_allowed: 403,
+    stale_event: 400,
+    invalid_payload: 400,
+    secret_not_configured: 500,
+    source_ip_unavailable: 500,
+    processing_failed: 500
+  };
+
+  if (!result.code) {
+    return result.success ? 200 : 500;
+  }
+  return result.success ? statuses[result.code] : Math.max(statuses[result.code], 400);
+}
+
+/**
+ * Listener for http.createServer
+ * Only POST is accepted, route the webhook path to it yourself
+ */
+export function createNodeWebhookListener(
+  handler: DMShopWebhookHandler,
+  options: WebhookAdapterOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { success: false, message: 'Method not allowed' }, { Allow: 'POST' });
+      return;
+    }
+
+    try {
+      const payload = await readNodeBody(req, options.maxBodyBytes ?? defaultMaxBodyBytes);
+      const result = await handler.processPaystackWebhook(
+        payload,
+        headerValue(req.headers[paystackSignatureHeader]),
+        { sourceIp: nodeSourceIp(req, options), headers: nodeHeaders(req) }
+      );
+      sendJson(res, webhookResultStatus(result), responseBody(result));
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+}
+
+/**
+ * Express-style middleware, (req, res, next)
+ * Mount it before express.json(), or behind express.raw({ type: 'application/json' }), so the raw body survives
+ */
+export function createExpressWebhookMiddleware(
+  handler: DMShopWebhookHandler,
+  options: WebhookAdapterOptions = {}
+): (req: ExpressLikeRequest, res: ServerResponse, next: ExpressLikeNext) => Promise<void> {
+  return async (req, res, next) => {
+    try {
+      const payload = await readExpressBody(req, options.maxBodyBytes ?? defaultMaxBodyBytes);
+      const result = await handler.processPaystackWebhook(
+        payload,
+        headerValue(req.headers[paystackSignatureHeader]),
+        {
+          sourceIp: options.trustProxy && req.ip ? req.ip : nodeSourceIp(req, options),
+          headers: nodeHeaders(req)
+        }
+      );
+      sendJson(res, webhookResultStatus(result), responseBody(result));
+    } catch (error) {
+      if (error instanceof WebhookRequestError) {
+        sendError(res, error);
+        return;
+      }
+      next(error);
+    }
+  };
+}
+
+/**
+ * Fetch API handler for Next.js route handlers, Supabase Edge Functions, Deno and Workers
+ * (request: Request) => Promise<Response>
+ */
+export function createFetchWebhookHandler(
+  handler: DMShopWebhookHandler,
+  options: FetchWebhookAdapterOptions = {}
+): (request: Request) => Promise<Response> {
+  return async request => {
+    if (request.method !== 'POST') {
+      return jsonResponse(405, { success: false, message: 'Method not allowed' }, { Allow: 'POST' });
+    }
+
+    try {
+      const payload = await readFetchBody(request, options.maxBodyBytes ?? defaultMaxBodyBytes);
+      const context: WebhookRequestContext = {
+        sourceIp: options.getSourceIp?.(request) ??
+          (options.trustProxy ? forwardedIp(request.headers.get('x-forwarded-for')) : undefined),
+        headers: fetchHeaders(request.headers)
+      };
+
+      const result = await handler.processPaystackWebhook(
+        payload,
+        request.headers.get(paystackSignatureHeader) || '',
+        context
+      );
+      return jsonResponse(webhookResultStatus(result), responseBody(result));
+    } catch (error) {
+      const status = error instanceof WebhookRequestError ? error.status : 500;
+      console.error('Webhook request error:', error);
+      return jsonResponse(status, { success: false, message: errorMessage(error) });
+    }
+  };
+}
+
+// Only what Paystack and our logs need, result data stays server-side
+function responseBody(result: WebhookProcessingResult): Record<string, unknown> {
+  return { success: result.success, code: result.code, message: result.message };
+}
+
+function readNodeBody(req: IncomingMessage, maxBodyBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBodyBytes) {
+        // Discard the rest rather than destroying the socket, so the 413 still reaches the client
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new WebhookRequestError(413, `Webhook body exceeds ${maxBodyBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+async function readExpressBody(req: ExpressLikeRequest, maxBodyBytes: number): Promise<string> {
+  if (Buffer.isBuffer(req.body)) {
+    return req.body.toString('utf8');
+  }
+  if (typeof req.body === 'string') {
+    return req.body;
+  }
+  if (req.body !== undefined && req.readableEnded) {
+    // Re-serialising parsed JSON won't reproduce the signed bytes
+    throw new WebhookRequestError(500, 'Request body was already parsed, mount the webhook route before express.json() or use express.raw()');
+  }
+  return await readNodeBody(req, maxBodyBytes);
+}
+
+async function readFetchBody(request: Request, maxBodyBytes: number): Promise<string> {
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > maxBodyBytes) {
+    throw new WebhookRequestError(413, `Webhook body exceeds ${maxBodyBytes} bytes`);
+  }
+
+  const body = await request.text();
+  if (Buffer.byteLength(body, 'utf8') > maxBodyBytes) {
+    throw new WebhookRequestError(413, `Webhook body exceeds ${maxBodyBytes} bytes`);
+  }
+  return body;
+}
+
+function nodeSourceIp(req: IncomingMessage, options: WebhookAdapterOptions): string | undefined {
+  if (options.trustProxy) {
+    const forwarded = forwardedIp(headerValue(req.headers['x-forwarded-for']));
+    if (forwarded) return forwarded;
+  }
+  return req.socket?.remoteAddress;
+}
+
+// Repeated headers are joined the way fetch joins them
+function nodeHeaders(req: IncomingMessage): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) {
+      headers[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return headers;
+}
+
+function fetchHeaders(source: Headers): Record<string, string> {
+  const headers: Record<string, string> = {};
+  source.forEach((value, name) => {
+    headers[name] = value;
+  });
+  return headers;
+}
+
+// The left-most address is the original client
+function forwardedIp(header: string | null | undefined): string | undefined {
+  const first = header?.split(',')[0]?.trim();
+  return first || undefined;
+}
+
+function headerValue(value: string | string[] | undefined): string {
+  return Array.isArray(value) ? value[0] || '' : value || '';
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: Record<string, unknown>,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: unknown): void {
+  const status = error instanceof WebhookRequestError ? error.status : 500;
+  console.error('Webhook request error:', error);
+  if (!res.headersSent) {
+    // Closes the connection after an oversized body instead of reading the rest of it
+    sendJson(res, status, { success: false, message: errorMessage(error) }, status === 413 ? { Connection: 'close' } : {});
+  }
+}
+
+function jsonResponse(status: number, body: Record<string, unknown>, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof WebhookRequestError ? error.message : 'Webhook processing failed';
+}
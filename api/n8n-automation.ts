@@ -1,197 +1,154 @@
 // DM Shop n8n Automation Integration
 // Foundation for n8n workflow automation (NOT Zapier)
 
-export interface N8nWebhookConfig {
+import { HttpTransport, fetchTransport } from '../lib/http-transport';
+import { AutomationSigningSecrets, automationSignatureHeaders } from '../lib/automation-signing';
+import {
+  AutomationEndpointHealth,
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  createCircuitBreaker,
+  isRetryableAutomationStatus
+} from '../lib/automation-health';
+import { createDMShopEvent, dmShopEventCatalog } from '../lib/dm-shop-events';
+import { DMShopEventEnvelope, DMShopEventPayloads, DMShopEventType, DMShopEventTypeIn } from '../types/dm-shop-events';
+
+// signingSecret adds an X-DM-Shop-Signature header, see lib/automation-signing.ts
+export interface N8nWebhookConfig extends AutomationSigningSecrets {
   baseUrl: string;
   webhookId: string;
   authToken?: string;
   retryAttempts?: number;
+  transport?: HttpTransport; // Defaults to the global fetch
+  circuitBreaker?: CircuitBreakerOptions; // Calls are refused while the workflow is down
 }
 
 export interface N8nWorkflowTrigger {
   workflowName: string;
   webhookUrl: string;
-  events: string[];
+  events: DMShopEventType[];
   enabled: boolean;
 }
 
-export interface DMShopAutomationEvent {
-  event: string;
-  timestamp: string;
-  data: {
-    orderId?: string;
-    customerId?: string;
-    sellerId?: string;
-    storeId?: string;
-    amount?: number;
-    status?: string;
-    metadata?: Record<string, any>;
-  };
-}
+// Envelope n8n receives, see types/dm-shop-events.ts for every event and payload
+export type DMShopAutomationEvent<T extends DMShopEventType = DMShopEventType> = DMShopEventEnvelope<T>;
 
 export class N8nAutomationClient {
   private config: N8nWebhookConfig;
+  private transport: HttpTransport;
+  private breaker: CircuitBreaker;
 
   constructor(config: N8nWebhookConfig) {
     this.config = config;
+    this.transport = config.transport || fetchTransport;
+    this.breaker = createCircuitBreaker(this.webhookUrl(), config.circuitBreaker);
   }
 
   /**
-   * Trigger n8n workflow for payment events
-   * Foundation for Manus enhancement
+   * Send any catalog event to the n8n workflow
+   * Throws DMShopEventPayloadError for a malformed payload, returns false when n8n rejects the call or its circuit is open
    */
-  async triggerPaymentWorkflow(
-    event: 'payment.success' | 'payment.failed' | 'payment.pending',
-    data: DMShopAutomationEvent['data']
+  async triggerEvent<T extends DMShopEventType>(
+    event: T,
+    data: DMShopEventPayloads[T]
   ): Promise<boolean> {
-    try {
-      const payload: DMShopAutomationEvent = {
-        event,
-        timestamp: new Date().toISOString(),
-        data
-      };
+    const payload = createDMShopEvent(event, data);
+    const source = `${dmShopEventCatalog[event].category}-system`;
+
+    if (!this.breaker.canRequest()) {
+      console.warn(`n8n ${source} workflow skipped, circuit open until ${this.breaker.retryAt()?.toISOString()}`);
+      return false;
+    }
 
-      const response = await fetch(`${this.config.baseUrl}/webhook/${this.config.webhookId}`, {
+    const startedAt = Date.now();
+    try {
+      const body = JSON.stringify(payload);
+      const response = await this.transport(this.webhookUrl(), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'X-DM-Shop-Event': event,
-          'X-DM-Shop-Source': 'payment-system',
-          ...(this.config.authToken && { 'Authorization': `Bearer ${this.config.authToken}` })
+          'X-DM-Shop-Source': source,
+          ...(this.config.authToken && { 'Authorization': `Bearer ${this.config.authToken}` }),
+          ...automationSignatureHeaders(body, this.config)
         },
-        body: JSON.stringify(payload)
+        body
       });
 
       if (!response.ok) {
-        throw new Error(`n8n webhook failed: ${response.status} ${response.statusText}`);
+        const message = `n8n webhook failed: ${response.status} ${response.statusText}`;
+        this.breaker.recordFailure(Date.now() - startedAt, message, isRetryableAutomationStatus(response.status));
+        console.error(`n8n ${source} workflow error: ${message}`);
+        return false;
       }
 
-      console.log(`n8n payment workflow triggered: ${event}`);
+      this.breaker.recordSuccess(Date.now() - startedAt);
+      console.log(`n8n workflow triggered: ${event}`);
       return true;
     } catch (error) {
-      console.error('n8n payment workflow error:', error);
+      this.breaker.recordFailure(Date.now() - startedAt, (error as Error).message);
+      console.error(`n8n ${source} workflow error:`, error);
       return false;
     }
   }
 
   /**
-   * Trigger n8n workflow for order events
+   * Circuit state, success rate and latency for this workflow
    */
-  async triggerOrderWorkflow(
-    event: 'order.created' | 'order.paid' | 'order.shipped' | 'order.delivered' | 'order.cancelled',
-    data: DMShopAutomationEvent['data']
-  ): Promise<boolean> {
-    try {
-      const payload: DMShopAutomationEvent = {
-        event,
-        timestamp: new Date().toISOString(),
-        data
-      };
+  getHealth(): AutomationEndpointHealth {
+    return this.breaker.snapshot();
+  }
 
-      const response = await fetch(`${this.config.baseUrl}/webhook/${this.config.webhookId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-DM-Shop-Event': event,
-          'X-DM-Shop-Source': 'order-system'
-        },
-        body: JSON.stringify(payload)
-      });
+  /**
+   * Trigger n8n workflow for payment events
+   * Foundation for Manus enhancement
+   */
+  async triggerPaymentWorkflow<T extends DMShopEventTypeIn<'payment'>>(
+    event: T,
+    data: DMShopEventPayloads[T]
+  ): Promise<boolean> {
+    return await this.triggerEvent(event, data);
+  }
 
-      return response.ok;
-    } catch (error) {
-      console.error('n8n order workflow error:', error);
-      return false;
-    }
+  /**
+   * Trigger n8n workflow for order events
+   */
+  async triggerOrderWorkflow<T extends DMShopEventTypeIn<'order'>>(
+    event: T,
+    data: DMShopEventPayloads[T]
+  ): Promise<boolean> {
+    return await this.triggerEvent(event, data);
   }
 
   /**
    * Trigger n8n workflow for seller events
    */
-  async triggerSellerWorkflow(
-    event: 'seller.payout' | 'seller.commission' | 'seller.notification',
-    data: DMShopAutomationEvent['data']
+  async triggerSellerWorkflow<T extends DMShopEventTypeIn<'seller'>>(
+    event: T,
+    data: DMShopEventPayloads[T]
   ): Promise<boolean> {
-    try {
-      const payload: DMShopAutomationEvent = {
-        event,
-        timestamp: new Date().toISOString(),
-        data
-      };
-
-      const response = await fetch(`${this.config.baseUrl}/webhook/${this.config.webhookId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-DM-Shop-Event': event,
-          'X-DM-Shop-Source': 'seller-system'
-        },
-        body: JSON.stringify(payload)
-      });
-
-      return response.ok;
-    } catch (error) {
-      console.error('n8n seller workflow error:', error);
-      return false;
-    }
+    return await this.triggerEvent(event, data);
   }
 
   /**
    * Trigger n8n workflow for customer events
    */
-  async triggerCustomerWorkflow(
-    event: 'customer.welcome' | 'customer.order_confirmation' | 'customer.shipping_update' | 'customer.support',
-    data: DMShopAutomationEvent['data']
+  async triggerCustomerWorkflow<T extends DMShopEventTypeIn<'customer'>>(
+    event: T,
+    data: DMShopEventPayloads[T]
   ): Promise<boolean> {
-    try {
-      const payload: DMShopAutomationEvent = {
-        event,
-        timestamp: new Date().toISOString(),
-        data
-      };
-
-      const response = await fetch(`${this.config.baseUrl}/webhook/${this.config.webhookId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-DM-Shop-Event': event,
-          'X-DM-Shop-Source': 'customer-system'
-        },
-        body: JSON.stringify(payload)
-      });
-
-      return response.ok;
-    } catch (error) {
-      console.error('n8n customer workflow error:', error);
-      return false;
-    }
+    return await this.triggerEvent(event, data);
   }
 
   /**
    * Test n8n webhook connectivity
    */
   async testConnection(): Promise<boolean> {
-    try {
-      const testPayload = {
-        event: 'system.test',
-        timestamp: new Date().toISOString(),
-        data: { test: true }
-      };
-
-      const response = await fetch(`${this.config.baseUrl}/webhook/${this.config.webhookId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-DM-Shop-Event': 'system.test'
-        },
-        body: JSON.stringify(testPayload)
-      });
+    return await this.triggerEvent('system.test', { test: true });
+  }
 
-      return response.ok;
-    } catch (error) {
-      console.error('n8n connection test failed:', error);
-      return false;
-    }
+  private webhookUrl(): string {
+    return `${this.config.baseUrl}/webhook/${this.config.webhookId}`;
   }
 }
 
@@ -212,10 +169,10 @@ export class DMShopN8nManager {
   /**
    * Trigger specific workflow by name
    */
-  async triggerWorkflow(
+  async triggerWorkflow<T extends DMShopEventType>(
     workflowName: string,
-    event: string,
-    data: DMShopAutomationEvent['data']
+    event: T,
+    data: DMShopEventPayloads[T]
   ): Promise<boolean> {
     const workflow = this.workflows.get(workflowName);
     if (!workflow) {
@@ -223,44 +180,21 @@ export class DMShopN8nManager {
       return false;
     }
 
-    // Route to appropriate workflow method based on event type
-    if (event.startsWith('payment.')) {
-      return await workflow.triggerPaymentWorkflow(event as any, data);
-    } else if (event.startsWith('order.')) {
-      return await workflow.triggerOrderWorkflow(event as any, data);
-    } else if (event.startsWith('seller.')) {
-      return await workflow.triggerSellerWorkflow(event as any, data);
-    } else if (event.startsWith('customer.')) {
-      return await workflow.triggerCustomerWorkflow(event as any, data);
-    }
-
-    return false;
+    return await workflow.triggerEvent(event, data);
   }
 
   /**
    * Broadcast event to all registered workflows
    */
-  async broadcastEvent(
-    event: string,
-    data: DMShopAutomationEvent['data']
+  async broadcastEvent<T extends DMShopEventType>(
+    event: T,
+    data: DMShopEventPayloads[T]
   ): Promise<{ [workflowName: string]: boolean }> {
     const results: { [workflowName: string]: boolean } = {};
 
     const promises = Array.from(this.workflows.entries()).map(async ([name, workflow]) => {
       try {
-        let success = false;
-        
-        if (event.startsWith('payment.')) {
-          success = await workflow.triggerPaymentWorkflow(event as any, data);
-        } else if (event.startsWith('order.')) {
-          success = await workflow.triggerOrderWorkflow(event as any, data);
-        } else if (event.startsWith('seller.')) {
-          success = await workflow.triggerSellerWorkflow(event as any, data);
-        } else if (event.startsWith('customer.')) {
-          success = await workflow.triggerCustomerWorkflow(event as any, data);
-        }
-
-        results[name] = success;
+        results[name] = await workflow.triggerEvent(event, data);
       } catch (error) {
         console.error(`n8n workflow ${name} failed:`, error);
         results[name] = false;
@@ -271,6 +205,17 @@ export class DMShopN8nManager {
     return results;
   }
 
+  /**
+   * Health of every registered workflow, keyed by name, for a status page
+   */
+  getHealth(): { [workflowName: string]: AutomationEndpointHealth } {
+    const health: { [workflowName: string]: AutomationEndpointHealth } = {};
+    this.workflows.forEach((workflow, name) => {
+      health[name] = workflow.getHealth();
+    });
+    return health;
+  }
+
   /**
    * Test all registered workflows
    */
@@ -338,16 +283,17 @@ export function setupDMShopN8nWorkflows(
     customer: string;
     seller: string;
     analytics: string;
-  }
+  },
+  signing: AutomationSigningSecrets = {} // Shared signing secrets for every workflow
 ): DMShopN8nManager {
   const manager = createN8nManager();
 
   // Register all DM Shop workflows
-  manager.registerWorkflow('payment', dmShopN8nWorkflows.paymentProcessing(webhookIds.payment, n8nBaseUrl));
-  manager.registerWorkflow('order', dmShopN8nWorkflows.orderFulfillment(webhookIds.order, n8nBaseUrl));
-  manager.registerWorkflow('customer', dmShopN8nWorkflows.customerCommunication(webhookIds.customer, n8nBaseUrl));
-  manager.registerWorkflow('seller', dmShopN8nWorkflows.sellerManagement(webhookIds.seller, n8nBaseUrl));
-  manager.registerWorkflow('analytics', dmShopN8nWorkflows.analyticsReporting(webhookIds.analytics, n8nBaseUrl));
+  manager.registerWorkflow('payment', { ...dmShopN8nWorkflows.paymentProcessing(webhookIds.payment, n8nBaseUrl), ...signing });
+  manager.registerWorkflow('order', { ...dmShopN8nWorkflows.orderFulfillment(webhookIds.order, n8nBaseUrl), ...signing });
+  manager.registerWorkflow('customer', { ...dmShopN8nWorkflows.customerCommunication(webhookIds.customer, n8nBaseUrl), ...signing });
+  manager.registerWorkflow('seller', { ...dmShopN8nWorkflows.sellerManagement(webhookIds.seller, n8nBaseUrl), ...signing });
+  manager.registerWorkflow('analytics', { ...dmShopN8nWorkflows.analyticsReporting(webhookIds.analytics, n8nBaseUrl), ...signing });
 
   return manager;
 }
@@ -1,109 +1,562 @@
 // DM Shop Webhook Handler
 // Foundation for Paystack webhooks and automation integrations (Zapier, n8n, Buildship)
 
-import { PaystackWebhookEvent } from '../types/paystack';
+import {
+  PaystackChargeEvent,
+  PaystackDisputeEvent,
+  PaystackInvoiceEvent,
+  PaystackRefundEvent,
+  PaystackSubscriptionEvent,
+  PaystackTransferEvent,
+  PaystackWebhookEvent,
+  PaystackWebhookSignatureCheck
+} from '../types/paystack';
+import { DMShopEvent, DMShopEventEnvelope, DMShopEventPayloads, DMShopEventType } from '../types/dm-shop-events';
 import { PaystackClient } from '../lib/paystack-client';
+import { DMShopDisputeManager, createDisputeManager } from '../lib/dm-shop-disputes';
+import { DMShopPaymentVerifier, createPaymentVerifier } from '../lib/dm-shop-payment-verification';
+import { DMShopOrderPaymentManager, OrderSettlement, createOrderPaymentManager } from '../lib/dm-shop-order-payments';
+import { DMShopPayoutManager, createPayoutManager } from '../lib/dm-shop-payouts';
+import { DMShopRefundManager, createRefundManager } from '../lib/dm-shop-refunds';
+import { DMShopSavedCardManager, createSavedCardManager } from '../lib/dm-shop-saved-cards';
+import { DMShopSplitManager, createSplitManager } from '../lib/dm-shop-splits';
+import { DMShopSubscriptionManager, PremiumPlanConfig, createSubscriptionManager } from '../lib/dm-shop-subscriptions';
+import { DMShopSupabaseClient, DisputeRecord, WebhookInboxRecord, createSupabaseClient } from '../src/supabase-integration';
+import { HttpTransport, fetchTransport } from '../lib/http-transport';
+import { AutomationSigningSecrets } from '../lib/automation-signing';
+import { createDMShopEvent } from '../lib/dm-shop-events';
+import { AutomationOutbox, createSupabaseAutomationOutbox } from '../lib/automation-outbox';
+import { AutomationRoute, routeAutomationEvent } from '../lib/automation-routing';
+import { AutomationEndpointHealth, AutomationHealthTracker, createAutomationHealthTracker } from '../lib/automation-health';
+import { AutomationDeliveryWorker, AutomationWorkerOptions, createAutomationDeliveryWorker } from '../lib/automation-worker';
+import { WebhookInbox, createSupabaseWebhookInbox } from '../lib/webhook-inbox';
+import { WebhookJournal, WebhookJournalEntry, createSupabaseWebhookJournal } from '../lib/webhook-journal';
+import { WebhookEventStore, createSupabaseWebhookEventStore, webhookEventKey } from '../lib/webhook-event-store';
+import { PaystackWebhookPayloadError, isPaystackWebhookEventType, parsePaystackWebhookEvent } from '../lib/paystack-webhook-parser';
 
-export interface AutomationWebhook {
+// signingSecret adds an X-DM-Shop-Signature header, see lib/automation-signing.ts
+// events, filter, includeFields, excludeFields and template shape what it receives, see lib/automation-routing.ts
+export interface AutomationWebhook extends AutomationSigningSecrets, AutomationRoute {
   url: string;
-  events: string[];
   headers?: Record<string, string>;
-  retryAttempts?: number;
+  retryAttempts?: number; // Delivery attempts before the event is dead-lettered, default 8
 }
 
+export interface WebhookHandlerOptions {
+  premiumPlan?: Partial<PremiumPlanConfig>;
+  transport?: HttpTransport; // Used for Supabase calls, defaults to the global fetch. The delivery worker takes its own
+  allowedIps?: string[]; // Source IP allowlist, e.g. paystackWebhookIps. Not checked when unset
+  maxEventAgeMs?: number; // Reject events older than this, 0 disables the check
+  eventStore?: WebhookEventStore; // Deduplicates Paystack retries, defaults to the Supabase webhook_events table
+  automationOutbox?: AutomationOutbox; // Queue for automation events, defaults to the Supabase automation_outbox table
+  inbox?: WebhookInbox; // Accepted events waiting for WebhookProcessingWorker, defaults to the Supabase webhook_inbox table
+  processInline?: boolean; // Run handlers before responding instead of queueing, for tests and scripts
+  journal?: WebhookJournal; // Raw record of every request, defaults to the Supabase webhook_journal table
+  automationHealth?: AutomationHealthTracker; // Shared with workers from createAutomationDeliveryWorker()
+}
+
+// Request details that aren't part of the signed payload
+export interface WebhookRequestContext {
+  sourceIp?: string;
+  headers?: Record<string, string>; // Journaled as received
+}
+
+export interface WebhookReplayOptions {
+  dryRun?: boolean; // Validate and report only, no handlers run
+  force?: boolean; // Run events the dedup store has already seen as processed
+}
+
+// Rejection codes are distinct so alerting can tell forged requests from misconfiguration
+export type WebhookResultCode =
+  | 'accepted' // Stored, WebhookProcessingWorker will process it
+  | 'processed'
+  | 'ignored' // Valid event we don't handle
+  | 'duplicate' // Already handled, acknowledged without side effects
+  | 'missing_signature'
+  | 'invalid_signature' // Likely forged
+  | 'ip_not_allowed' // Likely forged
+  | 'stale_event' // Possible replay
+  | 'invalid_payload'
+  | 'secret_not_configured' // Misconfiguration
+  | 'source_ip_unavailable' // Misconfiguration, allowlist set but no IP passed in
+  | 'processing_failed';
+
 export interface WebhookProcessingResult {
   success: boolean;
+  code?: WebhookResultCode;
   message: string;
   automationTriggered?: boolean;
   data?: any;
 }
 
+// Journal fields known before the request is handled
+type JournalRequest = Omit<WebhookJournalEntry, 'success' | 'result_code' | 'result_message' | 'duration_ms'>;
+
+// Paystack sends webhooks from these addresses
+export const paystackWebhookIps = ['52.31.139.75', '52.49.173.169', '52.214.14.220'];
+
+// Paystack keeps retrying failed deliveries for up to 72 hours
+const defaultMaxEventAgeMs = 72 * 60 * 60 * 1000;
+
+// With the worker's default backoff this spans about two hours
+const defaultAutomationAttempts = 8;
+
+// Payload fields that say when each kind of event happened, most specific prefix first
+const staleCheckFields: Array<[string, string[]]> = [
+  ['charge.dispute.', ['updatedAt', 'updated_at', 'createdAt', 'created_at']],
+  ['charge.', ['paid_at', 'paidAt', 'created_at', 'createdAt']],
+  ['transfer.', ['updated_at', 'updatedAt', 'createdAt', 'created_at']],
+  ['refund.', ['refunded_at', 'updated_at', 'created_at']],
+  ['invoice.', ['paid_at', 'updated_at', 'created_at']]
+];
+
 export class DMShopWebhookHandler {
   private paystackClient: PaystackClient;
   private automationWebhooks: AutomationWebhook[];
   private supabaseUrl: string;
   private supabaseKey: string;
+  private supabaseClient: DMShopSupabaseClient;
+  private payoutManager: DMShopPayoutManager;
+  private refundManager: DMShopRefundManager;
+  private savedCardManager: DMShopSavedCardManager;
+  private subscriptionManager: DMShopSubscriptionManager;
+  private disputeManager: DMShopDisputeManager;
+  private paymentVerifier: DMShopPaymentVerifier;
+  private orderPaymentManager: DMShopOrderPaymentManager;
+  private splitManager: DMShopSplitManager;
+  private allowedIps?: Set<string>;
+  private maxEventAgeMs: number;
+  private eventStore: WebhookEventStore;
+  private automationOutbox: AutomationOutbox;
+  private inbox: WebhookInbox;
+  private processInline: boolean;
+  private journal: WebhookJournal;
+  private automationHealth: AutomationHealthTracker;
 
   constructor(
     paystackClient: PaystackClient,
     supabaseUrl: string,
     supabaseKey: string,
-    automationWebhooks: AutomationWebhook[] = []
+    automationWebhooks: AutomationWebhook[] = [],
+    options: WebhookHandlerOptions = {}
   ) {
     this.paystackClient = paystackClient;
     this.automationWebhooks = automationWebhooks;
     this.supabaseUrl = supabaseUrl;
     this.supabaseKey = supabaseKey;
+    this.allowedIps = options.allowedIps && new Set(options.allowedIps.map(normalizeIp));
+    this.maxEventAgeMs = options.maxEventAgeMs ?? defaultMaxEventAgeMs;
+    this.supabaseClient = createSupabaseClient({ url: supabaseUrl, anonKey: supabaseKey, transport: options.transport || fetchTransport });
+    this.eventStore = options.eventStore || createSupabaseWebhookEventStore(this.supabaseClient);
+    this.automationOutbox = options.automationOutbox || createSupabaseAutomationOutbox(this.supabaseClient);
+    this.inbox = options.inbox || createSupabaseWebhookInbox(this.supabaseClient);
+    this.processInline = options.processInline ?? false;
+    this.journal = options.journal || createSupabaseWebhookJournal(this.supabaseClient);
+    this.automationHealth = options.automationHealth || createAutomationHealthTracker();
+    this.payoutManager = createPayoutManager(paystackClient, this.supabaseClient);
+    this.refundManager = createRefundManager(paystackClient, this.supabaseClient);
+    this.savedCardManager = createSavedCardManager(paystackClient, this.supabaseClient);
+    this.subscriptionManager = createSubscriptionManager(paystackClient, this.supabaseClient, options.premiumPlan);
+    this.disputeManager = createDisputeManager(paystackClient, this.supabaseClient);
+    this.paymentVerifier = createPaymentVerifier(paystackClient, this.supabaseClient);
+    this.orderPaymentManager = createOrderPaymentManager(this.supabaseClient);
+    this.splitManager = createSplitManager(paystackClient, this.supabaseClient);
   }
 
   /**
    * Process Paystack webhook events
-   * Foundation for Manus enhancement
+   * Validates and stores the event, then acknowledges it. WebhookProcessingWorker runs the handlers
+   * Every request is journaled with its outcome, rejected ones included
    */
   async processPaystackWebhook(
     payload: string,
-    signature: string
+    signature: string,
+    context: WebhookRequestContext = {}
   ): Promise<WebhookProcessingResult> {
+    const startedAt = Date.now();
+    const request: JournalRequest = {
+      received_at: new Date(startedAt).toISOString(),
+      source_ip: context.sourceIp ?? null,
+      headers: context.headers ?? {},
+      raw_body: payload,
+      signature: signature || null,
+      signature_check: signature ? this.paystackClient.verifyWebhookSignature(payload, signature) : 'missing'
+    };
+
+    let result: WebhookProcessingResult;
     try {
-      // Validate webhook signature
-      if (!this.paystackClient.validateWebhook(payload, signature)) {
-        return {
-          success: false,
-          message: 'Invalid webhook signature'
-        };
+      result = await this.handleRequest(payload, request.signature_check, context);
+    } catch (error) {
+      await this.journalRequest(request, startedAt, { success: false, code: 'processing_failed', message: (error as Error).message });
+      throw error;
+    }
+
+    await this.journalRequest(request, startedAt, result);
+    return result;
+  }
+
+  /**
+   * Re-run a journaled payload through the handlers, e.g. after fixing a bug
+   * Signature and age checks are skipped, the journal recorded the signature check at receipt.
+   * Events already processed are reported as duplicates unless force is set
+   */
+  async replayPaystackWebhook(payload: string, options: WebhookReplayOptions = {}): Promise<WebhookProcessingResult> {
+    const parsed = this.parseEvent(payload);
+    if ('result' in parsed) {
+      return parsed.result;
+    }
+
+    const { event } = parsed;
+    const eventKey = webhookEventKey(event);
+    if (!this.processInline) {
+      let queued: WebhookInboxRecord | null;
+      try {
+        queued = await this.inbox.findByEventKey(eventKey);
+      } catch (error) {
+        console.error('Webhook inbox error:', error);
+        return { success: false, code: 'processing_failed', message: `Webhook inbox lookup failed: ${(error as Error).message}` };
+      }
+      if (queued) {
+        return await this.replayQueued(queued, event, options);
+      }
+    }
+    if (!options.force) {
+      return await this.replayUnprocessed(eventKey, event, options.dryRun ?? false);
+    }
+    if (options.dryRun) {
+      return { success: true, message: `Dry run, ${event.event} (${eventKey}) would be processed`, data: { eventKey } };
+    }
+
+    try {
+      const result = await this.routeEvent(event);
+      return { code: 'processed', ...result };
+    } catch (error) {
+      console.error('Webhook replay error:', error);
+      return { success: false, code: 'processing_failed', message: `Webhook replay failed: ${(error as Error).message}` };
+    }
+  }
+
+  /**
+   * Replay an event that went through the inbox, going by the status the worker left it in
+   * A failed event is run here and then resolved, so the worker never runs it again and its key unblocks
+   */
+  private async replayQueued(
+    record: WebhookInboxRecord,
+    event: PaystackWebhookEvent,
+    options: WebhookReplayOptions
+  ): Promise<WebhookProcessingResult> {
+    const label = `${event.event} (${record.event_key})`;
+    if (record.status === 'pending' || record.status === 'processing') {
+      return { success: true, code: 'duplicate', message: `Event ${label} is queued, the worker will process it` };
+    }
+    if (record.status !== 'failed' && !options.force) {
+      return { success: true, code: 'duplicate', message: `Event ${label} already ${record.status}` };
+    }
+    if (options.dryRun) {
+      return { success: true, message: `Dry run, ${label} would be processed`, data: { eventKey: record.event_key } };
+    }
+
+    try {
+      const result = await this.routeEvent(event);
+      if (result.success && record.status === 'failed') {
+        // Side effects already ran, like a dedup completion this must not turn into a failed replay
+        await this.inbox.resolve(record.id, 'Replayed from the webhook journal').catch(resolveError => {
+          console.error('Webhook inbox resolve error:', resolveError);
+        });
       }
+      return { code: 'processed', ...result };
+    } catch (error) {
+      console.error('Webhook replay error:', error);
+      return { success: false, code: 'processing_failed', message: `Webhook replay failed: ${(error as Error).message}` };
+    }
+  }
+
+  // Replay through the dedup store, so an event that was already handled runs no handlers
+  // Only for events that never reached the inbox, e.g. ones processed inline
+  private async replayUnprocessed(
+    eventKey: string,
+    event: PaystackWebhookEvent,
+    dryRun: boolean
+  ): Promise<WebhookProcessingResult> {
+    try {
+      const processed = dryRun
+        ? await this.eventStore.isProcessed(eventKey)
+        : !(await this.eventStore.claim(eventKey, event.event));
+      if (processed) {
+        return { success: true, code: 'duplicate', message: `Event ${event.event} (${eventKey}) already processed` };
+      }
+    } catch (error) {
+      console.error('Webhook dedup store error:', error);
+      return { success: false, code: 'processing_failed', message: `Webhook dedup check failed: ${(error as Error).message}` };
+    }
+
+    if (dryRun) {
+      return { success: true, message: `Dry run, ${event.event} (${eventKey}) would be processed`, data: { eventKey } };
+    }
+    return await this.processClaimed(eventKey, event);
+  }
+
+  private async handleRequest(
+    payload: string,
+    signatureCheck: PaystackWebhookSignatureCheck | 'missing',
+    context: WebhookRequestContext
+  ): Promise<WebhookProcessingResult> {
+    const rejection = this.checkRequest(signatureCheck, context);
+    if (rejection) {
+      console.warn(`Webhook rejected (${rejection.code}): ${rejection.message}`);
+      return rejection;
+    }
+
+    const parsed = this.parseEvent(payload);
+    if ('result' in parsed) {
+      return parsed.result;
+    }
+
+    const { event } = parsed;
+    if (this.isStale(event)) {
+      console.warn(`Webhook rejected (stale_event): ${event.event}`);
+      return { success: false, code: 'stale_event', message: `Event ${event.event} is older than the replay window` };
+    }
+
+    const eventKey = webhookEventKey(event);
+    try {
+      if (!(await this.eventStore.claim(eventKey, event.event))) {
+        console.log(`Duplicate webhook acknowledged: ${eventKey}`);
+        return { success: true, code: 'duplicate', message: `Event ${event.event} already processed` };
+      }
+    } catch (error) {
+      // Without the store we can't rule out a double credit, let Paystack retry later
+      console.error('Webhook dedup store error:', error);
+      return { success: false, code: 'processing_failed', message: `Webhook dedup check failed: ${(error as Error).message}` };
+    }
+
+    if (!this.processInline) {
+      return await this.acceptEvent(eventKey, event);
+    }
+    return await this.processClaimed(eventKey, event);
+  }
 
-      const event: PaystackWebhookEvent = JSON.parse(payload);
-      
-      // Process different event types
-      switch (event.event) {
-        case 'charge.success':
-          return await this.handleSuccessfulPayment(event);
-        
-        case 'charge.failed':
-          return await this.handleFailedPayment(event);
-        
-        case 'transfer.success':
-          return await this.handleSuccessfulTransfer(event);
-        
-        case 'transfer.failed':
-          return await this.handleFailedTransfer(event);
-        
-        default:
-          console.log(`Unhandled webhook event: ${event.event}`);
-          return {
-            success: true,
-            message: `Event ${event.event} received but not processed`
-          };
+  /**
+   * Run the handlers for an event claimed in the dedup store
+   * The claim is completed on success and released on failure so a retry can run it again
+   */
+  private async processClaimed(eventKey: string, event: PaystackWebhookEvent): Promise<WebhookProcessingResult> {
+    try {
+      const result = await this.routeEvent(event);
+      if (result.success) {
+        // Side effects already ran, a failed bookkeeping write must not turn into a retry
+        await this.eventStore.complete(eventKey).catch(completeError => {
+          console.error('Webhook dedup completion error:', completeError);
+        });
+      } else {
+        await this.eventStore.release(eventKey);
       }
+      return { code: 'processed', ...result };
     } catch (error) {
       console.error('Webhook processing error:', error);
+      await this.eventStore.release(eventKey).catch(releaseError => {
+        console.error('Webhook dedup release error:', releaseError);
+      });
       return {
         success: false,
-        message: `Webhook processing failed: ${error.message}`
+        code: 'processing_failed',
+        message: `Webhook processing failed: ${(error as Error).message}`
       };
     }
   }
 
+  /**
+   * Run the handlers for an accepted event
+   * Called by WebhookProcessingWorker, errors propagate so the worker can retry
+   */
+  async processEvent(event: PaystackWebhookEvent): Promise<WebhookProcessingResult> {
+    return await this.routeEvent(event);
+  }
+
+  /**
+   * Store a claimed event for the worker
+   * Once it's in the inbox the worker owns retries, so the dedup claim is completed straight away
+   */
+  private async acceptEvent(eventKey: string, event: PaystackWebhookEvent): Promise<WebhookProcessingResult> {
+    try {
+      await this.inbox.enqueue(eventKey, event);
+    } catch (error) {
+      console.error('Webhook inbox error:', error);
+      await this.eventStore.release(eventKey).catch(releaseError => {
+        console.error('Webhook dedup release error:', releaseError);
+      });
+      return { success: false, code: 'processing_failed', message: `Webhook could not be stored: ${(error as Error).message}` };
+    }
+
+    await this.eventStore.complete(eventKey).catch(completeError => {
+      console.error('Webhook dedup completion error:', completeError);
+    });
+    return { success: true, code: 'accepted', message: `Event ${event.event} accepted`, data: { eventKey } };
+  }
+
+  /**
+   * Journal failures are logged, never passed on to Paystack
+   * Accepted events carry their key so the worker can write the handler's outcome back
+   */
+  private async journalRequest(
+    request: JournalRequest,
+    startedAt: number,
+    result: WebhookProcessingResult
+  ): Promise<void> {
+    try {
+      await this.journal.record({
+        ...request,
+        event_key: result.code === 'accepted' ? result.data.eventKey : null,
+        success: result.success,
+        result_code: result.code ?? null,
+        result_message: result.message,
+        duration_ms: Date.now() - startedAt
+      });
+    } catch (error) {
+      console.error('Webhook journal error:', error);
+    }
+  }
+
+  /**
+   * Everything that can be rejected before the payload is trusted
+   */
+  private checkRequest(
+    signatureCheck: PaystackWebhookSignatureCheck | 'missing',
+    context: WebhookRequestContext
+  ): WebhookProcessingResult | null {
+    if (this.allowedIps) {
+      if (!context.sourceIp) {
+        return { success: false, code: 'source_ip_unavailable', message: 'IP allowlist is enabled but no source IP was provided' };
+      }
+      if (!this.allowedIps.has(normalizeIp(context.sourceIp))) {
+        return { success: false, code: 'ip_not_allowed', message: `Source IP ${context.sourceIp} is not allowed` };
+      }
+    }
+
+    if (signatureCheck === 'missing') {
+      return { success: false, code: 'missing_signature', message: 'Missing webhook signature' };
+    }
+    if (signatureCheck === 'secret_not_configured') {
+      return { success: false, code: 'secret_not_configured', message: 'No webhook secret is configured' };
+    }
+    if (signatureCheck === 'invalid') {
+      return { success: false, code: 'invalid_signature', message: 'Invalid webhook signature' };
+    }
+    if (signatureCheck === 'valid_secondary') {
+      console.warn('Webhook signed with the secondary secret, finish the key rotation');
+    }
+
+    return null;
+  }
+
+  /**
+   * JSON and shape checks, unknown event types are acknowledged and ignored
+   */
+  private parseEvent(payload: string): { event: PaystackWebhookEvent } | { result: WebhookProcessingResult } {
+    let raw: any;
+    try {
+      raw = JSON.parse(payload);
+    } catch (error) {
+      return { result: { success: false, code: 'invalid_payload', message: 'Webhook payload is not valid JSON' } };
+    }
+
+    if (typeof raw?.event === 'string' && !isPaystackWebhookEventType(raw.event)) {
+      console.log(`Unhandled webhook event: ${raw.event}`);
+      return { result: { success: true, code: 'ignored', message: `Event ${raw.event} received but not processed` } };
+    }
+
+    try {
+      return { event: parsePaystackWebhookEvent(raw) };
+    } catch (error) {
+      if (error instanceof PaystackWebhookPayloadError) {
+        console.warn(`Webhook rejected (invalid_payload): ${(error as Error).message}`);
+        return { result: { success: false, code: 'invalid_payload', message: error.message } };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Paystack events carry no delivery timestamp, so use the time the payload itself changed
+   * Events without a reliable one (e.g. subscription.*) are left to deduplication
+   */
+  private isStale(event: PaystackWebhookEvent): boolean {
+    if (!this.maxEventAgeMs) {
+      return false;
+    }
+
+    const data = (event.data || {}) as Record<string, any>;
+    const fields = staleCheckFields.find(([prefix]) => event.event.startsWith(prefix))?.[1] || [];
+    const timestamps = fields
+      .map(field => (data[field] ? Date.parse(data[field]) : NaN))
+      .filter(value => !Number.isNaN(value));
+
+    if (timestamps.length === 0) {
+      return false;
+    }
+    return Date.now() - Math.max(...timestamps) > this.maxEventAgeMs;
+  }
+
+  private async routeEvent(event: PaystackWebhookEvent): Promise<WebhookProcessingResult> {
+    switch (event.event) {
+      case 'charge.success':
+        return await this.handleSuccessfulPayment(event);
+
+      case 'charge.failed':
+        return await this.handleFailedPayment(event);
+
+      case 'transfer.success':
+        return await this.handleSuccessfulTransfer(event);
+
+      case 'transfer.failed':
+      case 'transfer.reversed':
+        return await this.handleFailedTransfer(event);
+
+      case 'refund.pending':
+      case 'refund.processing':
+      case 'refund.processed':
+      case 'refund.failed':
+        return await this.handleRefund(event);
+
+      case 'subscription.create':
+        return await this.handleSubscriptionCreated(event);
+
+      case 'subscription.disable':
+      case 'subscription.not_renew':
+        return await this.handleSubscriptionDisabled(event);
+
+      case 'invoice.payment_failed':
+        return await this.handleInvoicePaymentFailed(event);
+
+      case 'invoice.update':
+        return await this.handleInvoiceUpdated(event);
+
+      case 'charge.dispute.create':
+      case 'charge.dispute.remind':
+      case 'charge.dispute.resolve':
+        return await this.handleDispute(event);
+
+      default:
+        console.log(`Unhandled webhook event: ${event.event}`);
+        return {
+          success: true,
+          code: 'ignored',
+          message: `Event ${event.event} received but not processed`
+        };
+    }
+  }
+
   /**
    * Handle successful payment webhook
    * Foundation for order completion and automation triggers
    */
-  private async handleSuccessfulPayment(event: PaystackWebhookEvent): Promise<WebhookProcessingResult> {
+  private async handleSuccessfulPayment(event: PaystackChargeEvent): Promise<WebhookProcessingResult> {
     try {
       const { data } = event;
       const { reference, amount, metadata } = data;
 
-      // Update order status in Supabase
-      await this.updateOrderStatus(reference, 'paid', {
-        paystack_transaction_id: data.id,
-        amount_paid: amount,
-        paid_at: data.paid_at,
-        gateway_response: data.gateway_response
-      });
-
-      // Trigger automation workflows
-      const automationResult = await this.triggerAutomation('payment.success', {
+      // Built before anything is written, so a payload problem can't surface halfway through settlement
+      const successEvent = createDMShopEvent('payment.success', {
         reference,
         amount,
         customer: data.customer,
@@ -113,16 +566,45 @@ export class DMShopWebhookHandler {
         store_id: metadata?.store_id
       });
 
-      // Process multi-vendor payment splits if applicable
-      if (metadata?.split_code) {
-        await this.processPaymentSplits(reference, metadata);
+      // Re-verify with Paystack and check against the stored order before marking it paid
+      const verification = await this.paymentVerifier.confirmPayment(reference);
+
+      if (verification.outcome === 'under_review') {
+        const reviewTriggered = await this.triggerAutomation('payment.review_required', {
+          reference,
+          amount,
+          order_id: verification.order?.id,
+          review_id: verification.review.id,
+          reason: verification.review.reason
+        });
+
+        return {
+          success: true,
+          message: `Payment queued for review: ${verification.review.reason}`,
+          automationTriggered: reviewTriggered,
+          data: { reference, reviewId: verification.review.id, reason: verification.review.reason }
+        };
+      }
+
+      // Credit each store, a retry only picks up stores an earlier attempt didn't reach
+      const settlement = await this.orderPaymentManager.settleOrder(verification.order, event);
+      await this.splitManager.deactivateOrderSplit(verification.order.id);
+      await this.notifySellers(reference, settlement);
+
+      // Also run for an order that was already paid, a retry may be finishing an attempt that failed here
+      // Both are idempotent: the automation is queued once per reference and cards are kept once per signature
+      const automationResult = await this.queueAutomation(successEvent, `payment.success:${reference}`);
+
+      // Keep the card for one-click checkout when the customer opted in
+      if (metadata?.save_card && metadata?.user_id) {
+        await this.saveCustomerCard(metadata.user_id, event);
       }
 
       return {
         success: true,
-        message: 'Payment processed successfully',
+        message: verification.outcome === 'already_paid' ? 'Order already paid' : 'Payment processed successfully',
         automationTriggered: automationResult,
-        data: { reference, amount }
+        data: { reference, amount, orderId: verification.order.id, storesCredited: settlement.credited.length }
       };
     } catch (error) {
       console.error('Payment processing error:', error);
@@ -133,25 +615,24 @@ export class DMShopWebhookHandler {
   /**
    * Handle failed payment webhook
    */
-  private async handleFailedPayment(event: PaystackWebhookEvent): Promise<WebhookProcessingResult> {
+  private async handleFailedPayment(event: PaystackChargeEvent): Promise<WebhookProcessingResult> {
     try {
       const { data } = event;
       const { reference, metadata } = data;
 
-      // Update order status
-      await this.updateOrderStatus(reference, 'failed', {
-        failure_reason: data.gateway_response,
-        failed_at: new Date().toISOString()
-      });
-
-      // Trigger automation for failed payment
-      const automationResult = await this.triggerAutomation('payment.failed', {
+      const failedEvent = createDMShopEvent('payment.failed', {
         reference,
         customer: data.customer,
         metadata,
         failure_reason: data.gateway_response
       });
 
+      // Update order status
+      await this.paymentVerifier.recordFailedPayment(reference, data.gateway_response);
+
+      // Trigger automation for failed payment
+      const automationResult = await this.queueAutomation(failedEvent);
+
       return {
         success: true,
         message: 'Failed payment processed',
@@ -167,16 +648,26 @@ export class DMShopWebhookHandler {
   /**
    * Handle successful transfer (seller payout)
    */
-  private async handleSuccessfulTransfer(event: PaystackWebhookEvent): Promise<WebhookProcessingResult> {
+  private async handleSuccessfulTransfer(event: PaystackTransferEvent): Promise<WebhookProcessingResult> {
     try {
-      // Update seller payout status
+      const transfer = event.data;
+
+      // Settle the payout and its ledger row
+      const payout = await this.payoutManager.settleTransfer(transfer);
+
       // Trigger seller notification automation
-      const automationResult = await this.triggerAutomation('payout.success', event.data);
+      const automationResult = await this.triggerAutomation('payout.success', {
+        ...event.data,
+        payout_id: payout?.id,
+        store_id: payout?.store_id,
+        seller_id: payout?.user_id
+      });
 
       return {
         success: true,
         message: 'Transfer processed successfully',
-        automationTriggered: automationResult
+        automationTriggered: automationResult,
+        data: { reference: transfer.reference, payoutId: payout?.id }
       };
     } catch (error) {
       console.error('Transfer processing error:', error);
@@ -185,17 +676,30 @@ export class DMShopWebhookHandler {
   }
 
   /**
-   * Handle failed transfer
+   * Handle failed or reversed transfer
+   * The payout amount is returned to the store's available balance
    */
-  private async handleFailedTransfer(event: PaystackWebhookEvent): Promise<WebhookProcessingResult> {
+  private async handleFailedTransfer(event: PaystackTransferEvent): Promise<WebhookProcessingResult> {
     try {
-      // Update payout status and trigger retry logic
-      const automationResult = await this.triggerAutomation('payout.failed', event.data);
+      const transfer = event.data;
+      const status = event.event === 'transfer.reversed' ? 'reversed' : 'failed';
+
+      // Reverse the payout and restore the held balance
+      const payout = await this.payoutManager.reverseTransfer(transfer, status);
+
+      const automationResult = await this.triggerAutomation('payout.failed', {
+        ...event.data,
+        payout_id: payout?.id,
+        store_id: payout?.store_id,
+        seller_id: payout?.user_id,
+        payout_status: status
+      });
 
       return {
         success: true,
-        message: 'Failed transfer processed',
-        automationTriggered: automationResult
+        message: `Transfer ${status} processed`,
+        automationTriggered: automationResult,
+        data: { reference: transfer.reference, payoutId: payout?.id }
       };
     } catch (error) {
       console.error('Failed transfer processing error:', error);
@@ -204,136 +708,283 @@ export class DMShopWebhookHandler {
   }
 
   /**
-   * Update order status in Supabase
-   * Foundation for Manus enhancement with proper error handling
+   * Handle refund progress, refund.processed completes the refund and refund.failed releases the held seller funds
    */
-  private async updateOrderStatus(
-    reference: string,
-    status: string,
-    additionalData: Record<string, any> = {}
-  ): Promise<void> {
+  private async handleRefund(event: PaystackRefundEvent): Promise<WebhookProcessingResult> {
     try {
-      const response = await fetch(`${this.supabaseUrl}/rest/v1/orders`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${this.supabaseKey}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=minimal'
-        },
-        body: JSON.stringify({
-          payment_status: status,
-          updated_at: new Date().toISOString(),
-          ...additionalData
-        })
-      });
+      const refund = await this.refundManager.reconcileRefund(event);
 
-      if (!response.ok) {
-        throw new Error(`Failed to update order: ${response.statusText}`);
-      }
+      return {
+        success: true,
+        message: refund ? `Refund ${refund.status}` : 'Refund received for no pending DM Shop refund',
+        data: { reference: event.data.transaction_reference, refundId: refund?.id, status: refund?.status }
+      };
     } catch (error) {
-      console.error('Order update error:', error);
+      console.error('Refund processing error:', error);
       throw error;
     }
   }
 
   /**
-   * Process multi-vendor payment splits
-   * Foundation for complex seller payout logic
+   * Save a reusable card authorization
+   * A failure here must not fail the payment, so it is only logged
    */
-  private async processPaymentSplits(
-    reference: string,
-    metadata: Record<string, any>
-  ): Promise<void> {
+  private async saveCustomerCard(userId: string, event: PaystackChargeEvent): Promise<void> {
     try {
-      // Calculate and record individual seller earnings
-      // Update seller balances
-      // Trigger individual seller notifications
-      
-      console.log(`Processing payment splits for reference: ${reference}`);
-      
-      // This will be enhanced by Manus with proper split calculation
-      // and seller balance updates
+      await this.savedCardManager.saveAuthorization(
+        userId,
+        event.data.customer.email,
+        event.data.authorization
+      );
     } catch (error) {
-      console.error('Payment split processing error:', error);
+      console.error('Saved card processing error:', error);
+    }
+  }
+
+  /**
+   * Handle new premium seller subscription
+   */
+  private async handleSubscriptionCreated(event: PaystackSubscriptionEvent): Promise<WebhookProcessingResult> {
+    try {
+      const subscription = event.data;
+      const store = await this.subscriptionManager.handleSubscriptionCreated(subscription);
+
+      const automationResult = store
+        ? await this.triggerAutomation('seller.premium_activated', {
+            store_id: store.id,
+            seller_id: store.user_id,
+            subscription_code: subscription.subscription_code
+          })
+        : false;
+
+      return {
+        success: true,
+        message: store ? 'Premium subscription activated' : 'Subscription received for unknown store',
+        automationTriggered: automationResult,
+        data: { subscriptionCode: subscription.subscription_code, storeId: store?.id }
+      };
+    } catch (error) {
+      console.error('Subscription creation processing error:', error);
       throw error;
     }
   }
 
   /**
-   * Trigger automation workflows (Zapier, n8n, Buildship)
-   * Foundation for external automation integrations
+   * Handle cancelled or non-renewing premium subscription
    */
-  private async triggerAutomation(
-    eventType: string,
-    data: any
-  ): Promise<boolean> {
+  private async handleSubscriptionDisabled(event: PaystackSubscriptionEvent): Promise<WebhookProcessingResult> {
     try {
-      const relevantWebhooks = this.automationWebhooks.filter(
-        webhook => webhook.events.includes(eventType)
-      );
+      const subscription = event.data;
+      const store = await this.subscriptionManager.handleSubscriptionDisabled(subscription);
 
-      if (relevantWebhooks.length === 0) {
-        return false;
-      }
+      const automationResult = store
+        ? await this.triggerAutomation('seller.premium_cancelled', {
+            store_id: store.id,
+            seller_id: store.user_id,
+            subscription_code: subscription.subscription_code,
+            premium_until: store.premium_grace_until
+          })
+        : false;
 
-      const promises = relevantWebhooks.map(webhook => 
-        this.sendAutomationWebhook(webhook, eventType, data)
-      );
+      return {
+        success: true,
+        message: 'Subscription cancellation processed',
+        automationTriggered: automationResult,
+        data: { subscriptionCode: subscription.subscription_code, storeId: store?.id }
+      };
+    } catch (error) {
+      console.error('Subscription cancellation processing error:', error);
+      throw error;
+    }
+  }
 
-      await Promise.allSettled(promises);
-      return true;
+  /**
+   * Handle failed premium renewal
+   */
+  private async handleInvoicePaymentFailed(event: PaystackInvoiceEvent): Promise<WebhookProcessingResult> {
+    try {
+      const invoice = event.data;
+      const store = await this.subscriptionManager.handleInvoicePaymentFailed(invoice);
+
+      const automationResult = store
+        ? await this.triggerAutomation('seller.premium_payment_failed', {
+            store_id: store.id,
+            seller_id: store.user_id,
+            invoice_code: invoice.invoice_code,
+            amount: invoice.amount,
+            premium_until: store.premium_grace_until
+          })
+        : false;
+
+      return {
+        success: true,
+        message: 'Failed subscription payment processed',
+        automationTriggered: automationResult,
+        data: { invoiceCode: invoice.invoice_code, storeId: store?.id }
+      };
     } catch (error) {
-      console.error('Automation trigger error:', error);
-      return false;
+      console.error('Subscription payment failure processing error:', error);
+      throw error;
     }
   }
 
   /**
-   * Send webhook to automation platforms
+   * Handle updated premium invoice, a paid invoice ends any grace period
    */
-  private async sendAutomationWebhook(
-    webhook: AutomationWebhook,
-    eventType: string,
-    data: any
-  ): Promise<void> {
-    const maxRetries = webhook.retryAttempts || 3;
-    let attempt = 0;
+  private async handleInvoiceUpdated(event: PaystackInvoiceEvent): Promise<WebhookProcessingResult> {
+    try {
+      const invoice = event.data;
+      const store = await this.subscriptionManager.handleInvoiceUpdated(invoice);
 
-    while (attempt < maxRetries) {
-      try {
-        const response = await fetch(webhook.url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'X-DM-Shop-Event': eventType,
-            'X-DM-Shop-Timestamp': new Date().toISOString(),
-            ...webhook.headers
-          },
-          body: JSON.stringify({
-            event: eventType,
-            timestamp: new Date().toISOString(),
-            data
+      return {
+        success: true,
+        message: store ? 'Subscription invoice paid' : 'Subscription invoice update received',
+        data: { invoiceCode: invoice.invoice_code, storeId: store?.id }
+      };
+    } catch (error) {
+      console.error('Subscription invoice processing error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle chargeback opened, reminder and resolution
+   * Seller funds stay frozen from create until resolve
+   */
+  private async handleDispute(event: PaystackDisputeEvent): Promise<WebhookProcessingResult> {
+    try {
+      const dispute = event.data;
+      const stage = event.event.replace('charge.dispute.', '') as 'create' | 'remind' | 'resolve';
+
+      let record: DisputeRecord;
+      let automationStage: 'dispute_opened' | 'dispute_reminder' | 'dispute_resolved';
+      if (stage === 'create') {
+        record = await this.disputeManager.openDispute(dispute);
+        automationStage = 'dispute_opened';
+      } else if (stage === 'remind') {
+        record = await this.disputeManager.recordReminder(dispute);
+        automationStage = 'dispute_reminder';
+      } else {
+        record = await this.disputeManager.closeDispute(dispute);
+        automationStage = 'dispute_resolved';
+      }
+
+      const common = {
+        dispute_id: dispute.id,
+        order_id: record.order_id,
+        payment_reference: record.payment_reference,
+        status: record.status,
+        due_at: record.due_at
+      };
+
+      const results = await Promise.all([
+        ...(record.freezes || []).map(freeze =>
+          this.triggerAutomation(`seller.${automationStage}` as const, {
+            ...common,
+            store_id: freeze.store_id,
+            seller_id: freeze.seller_id,
+            amount: freeze.amount
           })
-        });
+        ),
+        this.triggerAutomation(`customer.${automationStage}` as const, {
+          ...common,
+          email: dispute.customer?.email,
+          amount: record.amount
+        })
+      ]);
 
-        if (response.ok) {
-          console.log(`Automation webhook sent successfully to ${webhook.url}`);
-          return;
-        } else {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-      } catch (error) {
-        attempt++;
-        console.error(`Automation webhook attempt ${attempt} failed:`, error);
-        
-        if (attempt < maxRetries) {
-          // Exponential backoff
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-        }
+      return {
+        success: true,
+        message: `Dispute ${stage} processed`,
+        automationTriggered: results.some(Boolean),
+        data: { disputeId: dispute.id, status: record.status, dueAt: record.due_at }
+      };
+    } catch (error) {
+      console.error('Dispute processing error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Notify each seller on a settled order
+   * Runs for every store on each attempt, keyed per store, so a retry after a failed enqueue still notifies everyone once
+   */
+  private async notifySellers(reference: string, settlement: OrderSettlement): Promise<boolean> {
+    const results = await Promise.all(
+      settlement.orderPayment.paymentSplits.map(split =>
+        this.triggerAutomation('seller.sale', {
+          reference,
+          order_id: settlement.orderPayment.orderId,
+          store_id: split.storeId,
+          seller_id: split.sellerId,
+          amount: split.amount.toAmount(),
+          commission: split.commission.toAmount()
+        }, `seller.sale:${reference}:${split.storeId}`)
+      )
+    );
+    return results.some(Boolean);
+  }
+
+  /**
+   * Trigger automation workflows (Zapier, n8n, Buildship)
+   * Queues one outbox event per matching endpoint, AutomationDeliveryWorker sends them
+   * An event missing from the catalog or a malformed payload throws, that's a bug rather than a delivery problem
+   */
+  private async triggerAutomation<T extends DMShopEventType>(
+    eventType: T,
+    data: DMShopEventPayloads[T],
+    dedupKey?: string
+  ): Promise<boolean> {
+    return await this.queueAutomation(createDMShopEvent(eventType, data), dedupKey);
+  }
+
+  /**
+   * Queue an envelope built earlier, e.g. before the handler's side effects ran
+   * With a dedupKey the event is queued at most once per endpoint, however often this runs
+   * An outbox failure is rethrown so the inbox worker retries the whole webhook rather than losing the event
+   */
+  private async queueAutomation(event: DMShopEventEnvelope, dedupKey?: string): Promise<boolean> {
+    // The compiler can't narrow a generic envelope into the DMShopEvent union, createDMShopEvent already checked it
+    const envelope = event as DMShopEvent;
+    const eventType = envelope.event;
+
+    try {
+      // Shaped per endpoint before it's stored, so dropped fields never reach the outbox table
+      const entries = this.automationWebhooks.flatMap(webhook => {
+        const payload = routeAutomationEvent(webhook, envelope);
+        return payload
+          ? [{ eventType, url: webhook.url, payload, maxAttempts: webhook.retryAttempts || defaultAutomationAttempts, dedupKey }]
+          : [];
+      });
+
+      if (entries.length === 0) {
+        return false;
       }
+
+      await this.automationOutbox.enqueue(entries);
+      return true;
+    } catch (error) {
+      console.error('Automation trigger error:', error);
+      throw error;
     }
+  }
 
-    console.error(`Failed to send automation webhook after ${maxRetries} attempts`);
+  /**
+   * Delivery worker for this handler's outbox and endpoints, sharing its health tracker
+   */
+  createAutomationDeliveryWorker(options: Omit<AutomationWorkerOptions, 'health'> = {}): AutomationDeliveryWorker {
+    return createAutomationDeliveryWorker(this.automationOutbox, this.automationWebhooks, {
+      ...options,
+      health: this.automationHealth
+    });
+  }
+
+  /**
+   * Circuit state, success rate and latency for each automation endpoint, for a status page
+   * Health is kept in memory, so this only sees deliveries made in this process by a worker sharing the tracker
+   */
+  getAutomationHealth(): AutomationEndpointHealth[] {
+    return this.automationHealth.snapshot(this.automationWebhooks.map(webhook => webhook.url));
   }
 
   /**
@@ -358,13 +1009,15 @@ export function createWebhookHandler(
   paystackClient: PaystackClient,
   supabaseUrl: string,
   supabaseKey: string,
-  automationWebhooks: AutomationWebhook[] = []
+  automationWebhooks: AutomationWebhook[] = [],
+  options: WebhookHandlerOptions = {}
 ): DMShopWebhookHandler {
   return new DMShopWebhookHandler(
     paystackClient,
     supabaseUrl,
     supabaseKey,
-    automationWebhooks
+    automationWebhooks,
+    options
   );
 }
 
@@ -381,7 +1034,7 @@ export const automationConfigs = {
 
   n8n: (webhookUrl: string): AutomationWebhook => ({
     url: webhookUrl,
-    events: ['payment.success', 'payment.failed', 'order.created', 'order.completed'],
+    events: ['payment.success', 'payment.failed', 'order.created', 'order.delivered'],
     headers: {
       'X-N8N-Source': 'dm-shop'
     },
@@ -390,7 +1043,7 @@ export const automationConfigs = {
 
   buildship: (webhookUrl: string): AutomationWebhook => ({
     url: webhookUrl,
-    events: ['payment.success', 'seller.payout', 'customer.notification'],
+    events: ['payment.success', 'payout.success', 'seller.sale'],
     headers: {
       'X-Buildship-Source': 'dm-shop-marketplace'
     },
@@ -398,3 +1051,7 @@ export const automationConfigs = {
   })
 };
 
+// Node reports IPv4 clients on dual-stack sockets as ::ffff:a.b.c.d
+function normalizeIp(ip: string): string {
+  return ip.trim().replace(/^::ffff:/, '');
+}
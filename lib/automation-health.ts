@@ -0,0 +1,207 @@
+// DM Shop Automation Endpoint Health
+// Circuit breakers, success rate and latency for each automation endpoint (webhooks, n8n, Zapier, Buildship)
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures that open the circuit, default 5
+  resetTimeoutMs?: number; // How long an open circuit waits before a trial request, default 60 seconds
+  windowSize?: number; // Recent requests used for success rate and latency, default 100
+}
+
+// What a status page reads, rates and latencies cover the last windowSize requests
+export interface AutomationEndpointHealth {
+  url: string;
+  state: CircuitState;
+  openedAt: string | null;
+  retryAt: string | null; // When an open circuit lets a trial request through
+  consecutiveFailures: number;
+  requests: number;
+  successRate: number | null; // 0 to 1, null before the first request
+  averageLatencyMs: number | null;
+  p95LatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+interface RequestSample {
+  ok: boolean;
+  latencyMs: number;
+}
+
+// 4xx responses other than these won't succeed on retry
+const retryableStatusCodes = new Set([408, 425, 429]);
+
+/**
+ * Whether an HTTP status means the endpoint is unavailable rather than rejecting the payload
+ */
+export function isRetryableAutomationStatus(status: number): boolean {
+  return status >= 500 || retryableStatusCodes.has(status);
+}
+
+/**
+ * Closed: requests flow. Open: requests are refused until resetTimeoutMs passes.
+ * Half-open: one trial request is let through, its outcome closes or reopens the circuit
+ */
+export class CircuitBreaker {
+  readonly url: string;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private windowSize: number;
+  private state: CircuitState = 'closed';
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private consecutiveFailures = 0;
+  private samples: RequestSample[] = [];
+  private lastSuccessAt: number | null = null;
+  private lastFailureAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(url: string, options: CircuitBreakerOptions = {}) {
+    this.url = url;
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 60000;
+    this.windowSize = options.windowSize ?? 100;
+  }
+
+  /**
+   * Whether a request may be sent now
+   * A true answer in half-open state reserves the trial, so always record the outcome
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.resetTimeoutMs) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * When an open circuit next allows a trial request, null otherwise
+   */
+  retryAt(): Date | null {
+    return this.state === 'open' ? new Date(this.openedAt! + this.resetTimeoutMs) : null;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.addSample({ ok: true, latencyMs });
+    this.lastSuccessAt = Date.now();
+    this.close();
+  }
+
+  /**
+   * Record a failed request
+   * Pass endpointDown = false for a rejection (e.g. 400) that shows the endpoint is reachable,
+   * it counts against the success rate but not towards opening the circuit
+   */
+  recordFailure(latencyMs: number, error: string, endpointDown: boolean = true): void {
+    this.addSample({ ok: false, latencyMs });
+    this.lastFailureAt = Date.now();
+    this.lastError = error;
+
+    if (!endpointDown) {
+      this.close();
+      return;
+    }
+
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`Automation circuit opened for ${this.url} after ${this.consecutiveFailures} failure(s)`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  snapshot(): AutomationEndpointHealth {
+    // Report an elapsed open circuit as half-open without reserving the trial
+    const state = this.state === 'open' && Date.now() - this.openedAt! >= this.resetTimeoutMs ? 'half_open' : this.state;
+    const latencies = this.samples.map(sample => sample.latencyMs).sort((a, b) => a - b);
+    const successes = this.samples.filter(sample => sample.ok).length;
+
+    return {
+      url: this.url,
+      state,
+      openedAt: this.openedAt !== null && state !== 'closed' ? new Date(this.openedAt).toISOString() : null,
+      retryAt: state === 'open' ? this.retryAt()!.toISOString() : null,
+      consecutiveFailures: this.consecutiveFailures,
+      requests: this.samples.length,
+      successRate: this.samples.length ? successes / this.samples.length : null,
+      averageLatencyMs: latencies.length
+        ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+        : null,
+      p95LatencyMs: latencies.length ? latencies[Math.ceil(latencies.length * 0.95) - 1] : null,
+      lastSuccessAt: this.lastSuccessAt !== null ? new Date(this.lastSuccessAt).toISOString() : null,
+      lastFailureAt: this.lastFailureAt !== null ? new Date(this.lastFailureAt).toISOString() : null,
+      lastError: this.lastError
+    };
+  }
+
+  private close(): void {
+    if (this.state !== 'closed') {
+      console.log(`Automation circuit closed for ${this.url}`);
+    }
+    this.state = 'closed';
+    this.openedAt = null;
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+  }
+
+  private addSample(sample: RequestSample): void {
+    this.samples.push(sample);
+    if (this.samples.length > this.windowSize) {
+      this.samples.shift();
+    }
+  }
+}
+
+/**
+ * One circuit breaker per endpoint url
+ * Share one tracker between DMShopWebhookHandler and AutomationDeliveryWorker so the handler reports what the worker saw,
+ * DMShopWebhookHandler.createAutomationDeliveryWorker() does this
+ */
+export class AutomationHealthTracker {
+  private options: CircuitBreakerOptions;
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = options;
+  }
+
+  breaker(url: string): CircuitBreaker {
+    let breaker = this.breakers.get(url);
+    if (!breaker) {
+      breaker = new CircuitBreaker(url, this.options);
+      this.breakers.set(url, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Health of the given endpoints, or of every endpoint seen so far
+   */
+  snapshot(urls?: string[]): AutomationEndpointHealth[] {
+    const targets = urls ?? Array.from(this.breakers.keys());
+    return targets.map(url => this.breaker(url).snapshot());
+  }
+}
+
+// Factory function for a single circuit breaker
+export function createCircuitBreaker(url: string, options: CircuitBreakerOptions = {}): CircuitBreaker {
+  return new CircuitBreaker(url, options);
+}
+
+// Factory function for the automation health tracker
+export function createAutomationHealthTracker(options: CircuitBreakerOptions = {}): AutomationHealthTracker {
+  return new AutomationHealthTracker(options);
+}
@@ -0,0 +1,268 @@
+// DM Shop Automation Outbox
+// Durable queue for outbound automation webhooks (n8n, Zapier, Buildship) with a dead-letter state
+
+import { randomUUID } from 'crypto';
+import { AutomationOutboxRecord, DMShopSupabaseClient } from '../src/supabase-integration';
+
+export interface AutomationOutboxEntry {
+  eventType: string;
+  url: string;
+  payload: AutomationOutboxRecord['payload'];
+  maxAttempts: number;
+  dedupKey?: string; // Entries with the same key and url are queued once, e.g. across webhook retries
+}
+
+export interface AutomationDeliveryFailure {
+  error: string;
+  statusCode?: number;
+  retryAt: Date | null; // null moves the event to the dead-letter queue
+}
+
+/**
+ * Storage for outbound automation events
+ * Events are written during webhook handling and delivered later by AutomationDeliveryWorker
+ */
+export interface AutomationOutbox {
+  enqueue(entries: AutomationOutboxEntry[]): Promise<void>;
+  claimDue(limit: number): Promise<AutomationOutboxRecord[]>;
+  markDelivered(event: AutomationOutboxRecord): Promise<void>;
+  markFailed(event: AutomationOutboxRecord, failure: AutomationDeliveryFailure): Promise<void>;
+  defer(event: AutomationOutboxRecord, retryAt: Date): Promise<void>; // Reschedule without using an attempt
+  listDeadLetters(limit?: number): Promise<AutomationOutboxRecord[]>;
+  replay(id: string): Promise<boolean>;
+}
+
+export interface AutomationOutboxOptions {
+  lockTimeoutMs?: number; // A delivery still locked after this is picked up again, default 2 minutes
+}
+
+const defaultLockTimeoutMs = 2 * 60 * 1000;
+
+/**
+ * Process-local outbox for tests and single-instance deployments
+ * Events don't survive a restart
+ */
+export class InMemoryAutomationOutbox implements AutomationOutbox {
+  private events = new Map<string, AutomationOutboxRecord>();
+  private lockTimeoutMs: number;
+
+  constructor(options: AutomationOutboxOptions = {}) {
+    this.lockTimeoutMs = options.lockTimeoutMs ?? defaultLockTimeoutMs;
+  }
+
+  async enqueue(entries: AutomationOutboxEntry[]): Promise<void> {
+    const now = new Date().toISOString();
+    for (const entry of entries) {
+      const queued = Array.from(this.events.values())
+        .some(event => entry.dedupKey && event.dedup_key === entry.dedupKey && event.webhook_url === entry.url);
+      if (queued) {
+        continue;
+      }
+
+      const id = randomUUID();
+      this.events.set(id, {
+        id,
+        event_type: entry.eventType,
+        webhook_url: entry.url,
+        payload: entry.payload,
+        status: 'pending',
+        attempts: 0,
+        max_attempts: entry.maxAttempts,
+        dedup_key: entry.dedupKey ?? null,
+        next_attempt_at: now,
+        created_at: now,
+        updated_at: now
+      });
+    }
+  }
+
+  async claimDue(limit: number): Promise<AutomationOutboxRecord[]> {
+    const now = Date.now();
+    const claimed: AutomationOutboxRecord[] = [];
+
+    for (const event of this.events.values()) {
+      if (claimed.length >= limit) break;
+
+      const due = event.status === 'pending' && Date.parse(event.next_attempt_at) <= now;
+      const lockExpired = event.status === 'delivering' && now - Date.parse(event.locked_at!) > this.lockTimeoutMs;
+      if (due || lockExpired) {
+        const stamp = new Date(now).toISOString();
+        Object.assign(event, { status: 'delivering', locked_at: stamp, updated_at: stamp });
+        claimed.push({ ...event });
+      }
+    }
+
+    return claimed;
+  }
+
+  async markDelivered(event: AutomationOutboxRecord): Promise<void> {
+    const stored = this.events.get(event.id);
+    if (stored?.status === 'delivering') {
+      Object.assign(stored, deliveredUpdates(event));
+    }
+  }
+
+  async markFailed(event: AutomationOutboxRecord, failure: AutomationDeliveryFailure): Promise<void> {
+    const stored = this.events.get(event.id);
+    if (stored?.status === 'delivering') {
+      Object.assign(stored, failureUpdates(event, failure));
+    }
+  }
+
+  async defer(event: AutomationOutboxRecord, retryAt: Date): Promise<void> {
+    const stored = this.events.get(event.id);
+    if (stored?.status === 'delivering') {
+      Object.assign(stored, deferUpdates(retryAt));
+    }
+  }
+
+  async listDeadLetters(limit: number = 50): Promise<AutomationOutboxRecord[]> {
+    return Array.from(this.events.values())
+      .filter(event => event.status === 'dead')
+      .slice(0, limit)
+      .map(event => ({ ...event }));
+  }
+
+  async replay(id: string): Promise<boolean> {
+    const event = this.events.get(id);
+    if (!event || event.status !== 'dead') {
+      return false;
+    }
+
+    Object.assign(event, replayUpdates());
+    return true;
+  }
+
+  /**
+   * All events in insertion order, for assertions in tests
+   */
+  list(): AutomationOutboxRecord[] {
+    return Array.from(this.events.values()).map(event => ({ ...event }));
+  }
+}
+
+/**
+ * Outbox backed by the Supabase automation_outbox table
+ * Safe with several workers, each event is locked by a conditional update before delivery
+ */
+export class SupabaseAutomationOutbox implements AutomationOutbox {
+  private supabaseClient: DMShopSupabaseClient;
+  private lockTimeoutMs: number;
+
+  constructor(supabaseClient: DMShopSupabaseClient, options: AutomationOutboxOptions = {}) {
+    this.supabaseClient = supabaseClient;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? defaultLockTimeoutMs;
+  }
+
+  async enqueue(entries: AutomationOutboxEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    await this.supabaseClient.insertAutomationOutboxEvents(
+      entries.map(entry => ({
+        event_type: entry.eventType,
+        webhook_url: entry.url,
+        payload: entry.payload,
+        max_attempts: entry.maxAttempts,
+        dedup_key: entry.dedupKey ?? null
+      }))
+    );
+  }
+
+  async claimDue(limit: number): Promise<AutomationOutboxRecord[]> {
+    const lockExpiredBefore = new Date(Date.now() - this.lockTimeoutMs).toISOString();
+    const candidates = await this.supabaseClient.listDueAutomationEvents(lockExpiredBefore, limit);
+
+    const claimed: AutomationOutboxRecord[] = [];
+    for (const candidate of candidates) {
+      const locked = await this.supabaseClient.lockAutomationEvent(candidate);
+      if (locked) {
+        claimed.push(locked);
+      }
+    }
+    return claimed;
+  }
+
+  async markDelivered(event: AutomationOutboxRecord): Promise<void> {
+    await this.supabaseClient.updateAutomationEvent(event.id, deliveredUpdates(event), 'delivering');
+  }
+
+  async markFailed(event: AutomationOutboxRecord, failure: AutomationDeliveryFailure): Promise<void> {
+    await this.supabaseClient.updateAutomationEvent(event.id, failureUpdates(event, failure), 'delivering');
+  }
+
+  async defer(event: AutomationOutboxRecord, retryAt: Date): Promise<void> {
+    await this.supabaseClient.updateAutomationEvent(event.id, deferUpdates(retryAt), 'delivering');
+  }
+
+  async listDeadLetters(limit: number = 50): Promise<AutomationOutboxRecord[]> {
+    return await this.supabaseClient.listAutomationEvents('dead', limit);
+  }
+
+  async replay(id: string): Promise<boolean> {
+    const replayed = await this.supabaseClient.updateAutomationEvent(id, replayUpdates(), 'dead');
+    return replayed !== null;
+  }
+}
+
+function deliveredUpdates(event: AutomationOutboxRecord): Partial<AutomationOutboxRecord> {
+  const now = new Date().toISOString();
+  return {
+    status: 'delivered',
+    attempts: event.attempts + 1,
+    locked_at: null,
+    delivered_at: now,
+    updated_at: now
+  };
+}
+
+function failureUpdates(
+  event: AutomationOutboxRecord,
+  failure: AutomationDeliveryFailure
+): Partial<AutomationOutboxRecord> {
+  const now = new Date().toISOString();
+  return {
+    status: failure.retryAt ? 'pending' : 'dead',
+    attempts: event.attempts + 1,
+    locked_at: null,
+    last_error: failure.error,
+    last_status_code: failure.statusCode ?? null,
+    next_attempt_at: failure.retryAt ? failure.retryAt.toISOString() : event.next_attempt_at,
+    dead_at: failure.retryAt ? null : now,
+    updated_at: now
+  };
+}
+
+// Used while an endpoint's circuit is open, attempts and last_error are left alone
+function deferUpdates(retryAt: Date): Partial<AutomationOutboxRecord> {
+  return {
+    status: 'pending',
+    locked_at: null,
+    next_attempt_at: retryAt.toISOString(),
+    updated_at: new Date().toISOString()
+  };
+}
+
+// A replayed event gets a fresh set of attempts, last_error is kept for the record
+function replayUpdates(): Partial<AutomationOutboxRecord> {
+  const now = new Date().toISOString();
+  return {
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: now,
+    dead_at: null,
+    updated_at: now
+  };
+}
+
+// Factory function for the in-memory outbox
+export function createInMemoryAutomationOutbox(options: AutomationOutboxOptions = {}): InMemoryAutomationOutbox {
+  return new InMemoryAutomationOutbox(options);
+}
+
+// Factory function for the Supabase outbox
+export function createSupabaseAutomationOutbox(
+  supabaseClient: DMShopSupabaseClient,
+  options: AutomationOutboxOptions = {}
+): SupabaseAutomationOutbox {
+  return new SupabaseAutomationOutbox(supabaseClient, options);
+}
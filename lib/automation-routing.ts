@@ -0,0 +1,120 @@
+// DM Shop Automation Routing
+// Per-endpoint event matching, predicates, field minimisation and payload templates
+
+import { DMShopEvent, DMShopEventCategory, DMShopEventType } from '../types/dm-shop-events';
+
+// Exact event name, a whole category ('payment.*') or everything ('*')
+export type AutomationEventPattern = DMShopEventType | `${DMShopEventCategory}.*` | '*';
+
+// Output key -> dot path into the envelope ('data.customer.email'), nested objects build nested output
+export interface AutomationPayloadTemplate {
+  [key: string]: string | AutomationPayloadTemplate;
+}
+
+/**
+ * What an endpoint receives
+ * Steps run in order: events, filter, includeFields, excludeFields, template
+ */
+export interface AutomationRoute {
+  events: AutomationEventPattern[];
+  filter?: (event: DMShopEvent) => boolean; // e.g. only orders over R1000, only premium sellers
+  includeFields?: string[]; // Dot paths under data to keep, everything else is dropped
+  excludeFields?: string[]; // Dot paths under data to drop, e.g. 'customer.phone'
+  template?: AutomationPayloadTemplate; // Reshape the envelope for the receiver
+}
+
+/**
+ * Whether a pattern matches an event name
+ */
+export function matchesEventPattern(pattern: AutomationEventPattern, event: DMShopEventType): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (pattern.endsWith('.*')) {
+    return event.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === event;
+}
+
+/**
+ * Payload an endpoint should receive for an event, or null when the endpoint doesn't want it
+ * A filter that throws skips the endpoint instead of failing the whole event
+ */
+export function routeAutomationEvent(
+  route: AutomationRoute,
+  envelope: DMShopEvent
+): Record<string, any> | null {
+  if (!route.events.some(pattern => matchesEventPattern(pattern, envelope.event))) {
+    return null;
+  }
+
+  if (route.filter) {
+    try {
+      if (!route.filter(envelope)) {
+        return null;
+      }
+    } catch (error) {
+      console.error(`Automation filter error for ${envelope.event}:`, error);
+      return null;
+    }
+  }
+
+  let data: Record<string, any> = JSON.parse(JSON.stringify(envelope.data));
+  if (route.includeFields) {
+    data = pickPaths(data, route.includeFields);
+  }
+  if (route.excludeFields) {
+    route.excludeFields.forEach(path => omitPath(data, path.split('.')));
+  }
+
+  const minimised = { ...envelope, data };
+  return route.template ? applyTemplate(route.template, minimised) : minimised;
+}
+
+function pickPaths(source: Record<string, any>, paths: string[]): Record<string, any> {
+  const picked: Record<string, any> = {};
+
+  for (const path of paths) {
+    const segments = path.split('.');
+    const value = readPath(source, segments);
+    if (value === undefined) continue;
+
+    let target = picked;
+    segments.slice(0, -1).forEach(segment => {
+      target[segment] = target[segment] ?? {};
+      target = target[segment];
+    });
+    target[segments[segments.length - 1]] = value;
+  }
+
+  return picked;
+}
+
+function omitPath(target: Record<string, any>, segments: string[]): void {
+  const [head, ...rest] = segments;
+  if (!target || typeof target !== 'object' || !(head in target)) {
+    return;
+  }
+
+  if (rest.length === 0) {
+    delete target[head];
+  } else {
+    omitPath(target[head], rest);
+  }
+}
+
+function readPath(source: any, segments: string[]): any {
+  return segments.reduce((value, segment) => (value == null ? undefined : value[segment]), source);
+}
+
+function applyTemplate(template: AutomationPayloadTemplate, envelope: Record<string, any>): Record<string, any> {
+  const output: Record<string, any> = {};
+
+  for (const [key, source] of Object.entries(template)) {
+    output[key] = typeof source === 'string'
+      ? readPath(envelope, source.split('.'))
+      : applyTemplate(source, envelope);
+  }
+
+  return output;
+}
@@ -0,0 +1,160 @@
+// DM Shop Automation Signing
+// HMAC signatures on outbound automation webhooks so n8n, Zapier and Buildship can reject forged events
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const automationSignatureHeader = 'X-DM-Shop-Signature';
+
+/**
+ * Per-endpoint signing secrets
+ * During rotation set signingSecret to the new secret and previousSigningSecret to the old one.
+ * Both signatures are sent until every receiver has switched, then drop the previous secret.
+ */
+export interface AutomationSigningSecrets {
+  signingSecret?: string;
+  previousSigningSecret?: string;
+}
+
+export type AutomationSignatureCheck = 'valid' | 'invalid' | 'malformed' | 'expired';
+
+export interface AutomationSignatureVerifyOptions {
+  toleranceSeconds?: number; // Maximum age of the signed timestamp, default 5 minutes
+  now?: number; // Unix seconds, for tests
+}
+
+const defaultToleranceSeconds = 5 * 60;
+
+/**
+ * Build the signature header value: t=<unix seconds>,v1=<hex hmac>[,v1=<hex hmac>]
+ * Each v1 is HMAC-SHA256 of "<t>.<body>", one per secret
+ */
+export function signAutomationPayload(
+  body: string,
+  secrets: string | string[],
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signatures = (Array.isArray(secrets) ? secrets : [secrets])
+    .filter(Boolean)
+    .map(secret => `v1=${computeSignature(body, secret, timestamp)}`);
+
+  return [`t=${timestamp}`, ...signatures].join(',');
+}
+
+/**
+ * Signature header for an endpoint, empty when it has no signing secret
+ */
+export function automationSignatureHeaders(
+  body: string,
+  secrets: AutomationSigningSecrets,
+  timestamp?: number
+): Record<string, string> {
+  if (!secrets.signingSecret) {
+    return {};
+  }
+
+  const keys = [secrets.signingSecret, secrets.previousSigningSecret].filter(Boolean) as string[];
+  return { [automationSignatureHeader]: signAutomationPayload(body, keys, timestamp) };
+}
+
+/**
+ * Check a received signature header against the raw request body
+ * Pass every secret the receiver accepts, any v1 matching any secret is valid
+ */
+export function verifyAutomationSignature(
+  body: string,
+  header: string | null | undefined,
+  secrets: string | string[],
+  options: AutomationSignatureVerifyOptions = {}
+): AutomationSignatureCheck {
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) {
+    return 'malformed';
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.toleranceSeconds ?? defaultToleranceSeconds;
+  if (Math.abs(now - parsed.timestamp) > tolerance) {
+    return 'expired';
+  }
+
+  const keys = (Array.isArray(secrets) ? secrets : [secrets]).filter(Boolean);
+  const matched = keys.some(secret => {
+    const expected = computeSignature(body, secret, parsed.timestamp);
+    return parsed.signatures.some(signature => signatureMatches(expected, signature));
+  });
+
+  return matched ? 'valid' : 'invalid';
+}
+
+function computeSignature(body: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function parseSignatureHeader(header: string | null | undefined): { timestamp: number; signatures: string[] } | null {
+  if (!header) {
+    return null;
+  }
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && /^\d+$/.test(value || '')) {
+      timestamp = Number(value);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  return timestamp !== undefined && signatures.length > 0 ? { timestamp, signatures } : null;
+}
+
+function signatureMatches(expected: string, received: string): boolean {
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const receivedBuffer = Buffer.from(received, 'hex');
+  return expectedBuffer.length === receivedBuffer.length && timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+/**
+ * Paste into an n8n Code node ("Run Once for All Items") placed right after the Webhook node.
+ * Set DM_SHOP_SIGNING_SECRET (and DM_SHOP_PREVIOUS_SIGNING_SECRET while rotating) in the n8n
+ * environment and allow the crypto module with NODE_FUNCTION_ALLOW_BUILTIN=crypto.
+ * Turn on the Webhook node's "Raw Body" option so the exact bytes we signed are checked.
+ */
+export const n8nSignatureVerificationSnippet = `const crypto = require('crypto');
+
+const secrets = [$env.DM_SHOP_SIGNING_SECRET, $env.DM_SHOP_PREVIOUS_SIGNING_SECRET].filter(Boolean);
+const toleranceSeconds = 300;
+
+return $input.all().map(item => {
+  const header = item.json.headers['x-dm-shop-signature'] || '';
+  const rawBody = item.binary && item.binary.data
+    ? Buffer.from(item.binary.data.data, 'base64').toString('utf8')
+    : JSON.stringify(item.json.body);
+
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number((parts.find(([key]) => key === 't') || [])[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    throw new Error('DM Shop signature timestamp missing or too old');
+  }
+
+  const valid = secrets.some(secret => {
+    const expected = Buffer.from(
+      crypto.createHmac('sha256', secret).update(timestamp + '.' + rawBody).digest('hex'),
+      'hex'
+    );
+    return signatures.some(signature => {
+      const received = Buffer.from(signature, 'hex');
+      return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+    });
+  });
+
+  if (!valid) {
+    throw new Error('Invalid DM Shop signature');
+  }
+
+  return { json: JSON.parse(rawBody) };
+});
+`;
@@ -0,0 +1,197 @@
+// DM Shop Automation Delivery Worker
+// Sends queued automation events with exponential backoff, exhausted events go to the dead-letter queue
+
+import { AutomationOutboxRecord } from '../src/supabase-integration';
+import { AutomationOutbox } from './automation-outbox';
+import { HttpTransport, fetchTransport } from './http-transport';
+import { AutomationSigningSecrets, automationSignatureHeaders } from './automation-signing';
+import { AutomationHealthTracker, createAutomationHealthTracker, isRetryableAutomationStatus } from './automation-health';
+
+// Endpoint settings the worker needs at send time, matched to queued events by url
+export interface AutomationEndpoint extends AutomationSigningSecrets {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface AutomationWorkerOptions {
+  transport?: HttpTransport;
+  batchSize?: number; // Events claimed per run, default 25
+  pollIntervalMs?: number; // Delay between runs when started, default 5 seconds
+  baseDelayMs?: number; // First retry delay, doubled per attempt, default 30 seconds
+  maxDelayMs?: number; // Retry delay ceiling, default 1 hour
+  timeoutMs?: number; // Per-request timeout, default 10 seconds
+  health?: AutomationHealthTracker; // Circuit breakers per endpoint, DMShopWebhookHandler.createAutomationDeliveryWorker() passes the handler's
+}
+
+export interface AutomationWorkerRunResult {
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+  deferred: number; // Held back by an open circuit, no attempt used
+}
+
+/**
+ * Delivers outbox events to automation endpoints
+ * Run one per process with start(), or call runOnce() from a scheduler
+ */
+export class AutomationDeliveryWorker {
+  private outbox: AutomationOutbox;
+  private endpoints: AutomationEndpoint[];
+  private transport: HttpTransport;
+  private batchSize: number;
+  private pollIntervalMs: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private timeoutMs: number;
+  private health: AutomationHealthTracker;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(outbox: AutomationOutbox, endpoints: AutomationEndpoint[] = [], options: AutomationWorkerOptions = {}) {
+    this.outbox = outbox;
+    this.endpoints = endpoints;
+    this.transport = options.transport || fetchTransport;
+    this.batchSize = options.batchSize ?? 25;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.baseDelayMs = options.baseDelayMs ?? 30000;
+    this.maxDelayMs = options.maxDelayMs ?? 60 * 60 * 1000;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.health = options.health || createAutomationHealthTracker();
+  }
+
+  /**
+   * Claim and deliver one batch of due events
+   */
+  async runOnce(): Promise<AutomationWorkerRunResult> {
+    const result: AutomationWorkerRunResult = { delivered: 0, retried: 0, deadLettered: 0, deferred: 0 };
+    const events = await this.outbox.claimDue(this.batchSize);
+
+    await Promise.all(events.map(async event => {
+      const outcome = await this.deliver(event);
+      result[outcome]++;
+    }));
+
+    return result;
+  }
+
+  /**
+   * Poll the outbox until stop() is called
+   * The timer is unref'd so an idle worker doesn't keep the process alive
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        const result = await this.runOnce();
+        if (result.deadLettered > 0) {
+          console.error(`${result.deadLettered} automation event(s) moved to the dead-letter queue`);
+        }
+      } catch (error) {
+        console.error('Automation worker run error:', error);
+      }
+
+      if (this.running) {
+        this.timer = setTimeout(tick, this.pollIntervalMs);
+        this.timer.unref?.();
+      }
+    };
+
+    void tick();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async deliver(event: AutomationOutboxRecord): Promise<keyof AutomationWorkerRunResult> {
+    const attempt = event.attempts + 1;
+    const breaker = this.health.breaker(event.webhook_url);
+
+    // An endpoint that's down shouldn't use up the retry budget of every queued event
+    if (!breaker.canRequest()) {
+      await this.outbox.defer(event, breaker.retryAt() || new Date(Date.now() + this.pollIntervalMs));
+      return 'deferred';
+    }
+
+    let failure: { error: string; statusCode?: number; retryable: boolean };
+    const startedAt = Date.now();
+    try {
+      const response = await this.send(event);
+      if (response.ok) {
+        breaker.recordSuccess(Date.now() - startedAt);
+        await this.outbox.markDelivered(event);
+        return 'delivered';
+      }
+
+      failure = {
+        error: `HTTP ${response.status}: ${response.statusText}`,
+        statusCode: response.status,
+        retryable: isRetryableAutomationStatus(response.status)
+      };
+    } catch (error) {
+      failure = { error: (error as Error).message, retryable: true };
+    }
+    breaker.recordFailure(Date.now() - startedAt, failure.error, failure.retryable);
+
+    const exhausted = !failure.retryable || attempt >= event.max_attempts;
+    const retryAt = exhausted ? null : new Date(Date.now() + this.retryDelay(attempt));
+
+    console.error(
+      `Automation ${event.event_type} to ${event.webhook_url} attempt ${attempt}/${event.max_attempts} failed: ${failure.error}` +
+      (retryAt ? `, retrying at ${retryAt.toISOString()}` : ', moved to dead-letter queue')
+    );
+    await this.outbox.markFailed(event, { error: failure.error, statusCode: failure.statusCode, retryAt });
+
+    return retryAt ? 'retried' : 'deadLettered';
+  }
+
+  private async send(event: AutomationOutboxRecord): Promise<Response> {
+    const endpoint = this.endpoints.find(candidate => candidate.url === event.webhook_url);
+    const body = JSON.stringify(event.payload);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      return await this.transport(event.webhook_url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-DM-Shop-Event': event.event_type,
+          'X-DM-Shop-Delivery': event.id,
+          'X-DM-Shop-Timestamp': event.created_at, // The payload may be templated without its timestamp
+          ...endpoint?.headers,
+          // Signed at send time so a delayed retry still falls inside the receiver's tolerance
+          ...automationSignatureHeaders(body, endpoint || {})
+        },
+        body,
+        signal: controller.signal
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`request timed out after ${this.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private retryDelay(attempt: number): number {
+    return Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, attempt - 1));
+  }
+}
+
+// Factory function for the automation delivery worker
+export function createAutomationDeliveryWorker(
+  outbox: AutomationOutbox,
+  endpoints: AutomationEndpoint[] = [],
+  options: AutomationWorkerOptions = {}
+): AutomationDeliveryWorker {
+  return new AutomationDeliveryWorker(outbox, endpoints, options);
+}
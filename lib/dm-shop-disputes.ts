@@ -0,0 +1,261 @@
+// DM Shop Chargebacks and Disputes
+// Freezes seller funds while a dispute is open and tracks evidence deadlines
+
+import { PaystackDispute, PaystackDisputeEvidence } from '../types/paystack';
+import { PaystackClient } from './paystack-client';
+import { DMShopSupabaseClient, DisputeRecord, OrderRecord } from '../src/supabase-integration';
+import { allocateProportionally, koboToZar, zarToKobo } from '../utils/payment-calculator';
+
+/**
+ * DM Shop dispute manager
+ */
+export class DMShopDisputeManager {
+  private paystackClient: PaystackClient;
+  private supabaseClient: DMShopSupabaseClient;
+
+  constructor(paystackClient: PaystackClient, supabaseClient: DMShopSupabaseClient) {
+    this.paystackClient = paystackClient;
+    this.supabaseClient = supabaseClient;
+  }
+
+  /**
+   * charge.dispute.create - record the dispute and freeze each seller's share
+   * The record is written before any balance moves and each freeze is marked on it as it's applied,
+   * so a retried webhook finishes the freezes instead of repeating them
+   */
+  async openDispute(dispute: PaystackDispute): Promise<DisputeRecord> {
+    try {
+      let record = await this.supabaseClient.getDisputeByPaystackId(dispute.id);
+
+      if (!record) {
+        const reference = dispute.transaction.reference;
+        const amount = koboToZar(dispute.refund_amount ?? dispute.transaction.amount);
+        const order = await this.supabaseClient.getOrderByReference(reference);
+        const freezes = order ? await this.calculateFreezes(order, amount) : [];
+
+        record = await this.supabaseClient.createDispute({
+          paystack_dispute_id: dispute.id,
+          order_id: order?.id || null,
+          payment_reference: reference,
+          amount,
+          status: 'open',
+          paystack_status: dispute.status,
+          due_at: dispute.dueAt,
+          freezes: freezes.map(freeze => ({ ...freeze, frozen: false }))
+        });
+      }
+
+      return await this.applyFreezes(record);
+    } catch (error) {
+      console.error('Dispute opening error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * charge.dispute.remind - refresh status and deadline
+   */
+  async recordReminder(dispute: PaystackDispute): Promise<DisputeRecord> {
+    try {
+      const record = await this.openDispute(dispute);
+
+      return await this.supabaseClient.updateDispute(record.id, {
+        paystack_status: dispute.status,
+        due_at: dispute.dueAt ?? record.due_at
+      });
+    } catch (error) {
+      console.error('Dispute reminder error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * charge.dispute.resolve - release frozen funds if we won, write them off if we lost
+   * Won means Paystack resolved it as declined, every other resolution is a loss
+   */
+  async closeDispute(dispute: PaystackDispute): Promise<DisputeRecord> {
+    try {
+      const record = await this.openDispute(dispute);
+      if (record.status === 'won' || record.status === 'lost') {
+        return record;
+      }
+
+      // Only a declined dispute keeps the money. merchant-accepted, auto-accepted (no response by the deadline)
+      // and any resolution we don't recognise refund the customer, so they count as lost
+      const lost = dispute.resolution !== 'declined';
+
+      for (const freeze of (record.freezes || []).filter(freeze => freeze.frozen !== false)) {
+        await this.supabaseClient.updateStoreFrozenBalance(freeze.store_id, freeze.amount, lost ? 'forfeit' : 'release');
+
+        if (lost && record.order_id) {
+          await this.supabaseClient.createTransaction({
+            order_id: record.order_id,
+            store_id: freeze.store_id,
+            user_id: freeze.seller_id,
+            type: 'refund',
+            amount: freeze.amount,
+            status: 'completed',
+            paystack_reference: record.payment_reference,
+            description: `Chargeback for order ${record.order_id}`,
+            metadata: {
+              paystack_dispute_id: dispute.id
+            }
+          });
+        }
+      }
+
+      if (lost && record.order_id) {
+        const order = await this.supabaseClient.getOrder(record.order_id);
+        if (order) {
+          await this.supabaseClient.updateOrder(order.id, {
+            payment_status: Number(record.amount) >= Number(order.total_amount) ? 'refunded' : 'partially_refunded'
+          });
+        }
+      }
+
+      return await this.supabaseClient.updateDispute(record.id, {
+        status: lost ? 'lost' : 'won',
+        paystack_status: dispute.status,
+        resolution: dispute.resolution,
+        resolved_at: dispute.resolvedAt || new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Dispute closing error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Submit evidence for a dispute, e.g. Paxi delivery details
+   */
+  async submitEvidence(paystackDisputeId: number, evidence: PaystackDisputeEvidence): Promise<DisputeRecord> {
+    try {
+      const record = await this.requireDispute(paystackDisputeId);
+      await this.paystackClient.addDisputeEvidence(paystackDisputeId, evidence);
+
+      return await this.supabaseClient.updateDispute(record.id, {
+        status: 'evidence_submitted',
+        evidence_submitted_at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Dispute evidence error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a signed URL for uploading a supporting document
+   */
+  async getEvidenceUploadUrl(paystackDisputeId: number, filename: string): Promise<{ signedUrl: string; fileName: string }> {
+    const { data } = await this.paystackClient.getDisputeUploadUrl(paystackDisputeId, filename);
+    return data;
+  }
+
+  /**
+   * Accept or decline a dispute on Paystack
+   * Local balances change when the charge.dispute.resolve webhook arrives
+   */
+  async resolveDispute(
+    paystackDisputeId: number,
+    params: {
+      resolution: 'merchant-accepted' | 'declined';
+      message: string;
+      uploadedFilename: string;
+      refundAmount?: number; // In ZAR, defaults to the disputed amount
+      evidenceId?: number;
+    }
+  ): Promise<PaystackDispute> {
+    try {
+      const record = await this.requireDispute(paystackDisputeId);
+
+      const { data } = await this.paystackClient.resolveDispute(paystackDisputeId, {
+        resolution: params.resolution,
+        message: params.message,
+        refund_amount: zarToKobo(params.refundAmount ?? record.amount),
+        uploaded_filename: params.uploadedFilename,
+        ...(params.evidenceId !== undefined && { evidence: params.evidenceId })
+      });
+
+      return data;
+    } catch (error) {
+      console.error('Dispute resolution error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open disputes whose evidence is due within the given window
+   */
+  async getUpcomingDeadlines(withinHours: number = 48): Promise<DisputeRecord[]> {
+    const dueBefore = new Date(Date.now() + withinHours * 60 * 60 * 1000).toISOString();
+    return await this.supabaseClient.getDisputesDueBefore(dueBefore);
+  }
+
+  /**
+   * Hold each freeze not yet applied, saving the record after every one
+   */
+  private async applyFreezes(record: DisputeRecord): Promise<DisputeRecord> {
+    if (record.status === 'won' || record.status === 'lost') {
+      return record;
+    }
+
+    const freezes = [...(record.freezes || [])];
+    let updated = record;
+    for (const [index, freeze] of freezes.entries()) {
+      if (freeze.frozen !== false) {
+        continue;
+      }
+
+      await this.supabaseClient.updateStoreFrozenBalance(freeze.store_id, freeze.amount, 'freeze');
+      freezes[index] = { ...freeze, frozen: true };
+      updated = await this.supabaseClient.updateDispute(record.id, { freezes: [...freezes] });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Each store's share of the disputed amount, capped at what it earned on the order
+   */
+  private async calculateFreezes(order: OrderRecord, amount: number): Promise<DisputeRecord['freezes']> {
+    const transactions = await this.supabaseClient.getOrderTransactions(order.id);
+    const stores = new Map<string, { sellerId: string; sold: number }>();
+
+    for (const transaction of transactions) {
+      if (transaction.type === 'sale' && transaction.store_id) {
+        const store = stores.get(transaction.store_id) || { sellerId: transaction.user_id, sold: 0 };
+        store.sold += Number(transaction.amount);
+        stores.set(transaction.store_id, store);
+      }
+    }
+
+    const entries = Array.from(stores.entries());
+    const totalSold = entries.reduce((sum, [, store]) => sum + store.sold, 0);
+    const sellersShare = Math.min(totalSold, order.total_amount > 0 ? (amount * totalSold) / order.total_amount : 0);
+    const shares = allocateProportionally(sellersShare, entries.map(([, store]) => store.sold));
+
+    return entries
+      .map(([storeId, store], index) => ({
+        store_id: storeId,
+        seller_id: store.sellerId,
+        amount: shares[index]
+      }))
+      .filter(freeze => freeze.amount > 0);
+  }
+
+  private async requireDispute(paystackDisputeId: number): Promise<DisputeRecord> {
+    const record = await this.supabaseClient.getDisputeByPaystackId(paystackDisputeId);
+    if (!record) {
+      throw new Error(`Dispute not found: ${paystackDisputeId}`);
+    }
+    return record;
+  }
+}
+
+// Factory function for dispute manager
+export function createDisputeManager(
+  paystackClient: PaystackClient,
+  supabaseClient: DMShopSupabaseClient
+): DMShopDisputeManager {
+  return new DMShopDisputeManager(paystackClient, supabaseClient);
+}
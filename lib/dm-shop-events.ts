@@ -0,0 +1,239 @@
+// DM Shop Event Catalog
+// Versions and required fields for each automation event, and the envelope builder every channel uses
+
+import {
+  DMShopEventCategory,
+  DMShopEventEnvelope,
+  DMShopEventPayloads,
+  DMShopEventType
+} from '../types/dm-shop-events';
+
+export interface DMShopEventDefinition<T extends DMShopEventType = DMShopEventType> {
+  version: number;
+  category: DMShopEventCategory;
+  description: string;
+  required: ReadonlyArray<keyof DMShopEventPayloads[T] & string>;
+}
+
+/**
+ * Raised when an event isn't in the catalog or its payload is missing a required field
+ */
+export class DMShopEventPayloadError extends Error {
+  readonly event: string;
+  readonly field?: string;
+
+  constructor(event: string, message: string, field?: string) {
+    super(`Invalid ${event} event: ${message}`);
+    this.name = 'DMShopEventPayloadError';
+    this.event = event;
+    this.field = field;
+  }
+}
+
+const disputeFields = ['dispute_id', 'payment_reference', 'status', 'amount'] as const;
+
+// Bump version when a payload changes incompatibly, receivers branch on event_version
+export const dmShopEventCatalog: { [T in DMShopEventType]: DMShopEventDefinition<T> } = {
+  'payment.pending': {
+    version: 1,
+    category: 'payment',
+    description: 'Checkout started, waiting for the customer to pay',
+    required: ['reference', 'amount']
+  },
+  'payment.success': {
+    version: 1,
+    category: 'payment',
+    description: 'Charge verified with Paystack and the order marked paid',
+    required: ['reference', 'amount', 'customer']
+  },
+  'payment.failed': {
+    version: 1,
+    category: 'payment',
+    description: 'Charge declined or abandoned',
+    required: ['reference', 'customer', 'failure_reason']
+  },
+  'payment.review_required': {
+    version: 1,
+    category: 'payment',
+    description: 'Charge did not match its order and needs a manual review',
+    required: ['reference', 'review_id', 'reason']
+  },
+  'order.created': {
+    version: 1,
+    category: 'order',
+    description: 'Order placed',
+    required: ['order_id', 'customer_id', 'total_amount']
+  },
+  'order.paid': {
+    version: 1,
+    category: 'order',
+    description: 'Order payment confirmed',
+    required: ['order_id', 'customer_id', 'total_amount', 'reference']
+  },
+  'order.shipped': {
+    version: 1,
+    category: 'order',
+    description: 'Order handed to the courier',
+    required: ['order_id', 'customer_id']
+  },
+  'order.delivered': {
+    version: 1,
+    category: 'order',
+    description: 'Order delivered to the customer',
+    required: ['order_id', 'customer_id']
+  },
+  'order.cancelled': {
+    version: 1,
+    category: 'order',
+    description: 'Order cancelled before fulfilment',
+    required: ['order_id', 'customer_id']
+  },
+  'payout.success': {
+    version: 1,
+    category: 'payout',
+    description: 'Seller payout transfer completed',
+    required: ['reference', 'transfer_code', 'amount']
+  },
+  'payout.failed': {
+    version: 1,
+    category: 'payout',
+    description: 'Seller payout transfer failed or was reversed, funds returned to the store',
+    required: ['reference', 'transfer_code', 'amount', 'payout_status']
+  },
+  'seller.sale': {
+    version: 1,
+    category: 'seller',
+    description: "Store credited with its share of a paid order",
+    required: ['reference', 'order_id', 'store_id', 'seller_id', 'amount', 'commission']
+  },
+  'seller.premium_activated': {
+    version: 1,
+    category: 'seller',
+    description: 'Premium subscription started',
+    required: ['store_id', 'seller_id', 'subscription_code']
+  },
+  'seller.premium_cancelled': {
+    version: 1,
+    category: 'seller',
+    description: 'Premium subscription cancelled, premium stays active until premium_until',
+    required: ['store_id', 'seller_id', 'subscription_code']
+  },
+  'seller.premium_payment_failed': {
+    version: 1,
+    category: 'seller',
+    description: 'Premium renewal charge failed',
+    required: ['store_id', 'seller_id', 'invoice_code', 'amount']
+  },
+  'seller.dispute_opened': {
+    version: 1,
+    category: 'seller',
+    description: "Chargeback opened, the seller's share is frozen",
+    required: [...disputeFields, 'store_id', 'seller_id']
+  },
+  'seller.dispute_reminder': {
+    version: 1,
+    category: 'seller',
+    description: 'Chargeback evidence deadline approaching',
+    required: [...disputeFields, 'store_id', 'seller_id']
+  },
+  'seller.dispute_resolved': {
+    version: 1,
+    category: 'seller',
+    description: 'Chargeback resolved, frozen funds released or forfeited',
+    required: [...disputeFields, 'store_id', 'seller_id']
+  },
+  'customer.welcome': {
+    version: 1,
+    category: 'customer',
+    description: 'Customer signed up',
+    required: ['customer_id', 'email']
+  },
+  'customer.order_confirmation': {
+    version: 1,
+    category: 'customer',
+    description: 'Order confirmation to send to the customer',
+    required: ['order_id', 'customer_id', 'email', 'total_amount']
+  },
+  'customer.shipping_update': {
+    version: 1,
+    category: 'customer',
+    description: 'Shipping status change to send to the customer',
+    required: ['order_id', 'customer_id', 'email', 'status']
+  },
+  'customer.support': {
+    version: 1,
+    category: 'customer',
+    description: 'Customer support request',
+    required: ['customer_id', 'email', 'subject']
+  },
+  'customer.dispute_opened': {
+    version: 1,
+    category: 'customer',
+    description: 'Chargeback opened on a customer payment',
+    required: [...disputeFields]
+  },
+  'customer.dispute_reminder': {
+    version: 1,
+    category: 'customer',
+    description: 'Chargeback evidence deadline approaching',
+    required: [...disputeFields]
+  },
+  'customer.dispute_resolved': {
+    version: 1,
+    category: 'customer',
+    description: 'Chargeback resolved',
+    required: [...disputeFields]
+  },
+  'system.test': {
+    version: 1,
+    category: 'system',
+    description: 'Connectivity check',
+    required: ['test']
+  }
+};
+
+/**
+ * Whether an event name is in the catalog
+ */
+export function isDMShopEventType(event: unknown): event is DMShopEventType {
+  return typeof event === 'string' && Object.prototype.hasOwnProperty.call(dmShopEventCatalog, event);
+}
+
+/**
+ * Check a payload against the catalog at runtime
+ * Catches untyped callers (JSON configs, plain JS) that the compiler can't
+ */
+export function validateDMShopEventPayload(event: string, data: unknown): void {
+  if (!isDMShopEventType(event)) {
+    throw new DMShopEventPayloadError(event, 'unknown event type');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new DMShopEventPayloadError(event, 'payload must be an object');
+  }
+
+  const definition = dmShopEventCatalog[event] as DMShopEventDefinition;
+  for (const field of definition.required) {
+    const value = (data as Record<string, unknown>)[field];
+    if (value === undefined || value === null) {
+      throw new DMShopEventPayloadError(event, `missing required field ${field}`, field);
+    }
+  }
+}
+
+/**
+ * Build the versioned envelope for an event, validating its payload
+ */
+export function createDMShopEvent<T extends DMShopEventType>(
+  event: T,
+  data: DMShopEventPayloads[T],
+  timestamp: Date = new Date()
+): DMShopEventEnvelope<T> {
+  validateDMShopEventPayload(event, data);
+
+  return {
+    event,
+    event_version: dmShopEventCatalog[event].version,
+    timestamp: timestamp.toISOString(),
+    data
+  };
+}
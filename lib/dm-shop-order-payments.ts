@@ -0,0 +1,79 @@
+// DM Shop Order Payments
+// Rebuilds an order's payment breakdown from its stored items and credits each store
+
+import { DMShopOrderPayment, PaystackChargeEvent } from '../types/paystack';
+import { DMShopSupabaseClient, OrderRecord } from '../src/supabase-integration';
+import { calculateOrderPayment, formatZAR } from '../utils/payment-calculator';
+import { Money } from '../utils/money';
+
+export interface OrderSettlement {
+  orderPayment: DMShopOrderPayment;
+  credited: DMShopOrderPayment['paymentSplits']; // Splits credited by this run, empty on a replay
+}
+
+/**
+ * DM Shop order payment manager
+ */
+export class DMShopOrderPaymentManager {
+  private supabaseClient: DMShopSupabaseClient;
+
+  constructor(supabaseClient: DMShopSupabaseClient) {
+    this.supabaseClient = supabaseClient;
+  }
+
+  /**
+   * Recalculate the order payment from order_items
+   * Uses the seller tier stored on each item so a later tier change doesn't alter a paid order
+   */
+  async rebuildOrderPayment(order: OrderRecord): Promise<DMShopOrderPayment> {
+    const items = await this.supabaseClient.getOrderItems(order.id);
+    if (items.length === 0) {
+      throw new Error(`Order ${order.id} has no items to settle`);
+    }
+
+    const orderPayment = calculateOrderPayment(
+      items.map(item => ({
+        productId: item.product_id,
+        variantId: item.variant_id,
+        storeId: item.store_id,
+        sellerId: item.seller_id,
+        sellerTier: item.seller_tier,
+        price: Money.fromAmount(Number(item.price)),
+        quantity: Number(item.quantity)
+      })),
+      Money.fromAmount(Number(order.shipping_fee))
+    );
+
+    orderPayment.orderId = order.id;
+    orderPayment.customerId = order.user_id;
+
+    const storedTotal = Money.fromAmount(Number(order.total_amount));
+    if (!orderPayment.totals.grandTotal.equals(storedTotal)) {
+      console.warn(
+        `Order ${order.id} total ${formatZAR(storedTotal)} differs from rebuilt total ${formatZAR(orderPayment.totals.grandTotal)}`
+      );
+    }
+
+    return orderPayment;
+  }
+
+  /**
+   * Credit every store on a paid order and write its ledger rows
+   */
+  async settleOrder(order: OrderRecord, event: PaystackChargeEvent): Promise<OrderSettlement> {
+    try {
+      const orderPayment = await this.rebuildOrderPayment(order);
+      const credited = await this.supabaseClient.processOrderPayment(orderPayment, event);
+
+      return { orderPayment, credited };
+    } catch (error) {
+      console.error('Order settlement error:', error);
+      throw error;
+    }
+  }
+}
+
+// Factory function for order payment manager
+export function createOrderPaymentManager(supabaseClient: DMShopSupabaseClient): DMShopOrderPaymentManager {
+  return new DMShopOrderPaymentManager(supabaseClient);
+}
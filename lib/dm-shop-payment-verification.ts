@@ -0,0 +1,144 @@
+// DM Shop Payment Verification
+// Re-checks webhook payments with Paystack before an order is marked paid
+
+import { PaystackTransactionRecord } from '../types/paystack';
+import { PaystackClient } from './paystack-client';
+import { DMShopSupabaseClient, OrderRecord, PaymentReviewRecord } from '../src/supabase-integration';
+import { koboToZar, zarToKobo } from '../utils/payment-calculator';
+
+export type PaymentVerificationOutcome =
+  | { outcome: 'paid'; order: OrderRecord; transaction: PaystackTransactionRecord }
+  | { outcome: 'already_paid'; order: OrderRecord }
+  | { outcome: 'under_review'; order: OrderRecord | null; review: PaymentReviewRecord };
+
+// The payment went through, refunds after the fact don't reopen it
+const settledPaymentStatuses: Array<OrderRecord['payment_status']> = ['paid', 'refunded', 'partially_refunded'];
+
+/**
+ * Whether the order's payment already settled, so a late or replayed charge event must not touch it
+ */
+function isPaymentSettled(order: Pick<OrderRecord, 'payment_status'>): boolean {
+  return settledPaymentStatuses.includes(order.payment_status);
+}
+
+/**
+ * DM Shop payment verifier
+ * A webhook body is only a claim, the verify endpoint and the stored order total decide
+ */
+export class DMShopPaymentVerifier {
+  private paystackClient: PaystackClient;
+  private supabaseClient: DMShopSupabaseClient;
+
+  constructor(paystackClient: PaystackClient, supabaseClient: DMShopSupabaseClient) {
+    this.paystackClient = paystackClient;
+    this.supabaseClient = supabaseClient;
+  }
+
+  /**
+   * Verify a successful charge and mark its order paid, or queue it for review
+   */
+  async confirmPayment(reference: string): Promise<PaymentVerificationOutcome> {
+    try {
+      const order = await this.supabaseClient.getOrderByReference(reference);
+      if (!order) {
+        return await this.queueReview(null, reference, { reason: 'order_not_found' });
+      }
+      if (isPaymentSettled(order)) {
+        return { outcome: 'already_paid', order };
+      }
+
+      const { data: verified } = await this.paystackClient.verifyTransaction(reference);
+
+      if (verified.status !== 'success') {
+        return await this.queueReview(order, reference, {
+          reason: 'verification_failed',
+          transaction: verified,
+          details: { paystack_status: verified.status, gateway_response: verified.gateway_response }
+        });
+      }
+      if (verified.currency !== 'ZAR') {
+        return await this.queueReview(order, reference, { reason: 'currency_mismatch', transaction: verified });
+      }
+      if (verified.amount !== zarToKobo(Number(order.total_amount))) {
+        return await this.queueReview(order, reference, { reason: 'amount_mismatch', transaction: verified });
+      }
+
+      const paid = await this.supabaseClient.updateOrderByReference(reference, {
+        status: 'paid',
+        payment_status: 'paid',
+        paystack_transaction_id: String(verified.id),
+        metadata: {
+          ...order.metadata,
+          paid_at: verified.paid_at,
+          channel: verified.channel,
+          gateway_response: verified.gateway_response
+        }
+      });
+
+      return { outcome: 'paid', order: paid || order, transaction: verified };
+    } catch (error) {
+      console.error('Payment verification error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a failed charge, a later failed attempt never overrides a paid or refunded order
+   */
+  async recordFailedPayment(reference: string, failureReason: string): Promise<OrderRecord | null> {
+    try {
+      const order = await this.supabaseClient.getOrderByReference(reference);
+      if (!order || isPaymentSettled(order) || order.payment_status === 'under_review') {
+        return order;
+      }
+
+      return await this.supabaseClient.updateOrderByReference(reference, {
+        payment_status: 'failed',
+        metadata: {
+          ...order.metadata,
+          failure_reason: failureReason,
+          failed_at: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('Failed payment recording error:', error);
+      throw error;
+    }
+  }
+
+  private async queueReview(
+    order: OrderRecord | null,
+    reference: string,
+    params: {
+      reason: PaymentReviewRecord['reason'];
+      transaction?: PaystackTransactionRecord;
+      details?: Record<string, any>;
+    }
+  ): Promise<PaymentVerificationOutcome> {
+    const review = await this.supabaseClient.createPaymentReview({
+      order_id: order?.id || null,
+      payment_reference: reference,
+      reason: params.reason,
+      expected_amount: order ? Number(order.total_amount) : null,
+      received_amount: params.transaction ? koboToZar(params.transaction.amount) : null,
+      currency: params.transaction?.currency || null,
+      paystack_transaction_id: params.transaction ? String(params.transaction.id) : null,
+      details: params.details
+    });
+
+    const flagged = order
+      ? await this.supabaseClient.updateOrderByReference(reference, { payment_status: 'under_review' })
+      : null;
+
+    console.warn(`Payment ${reference} queued for review: ${params.reason}`);
+    return { outcome: 'under_review', order: flagged || order, review };
+  }
+}
+
+// Factory function for payment verifier
+export function createPaymentVerifier(
+  paystackClient: PaystackClient,
+  supabaseClient: DMShopSupabaseClient
+): DMShopPaymentVerifier {
+  return new DMShopPaymentVerifier(paystackClient, supabaseClient);
+}
@@ -0,0 +1,384 @@
+// DM Shop Seller Payouts
+// Paystack transfers from the platform balance to seller bank accounts
+
+import { PaystackBulkTransferResult, PaystackTransfer, PaystackTransferStatus } from '../types/paystack';
+import { PaystackClient } from './paystack-client';
+import { PaystackNotFoundError, isDefiniteRejection } from './paystack-errors';
+import { DMShopSupabaseClient, PayoutRecord, StoreRecord } from '../src/supabase-integration';
+import { generatePayoutReference, koboToZar, zarToKobo } from '../utils/payment-calculator';
+
+export interface DMShopPayoutRequest {
+  storeId: string;
+  amount?: number; // In ZAR, defaults to the full available balance
+  reason?: string;
+}
+
+/**
+ * DM Shop payout manager
+ * Holds seller balances while a transfer is in flight and releases them when it fails
+ */
+export class DMShopPayoutManager {
+  private paystackClient: PaystackClient;
+  private supabaseClient: DMShopSupabaseClient;
+
+  constructor(paystackClient: PaystackClient, supabaseClient: DMShopSupabaseClient) {
+    this.paystackClient = paystackClient;
+    this.supabaseClient = supabaseClient;
+  }
+
+  /**
+   * Create the store's Paystack transfer recipient from its verified bank details
+   * Returns the existing recipient code when the store already has one
+   */
+  async ensureTransferRecipient(store: StoreRecord): Promise<string> {
+    if (store.paystack_recipient_code) {
+      return store.paystack_recipient_code;
+    }
+
+    if (!store.bank_verified || !store.bank_code || !store.account_number) {
+      throw new Error(`Store ${store.id} has no verified bank details for payouts`);
+    }
+
+    try {
+      const { data: recipient } = await this.paystackClient.createTransferRecipient({
+        type: 'basa',
+        name: store.account_name || store.name,
+        account_number: store.account_number,
+        bank_code: store.bank_code,
+        currency: 'ZAR',
+        description: `DM Shop payouts for ${store.name}`,
+        metadata: {
+          store_id: store.id,
+          seller_id: store.user_id
+        }
+      });
+
+      await this.supabaseClient.updateStore(store.id, {
+        paystack_recipient_code: recipient.recipient_code
+      });
+
+      return recipient.recipient_code;
+    } catch (error) {
+      console.error('Transfer recipient setup error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pay out a single store
+   */
+  async payoutStore(request: DMShopPayoutRequest): Promise<PayoutRecord> {
+    const payout = await this.preparePayout(request);
+
+    let transfer: PaystackTransfer;
+    try {
+      ({ data: transfer } = await this.paystackClient.initiateTransfer({
+        source: 'balance',
+        amount: zarToKobo(payout.amount),
+        recipient: payout.recipient_code,
+        reference: payout.paystack_reference,
+        reason: request.reason || 'DM Shop seller payout',
+        currency: 'ZAR'
+      }));
+    } catch (error) {
+      console.error('Payout transfer error:', error);
+      await this.handleTransferError(payout, error);
+      throw error;
+    }
+
+    return await this.recordTransferOutcome(payout, transfer.transfer_code, mapTransferStatus(transfer.status));
+  }
+
+  /**
+   * Pay out several stores with a single bulk transfer
+   * Stores that cannot be paid out (no balance, no bank details) are skipped and reported
+   */
+  async payoutStores(requests: DMShopPayoutRequest[]): Promise<{
+    payouts: PayoutRecord[];
+    skipped: Array<{ storeId: string; reason: string }>;
+  }> {
+    const prepared: PayoutRecord[] = [];
+    const skipped: Array<{ storeId: string; reason: string }> = [];
+
+    for (const request of requests) {
+      try {
+        prepared.push(await this.preparePayout(request));
+      } catch (error) {
+        skipped.push({ storeId: request.storeId, reason: (error as Error).message });
+      }
+    }
+
+    if (prepared.length === 0) {
+      return { payouts: [], skipped };
+    }
+
+    let results: PaystackBulkTransferResult[];
+    try {
+      ({ data: results } = await this.paystackClient.initiateBulkTransfer({
+        source: 'balance',
+        currency: 'ZAR',
+        transfers: prepared.map(payout => ({
+          amount: zarToKobo(payout.amount),
+          recipient: payout.recipient_code,
+          reference: payout.paystack_reference,
+          reason: 'DM Shop seller payout'
+        }))
+      }));
+    } catch (error) {
+      console.error('Bulk payout transfer error:', error);
+      for (const payout of prepared) {
+        await this.handleTransferError(payout, error);
+      }
+      throw error;
+    }
+
+    const payouts: PayoutRecord[] = [];
+    for (const payout of prepared) {
+      const result = results.find(item => item.reference === payout.paystack_reference);
+      payouts.push(await this.recordTransferOutcome(
+        payout,
+        result?.transfer_code,
+        result ? mapTransferStatus(result.status) : 'processing'
+      ));
+    }
+
+    return { payouts, skipped };
+  }
+
+  /**
+   * Finalize a payout that Paystack is holding for OTP confirmation
+   */
+  async finalizePayout(reference: string, otp: string): Promise<PayoutRecord> {
+    try {
+      const payout = await this.supabaseClient.getPayoutByReference(reference);
+      if (!payout || !payout.transfer_code) {
+        throw new Error(`Payout not found or not yet submitted: ${reference}`);
+      }
+      if (payout.status !== 'otp') {
+        throw new Error(`Payout ${reference} is not waiting for an OTP (status ${payout.status})`);
+      }
+
+      const { data: transfer } = await this.paystackClient.finalizeTransfer(payout.transfer_code, otp);
+
+      return await this.recordTransferOutcome(payout, payout.transfer_code, mapTransferStatus(transfer.status));
+    } catch (error) {
+      console.error('Payout finalization error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Look a payout's transfer up on Paystack and apply its current status
+   * Settles payouts left processing after a timeout when no transfer.* webhook arrives
+   */
+  async syncPayout(reference: string): Promise<PayoutRecord> {
+    try {
+      const payout = await this.supabaseClient.getPayoutByReference(reference);
+      if (!payout) {
+        throw new Error(`Payout not found: ${reference}`);
+      }
+      if (payout.status === 'success' || payout.status === 'failed' || payout.status === 'reversed') {
+        return payout;
+      }
+
+      let transfer: PaystackTransfer;
+      try {
+        ({ data: transfer } = await this.paystackClient.verifyTransfer(reference));
+      } catch (error) {
+        // Paystack has no transfer with our reference, so the request never reached it
+        if (error instanceof PaystackNotFoundError) {
+          return await this.releasePayout(payout, 'failed', 'Transfer was never created');
+        }
+        throw error;
+      }
+
+      const status = mapTransferStatus(transfer.status);
+      if (status === 'success') {
+        return (await this.settleTransfer(transfer)) ?? payout;
+      }
+      if (status === 'failed' || status === 'reversed') {
+        return await this.releasePayout(payout, status, transfer.reason || `Transfer ${transfer.status}`);
+      }
+      return await this.supabaseClient.updatePayout(payout.id, { transfer_code: transfer.transfer_code, status });
+    } catch (error) {
+      console.error('Payout sync error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a payout and its ledger row as settled after transfer.success
+   */
+  async settleTransfer(transfer: Pick<PaystackTransfer, 'reference' | 'transfer_code'>): Promise<PayoutRecord | null> {
+    try {
+      const payout = await this.supabaseClient.getPayoutByReference(transfer.reference);
+      if (!payout) {
+        console.log(`No payout found for transfer reference: ${transfer.reference}`);
+        return null;
+      }
+      if (payout.status === 'success') {
+        return payout;
+      }
+
+      if (payout.transaction_id) {
+        await this.supabaseClient.updateTransaction(payout.transaction_id, { status: 'completed' });
+      }
+
+      return await this.supabaseClient.updatePayout(payout.id, {
+        status: 'success',
+        transfer_code: transfer.transfer_code || payout.transfer_code
+      });
+    } catch (error) {
+      console.error('Payout settlement error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reverse a payout after transfer.failed or transfer.reversed
+   * The held amount goes back into the store's available balance
+   */
+  async reverseTransfer(
+    transfer: Pick<PaystackTransfer, 'reference'> & { reason?: string },
+    status: 'failed' | 'reversed'
+  ): Promise<PayoutRecord | null> {
+    try {
+      const payout = await this.supabaseClient.getPayoutByReference(transfer.reference);
+      if (!payout) {
+        console.log(`No payout found for transfer reference: ${transfer.reference}`);
+        return null;
+      }
+      if (payout.status === 'failed' || payout.status === 'reversed') {
+        return payout;
+      }
+
+      return await this.releasePayout(payout, status, transfer.reason || `Transfer ${status}`);
+    } catch (error) {
+      console.error('Payout reversal error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate the request, hold the amount and write the pending payout and ledger rows
+   */
+  private async preparePayout(request: DMShopPayoutRequest): Promise<PayoutRecord> {
+    const store = await this.supabaseClient.getStore(request.storeId);
+    if (!store) {
+      throw new Error(`Store not found: ${request.storeId}`);
+    }
+    if (store.status === 'suspended') {
+      throw new Error(`Store ${store.id} is suspended`);
+    }
+
+    const balance = koboToZar(zarToKobo(parseFloat(String(store.available_balance || '0'))));
+    const amount = request.amount ?? balance;
+    if (amount <= 0 || zarToKobo(amount) > zarToKobo(balance)) {
+      throw new Error(`Payout amount must be between R0.01 and R${balance.toFixed(2)} for store ${store.id}`);
+    }
+
+    const recipientCode = await this.ensureTransferRecipient(store);
+    const reference = generatePayoutReference(store.id);
+
+    const transaction = await this.supabaseClient.createTransaction({
+      order_id: null,
+      store_id: store.id,
+      user_id: store.user_id,
+      type: 'payout',
+      amount,
+      status: 'pending',
+      paystack_reference: reference,
+      description: `Payout to ${store.name}`,
+      metadata: {
+        recipient_code: recipientCode
+      }
+    });
+
+    await this.supabaseClient.updateStoreBalance(store.id, amount, 'subtract');
+
+    return await this.supabaseClient.createPayout({
+      store_id: store.id,
+      user_id: store.user_id,
+      amount,
+      status: 'pending',
+      paystack_reference: reference,
+      recipient_code: recipientCode,
+      transaction_id: transaction.id
+    });
+  }
+
+  private async recordTransferOutcome(
+    payout: PayoutRecord,
+    transferCode: string | undefined,
+    status: PayoutRecord['status']
+  ): Promise<PayoutRecord> {
+    if (status === 'failed' || status === 'reversed') {
+      const released = await this.releasePayout(payout, status, 'Transfer rejected by Paystack');
+      return await this.supabaseClient.updatePayout(released.id, { transfer_code: transferCode });
+    }
+
+    return await this.supabaseClient.updatePayout(payout.id, {
+      transfer_code: transferCode,
+      status
+    });
+  }
+
+  /**
+   * Release the held amount only when Paystack definitely refused the transfer
+   * Otherwise the transfer may exist, so the payout stays processing until syncPayout or a transfer.* webhook settles it
+   */
+  private async handleTransferError(payout: PayoutRecord, error: unknown): Promise<PayoutRecord> {
+    if (isDefiniteRejection(error)) {
+      return await this.releasePayout(payout, 'failed', (error as Error).message);
+    }
+
+    console.warn(`Payout ${payout.paystack_reference} left processing, the transfer outcome is unknown`);
+    return await this.supabaseClient.updatePayout(payout.id, { status: 'processing' });
+  }
+
+  private async releasePayout(
+    payout: PayoutRecord,
+    status: 'failed' | 'reversed',
+    reason: string
+  ): Promise<PayoutRecord> {
+    await this.supabaseClient.updateStoreBalance(payout.store_id, payout.amount, 'add');
+
+    if (payout.transaction_id) {
+      await this.supabaseClient.updateTransaction(payout.transaction_id, { status: 'failed' });
+    }
+
+    return await this.supabaseClient.updatePayout(payout.id, {
+      status,
+      failure_reason: reason
+    });
+  }
+}
+
+/**
+ * Map a Paystack transfer status onto our payout status
+ */
+function mapTransferStatus(status: PaystackTransferStatus): PayoutRecord['status'] {
+  switch (status) {
+    case 'otp':
+      return 'otp';
+    case 'success':
+      return 'success';
+    case 'failed':
+    case 'abandoned':
+    case 'blocked':
+    case 'rejected':
+      return 'failed';
+    case 'reversed':
+      return 'reversed';
+    default:
+      return 'processing';
+  }
+}
+
+// Factory function for payout manager
+export function createPayoutManager(
+  paystackClient: PaystackClient,
+  supabaseClient: DMShopSupabaseClient
+): DMShopPayoutManager {
+  return new DMShopPayoutManager(paystackClient, supabaseClient);
+}
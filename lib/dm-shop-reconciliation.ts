@@ -0,0 +1,310 @@
+// DM Shop Reconciliation
+// Lines Paystack transactions and settlements up against Supabase orders and ledger rows
+
+import { PaystackSettlement, PaystackTransactionRecord } from '../types/paystack';
+import { PaystackClient } from './paystack-client';
+import { DMShopSupabaseClient, OrderRecord, TransactionRecord } from '../src/supabase-integration';
+import { estimatePaystackFees, koboToZar, zarToKobo } from '../utils/payment-calculator';
+import { Money } from '../utils/money';
+
+export interface ReconciliationPeriod {
+  from: string; // ISO date
+  to: string; // ISO date
+}
+
+export interface ReconciliationOptions {
+  feeToleranceKobo?: number; // Fee differences at or below this are ignored, default R1
+}
+
+export interface ReconciliationReport {
+  period: ReconciliationPeriod;
+  generatedAt: string;
+  summary: {
+    paystackTransactions: number;
+    paystackGross: number; // In ZAR
+    paystackFees: number; // In ZAR
+    ordersMatched: number;
+    sellerCredits: number; // Sale ledger rows for matched payments, in ZAR
+    settlements: number;
+    settledAmount: number; // In ZAR
+    issues: number;
+  };
+  // Paystack took the money but there is no order with that reference
+  missingOrders: Array<{ reference: string; amount: number; paidAt: string | null }>;
+  // Order total and Paystack amount disagree
+  amountMismatches: Array<{ reference: string; orderId: string; orderAmount: number; paystackAmount: number }>;
+  // Payment matched an order but was never credited to the stores
+  orphanedPayments: Array<{ reference: string; orderId: string; reason: string }>;
+  // Order marked paid in the DB with no successful Paystack transaction in the period
+  unverifiedOrders: Array<{ orderId: string; reference: string | null; amount: number }>;
+  // Actual Paystack fees differ from our fee estimate
+  feeDifferences: Array<{ reference: string; expectedFees: number; actualFees: number; difference: number }>;
+  // Settlement totals that don't add up to their transactions
+  settlementDiscrepancies: Array<{ settlementId: number; settlementDate: string; reason: string; expected: number; actual: number }>;
+}
+
+/**
+ * DM Shop reconciliation job
+ * Replaces the monthly spreadsheet check between Paystack and the seller ledger
+ */
+export class DMShopReconciliationJob {
+  private paystackClient: PaystackClient;
+  private supabaseClient: DMShopSupabaseClient;
+  private feeToleranceKobo: number;
+
+  constructor(
+    paystackClient: PaystackClient,
+    supabaseClient: DMShopSupabaseClient,
+    options: ReconciliationOptions = {}
+  ) {
+    this.paystackClient = paystackClient;
+    this.supabaseClient = supabaseClient;
+    this.feeToleranceKobo = options.feeToleranceKobo ?? 100;
+  }
+
+  /**
+   * Reconcile a period
+   */
+  async run(period: ReconciliationPeriod): Promise<ReconciliationReport> {
+    try {
+      const payments: PaystackTransactionRecord[] = [];
+      for await (const transaction of this.paystackClient.iterateTransactions({
+        status: 'success',
+        from: period.from,
+        to: period.to
+      })) {
+        payments.push(transaction);
+      }
+
+      const orders = await this.loadOrders(period, payments);
+      const ledger = await this.supabaseClient.getTransactionsByReferences(payments.map(payment => payment.reference));
+
+      const report = createEmptyReport(period);
+      report.summary.paystackTransactions = payments.length;
+
+      this.reconcilePayments(report, payments, orders, ledger);
+      this.findUnverifiedOrders(report, period, payments, orders);
+      await this.reconcileSettlements(report, period);
+
+      report.summary.issues =
+        report.missingOrders.length +
+        report.amountMismatches.length +
+        report.orphanedPayments.length +
+        report.unverifiedOrders.length +
+        report.feeDifferences.length +
+        report.settlementDiscrepancies.length;
+
+      return report;
+    } catch (error) {
+      console.error('Reconciliation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Orders created in the period, plus any order a payment points at that was created earlier
+   */
+  private async loadOrders(
+    period: ReconciliationPeriod,
+    payments: PaystackTransactionRecord[]
+  ): Promise<Map<string, OrderRecord>> {
+    const byReference = new Map<string, OrderRecord>();
+
+    for (const order of await this.supabaseClient.getOrdersInPeriod(period.from, period.to)) {
+      if (order.payment_reference) {
+        byReference.set(order.payment_reference, order);
+      }
+    }
+
+    for (const payment of payments) {
+      if (!byReference.has(payment.reference)) {
+        const order = await this.supabaseClient.getOrderByReference(payment.reference);
+        if (order) {
+          byReference.set(payment.reference, order);
+        }
+      }
+    }
+
+    return byReference;
+  }
+
+  private reconcilePayments(
+    report: ReconciliationReport,
+    payments: PaystackTransactionRecord[],
+    orders: Map<string, OrderRecord>,
+    ledger: TransactionRecord[]
+  ): void {
+    let grossKobo = 0;
+    let feesKobo = 0;
+    let creditsKobo = 0;
+
+    for (const payment of payments) {
+      grossKobo += payment.amount;
+      feesKobo += payment.fees || 0;
+
+      this.compareFees(report, payment);
+
+      const order = orders.get(payment.reference);
+      if (!order) {
+        report.missingOrders.push({
+          reference: payment.reference,
+          amount: koboToZar(payment.amount),
+          paidAt: payment.paid_at
+        });
+        continue;
+      }
+
+      report.summary.ordersMatched++;
+
+      if (zarToKobo(Number(order.total_amount)) !== payment.amount) {
+        report.amountMismatches.push({
+          reference: payment.reference,
+          orderId: order.id,
+          orderAmount: Number(order.total_amount),
+          paystackAmount: koboToZar(payment.amount)
+        });
+      }
+
+      const sales = ledger.filter(row => row.paystack_reference === payment.reference && row.type === 'sale');
+      creditsKobo += sales.reduce((sum, row) => sum + zarToKobo(Number(row.amount)), 0);
+
+      if (order.payment_status === 'pending' || order.payment_status === 'failed') {
+        report.orphanedPayments.push({
+          reference: payment.reference,
+          orderId: order.id,
+          reason: `Order payment_status is ${order.payment_status}`
+        });
+      } else if (sales.length === 0) {
+        report.orphanedPayments.push({
+          reference: payment.reference,
+          orderId: order.id,
+          reason: 'No sale transactions credited to stores'
+        });
+      }
+    }
+
+    report.summary.paystackGross = koboToZar(grossKobo);
+    report.summary.paystackFees = koboToZar(feesKobo);
+    report.summary.sellerCredits = koboToZar(creditsKobo);
+  }
+
+  private compareFees(report: ReconciliationReport, payment: PaystackTransactionRecord): void {
+    if (payment.fees === null || payment.fees === undefined) {
+      return;
+    }
+
+    const expectedKobo = estimatePaystackFees(Money.fromCents(payment.amount)).cents;
+    const differenceKobo = payment.fees - expectedKobo;
+
+    if (Math.abs(differenceKobo) > this.feeToleranceKobo) {
+      report.feeDifferences.push({
+        reference: payment.reference,
+        expectedFees: koboToZar(expectedKobo),
+        actualFees: koboToZar(payment.fees),
+        difference: koboToZar(differenceKobo)
+      });
+    }
+  }
+
+  private findUnverifiedOrders(
+    report: ReconciliationReport,
+    period: ReconciliationPeriod,
+    payments: PaystackTransactionRecord[],
+    orders: Map<string, OrderRecord>
+  ): void {
+    const paidReferences = new Set(payments.map(payment => payment.reference));
+    const from = Date.parse(period.from);
+    const to = Date.parse(period.to);
+
+    for (const order of orders.values()) {
+      const created = Date.parse(order.created_at);
+      const inPeriod = created >= from && created <= to;
+
+      if (inPeriod && order.payment_status === 'paid' && !paidReferences.has(order.payment_reference as string)) {
+        report.unverifiedOrders.push({
+          orderId: order.id,
+          reference: order.payment_reference || null,
+          amount: Number(order.total_amount)
+        });
+      }
+    }
+  }
+
+  /**
+   * Check every settlement in the period adds up to its transactions
+   */
+  private async reconcileSettlements(report: ReconciliationReport, period: ReconciliationPeriod): Promise<void> {
+    let settledKobo = 0;
+
+    for await (const settlement of this.paystackClient.iterateSettlements({ from: period.from, to: period.to })) {
+      report.summary.settlements++;
+      settledKobo += settlement.total_amount;
+
+      await this.compareSettlement(report, settlement);
+    }
+
+    report.summary.settledAmount = koboToZar(settledKobo);
+  }
+
+  private async compareSettlement(report: ReconciliationReport, settlement: PaystackSettlement): Promise<void> {
+    let processedKobo = 0;
+    let feesKobo = 0;
+
+    for await (const transaction of this.paystackClient.iterateSettlementTransactions(settlement.id)) {
+      processedKobo += transaction.amount;
+      feesKobo += transaction.fees || 0;
+    }
+
+    if (processedKobo !== settlement.total_processed) {
+      report.settlementDiscrepancies.push({
+        settlementId: settlement.id,
+        settlementDate: settlement.settlement_date,
+        reason: 'Transaction volume differs from total_processed',
+        expected: koboToZar(settlement.total_processed),
+        actual: koboToZar(processedKobo)
+      });
+    }
+
+    if (feesKobo !== settlement.total_fees) {
+      report.settlementDiscrepancies.push({
+        settlementId: settlement.id,
+        settlementDate: settlement.settlement_date,
+        reason: 'Transaction fees differ from total_fees',
+        expected: koboToZar(settlement.total_fees),
+        actual: koboToZar(feesKobo)
+      });
+    }
+  }
+}
+
+function createEmptyReport(period: ReconciliationPeriod): ReconciliationReport {
+  return {
+    period,
+    generatedAt: new Date().toISOString(),
+    summary: {
+      paystackTransactions: 0,
+      paystackGross: 0,
+      paystackFees: 0,
+      ordersMatched: 0,
+      sellerCredits: 0,
+      settlements: 0,
+      settledAmount: 0,
+      issues: 0
+    },
+    missingOrders: [],
+    amountMismatches: [],
+    orphanedPayments: [],
+    unverifiedOrders: [],
+    feeDifferences: [],
+    settlementDiscrepancies: []
+  };
+}
+
+// Factory function for reconciliation job
+export function createReconciliationJob(
+  paystackClient: PaystackClient,
+  supabaseClient: DMShopSupabaseClient,
+  options: ReconciliationOptions = {}
+): DMShopReconciliationJob {
+  return new DMShopReconciliationJob(paystackClient, supabaseClient, options);
+}
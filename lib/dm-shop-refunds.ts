@@ -0,0 +1,410 @@
+// DM Shop Refund Operations
+// Paystack refunds with order status and seller ledger side effects
+
+import { PaystackRefund, PaystackRefundEvent } from '../types/paystack';
+import { PaystackClient } from './paystack-client';
+import { isPaystackApiError, isUnknownOutcomeError } from './paystack-errors';
+import { DMShopSupabaseClient, OrderRecord, RefundRecord, TransactionRecord } from '../src/supabase-integration';
+import { allocateProportionally, koboToZar, zarToKobo } from '../utils/payment-calculator';
+
+export interface DMShopRefundRequest {
+  orderId: string;
+  amount?: number; // In ZAR, omit to refund whatever is left on the order
+  reason: string;
+  customerNote?: string;
+  merchantNote?: string;
+}
+
+export interface DMShopStoreRefundDebit {
+  storeId: string;
+  sellerId: string;
+  amount: number; // In ZAR
+}
+
+export interface DMShopRefundResult {
+  refund: RefundRecord;
+  order: OrderRecord;
+  fullRefund: boolean;
+  storeDebits: DMShopStoreRefundDebit[];
+}
+
+// Paystack's refund list is matched against our record by amount and time, allow for clock skew
+const refundMatchSkewMs = 5 * 60 * 1000;
+
+/**
+ * DM Shop refund manager
+ * Refunds through the Paystack REST API and reverses seller earnings
+ */
+export class DMShopRefundManager {
+  private paystackClient: PaystackClient;
+  private supabaseClient: DMShopSupabaseClient;
+
+  constructor(paystackClient: PaystackClient, supabaseClient: DMShopSupabaseClient) {
+    this.paystackClient = paystackClient;
+    this.supabaseClient = supabaseClient;
+  }
+
+  /**
+   * Refund an order in full or in part
+   * A pending refund row is written and the sellers' shares are held before Paystack is called.
+   * The refund.* webhooks settle it: refund.processed updates the order, refund.failed gives the sellers their money back
+   * Retrying the same order and amount resumes the unfinished refund instead of starting a second one
+   */
+  async refundOrder(request: DMShopRefundRequest): Promise<DMShopRefundResult> {
+    try {
+      const order = await this.supabaseClient.getOrder(request.orderId);
+      if (!order) {
+        throw new Error(`Order not found: ${request.orderId}`);
+      }
+      if (!order.payment_reference) {
+        throw new Error(`Order ${order.id} has no payment reference to refund`);
+      }
+      if (order.payment_status !== 'paid' && order.payment_status !== 'partially_refunded') {
+        throw new Error(`Order ${order.id} cannot be refunded from payment status ${order.payment_status}`);
+      }
+
+      const refunds = await this.supabaseClient.getRefundsByPaymentReference(order.payment_reference);
+      const inFlight = refunds.filter(refund => refund.status === 'pending' || refund.status === 'processing');
+
+      const retry = inFlight.find(refund =>
+        request.amount === undefined ? refund.full_refund : zarToKobo(refund.amount) === zarToKobo(request.amount)
+      );
+      if (retry) {
+        return await this.resumeRefund(order, retry, refunds, request);
+      }
+
+      const refundedSoFar = Number(order.metadata?.refunded_amount || 0);
+      const heldKobo = inFlight.reduce((sum, refund) => sum + zarToKobo(refund.amount), 0);
+      const remaining = koboToZar(zarToKobo(order.total_amount) - zarToKobo(refundedSoFar) - heldKobo);
+      const amount = request.amount ?? remaining;
+
+      if (amount <= 0 || zarToKobo(amount) > zarToKobo(remaining)) {
+        throw new Error(`Refund amount must be between R0.01 and R${remaining.toFixed(2)} for order ${order.id}`);
+      }
+
+      const fullRefund = zarToKobo(amount) === zarToKobo(remaining);
+      const transactions = await this.supabaseClient.getOrderTransactions(order.id);
+      const storeDebits = this.calculateStoreDebits(order, transactions, amount, fullRefund);
+
+      const refund = await this.supabaseClient.createRefund({
+        order_id: order.id,
+        payment_reference: order.payment_reference,
+        amount,
+        full_refund: fullRefund,
+        status: 'pending',
+        reason: request.reason,
+        store_debits: storeDebits.map(debit => ({
+          store_id: debit.storeId,
+          seller_id: debit.sellerId,
+          amount: debit.amount
+        }))
+      });
+
+      await this.holdStoreDebits(order, refund, transactions);
+      const submitted = await this.submitRefund(order, refund, refunds, request);
+
+      return { refund: submitted, order, fullRefund, storeDebits };
+    } catch (error) {
+      console.error('Order refund error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Settle a refund from its refund.* webhook
+   * Paystack's event carries no refund id, so it is matched on payment reference and amount
+   * Returns null for refunds DM Shop didn't start, e.g. from the Paystack dashboard or a dispute
+   */
+  async reconcileRefund(event: PaystackRefundEvent): Promise<RefundRecord | null> {
+    try {
+      const { data } = event;
+      const refunds = await this.supabaseClient.getRefundsByPaymentReference(data.transaction_reference);
+      const refund = refunds.find(candidate =>
+        zarToKobo(candidate.amount) === data.amount &&
+        (candidate.status === 'pending' || candidate.status === 'processing')
+      );
+
+      if (!refund) {
+        console.log(`No unsettled refund found for ${data.transaction_reference} (${data.amount} kobo)`);
+        return null;
+      }
+
+      switch (data.status) {
+        case 'processed':
+          return await this.settleRefund(refund);
+        case 'failed':
+          return await this.releaseRefund(refund, 'Refund failed at Paystack');
+        default:
+          return refund.status === 'pending'
+            ? await this.supabaseClient.updateRefund(refund.id, { status: 'processing' })
+            : refund;
+      }
+    } catch (error) {
+      console.error('Refund reconciliation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List the Paystack refunds issued against an order
+   */
+  async listOrderRefunds(orderId: string): Promise<PaystackRefund[]> {
+    try {
+      const order = await this.supabaseClient.getOrder(orderId);
+      if (!order?.payment_reference) {
+        return [];
+      }
+
+      const { data } = await this.paystackClient.listRefunds({ transaction: order.payment_reference });
+      return data;
+    } catch (error) {
+      console.error('Order refund list error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pick up a refund an earlier call didn't finish
+   * A processing refund is already with Paystack, a pending one may or may not be
+   */
+  private async resumeRefund(
+    order: OrderRecord,
+    refund: RefundRecord,
+    refunds: RefundRecord[],
+    request: DMShopRefundRequest
+  ): Promise<DMShopRefundResult> {
+    const transactions = await this.supabaseClient.getOrderTransactions(order.id);
+    await this.holdStoreDebits(order, refund, transactions);
+
+    const submitted = refund.status === 'pending'
+      ? await this.submitRefund(order, refund, refunds, request)
+      : refund;
+
+    return {
+      refund: submitted,
+      order,
+      fullRefund: refund.full_refund,
+      storeDebits: refund.store_debits.map(debit => ({
+        storeId: debit.store_id,
+        sellerId: debit.seller_id,
+        amount: debit.amount
+      }))
+    };
+  }
+
+  /**
+   * Write each store's pending refund row, then take the amount out of its balance
+   * Stores that already have a row for this refund are skipped, so a retry holds nothing twice
+   */
+  private async holdStoreDebits(
+    order: OrderRecord,
+    refund: RefundRecord,
+    transactions: TransactionRecord[]
+  ): Promise<void> {
+    const held = new Set(
+      transactions
+        .filter(transaction => transaction.type === 'refund' && transaction.metadata?.refund_id === refund.id)
+        .map(transaction => transaction.store_id)
+    );
+
+    for (const debit of refund.store_debits) {
+      if (held.has(debit.store_id)) {
+        continue;
+      }
+
+      await this.supabaseClient.createTransaction({
+        order_id: order.id,
+        store_id: debit.store_id,
+        user_id: debit.seller_id,
+        type: 'refund',
+        amount: debit.amount,
+        status: 'pending',
+        paystack_reference: refund.payment_reference,
+        description: `Refund for order ${order.id}`,
+        metadata: {
+          refund_id: refund.id,
+          reason: refund.reason,
+          full_refund: refund.full_refund
+        }
+      });
+
+      await this.supabaseClient.updateStoreEarnings(debit.store_id, debit.amount, 'subtract');
+    }
+  }
+
+  /**
+   * Ask Paystack for the refund, or find the one an earlier attempt created
+   * A definite rejection fails the refund and releases the held amounts.
+   * When the outcome is unknown the refund stays pending for a retry or the refund.* webhook
+   */
+  private async submitRefund(
+    order: OrderRecord,
+    refund: RefundRecord,
+    refunds: RefundRecord[],
+    request: Pick<DMShopRefundRequest, 'reason' | 'customerNote' | 'merchantNote'>
+  ): Promise<RefundRecord> {
+    let paystackRefund = await this.findPaystackRefund(refund, refunds);
+    if (!paystackRefund) {
+      try {
+        ({ data: paystackRefund } = await this.paystackClient.createRefund({
+          transaction: refund.payment_reference,
+          amount: zarToKobo(refund.amount),
+          currency: 'ZAR',
+          customer_note: request.customerNote,
+          merchant_note: request.merchantNote || request.reason
+        }));
+      } catch (error) {
+        if (isPaystackApiError(error) && !isUnknownOutcomeError(error)) {
+          await this.releaseRefund(refund, error.message);
+        } else {
+          console.warn(`Refund ${refund.id} for order ${order.id} left pending, the Paystack outcome is unknown`);
+        }
+        throw error;
+      }
+    }
+
+    if (paystackRefund.status === 'failed') {
+      return await this.releaseRefund(refund, 'Refund rejected by Paystack');
+    }
+
+    const updated = await this.supabaseClient.updateRefund(refund.id, {
+      status: 'processing',
+      paystack_refund_id: paystackRefund.id
+    });
+    return paystackRefund.status === 'processed' ? await this.settleRefund(updated) : updated;
+  }
+
+  /**
+   * Paystack refunds have no reference of our own, so match on amount and creation time
+   * Refunds already linked to another record are never matched twice
+   */
+  private async findPaystackRefund(refund: RefundRecord, refunds: RefundRecord[]): Promise<PaystackRefund | null> {
+    if (refund.paystack_refund_id) {
+      return (await this.paystackClient.fetchRefund(refund.paystack_refund_id)).data;
+    }
+
+    const linked = new Set(refunds.map(candidate => candidate.paystack_refund_id).filter(Boolean));
+    const createdAfter = Date.parse(refund.created_at) - refundMatchSkewMs;
+    const { data } = await this.paystackClient.listRefunds({ transaction: refund.payment_reference });
+
+    return data.find(candidate =>
+      !linked.has(candidate.id) &&
+      candidate.amount === zarToKobo(refund.amount) &&
+      Date.parse(candidate.created_at) >= createdAfter
+    ) || null;
+  }
+
+  /**
+   * Complete the held ledger rows and record the refund on the order
+   */
+  private async settleRefund(refund: RefundRecord): Promise<RefundRecord> {
+    const transactions = await this.supabaseClient.getOrderTransactions(refund.order_id);
+    for (const transaction of transactions) {
+      if (transaction.type === 'refund' && transaction.metadata?.refund_id === refund.id && transaction.status === 'pending') {
+        await this.supabaseClient.updateTransaction(transaction.id, { status: 'completed' });
+      }
+    }
+
+    const order = await this.supabaseClient.getOrder(refund.order_id);
+    if (order && !(order.metadata?.refunds || []).some((entry: any) => entry.refund_id === refund.id)) {
+      const refundedAmount = koboToZar(zarToKobo(Number(order.metadata?.refunded_amount || 0)) + zarToKobo(refund.amount));
+      await this.supabaseClient.updateOrder(order.id, {
+        payment_status: zarToKobo(refundedAmount) >= zarToKobo(order.total_amount) ? 'refunded' : 'partially_refunded',
+        metadata: {
+          ...order.metadata,
+          refunded_amount: refundedAmount,
+          refunds: [
+            ...(order.metadata?.refunds || []),
+            {
+              refund_id: refund.id,
+              paystack_refund_id: refund.paystack_refund_id,
+              amount: refund.amount,
+              reason: refund.reason,
+              created_at: refund.created_at
+            }
+          ]
+        }
+      });
+    }
+
+    return await this.supabaseClient.updateRefund(refund.id, {
+      status: 'processed',
+      refunded_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Fail the refund and give each store back what was held for it
+   */
+  private async releaseRefund(refund: RefundRecord, reason: string): Promise<RefundRecord> {
+    const transactions = await this.supabaseClient.getOrderTransactions(refund.order_id);
+    for (const transaction of transactions) {
+      if (transaction.type === 'refund' && transaction.metadata?.refund_id === refund.id && transaction.status === 'pending') {
+        if (transaction.store_id) {
+          await this.supabaseClient.updateStoreEarnings(transaction.store_id, Number(transaction.amount), 'add');
+        }
+        await this.supabaseClient.updateTransaction(transaction.id, { status: 'failed' });
+      }
+    }
+
+    return await this.supabaseClient.updateRefund(refund.id, {
+      status: 'failed',
+      failure_reason: reason
+    });
+  }
+
+  /**
+   * Work out how much each store gives back
+   * A full refund reverses everything the store still holds for the order,
+   * a partial refund takes each store's proportional share of the order total
+   */
+  private calculateStoreDebits(
+    order: OrderRecord,
+    transactions: TransactionRecord[],
+    amount: number,
+    fullRefund: boolean
+  ): DMShopStoreRefundDebit[] {
+    const stores = new Map<string, { sellerId: string; sold: number; refunded: number }>();
+
+    for (const transaction of transactions) {
+      if (!transaction.store_id || transaction.status === 'failed' || (transaction.type !== 'sale' && transaction.type !== 'refund')) {
+        continue;
+      }
+
+      const store = stores.get(transaction.store_id) || { sellerId: transaction.user_id, sold: 0, refunded: 0 };
+      if (transaction.type === 'sale') {
+        store.sold += Number(transaction.amount);
+      } else {
+        store.refunded += Number(transaction.amount);
+      }
+      stores.set(transaction.store_id, store);
+    }
+
+    const entries = Array.from(stores.entries());
+    const outstanding = entries.map(([, store]) => Math.max(0, koboToZar(zarToKobo(store.sold) - zarToKobo(store.refunded))));
+
+    const totalSold = entries.reduce((sum, [, store]) => sum + store.sold, 0);
+    const sellersShare = order.total_amount > 0 ? (amount * totalSold) / order.total_amount : 0;
+
+    const debits = fullRefund
+      ? outstanding
+      : allocateProportionally(sellersShare, entries.map(([, store]) => store.sold))
+          .map((share, index) => Math.min(share, outstanding[index]));
+
+    return entries
+      .map(([storeId, store], index) => ({
+        storeId,
+        sellerId: store.sellerId,
+        amount: debits[index]
+      }))
+      .filter(debit => debit.amount > 0);
+  }
+}
+
+// Factory function for refund manager
+export function createRefundManager(
+  paystackClient: PaystackClient,
+  supabaseClient: DMShopSupabaseClient
+): DMShopRefundManager {
+  return new DMShopRefundManager(paystackClient, supabaseClient);
+}
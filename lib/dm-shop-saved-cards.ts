@@ -0,0 +1,182 @@
+// DM Shop Saved Cards
+// Reusable Paystack authorizations for one-click repeat checkout
+
+import { PaystackApiResponse, PaystackAuthorization, PaystackTransaction } from '../types/paystack';
+import { PaystackClient } from './paystack-client';
+import { PaystackNotFoundError } from './paystack-errors';
+import { DMShopSupabaseClient, SavedCardRecord } from '../src/supabase-integration';
+import { generatePaymentReference, zarToKobo } from '../utils/payment-calculator';
+
+// What customers see of a saved card, the authorization code never leaves the server
+export type SavedCardSummary = Pick<
+  SavedCardRecord,
+  'id' | 'brand' | 'card_type' | 'last4' | 'exp_month' | 'exp_year' | 'bank' | 'created_at'
+>;
+
+export interface SavedCardChargeRequest {
+  userId: string;
+  cardId: string;
+  orderId: string;
+  amount: number; // In ZAR
+  metadata?: PaystackTransaction['metadata'];
+  splitCode?: string;
+}
+
+/**
+ * DM Shop saved card manager
+ */
+export class DMShopSavedCardManager {
+  private paystackClient: PaystackClient;
+  private supabaseClient: DMShopSupabaseClient;
+
+  constructor(paystackClient: PaystackClient, supabaseClient: DMShopSupabaseClient) {
+    this.paystackClient = paystackClient;
+    this.supabaseClient = supabaseClient;
+  }
+
+  /**
+   * Store a reusable authorization from a successful charge
+   * Returns null when Paystack marked the authorization as not reusable
+   */
+  async saveAuthorization(
+    userId: string,
+    email: string,
+    authorization: PaystackAuthorization | null
+  ): Promise<SavedCardSummary | null> {
+    if (!authorization?.reusable || !authorization.authorization_code) {
+      return null;
+    }
+
+    try {
+      const card = await this.supabaseClient.upsertSavedCard({
+        user_id: userId,
+        email,
+        authorization_code: authorization.authorization_code,
+        signature: authorization.signature,
+        brand: authorization.brand,
+        card_type: authorization.card_type,
+        last4: authorization.last4,
+        exp_month: authorization.exp_month,
+        exp_year: authorization.exp_year,
+        bank: authorization.bank
+      });
+
+      return toSummary(card);
+    } catch (error) {
+      console.error('Saved card creation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List a customer's saved cards
+   */
+  async listCards(userId: string): Promise<SavedCardSummary[]> {
+    const cards = await this.supabaseClient.listSavedCards(userId);
+    return cards.map(toSummary);
+  }
+
+  /**
+   * Remove a saved card and deactivate the authorization on Paystack
+   */
+  async deleteCard(userId: string, cardId: string): Promise<void> {
+    try {
+      const card = await this.requireOwnedCard(userId, cardId);
+
+      try {
+        await this.paystackClient.deactivateAuthorization(card.authorization_code);
+      } catch (error) {
+        // Already gone on Paystack's side, still remove our copy
+        if (!(error instanceof PaystackNotFoundError)) {
+          throw error;
+        }
+      }
+
+      await this.supabaseClient.deleteSavedCard(card.id);
+    } catch (error) {
+      console.error('Saved card deletion error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Charge a saved card for a repeat order
+   * The reference is stored on the order before Paystack is called, so a retry reuses it
+   * and the client's reference lookup returns the earlier charge instead of charging twice
+   */
+  async chargeCard(request: SavedCardChargeRequest): Promise<PaystackApiResponse> {
+    try {
+      const card = await this.requireOwnedCard(request.userId, request.cardId);
+      const reference = await this.chargeReference(request);
+
+      return await this.paystackClient.chargeAuthorization({
+        email: card.email,
+        amount: zarToKobo(request.amount),
+        authorization_code: card.authorization_code,
+        reference,
+        currency: 'ZAR',
+        metadata: request.metadata,
+        ...(request.splitCode && { split_code: request.splitCode })
+      });
+    } catch (error) {
+      console.error('Saved card charge error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The order's saved-card charge reference, created and stored on the first attempt
+   * A failed payment gets a fresh reference, Paystack won't take a second charge on the old one
+   */
+  private async chargeReference(request: SavedCardChargeRequest): Promise<string> {
+    const order = await this.supabaseClient.getOrder(request.orderId);
+    if (!order || order.user_id !== request.userId) {
+      throw new Error(`Order not found: ${request.orderId}`);
+    }
+    if (order.payment_status !== 'pending' && order.payment_status !== 'failed') {
+      throw new Error(`Order ${order.id} cannot be charged from payment status ${order.payment_status}`);
+    }
+
+    const existing = order.metadata?.card_charge_reference;
+    if (existing && existing === order.payment_reference && order.payment_status === 'pending') {
+      return existing;
+    }
+
+    const reference = generatePaymentReference(order.id);
+    await this.supabaseClient.updateOrder(order.id, {
+      payment_status: 'pending',
+      payment_reference: reference,
+      metadata: { ...order.metadata, card_charge_reference: reference }
+    });
+    return reference;
+  }
+
+  private async requireOwnedCard(userId: string, cardId: string): Promise<SavedCardRecord> {
+    const card = await this.supabaseClient.getSavedCard(cardId);
+    if (!card || card.user_id !== userId) {
+      throw new Error(`Saved card not found: ${cardId}`);
+    }
+    return card;
+  }
+}
+
+function toSummary(card: SavedCardRecord): SavedCardSummary {
+  return {
+    id: card.id,
+    brand: card.brand,
+    card_type: card.card_type,
+    last4: card.last4,
+    exp_month: card.exp_month,
+    exp_year: card.exp_year,
+    bank: card.bank,
+    created_at: card.created_at
+  };
+}
+
+// Factory function for saved card manager
+export function createSavedCardManager(
+  paystackClient: PaystackClient,
+  supabaseClient: DMShopSupabaseClient
+): DMShopSavedCardManager {
+  return new DMShopSavedCardManager(paystackClient, supabaseClient);
+}
@@ -0,0 +1,227 @@
+// DM Shop Multi-Vendor Split Generation
+// Turns a calculated order payment into a Paystack flat split
+
+import {
+  DMShopOrderPayment,
+  PaystackApiResponse,
+  PaystackSplit,
+  PaystackSplitRecord,
+  PaystackTransaction
+} from '../types/paystack';
+import { PaystackClient } from './paystack-client';
+import { DMShopSupabaseClient, StoreRecord } from '../src/supabase-integration';
+
+/**
+ * Build a flat Paystack split from an order payment
+ * The split belongs to this one order, since its shares are the order's amounts.
+ * Each seller's share is what they receive in kobo, the platform keeps the remainder
+ * (commission, service fee and shipping). A single seller bears the Paystack fees,
+ * multi-seller orders share them proportionally.
+ */
+export function buildOrderSplit(orderPayment: DMShopOrderPayment): PaystackSplit {
+  const subaccounts = new Map<string, number>();
+  for (const split of orderPayment.paymentSplits) {
+    subaccounts.set(split.subaccountCode, (subaccounts.get(split.subaccountCode) || 0) + split.amount.cents);
+  }
+
+  const codes = Array.from(subaccounts.keys()).sort();
+  const singleSeller = codes.length === 1;
+
+  return {
+    name: orderSplitName(orderPayment.orderId),
+    type: 'flat',
+    currency: 'ZAR',
+    subaccounts: codes.map(code => ({
+      subaccount: code,
+      share: subaccounts.get(code) as number
+    })),
+    bearer_type: singleSeller ? 'subaccount' : 'all-proportional',
+    ...(singleSeller && { bearer_subaccount: codes[0] })
+  };
+}
+
+/**
+ * Name of the split that belongs to an order, used to find it again
+ */
+export function orderSplitName(orderId: string): string {
+  return `DM Shop order ${orderId}`;
+}
+
+/**
+ * DM Shop split manager
+ * Resolves real subaccount codes and keeps one split per order, deactivated once the order settles
+ */
+export class DMShopSplitManager {
+  private paystackClient: PaystackClient;
+  private supabaseClient: DMShopSupabaseClient;
+
+  constructor(paystackClient: PaystackClient, supabaseClient: DMShopSupabaseClient) {
+    this.paystackClient = paystackClient;
+    this.supabaseClient = supabaseClient;
+  }
+
+  /**
+   * Replace placeholder subaccount codes with each store's real paystack_subaccount_code
+   */
+  async attachSubaccountCodes(orderPayment: DMShopOrderPayment): Promise<DMShopOrderPayment> {
+    const storeIds = Array.from(new Set(orderPayment.paymentSplits.map(split => split.storeId)));
+    const stores = new Map<string, StoreRecord>();
+
+    for (const storeId of storeIds) {
+      const store = await this.supabaseClient.getStore(storeId);
+      if (!store) {
+        throw new Error(`Store not found: ${storeId}`);
+      }
+      if (store.status === 'suspended') {
+        throw new Error(`Store ${storeId} is suspended and cannot receive payments`);
+      }
+      if (!store.paystack_subaccount_code) {
+        throw new Error(`Store ${storeId} has no Paystack subaccount`);
+      }
+      stores.set(storeId, store);
+    }
+
+    return {
+      ...orderPayment,
+      paymentSplits: orderPayment.paymentSplits.map(split => ({
+        ...split,
+        subaccountCode: (stores.get(split.storeId) as StoreRecord).paystack_subaccount_code as string
+      }))
+    };
+  }
+
+  /**
+   * Get the split code for the order
+   * A retried checkout reuses the order's split, and updates its shares in place when the cart changed
+   */
+  async resolveOrderSplit(orderPayment: DMShopOrderPayment): Promise<PaystackSplitRecord> {
+    try {
+      const resolved = await this.attachSubaccountCodes(orderPayment);
+      const split = buildOrderSplit(resolved);
+
+      const { data: candidates } = await this.paystackClient.listSplits({ name: split.name, active: true });
+      const existing = candidates.filter(candidate => candidate.name === split.name);
+      const matching = existing.find(candidate => matchesSplit(candidate, split));
+      if (matching) {
+        return matching;
+      }
+      if (existing.length > 0) {
+        return await this.updateOrderSplit(existing[0], split);
+      }
+
+      const { data: created } = await this.paystackClient.createSplit(split);
+      return created;
+    } catch (error) {
+      console.error('Order split resolution error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate the order's split once the order is paid, so settled orders don't leave active splits behind
+   * Returns how many splits were deactivated, 0 for single-seller orders or a repeat call
+   */
+  async deactivateOrderSplit(orderId: string): Promise<number> {
+    try {
+      const name = orderSplitName(orderId);
+      const { data: candidates } = await this.paystackClient.listSplits({ name, active: true });
+      const splits = candidates.filter(candidate => candidate.name === name && candidate.active);
+
+      for (const split of splits) {
+        await this.paystackClient.updateSplit(split.split_code, { active: false });
+      }
+      return splits.length;
+    } catch (error) {
+      console.error('Order split deactivation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Bring an existing split in line with the order's current shares
+   * Subaccounts are added or re-shared first and removed last, so the fee bearer is always on the split
+   */
+  private async updateOrderSplit(existing: PaystackSplitRecord, split: PaystackSplit): Promise<PaystackSplitRecord> {
+    for (const { subaccount, share } of split.subaccounts) {
+      const current = existing.subaccounts.find(item => item.subaccount.subaccount_code === subaccount);
+      if (current?.share !== share) {
+        await this.paystackClient.addSplitSubaccount(existing.split_code, { subaccount, share });
+      }
+    }
+
+    await this.paystackClient.updateSplit(existing.split_code, {
+      bearer_type: split.bearer_type,
+      ...(split.bearer_subaccount && { bearer_subaccount: split.bearer_subaccount })
+    });
+
+    const wanted = new Set(split.subaccounts.map(({ subaccount }) => subaccount));
+    for (const item of existing.subaccounts) {
+      if (!wanted.has(item.subaccount.subaccount_code)) {
+        await this.paystackClient.removeSplitSubaccount(existing.split_code, item.subaccount.subaccount_code);
+      }
+    }
+
+    const { data: updated } = await this.paystackClient.fetchSplit(existing.split_code);
+    return updated;
+  }
+
+  /**
+   * Initialize the checkout transaction for an order
+   * Multi-seller carts carry a split_code, single-seller carts settle to the seller's subaccount
+   */
+  async initializeOrderTransaction(
+    transaction: Omit<PaystackTransaction, 'amount' | 'currency' | 'split_code' | 'subaccount'>,
+    orderPayment: DMShopOrderPayment
+  ): Promise<PaystackApiResponse> {
+    const amount = orderPayment.totals.grandTotal.cents;
+    const sellerCount = new Set(orderPayment.paymentSplits.map(split => split.storeId)).size;
+
+    if (sellerCount > 1) {
+      const split = await this.resolveOrderSplit(orderPayment);
+      return await this.paystackClient.initializeTransaction({
+        ...transaction,
+        amount,
+        currency: 'ZAR',
+        split_code: split.split_code
+      });
+    }
+
+    const resolved = await this.attachSubaccountCodes(orderPayment);
+    const [{ subaccount, share }] = buildOrderSplit(resolved).subaccounts;
+
+    return await this.paystackClient.initializeTransaction({
+      ...transaction,
+      amount,
+      currency: 'ZAR',
+      subaccount,
+      transaction_charge: amount - share,
+      bearer: 'subaccount'
+    });
+  }
+}
+
+/**
+ * Whether a Paystack split has exactly the shares and fee bearer we would create
+ */
+function matchesSplit(existing: PaystackSplitRecord, split: PaystackSplit): boolean {
+  const existingBearer = existing.bearer_subaccount ? String(existing.bearer_subaccount) : undefined;
+  const bearerSubaccountCode = existing.subaccounts.find(
+    item => String(item.subaccount.id) === existingBearer || item.subaccount.subaccount_code === existingBearer
+  )?.subaccount.subaccount_code;
+
+  if (existing.type !== 'flat' || existing.bearer_type !== split.bearer_type || bearerSubaccountCode !== split.bearer_subaccount) {
+    return false;
+  }
+
+  return existing.subaccounts.length === split.subaccounts.length && split.subaccounts.every(({ subaccount, share }) =>
+    existing.subaccounts.some(item => item.subaccount.subaccount_code === subaccount && item.share === share)
+  );
+}
+
+// Factory function for split manager
+export function createSplitManager(
+  paystackClient: PaystackClient,
+  supabaseClient: DMShopSupabaseClient
+): DMShopSplitManager {
+  return new DMShopSplitManager(paystackClient, supabaseClient);
+}
@@ -0,0 +1,263 @@
+// DM Shop Subaccount Lifecycle
+// Keeps Paystack subaccounts in sync with StoreRecord
+
+import { PaystackSubaccountRecord } from '../types/paystack';
+import { PaystackClient } from './paystack-client';
+import { PaystackNotFoundError } from './paystack-errors';
+import { DMShopSupabaseClient, StoreRecord } from '../src/supabase-integration';
+import { getCommissionRate } from '../utils/payment-calculator';
+
+export interface SubaccountDriftIssue {
+  field: 'subaccount' | 'business_name' | 'percentage_charge' | 'account_number' | 'active';
+  expected: string | number | boolean | null;
+  actual: string | number | boolean | null;
+}
+
+export interface SubaccountDriftEntry {
+  storeId: string;
+  storeName: string;
+  subaccountCode: string;
+  issues: SubaccountDriftIssue[];
+}
+
+export interface SubaccountDriftReport {
+  generatedAt: string;
+  storesChecked: number;
+  entries: SubaccountDriftEntry[];
+  errors: Array<{ storeId: string; message: string }>;
+}
+
+/**
+ * DM Shop subaccount manager
+ * Seller tier drives percentage_charge, bank changes are re-verified and suspension deactivates the subaccount
+ */
+export class DMShopSubaccountManager {
+  private paystackClient: PaystackClient;
+  private supabaseClient: DMShopSupabaseClient;
+
+  constructor(paystackClient: PaystackClient, supabaseClient: DMShopSupabaseClient) {
+    this.paystackClient = paystackClient;
+    this.supabaseClient = supabaseClient;
+  }
+
+  /**
+   * Create the Paystack subaccount for a store with verified bank details
+   */
+  async createStoreSubaccount(storeId: string, contactEmail?: string): Promise<PaystackSubaccountRecord> {
+    try {
+      const store = await this.requireStore(storeId);
+      if (store.paystack_subaccount_code) {
+        throw new Error(`Store ${store.id} already has subaccount ${store.paystack_subaccount_code}`);
+      }
+      if (!store.bank_verified || !store.bank_code || !store.account_number) {
+        throw new Error(`Store ${store.id} has no verified bank details`);
+      }
+
+      const { data: subaccount } = await this.paystackClient.createSubaccount({
+        business_name: store.name,
+        settlement_bank: store.bank_code,
+        account_number: store.account_number,
+        percentage_charge: expectedPercentageCharge(store),
+        description: store.description,
+        primary_contact_email: contactEmail,
+        metadata: {
+          store_id: store.id,
+          seller_id: store.user_id,
+          seller_tier: store.seller_tier
+        }
+      });
+
+      await this.supabaseClient.updateStoreSubaccount(store.id, subaccount.subaccount_code);
+      return subaccount;
+    } catch (error) {
+      console.error('Store subaccount creation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change a store's seller tier
+   * Updates commission_rate in the DB and percentage_charge on the subaccount
+   */
+  async changeSellerTier(storeId: string, sellerTier: 'free' | 'premium'): Promise<StoreRecord> {
+    try {
+      await this.requireStore(storeId);
+
+      const store = await this.supabaseClient.updateStore(storeId, {
+        seller_tier: sellerTier,
+        commission_rate: getCommissionRate(sellerTier)
+      });
+
+      if (store.paystack_subaccount_code) {
+        await this.paystackClient.updateSubaccount(store.paystack_subaccount_code, {
+          percentage_charge: expectedPercentageCharge(store),
+          metadata: {
+            store_id: store.id,
+            seller_id: store.user_id,
+            seller_tier: sellerTier
+          }
+        });
+      }
+
+      return store;
+    } catch (error) {
+      console.error('Seller tier change error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the bank account a store settles to
+   * The account is verified with resolveAccountNumber before anything is saved
+   */
+  async updateStoreBankDetails(storeId: string, bankCode: string, accountNumber: string): Promise<StoreRecord> {
+    try {
+      const current = await this.requireStore(storeId);
+      const { data: resolved } = await this.paystackClient.resolveAccountNumber(accountNumber, bankCode);
+
+      if (current.paystack_subaccount_code) {
+        await this.paystackClient.updateSubaccount(current.paystack_subaccount_code, {
+          settlement_bank: bankCode,
+          account_number: accountNumber
+        });
+      }
+
+      // The transfer recipient points at the old account, a new one is created on the next payout
+      return await this.supabaseClient.updateStore(storeId, {
+        bank_code: bankCode,
+        account_number: accountNumber,
+        account_name: resolved?.account_name,
+        bank_verified: true,
+        paystack_recipient_code: null
+      });
+    } catch (error) {
+      console.error('Store bank details update error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Suspend a store and deactivate its subaccount so it stops receiving splits
+   */
+  async suspendStore(storeId: string): Promise<StoreRecord> {
+    try {
+      const store = await this.supabaseClient.updateStore(storeId, { status: 'suspended' });
+
+      if (store.paystack_subaccount_code) {
+        await this.paystackClient.updateSubaccount(store.paystack_subaccount_code, { active: false });
+      }
+
+      return store;
+    } catch (error) {
+      console.error('Store suspension error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Bring a suspended store back online and reactivate its subaccount
+   */
+  async reinstateStore(storeId: string): Promise<StoreRecord> {
+    try {
+      const store = await this.supabaseClient.updateStore(storeId, { status: 'online' });
+
+      if (store.paystack_subaccount_code) {
+        await this.paystackClient.updateSubaccount(store.paystack_subaccount_code, { active: true });
+      }
+
+      return store;
+    } catch (error) {
+      console.error('Store reinstatement error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List stores whose Paystack subaccount disagrees with our DB
+   */
+  async generateDriftReport(): Promise<SubaccountDriftReport> {
+    const stores = await this.supabaseClient.listStores({
+      paystack_subaccount_code: 'not.is.null'
+    });
+
+    const report: SubaccountDriftReport = {
+      generatedAt: new Date().toISOString(),
+      storesChecked: stores.length,
+      entries: [],
+      errors: []
+    };
+
+    for (const store of stores) {
+      const subaccountCode = store.paystack_subaccount_code as string;
+
+      try {
+        const { data: subaccount } = await this.paystackClient.fetchSubaccount(subaccountCode);
+        const issues = compareSubaccount(store, subaccount);
+
+        if (issues.length > 0) {
+          report.entries.push({ storeId: store.id, storeName: store.name, subaccountCode, issues });
+        }
+      } catch (error) {
+        if (error instanceof PaystackNotFoundError) {
+          report.entries.push({
+            storeId: store.id,
+            storeName: store.name,
+            subaccountCode,
+            issues: [{ field: 'subaccount', expected: subaccountCode, actual: null }]
+          });
+        } else {
+          report.errors.push({ storeId: store.id, message: (error as Error).message });
+        }
+      }
+    }
+
+    return report;
+  }
+
+  private async requireStore(storeId: string): Promise<StoreRecord> {
+    const store = await this.supabaseClient.getStore(storeId);
+    if (!store) {
+      throw new Error(`Store not found: ${storeId}`);
+    }
+    return store;
+  }
+}
+
+/**
+ * Paystack percentage_charge is the platform's cut, so it follows the seller tier commission
+ */
+function expectedPercentageCharge(store: Pick<StoreRecord, 'seller_tier'>): number {
+  return Math.round(getCommissionRate(store.seller_tier) * 10000) / 100;
+}
+
+function compareSubaccount(store: StoreRecord, subaccount: PaystackSubaccountRecord): SubaccountDriftIssue[] {
+  const issues: SubaccountDriftIssue[] = [];
+
+  if (subaccount.business_name !== store.name) {
+    issues.push({ field: 'business_name', expected: store.name, actual: subaccount.business_name });
+  }
+
+  const expectedCharge = expectedPercentageCharge(store);
+  if (Number(subaccount.percentage_charge) !== expectedCharge) {
+    issues.push({ field: 'percentage_charge', expected: expectedCharge, actual: subaccount.percentage_charge });
+  }
+
+  if (store.account_number && subaccount.account_number !== store.account_number) {
+    issues.push({ field: 'account_number', expected: store.account_number, actual: subaccount.account_number });
+  }
+
+  const expectedActive = store.status !== 'suspended';
+  if (subaccount.active !== expectedActive) {
+    issues.push({ field: 'active', expected: expectedActive, actual: subaccount.active });
+  }
+
+  return issues;
+}
+
+// Factory function for subaccount manager
+export function createSubaccountManager(
+  paystackClient: PaystackClient,
+  supabaseClient: DMShopSupabaseClient
+): DMShopSubaccountManager {
+  return new DMShopSubaccountManager(paystackClient, supabaseClient);
+}
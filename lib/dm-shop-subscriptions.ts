@@ -0,0 +1,322 @@
+// DM Shop Premium Seller Subscriptions
+// Paystack plans drive the seller tier, missed payments get a grace period before downgrade
+
+import { PaystackInvoice, PaystackPlan, PaystackPlanInterval, PaystackSubscription } from '../types/paystack';
+import { PaystackClient } from './paystack-client';
+import { isDefiniteRejection } from './paystack-errors';
+import { DMShopSubaccountManager, createSubaccountManager } from './dm-shop-subaccounts';
+import { DMShopSupabaseClient, StoreRecord } from '../src/supabase-integration';
+import { zarToKobo } from '../utils/payment-calculator';
+
+export interface PremiumPlanConfig {
+  name: string;
+  amount: number; // In ZAR
+  interval: PaystackPlanInterval;
+  graceDays: number; // Days a store stays premium after a failed or cancelled subscription
+}
+
+/**
+ * DM Shop subscription manager
+ * Flips StoreRecord.seller_tier and commission_rate as the premium subscription changes
+ */
+export class DMShopSubscriptionManager {
+  private paystackClient: PaystackClient;
+  private supabaseClient: DMShopSupabaseClient;
+  private subaccountManager: DMShopSubaccountManager;
+  private plan: PremiumPlanConfig;
+  private planCode?: string;
+
+  constructor(
+    paystackClient: PaystackClient,
+    supabaseClient: DMShopSupabaseClient,
+    plan: Partial<PremiumPlanConfig> = {}
+  ) {
+    this.paystackClient = paystackClient;
+    this.supabaseClient = supabaseClient;
+    this.subaccountManager = createSubaccountManager(paystackClient, supabaseClient);
+    this.plan = { ...defaultPremiumPlan, ...plan };
+  }
+
+  /**
+   * Get the premium plan code, creating the plan on Paystack the first time
+   */
+  async ensurePremiumPlan(): Promise<string> {
+    if (this.planCode) {
+      return this.planCode;
+    }
+
+    try {
+      const amount = zarToKobo(this.plan.amount);
+      const { data: plans } = await this.paystackClient.listPlans({ amount, interval: this.plan.interval });
+      let plan: PaystackPlan | undefined = plans.find(candidate => candidate.name === this.plan.name);
+
+      if (!plan) {
+        const { data } = await this.paystackClient.createPlan({
+          name: this.plan.name,
+          amount,
+          interval: this.plan.interval,
+          currency: 'ZAR',
+          description: 'DM Shop premium seller tier: 4% commission'
+        });
+        plan = data;
+      }
+
+      this.planCode = plan.plan_code;
+      return plan.plan_code;
+    } catch (error) {
+      console.error('Premium plan setup error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe a store to premium, charging the seller's saved authorization
+   * The seller's email is stored as a pending marker first, so a subscription.create webhook
+   * that arrives before the subscription code is saved still finds the store
+   */
+  async subscribeStore(storeId: string, sellerEmail: string, authorizationCode?: string): Promise<StoreRecord> {
+    try {
+      const store = await this.requireStore(storeId);
+      if (store.premium_subscription_code && store.premium_subscription_status === 'active') {
+        throw new Error(`Store ${storeId} already has an active premium subscription`);
+      }
+
+      const plan = await this.ensurePremiumPlan();
+      await this.supabaseClient.updateStore(storeId, {
+        premium_pending_email: sellerEmail.trim().toLowerCase()
+      });
+
+      let subscription: PaystackSubscription;
+      try {
+        ({ data: subscription } = await this.paystackClient.createSubscription({
+          customer: sellerEmail,
+          plan,
+          ...(authorizationCode && { authorization: authorizationCode })
+        }));
+      } catch (error) {
+        // Keep the marker while the outcome is unknown, the webhook may still arrive
+        if (isDefiniteRejection(error)) {
+          await this.supabaseClient.updateStore(storeId, { premium_pending_email: null });
+        }
+        throw error;
+      }
+
+      await this.supabaseClient.updateStore(storeId, {
+        premium_subscription_code: subscription.subscription_code,
+        premium_email_token: subscription.email_token,
+        premium_subscription_status: subscription.status,
+        premium_pending_email: null
+      });
+
+      return subscription.status === 'active'
+        ? await this.activatePremium(storeId)
+        : await this.requireStore(storeId);
+    } catch (error) {
+      console.error('Premium subscription error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a store's premium subscription
+   * The store keeps premium until the grace period ends
+   */
+  async cancelStoreSubscription(storeId: string): Promise<StoreRecord> {
+    try {
+      const store = await this.requireStore(storeId);
+      if (!store.premium_subscription_code || !store.premium_email_token) {
+        throw new Error(`Store ${storeId} has no premium subscription`);
+      }
+
+      await this.paystackClient.disableSubscription(store.premium_subscription_code, store.premium_email_token);
+
+      return await this.supabaseClient.updateStore(storeId, {
+        premium_subscription_status: 'cancelled',
+        premium_grace_until: this.graceDeadline()
+      });
+    } catch (error) {
+      console.error('Premium cancellation error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the Paystack page where the seller can update their card or cancel
+   */
+  async getManageLink(storeId: string): Promise<string> {
+    const store = await this.requireStore(storeId);
+    if (!store.premium_subscription_code) {
+      throw new Error(`Store ${storeId} has no premium subscription`);
+    }
+
+    const { data } = await this.paystackClient.generateSubscriptionManageLink(store.premium_subscription_code);
+    return data.link;
+  }
+
+  /**
+   * subscription.create - the seller is premium from now on
+   */
+  async handleSubscriptionCreated(subscription: PaystackSubscription): Promise<StoreRecord | null> {
+    const store = await this.findStoreBySubscription(subscription.subscription_code, false)
+      || await this.findPendingStore(subscription);
+    if (!store) {
+      console.log(`No store found for subscription: ${subscription.subscription_code}`);
+      return null;
+    }
+
+    await this.supabaseClient.updateStore(store.id, {
+      premium_subscription_code: subscription.subscription_code,
+      premium_email_token: subscription.email_token,
+      premium_subscription_status: subscription.status,
+      premium_pending_email: null
+    });
+
+    return await this.activatePremium(store.id);
+  }
+
+  /**
+   * subscription.disable / subscription.not_renew - start the grace period
+   */
+  async handleSubscriptionDisabled(subscription: PaystackSubscription): Promise<StoreRecord | null> {
+    const store = await this.findStoreBySubscription(subscription.subscription_code);
+    if (!store) {
+      return null;
+    }
+
+    // A non-renewing subscription stays paid up until its next payment date
+    const graceUntil = subscription.status === 'non-renewing' && subscription.next_payment_date
+      ? this.graceDeadline(new Date(subscription.next_payment_date))
+      : this.graceDeadline();
+
+    return await this.supabaseClient.updateStore(store.id, {
+      premium_subscription_status: subscription.status,
+      premium_grace_until: store.premium_grace_until || graceUntil
+    });
+  }
+
+  /**
+   * invoice.payment_failed - keep premium for the grace period while Paystack retries
+   */
+  async handleInvoicePaymentFailed(invoice: PaystackInvoice): Promise<StoreRecord | null> {
+    const store = await this.findStoreBySubscription(invoice.subscription.subscription_code);
+    if (!store) {
+      return null;
+    }
+
+    return await this.supabaseClient.updateStore(store.id, {
+      premium_subscription_status: 'attention',
+      premium_grace_until: store.premium_grace_until || this.graceDeadline()
+    });
+  }
+
+  /**
+   * invoice.update - a paid invoice clears any grace period
+   */
+  async handleInvoiceUpdated(invoice: PaystackInvoice): Promise<StoreRecord | null> {
+    if (!invoice.paid) {
+      return null;
+    }
+
+    const store = await this.findStoreBySubscription(invoice.subscription.subscription_code);
+    if (!store) {
+      return null;
+    }
+
+    await this.supabaseClient.updateStore(store.id, {
+      premium_subscription_status: 'active'
+    });
+
+    return await this.activatePremium(store.id);
+  }
+
+  /**
+   * Downgrade every premium store whose grace period has run out
+   * Meant to run on a schedule, e.g. hourly
+   */
+  async enforceGracePeriods(now: Date = new Date()): Promise<StoreRecord[]> {
+    const expired = await this.supabaseClient.listStores({
+      seller_tier: 'eq.premium',
+      premium_grace_until: `lt.${now.toISOString()}`
+    });
+
+    const downgraded: StoreRecord[] = [];
+    for (const store of expired) {
+      try {
+        await this.subaccountManager.changeSellerTier(store.id, 'free');
+        downgraded.push(await this.supabaseClient.updateStore(store.id, {
+          premium_grace_until: null
+        }));
+      } catch (error) {
+        console.error(`Premium downgrade failed for store ${store.id}:`, error);
+      }
+    }
+
+    return downgraded;
+  }
+
+  private async activatePremium(storeId: string): Promise<StoreRecord> {
+    await this.subaccountManager.changeSellerTier(storeId, 'premium');
+    return await this.supabaseClient.updateStore(storeId, {
+      premium_grace_until: null
+    });
+  }
+
+  private async findStoreBySubscription(subscriptionCode: string, logMissing: boolean = true): Promise<StoreRecord | null> {
+    const [store] = await this.supabaseClient.listStores({
+      premium_subscription_code: `eq.${subscriptionCode}`
+    });
+
+    if (!store) {
+      if (logMissing) {
+        console.log(`No store found for subscription: ${subscriptionCode}`);
+      }
+      return null;
+    }
+    return store;
+  }
+
+  /**
+   * The store whose subscribeStore call is still waiting on Paystack, matched on the customer's email
+   * The oldest pending store wins when one seller subscribes several stores at once
+   */
+  private async findPendingStore(subscription: PaystackSubscription): Promise<StoreRecord | null> {
+    const email = typeof subscription.customer === 'object' ? subscription.customer.email : undefined;
+    if (!email) {
+      return null;
+    }
+
+    const [store] = await this.supabaseClient.listStores({
+      premium_pending_email: `eq.${email.trim().toLowerCase()}`
+    });
+    return store || null;
+  }
+
+  private graceDeadline(from: Date = new Date()): string {
+    return new Date(from.getTime() + this.plan.graceDays * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  private async requireStore(storeId: string): Promise<StoreRecord> {
+    const store = await this.supabaseClient.getStore(storeId);
+    if (!store) {
+      throw new Error(`Store not found: ${storeId}`);
+    }
+    return store;
+  }
+}
+
+// Default premium seller plan
+export const defaultPremiumPlan: PremiumPlanConfig = {
+  name: 'DM Shop Premium Seller',
+  amount: 299, // R299 per month
+  interval: 'monthly',
+  graceDays: 7
+};
+
+// Factory function for subscription manager
+export function createSubscriptionManager(
+  paystackClient: PaystackClient,
+  supabaseClient: DMShopSupabaseClient,
+  plan: Partial<PremiumPlanConfig> = {}
+): DMShopSubscriptionManager {
+  return new DMShopSubscriptionManager(paystackClient, supabaseClient, plan);
+}
@@ -0,0 +1,11 @@
+// DM Shop HTTP Transport
+// Injectable fetch shared by the Paystack, Supabase, Zapier and n8n clients
+
+/**
+ * Anything with the shape of the global fetch
+ * Pass a FakePaystackServer transport (or any stub) to run the clients offline
+ */
+export type HttpTransport = (url: string, init?: RequestInit) => Promise<Response>;
+
+// Default transport, resolved at call time so test runners can still patch globalThis.fetch
+export const fetchTransport: HttpTransport = (url, init) => fetch(url, init);
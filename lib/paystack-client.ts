@@ -1,18 +1,62 @@
 // DM Shop Paystack Client Foundation
 // Basic structure for Manus enhancement phase
 
-import { 
-  PaystackConfig, 
-  PaystackTransaction, 
-  PaystackSubaccount, 
+import {
+  PaystackConfig,
+  PaystackTransaction,
+  PaystackSubaccount,
   PaystackSplit,
   PaystackApiResponse,
-  PaystackError 
+  PaystackRetryPolicy,
+  PaystackRequestOptions,
+  PaystackRefund,
+  PaystackRefundRequest,
+  PaystackRefundListParams,
+  PaystackTransferRecipientRequest,
+  PaystackTransferRecipient,
+  PaystackTransferRequest,
+  PaystackTransfer,
+  PaystackBulkTransferRequest,
+  PaystackBulkTransferResult,
+  PaystackSubaccountRecord,
+  PaystackSubaccountUpdate,
+  PaystackListParams,
+  PaystackSplitRecord,
+  PaystackSplitUpdate,
+  PaystackSplitListParams,
+  PaystackChargeAuthorizationRequest,
+  PaystackPlan,
+  PaystackPlanRequest,
+  PaystackSubscription,
+  PaystackSubscriptionRequest,
+  PaystackTransactionListParams,
+  PaystackTransactionRecord,
+  PaystackSettlement,
+  PaystackSettlementListParams,
+  PaystackDispute,
+  PaystackDisputeListParams,
+  PaystackDisputeEvidence,
+  PaystackDisputeResolution,
+  PaystackWebhookSignatureCheck
 } from '../types/paystack';
+import {
+  PaystackApiError,
+  PaystackNetworkError,
+  PaystackRateLimitError,
+  createPaystackApiError,
+  isDuplicateReferenceError,
+  isUnknownOutcomeError
+} from './paystack-errors';
+import { HttpTransport, fetchTransport } from './http-transport';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
 
 export class PaystackClient {
   private config: PaystackConfig;
   private baseHeaders: Record<string, string>;
+  private retryPolicy: PaystackRetryPolicy;
+  private transport: HttpTransport;
 
   constructor(config: PaystackConfig) {
     this.config = config;
@@ -20,24 +64,25 @@ export class PaystackClient {
       'Authorization': `Bearer ${config.secretKey}`,
       'Content-Type': 'application/json',
     };
+    this.retryPolicy = {
+      ...defaultRetryPolicy,
+      ...config.retryPolicy
+    };
+    this.transport = config.transport || fetchTransport;
   }
 
   // Foundation method - to be enhanced by Manus
-  async initializeTransaction(transaction: PaystackTransaction): Promise<PaystackApiResponse> {
+  // Not retried, Paystack rejects a second initialize with the same reference
+  async initializeTransaction(
+    transaction: PaystackTransaction,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse> {
     try {
-      const response = await fetch(`${this.config.baseUrl}/transaction/initialize`, {
-        method: 'POST',
-        headers: this.baseHeaders,
-        body: JSON.stringify(transaction),
+      return await this.request('POST', '/transaction/initialize', {
+        body: transaction,
+        errorMessage: 'Transaction initialization failed',
+        ...options
       });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Transaction initialization failed');
-      }
-
-      return data;
     } catch (error) {
       console.error('Paystack transaction initialization error:', error);
       throw error;
@@ -45,103 +90,309 @@ export class PaystackClient {
   }
 
   // Foundation method - to be enhanced by Manus
-  async verifyTransaction(reference: string): Promise<PaystackApiResponse> {
+  async verifyTransaction(
+    reference: string,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackTransactionRecord>> {
     try {
-      const response = await fetch(`${this.config.baseUrl}/transaction/verify/${reference}`, {
-        method: 'GET',
-        headers: this.baseHeaders,
+      return await this.request<PaystackTransactionRecord>('GET', `/transaction/verify/${encodeURIComponent(reference)}`, {
+        errorMessage: 'Transaction verification failed',
+        ...options
       });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Transaction verification failed');
-      }
-
-      return data;
     } catch (error) {
       console.error('Paystack transaction verification error:', error);
       throw error;
     }
   }
 
-  // Foundation method - to be enhanced by Manus for multi-vendor
-  async createSubaccount(subaccount: PaystackSubaccount): Promise<PaystackApiResponse> {
-    try {
-      const response = await fetch(`${this.config.baseUrl}/subaccount`, {
-        method: 'POST',
-        headers: this.baseHeaders,
-        body: JSON.stringify(subaccount),
-      });
+  /**
+   * Charge a saved card for one-click repeat checkout
+   * Not retried. After a timeout, 5xx or duplicate reference the charge is looked up by reference,
+   * so calling again with the same reference never charges twice
+   */
+  async chargeAuthorization(
+    charge: PaystackChargeAuthorizationRequest,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse> {
+    return await this.withReferenceLookup(
+      () => this.request('POST', '/transaction/charge_authorization', {
+        body: charge,
+        errorMessage: 'Authorization charge failed',
+        ...options
+      }),
+      () => this.verifyTransaction(charge.reference, options)
+    );
+  }
+
+  /**
+   * Deactivate a saved card so it can no longer be charged
+   */
+  async deactivateAuthorization(
+    authorizationCode: string,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<null>> {
+    return await this.request<null>('POST', '/customer/deactivate_authorization', {
+      body: { authorization_code: authorizationCode },
+      errorMessage: 'Authorization deactivation failed',
+      ...options
+    });
+  }
+
+  /**
+   * List transactions, one page at a time
+   */
+  async listTransactions(
+    params: PaystackTransactionListParams = {},
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackTransactionRecord[]>> {
+    return await this.request<PaystackTransactionRecord[]>('GET', `/transaction${buildQueryString(params)}`, {
+      errorMessage: 'Failed to fetch transactions',
+      ...options
+    });
+  }
+
+  /**
+   * Walk every page of transactions matching the filters
+   *
+   * for await (const transaction of client.iterateTransactions({ status: 'success' })) { ... }
+   */
+  iterateTransactions(
+    params: Omit<PaystackTransactionListParams, 'page'> = {},
+    options: PaystackRequestOptions = {}
+  ): AsyncGenerator<PaystackTransactionRecord> {
+    return paginate(page => this.listTransactions({ perPage: 100, ...params, page }, options));
+  }
+
+  /**
+   * List settlements paid out to the main account or a subaccount
+   */
+  async listSettlements(
+    params: PaystackSettlementListParams = {},
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackSettlement[]>> {
+    return await this.request<PaystackSettlement[]>('GET', `/settlement${buildQueryString(params)}`, {
+      errorMessage: 'Failed to fetch settlements',
+      ...options
+    });
+  }
+
+  /**
+   * Walk every page of settlements matching the filters
+   */
+  iterateSettlements(
+    params: Omit<PaystackSettlementListParams, 'page'> = {},
+    options: PaystackRequestOptions = {}
+  ): AsyncGenerator<PaystackSettlement> {
+    return paginate(page => this.listSettlements({ perPage: 100, ...params, page }, options));
+  }
 
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Subaccount creation failed');
+  /**
+   * List the transactions that make up a settlement
+   */
+  async fetchSettlementTransactions(
+    settlementId: number | string,
+    params: PaystackListParams = {},
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackTransactionRecord[]>> {
+    return await this.request<PaystackTransactionRecord[]>(
+      'GET',
+      `/settlement/${encodeURIComponent(String(settlementId))}/transactions${buildQueryString(params)}`,
+      {
+        errorMessage: 'Failed to fetch settlement transactions',
+        ...options
       }
+    );
+  }
+
+  /**
+   * Walk every transaction in a settlement
+   */
+  iterateSettlementTransactions(
+    settlementId: number | string,
+    options: PaystackRequestOptions = {}
+  ): AsyncGenerator<PaystackTransactionRecord> {
+    return paginate(page => this.fetchSettlementTransactions(settlementId, { perPage: 100, page }, options));
+  }
 
-      return data;
+  // Foundation method - to be enhanced by Manus for multi-vendor
+  async createSubaccount(
+    subaccount: PaystackSubaccount,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse> {
+    try {
+      return await this.request('POST', '/subaccount', {
+        body: subaccount,
+        errorMessage: 'Subaccount creation failed',
+        ...options
+      });
     } catch (error) {
       console.error('Paystack subaccount creation error:', error);
       throw error;
     }
   }
 
+  /**
+   * List subaccounts on the integration
+   */
+  async listSubaccounts(
+    params: PaystackListParams = {},
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackSubaccountRecord[]>> {
+    return await this.request<PaystackSubaccountRecord[]>('GET', `/subaccount${buildQueryString(params)}`, {
+      errorMessage: 'Failed to fetch subaccounts',
+      ...options
+    });
+  }
+
+  /**
+   * Fetch a subaccount by id or subaccount code
+   */
+  async fetchSubaccount(
+    idOrCode: string | number,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackSubaccountRecord>> {
+    return await this.request<PaystackSubaccountRecord>('GET', `/subaccount/${encodeURIComponent(String(idOrCode))}`, {
+      errorMessage: 'Subaccount fetch failed',
+      ...options
+    });
+  }
+
+  /**
+   * Update a subaccount, e.g. its percentage charge, bank details or active flag
+   */
+  async updateSubaccount(
+    idOrCode: string | number,
+    updates: PaystackSubaccountUpdate,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackSubaccountRecord>> {
+    return await this.request<PaystackSubaccountRecord>('PUT', `/subaccount/${encodeURIComponent(String(idOrCode))}`, {
+      body: updates,
+      errorMessage: 'Subaccount update failed',
+      ...options
+    });
+  }
+
   // Foundation method - to be enhanced by Manus for payment splitting
-  async createSplit(split: PaystackSplit): Promise<PaystackApiResponse> {
+  async createSplit(
+    split: PaystackSplit,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackSplitRecord>> {
     try {
-      const response = await fetch(`${this.config.baseUrl}/split`, {
-        method: 'POST',
-        headers: this.baseHeaders,
-        body: JSON.JSON.stringify(split),
+      return await this.request<PaystackSplitRecord>('POST', '/split', {
+        body: split,
+        errorMessage: 'Split creation failed',
+        ...options
       });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Split creation failed');
-      }
-
-      return data;
     } catch (error) {
       console.error('Paystack split creation error:', error);
       throw error;
     }
   }
 
+  /**
+   * List transaction splits, optionally filtered by name and active flag
+   */
+  async listSplits(
+    params: PaystackSplitListParams = {},
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackSplitRecord[]>> {
+    return await this.request<PaystackSplitRecord[]>('GET', `/split${buildQueryString(params)}`, {
+      errorMessage: 'Failed to fetch splits',
+      ...options
+    });
+  }
+
+  /**
+   * Fetch a transaction split by id
+   */
+  async fetchSplit(splitId: number | string, options: PaystackRequestOptions = {}): Promise<PaystackApiResponse<PaystackSplitRecord>> {
+    return await this.request<PaystackSplitRecord>('GET', `/split/${encodeURIComponent(String(splitId))}`, {
+      errorMessage: 'Split fetch failed',
+      ...options
+    });
+  }
+
+  /**
+   * Update a split's name, active flag or fee bearer
+   */
+  async updateSplit(
+    splitId: number | string,
+    updates: PaystackSplitUpdate,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackSplitRecord>> {
+    return await this.request<PaystackSplitRecord>('PUT', `/split/${encodeURIComponent(String(splitId))}`, {
+      body: updates,
+      errorMessage: 'Split update failed',
+      ...options
+    });
+  }
+
+  /**
+   * Add a subaccount to a split, or change the share of one already on it
+   */
+  async addSplitSubaccount(
+    splitId: number | string,
+    subaccount: { subaccount: string; share: number },
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackSplitRecord>> {
+    return await this.request<PaystackSplitRecord>('POST', `/split/${encodeURIComponent(String(splitId))}/subaccount/add`, {
+      body: subaccount,
+      errorMessage: 'Split subaccount add failed',
+      ...options
+    });
+  }
+
+  /**
+   * Remove a subaccount from a split
+   */
+  async removeSplitSubaccount(
+    splitId: number | string,
+    subaccountCode: string,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<null>> {
+    return await this.request<null>('POST', `/split/${encodeURIComponent(String(splitId))}/subaccount/remove`, {
+      body: { subaccount: subaccountCode },
+      errorMessage: 'Split subaccount removal failed',
+      ...options
+    });
+  }
+
   // Foundation method - to be enhanced by Manus for webhook validation
   validateWebhook(payload: string, signature: string): boolean {
+    const check = this.verifyWebhookSignature(payload, signature);
+    return check === 'valid' || check === 'valid_secondary';
+  }
+
+  /**
+   * Check the x-paystack-signature header against the primary and secondary secrets
+   * Uses a constant-time compare so the signature can't be guessed byte by byte
+   */
+  verifyWebhookSignature(payload: string, signature: string): PaystackWebhookSignatureCheck {
+    if (!this.config.webhookSecret && !this.config.secondaryWebhookSecret) {
+      return 'secret_not_configured';
+    }
+
     try {
-      // Basic webhook validation structure
-      // Manus will implement proper HMAC validation
-      const crypto = require('crypto');
-      const hash = crypto
-        .createHmac('sha512', this.config.webhookSecret)
-        .update(payload, 'utf-8')
-        .digest('hex');
-      
-      return hash === signature;
+      if (this.config.webhookSecret && signatureMatches(this.config.webhookSecret, payload, signature)) {
+        return 'valid';
+      }
+      if (this.config.secondaryWebhookSecret && signatureMatches(this.config.secondaryWebhookSecret, payload, signature)) {
+        return 'valid_secondary';
+      }
+      return 'invalid';
     } catch (error) {
       console.error('Webhook validation error:', error);
-      return false;
+      return 'invalid';
     }
   }
 
   // Foundation method - to be enhanced by Manus
-  async listBanks(): Promise<PaystackApiResponse> {
+  async listBanks(options: PaystackRequestOptions = {}): Promise<PaystackApiResponse> {
     try {
-      const response = await fetch(`${this.config.baseUrl}/bank?country=south%20africa`, {
-        method: 'GET',
-        headers: this.baseHeaders,
+      return await this.request('GET', '/bank?country=south%20africa', {
+        errorMessage: 'Failed to fetch banks',
+        ...options
       });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Failed to fetch banks');
-      }
-
-      return data;
     } catch (error) {
       console.error('Paystack banks fetch error:', error);
       throw error;
@@ -149,28 +400,437 @@ export class PaystackClient {
   }
 
   // Foundation method - to be enhanced by Manus for account verification
-  async resolveAccountNumber(accountNumber: string, bankCode: string): Promise<PaystackApiResponse> {
+  async resolveAccountNumber(
+    accountNumber: string,
+    bankCode: string,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse> {
     try {
-      const response = await fetch(
-        `${this.config.baseUrl}/bank/resolve?account_number=${accountNumber}&bank_code=${bankCode}`,
+      return await this.request(
+        'GET',
+        `/bank/resolve?account_number=${encodeURIComponent(accountNumber)}&bank_code=${encodeURIComponent(bankCode)}`,
         {
-          method: 'GET',
-          headers: this.baseHeaders,
+          errorMessage: 'Account resolution failed',
+          ...options
         }
       );
+    } catch (error) {
+      console.error('Paystack account resolution error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Refund a transaction in full, or partially when `amount` is set
+   * Sent once and never retried, even with an idempotency key, since a repeat could refund twice
+   */
+  async createRefund(
+    refund: PaystackRefundRequest,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackRefund>> {
+    return await this.request<PaystackRefund>('POST', '/refund', {
+      body: refund,
+      errorMessage: 'Refund creation failed',
+      ...options
+    });
+  }
+
+  /**
+   * List refunds, optionally filtered by transaction and date range
+   */
+  async listRefunds(
+    params: PaystackRefundListParams = {},
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackRefund[]>> {
+    return await this.request<PaystackRefund[]>('GET', `/refund${buildQueryString(params)}`, {
+      errorMessage: 'Failed to fetch refunds',
+      ...options
+    });
+  }
+
+  /**
+   * Fetch a single refund by id
+   */
+  async fetchRefund(refundId: number | string, options: PaystackRequestOptions = {}): Promise<PaystackApiResponse<PaystackRefund>> {
+    return await this.request<PaystackRefund>('GET', `/refund/${encodeURIComponent(String(refundId))}`, {
+      errorMessage: 'Refund fetch failed',
+      ...options
+    });
+  }
+
+  /**
+   * Create a transfer recipient for a seller's South African bank account
+   */
+  async createTransferRecipient(
+    recipient: PaystackTransferRecipientRequest,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackTransferRecipient>> {
+    return await this.request<PaystackTransferRecipient>('POST', '/transferrecipient', {
+      body: recipient,
+      errorMessage: 'Transfer recipient creation failed',
+      ...options
+    });
+  }
+
+  /**
+   * Send money from the Paystack balance to a recipient
+   * Not retried. After a timeout, 5xx or duplicate reference the transfer is looked up by reference,
+   * so calling again with the same reference never pays twice
+   */
+  async initiateTransfer(
+    transfer: PaystackTransferRequest,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackTransfer>> {
+    return await this.withReferenceLookup(
+      () => this.request<PaystackTransfer>('POST', '/transfer', {
+        body: transfer,
+        errorMessage: 'Transfer initiation failed',
+        ...options
+      }),
+      () => this.verifyTransfer(transfer.reference, options)
+    );
+  }
+
+  /**
+   * Send several transfers in one request
+   */
+  async initiateBulkTransfer(
+    bulkTransfer: PaystackBulkTransferRequest,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackBulkTransferResult[]>> {
+    return await this.request<PaystackBulkTransferResult[]>('POST', '/transfer/bulk', {
+      body: bulkTransfer,
+      errorMessage: 'Bulk transfer initiation failed',
+      ...options
+    });
+  }
+
+  /**
+   * Complete a transfer that is waiting on an OTP
+   */
+  async finalizeTransfer(
+    transferCode: string,
+    otp: string,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackTransfer>> {
+    return await this.request<PaystackTransfer>('POST', '/transfer/finalize_transfer', {
+      body: { transfer_code: transferCode, otp },
+      errorMessage: 'Transfer finalization failed',
+      ...options
+    });
+  }
+
+  /**
+   * Check the status of a transfer by reference
+   */
+  async verifyTransfer(reference: string, options: PaystackRequestOptions = {}): Promise<PaystackApiResponse<PaystackTransfer>> {
+    return await this.request<PaystackTransfer>('GET', `/transfer/verify/${encodeURIComponent(reference)}`, {
+      errorMessage: 'Transfer verification failed',
+      ...options
+    });
+  }
+
+  /**
+   * Create a subscription plan
+   */
+  async createPlan(plan: PaystackPlanRequest, options: PaystackRequestOptions = {}): Promise<PaystackApiResponse<PaystackPlan>> {
+    return await this.request<PaystackPlan>('POST', '/plan', {
+      body: plan,
+      errorMessage: 'Plan creation failed',
+      ...options
+    });
+  }
+
+  /**
+   * List subscription plans
+   */
+  async listPlans(
+    params: PaystackListParams & { interval?: string; amount?: number } = {},
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackPlan[]>> {
+    return await this.request<PaystackPlan[]>('GET', `/plan${buildQueryString(params)}`, {
+      errorMessage: 'Failed to fetch plans',
+      ...options
+    });
+  }
+
+  /**
+   * Subscribe a customer to a plan
+   */
+  async createSubscription(
+    subscription: PaystackSubscriptionRequest,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackSubscription>> {
+    return await this.request<PaystackSubscription>('POST', '/subscription', {
+      body: subscription,
+      errorMessage: 'Subscription creation failed',
+      ...options
+    });
+  }
+
+  /**
+   * Fetch a subscription by id or code
+   */
+  async fetchSubscription(
+    idOrCode: string | number,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackSubscription>> {
+    return await this.request<PaystackSubscription>('GET', `/subscription/${encodeURIComponent(String(idOrCode))}`, {
+      errorMessage: 'Subscription fetch failed',
+      ...options
+    });
+  }
+
+  /**
+   * Cancel a subscription, Paystack requires the subscription's email token
+   */
+  async disableSubscription(
+    code: string,
+    emailToken: string,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<null>> {
+    return await this.request<null>('POST', '/subscription/disable', {
+      body: { code, token: emailToken },
+      errorMessage: 'Subscription cancellation failed',
+      ...options
+    });
+  }
+
+  /**
+   * Get a link where the subscriber can update their card or cancel
+   */
+  async generateSubscriptionManageLink(
+    code: string,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<{ link: string }>> {
+    return await this.request<{ link: string }>('GET', `/subscription/${encodeURIComponent(code)}/manage/link`, {
+      errorMessage: 'Subscription manage link generation failed',
+      ...options
+    });
+  }
+
+  /**
+   * List disputes, optionally filtered by status, transaction and date range
+   */
+  async listDisputes(
+    params: PaystackDisputeListParams = {},
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackDispute[]>> {
+    return await this.request<PaystackDispute[]>('GET', `/dispute${buildQueryString(params)}`, {
+      errorMessage: 'Failed to fetch disputes',
+      ...options
+    });
+  }
+
+  /**
+   * Fetch a dispute by id
+   */
+  async fetchDispute(disputeId: number | string, options: PaystackRequestOptions = {}): Promise<PaystackApiResponse<PaystackDispute>> {
+    return await this.request<PaystackDispute>('GET', `/dispute/${encodeURIComponent(String(disputeId))}`, {
+      errorMessage: 'Dispute fetch failed',
+      ...options
+    });
+  }
 
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Account resolution failed');
+  /**
+   * Submit evidence for a dispute
+   */
+  async addDisputeEvidence(
+    disputeId: number | string,
+    evidence: PaystackDisputeEvidence,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<{ id: number }>> {
+    return await this.request<{ id: number }>('POST', `/dispute/${encodeURIComponent(String(disputeId))}/evidence`, {
+      body: evidence,
+      errorMessage: 'Dispute evidence submission failed',
+      ...options
+    });
+  }
+
+  /**
+   * Get a signed URL to upload an evidence file (e.g. proof of delivery)
+   */
+  async getDisputeUploadUrl(
+    disputeId: number | string,
+    uploadFilename: string,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<{ signedUrl: string; fileName: string }>> {
+    return await this.request<{ signedUrl: string; fileName: string }>(
+      'GET',
+      `/dispute/${encodeURIComponent(String(disputeId))}/upload_url${buildQueryString({ upload_filename: uploadFilename })}`,
+      {
+        errorMessage: 'Dispute upload URL request failed',
+        ...options
       }
+    );
+  }
+
+  /**
+   * Accept or decline a dispute
+   */
+  async resolveDispute(
+    disputeId: number | string,
+    resolution: PaystackDisputeResolution,
+    options: PaystackRequestOptions = {}
+  ): Promise<PaystackApiResponse<PaystackDispute>> {
+    return await this.request<PaystackDispute>('PUT', `/dispute/${encodeURIComponent(String(disputeId))}/resolve`, {
+      body: resolution,
+      errorMessage: 'Dispute resolution failed',
+      ...options
+    });
+  }
 
-      return data;
+  /**
+   * Run a POST that creates something under our own reference
+   * When the outcome is unknown, or Paystack says the reference is taken, return what exists under it instead
+   */
+  private async withReferenceLookup<T>(
+    create: () => Promise<PaystackApiResponse<T>>,
+    lookup: () => Promise<PaystackApiResponse<T>>
+  ): Promise<PaystackApiResponse<T>> {
+    try {
+      return await create();
     } catch (error) {
-      console.error('Paystack account resolution error:', error);
-      throw error;
+      if (!isUnknownOutcomeError(error) && !isDuplicateReferenceError(error)) {
+        throw error;
+      }
+
+      try {
+        return await lookup();
+      } catch (lookupError) {
+        // Not found, or still unknown: the original error is the useful one
+        console.warn('Paystack reference lookup failed:', (lookupError as Error).message);
+        throw error;
+      }
     }
   }
+
+  /**
+   * Send a request to the Paystack API
+   * GET and PUT requests are retried on network errors, timeouts, 429 and 5xx responses with jittered backoff.
+   * POST and DELETE are sent once, Paystack has no idempotency keys
+   */
+  private async request<T = any>(
+    method: HttpMethod,
+    path: string,
+    options: PaystackRequestOptions & { body?: unknown; errorMessage: string }
+  ): Promise<PaystackApiResponse<T>> {
+    const retryable = method === 'GET' || method === 'PUT';
+    const maxAttempts = retryable ? Math.max(1, this.retryPolicy.maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.sendOnce<T>(method, path, this.baseHeaders, options);
+      } catch (error) {
+        if (!this.shouldRetry(error, attempt, maxAttempts)) {
+          throw error;
+        }
+
+        const delay = this.retryDelay(attempt, error as PaystackApiError);
+        console.warn(`Paystack ${method} ${path} attempt ${attempt} failed, retrying in ${delay}ms:`, (error as Error).message);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async sendOnce<T>(
+    method: HttpMethod,
+    path: string,
+    headers: Record<string, string>,
+    options: PaystackRequestOptions & { body?: unknown; errorMessage: string }
+  ): Promise<PaystackApiResponse<T>> {
+    const timeoutMs = options.timeoutMs ?? this.config.timeoutMs ?? 30000;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    let response: Response;
+    try {
+      response = await this.transport(`${this.config.baseUrl}${path}`, {
+        method,
+        headers,
+        signal: controller.signal,
+        ...(options.body !== undefined && { body: JSON.stringify(options.body) })
+      });
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      throw new PaystackNetworkError(
+        timedOut ? `${options.errorMessage}: request timed out after ${timeoutMs}ms` : `${options.errorMessage}: ${(error as Error).message}`,
+        { timedOut, cause: error }
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw createPaystackApiError(response.status, data, options.errorMessage, response.headers.get('retry-after'));
+    }
+
+    return data;
+  }
+
+  private shouldRetry(error: unknown, attempt: number, maxAttempts: number): boolean {
+    if (attempt >= maxAttempts || !(error instanceof PaystackApiError) || !error.retryable) {
+      return false;
+    }
+    if (error instanceof PaystackRateLimitError) {
+      return this.retryPolicy.retryOnRateLimit;
+    }
+    return true;
+  }
+
+  // Full jitter backoff, a Retry-After header takes precedence when Paystack sends one
+  private retryDelay(attempt: number, error: PaystackApiError): number {
+    if (error instanceof PaystackRateLimitError && error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, this.retryPolicy.maxDelayMs);
+    }
+
+    const ceiling = Math.min(
+      this.retryPolicy.maxDelayMs,
+      this.retryPolicy.baseDelayMs * Math.pow(2, attempt - 1)
+    );
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+// Yield every item of a paginated list endpoint, stopping at the last page
+async function* paginate<T>(
+  fetchPage: (page: number) => Promise<PaystackApiResponse<T[]>>
+): AsyncGenerator<T> {
+  for (let page = 1; ; page++) {
+    const response = await fetchPage(page);
+    const items = response.data || [];
+
+    for (const item of items) {
+      yield item;
+    }
+
+    const pageCount = response.meta?.pageCount;
+    if (items.length === 0 || (pageCount !== undefined && page >= pageCount)) {
+      return;
+    }
+  }
+}
+
+// Build a query string from list filters, skipping unset values
+function buildQueryString(params: object): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') {
+      query.append(key, String(value));
+    }
+  }
+  const serialized = query.toString();
+  return serialized ? `?${serialized}` : '';
+}
+
+function signatureMatches(secret: string, payload: string, signature: string): boolean {
+  const expected = createHmac('sha512', secret).update(payload, 'utf8').digest();
+  const received = Buffer.from(signature || '', 'hex');
+
+  // Length is not secret, a SHA-512 HMAC is always 64 bytes
+  return received.length === expected.length && timingSafeEqual(received, expected);
 }
 
 // Factory function for creating Paystack client instances
@@ -178,10 +838,18 @@ export function createPaystackClient(config: PaystackConfig): PaystackClient {
   return new PaystackClient(config);
 }
 
+// Default retry behaviour for Paystack requests
+export const defaultRetryPolicy: PaystackRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  retryOnRateLimit: true
+};
+
 // Default configuration for South African market
 export const defaultPaystackConfig: Partial<PaystackConfig> = {
   baseUrl: 'https://api.paystack.co',
+  timeoutMs: 30000,
   // publicKey and secretKey to be provided by environment variables
   // webhookSecret to be provided by environment variables
 };
-
@@ -0,0 +1,182 @@
+// DM Shop Paystack Error Hierarchy
+// Typed errors so checkout code can branch on failure type instead of message text
+
+import { PaystackError } from '../types/paystack';
+
+export type PaystackErrorKind =
+  | 'auth'
+  | 'validation'
+  | 'not_found'
+  | 'rate_limited'
+  | 'server'
+  | 'network';
+
+/**
+ * Base class for every error raised by PaystackClient
+ */
+export class PaystackApiError extends Error {
+  readonly kind: PaystackErrorKind;
+  readonly statusCode?: number;
+  readonly retryable: boolean;
+  readonly response?: PaystackError;
+  readonly cause?: unknown;
+
+  constructor(
+    kind: PaystackErrorKind,
+    message: string,
+    options: { statusCode?: number; retryable?: boolean; response?: PaystackError; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'PaystackApiError';
+    this.kind = kind;
+    this.statusCode = options.statusCode;
+    this.retryable = options.retryable ?? false;
+    this.response = options.response;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * 401/403 - invalid or revoked secret key
+ */
+export class PaystackAuthError extends PaystackApiError {
+  constructor(message: string, statusCode: number, response?: PaystackError) {
+    super('auth', message, { statusCode, response });
+    this.name = 'PaystackAuthError';
+  }
+}
+
+/**
+ * 400/422 - request rejected, field errors are in `errors`
+ */
+export class PaystackValidationError extends PaystackApiError {
+  readonly errors: Record<string, string[]>;
+
+  constructor(message: string, statusCode: number, response?: PaystackError) {
+    super('validation', message, { statusCode, response });
+    this.name = 'PaystackValidationError';
+    this.errors = response?.errors || {};
+  }
+}
+
+/**
+ * 404 - transaction, subaccount or other resource does not exist
+ */
+export class PaystackNotFoundError extends PaystackApiError {
+  constructor(message: string, response?: PaystackError) {
+    super('not_found', message, { statusCode: 404, response });
+    this.name = 'PaystackNotFoundError';
+  }
+}
+
+/**
+ * 429 - too many requests, `retryAfterMs` comes from the Retry-After header
+ */
+export class PaystackRateLimitError extends PaystackApiError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, response?: PaystackError) {
+    super('rate_limited', message, { statusCode: 429, retryable: true, response });
+    this.name = 'PaystackRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * 5xx - Paystack side failure
+ */
+export class PaystackServerError extends PaystackApiError {
+  constructor(message: string, statusCode: number, response?: PaystackError) {
+    super('server', message, { statusCode, retryable: true, response });
+    this.name = 'PaystackServerError';
+  }
+}
+
+/**
+ * Connection failure or per-request timeout, no HTTP response received
+ */
+export class PaystackNetworkError extends PaystackApiError {
+  readonly timedOut: boolean;
+
+  constructor(message: string, options: { timedOut?: boolean; cause?: unknown } = {}) {
+    super('network', message, { retryable: true, cause: options.cause });
+    this.name = 'PaystackNetworkError';
+    this.timedOut = options.timedOut ?? false;
+  }
+}
+
+/**
+ * Map an HTTP error response to the matching PaystackApiError subclass
+ */
+export function createPaystackApiError(
+  statusCode: number,
+  body: Partial<PaystackError> | null,
+  fallbackMessage: string,
+  retryAfterHeader?: string | null
+): PaystackApiError {
+  const message = body?.message || fallbackMessage;
+  const response: PaystackError = {
+    status: false,
+    message,
+    ...(body?.errors && { errors: body.errors })
+  };
+
+  if (statusCode === 401 || statusCode === 403) {
+    return new PaystackAuthError(message, statusCode, response);
+  }
+  if (statusCode === 404) {
+    return new PaystackNotFoundError(message, response);
+  }
+  if (statusCode === 429) {
+    return new PaystackRateLimitError(message, parseRetryAfter(retryAfterHeader), response);
+  }
+  if (statusCode >= 500) {
+    return new PaystackServerError(message, statusCode, response);
+  }
+  return new PaystackValidationError(message, statusCode, response);
+}
+
+/**
+ * Paystack rejected the call because the reference was already used
+ * Usually means an earlier attempt with the same reference went through
+ */
+export function isDuplicateReferenceError(error: unknown): boolean {
+  return error instanceof PaystackValidationError && /duplicate|already (exists|been used)/i.test(error.message);
+}
+
+/**
+ * No usable answer came back, so Paystack may or may not have acted on the request
+ * Look the reference up before treating the call as failed
+ */
+export function isUnknownOutcomeError(error: unknown): boolean {
+  return error instanceof PaystackNetworkError || error instanceof PaystackServerError;
+}
+
+/**
+ * Paystack answered and refused the request, so nothing was created
+ * A duplicate reference doesn't count, the earlier attempt with that reference may have gone through
+ */
+export function isDefiniteRejection(error: unknown): boolean {
+  return error instanceof PaystackApiError && !isUnknownOutcomeError(error) && !isDuplicateReferenceError(error);
+}
+
+/**
+ * Type guard for checkout code that needs to branch on Paystack failures
+ */
+export function isPaystackApiError(error: unknown): error is PaystackApiError {
+  return error instanceof PaystackApiError;
+}
+
+function parseRetryAfter(header?: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,170 @@
+// DM Shop Paystack Webhook Parser
+// Narrows raw webhook JSON into the PaystackWebhookEvent union, rejecting malformed payloads
+
+import { PaystackWebhookEvent, PaystackWebhookEventType } from '../types/paystack';
+
+/**
+ * Raised when a signed payload doesn't have the shape its event type promises
+ */
+export class PaystackWebhookPayloadError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`Malformed webhook payload at ${path}: ${message}`);
+    this.name = 'PaystackWebhookPayloadError';
+    this.path = path;
+  }
+}
+
+type Validator = (data: Record<string, unknown>) => void;
+
+const chargeValidator: Validator = data => {
+  requireNumber(data, 'data.id');
+  requireString(data, 'data.reference');
+  requireNumber(data, 'data.amount');
+  requireString(data, 'data.status');
+  normalizeMetadata(data);
+  optionalObject(data, 'data.authorization');
+  const customer = requireObject(data, 'data.customer');
+  requireString(customer, 'data.customer.email');
+};
+
+const transferValidator: Validator = data => {
+  requireString(data, 'data.reference');
+  requireString(data, 'data.transfer_code');
+  requireNumber(data, 'data.amount');
+  requireString(data, 'data.status');
+};
+
+const refundValidator: Validator = data => {
+  requireString(data, 'data.transaction_reference');
+  requireNumber(data, 'data.amount');
+  requireString(data, 'data.status');
+};
+
+const subscriptionValidator: Validator = data => {
+  requireString(data, 'data.subscription_code');
+  requireString(data, 'data.status');
+};
+
+const invoiceValidator: Validator = data => {
+  requireString(data, 'data.invoice_code');
+  requireNumber(data, 'data.amount');
+  const subscription = requireObject(data, 'data.subscription');
+  requireString(subscription, 'data.subscription.subscription_code');
+};
+
+const disputeValidator: Validator = data => {
+  requireNumber(data, 'data.id');
+  requireString(data, 'data.status');
+  const transaction = requireObject(data, 'data.transaction');
+  requireString(transaction, 'data.transaction.reference');
+  requireNumber(transaction, 'data.transaction.amount');
+};
+
+const validators: Record<PaystackWebhookEventType, Validator> = {
+  'charge.success': chargeValidator,
+  'charge.failed': chargeValidator,
+  'transfer.success': transferValidator,
+  'transfer.failed': transferValidator,
+  'transfer.reversed': transferValidator,
+  'refund.pending': refundValidator,
+  'refund.processing': refundValidator,
+  'refund.processed': refundValidator,
+  'refund.failed': refundValidator,
+  'subscription.create': subscriptionValidator,
+  'subscription.disable': subscriptionValidator,
+  'subscription.not_renew': subscriptionValidator,
+  'invoice.create': invoiceValidator,
+  'invoice.payment_failed': invoiceValidator,
+  'invoice.update': invoiceValidator,
+  'charge.dispute.create': disputeValidator,
+  'charge.dispute.remind': disputeValidator,
+  'charge.dispute.resolve': disputeValidator
+};
+
+/**
+ * Whether we model this event type, anything else is acknowledged and ignored
+ */
+export function isPaystackWebhookEventType(event: unknown): event is PaystackWebhookEventType {
+  return typeof event === 'string' && Object.prototype.hasOwnProperty.call(validators, event);
+}
+
+/**
+ * Validate parsed webhook JSON and narrow it to its event type
+ * Only checks the fields our handlers rely on, Paystack adds fields freely
+ */
+export function parsePaystackWebhookEvent(raw: unknown): PaystackWebhookEvent {
+  if (!isObject(raw)) {
+    throw new PaystackWebhookPayloadError('$', 'expected an object');
+  }
+  if (typeof raw.event !== 'string') {
+    throw new PaystackWebhookPayloadError('event', 'expected a string');
+  }
+  if (!isPaystackWebhookEventType(raw.event)) {
+    throw new PaystackWebhookPayloadError('event', `unsupported event type ${raw.event}`);
+  }
+
+  const data = requireObject(raw, 'data');
+  validators[raw.event](data);
+
+  return raw as unknown as PaystackWebhookEvent;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function field(path: string): string {
+  return path.slice(path.lastIndexOf('.') + 1);
+}
+
+function requireObject(parent: Record<string, unknown>, path: string): Record<string, unknown> {
+  const value = parent[field(path)];
+  if (!isObject(value)) {
+    throw new PaystackWebhookPayloadError(path, 'expected an object');
+  }
+  return value;
+}
+
+function optionalObject(parent: Record<string, unknown>, path: string): void {
+  const value = parent[field(path)];
+  if (value !== undefined && value !== null && !isObject(value)) {
+    throw new PaystackWebhookPayloadError(path, 'expected an object or null');
+  }
+}
+
+/**
+ * Paystack sends metadata as "", 0 or a JSON string when none (or a string) was passed at checkout
+ * A JSON object string is parsed, anything else that isn't an object becomes undefined
+ */
+function normalizeMetadata(data: Record<string, unknown>): void {
+  const value = data.metadata;
+  if (value === undefined || value === null || isObject(value)) {
+    return;
+  }
+
+  let parsed: unknown;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      parsed = undefined;
+    }
+  }
+  data.metadata = isObject(parsed) ? parsed : undefined;
+}
+
+function requireString(parent: Record<string, unknown>, path: string): void {
+  const value = parent[field(path)];
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new PaystackWebhookPayloadError(path, 'expected a non-empty string');
+  }
+}
+
+function requireNumber(parent: Record<string, unknown>, path: string): void {
+  const value = parent[field(path)];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new PaystackWebhookPayloadError(path, 'expected a number');
+  }
+}
@@ -0,0 +1,136 @@
+// DM Shop Webhook Event Store
+// Remembers which Paystack webhooks were already handled so retries don't repeat side effects
+
+import { createHash } from 'crypto';
+import { PaystackWebhookEvent } from '../types/paystack';
+import { DMShopSupabaseClient } from '../src/supabase-integration';
+
+/**
+ * Claim/complete/release lifecycle for a webhook event
+ * claim returns false for duplicates, release lets a failed event be retried
+ * isProcessed checks without claiming, for dry runs
+ */
+export interface WebhookEventStore {
+  claim(eventKey: string, eventType: string): Promise<boolean>;
+  complete(eventKey: string): Promise<void>;
+  release(eventKey: string): Promise<void>;
+  isProcessed(eventKey: string): Promise<boolean>;
+}
+
+export interface WebhookEventStoreOptions {
+  staleClaimMs?: number; // An unfinished claim older than this is taken over, default 5 minutes
+}
+
+const defaultStaleClaimMs = 5 * 60 * 1000;
+
+// Events Paystack sends more than once for the same object as it changes
+// Their keys include these fields, so a new reminder or invoice update isn't taken for a retry
+const revisionFields: Partial<Record<PaystackWebhookEvent['event'], string[]>> = {
+  'charge.dispute.remind': ['status', 'dueAt', 'updatedAt', 'updated_at'],
+  'invoice.update': ['status', 'paid_at', 'updated_at']
+};
+
+/**
+ * Dedup key from the event type, Paystack id and reference
+ * Falls back to a hash of the payload for events that carry neither
+ */
+export function webhookEventKey(event: PaystackWebhookEvent): string {
+  const data = (event.data || {}) as Record<string, any>;
+  const id = data.id ?? '';
+  const reference = data.reference ?? data.transfer_code ?? data.subscription_code ?? data.invoice_code ?? '';
+
+  if (id === '' && reference === '') {
+    return `${event.event}:sha256:${createHash('sha256').update(JSON.stringify(event)).digest('hex')}`;
+  }
+
+  const fields = revisionFields[event.event];
+  if (fields) {
+    return `${event.event}:${id}:${reference}:${fields.map(field => data[field] ?? '').join('|')}`;
+  }
+  return `${event.event}:${id}:${reference}`;
+}
+
+/**
+ * Process-local store for tests and single-instance deployments
+ */
+export class InMemoryWebhookEventStore implements WebhookEventStore {
+  private events = new Map<string, { status: 'processing' | 'processed'; claimedAt: number }>();
+  private staleClaimMs: number;
+
+  constructor(options: WebhookEventStoreOptions = {}) {
+    this.staleClaimMs = options.staleClaimMs ?? defaultStaleClaimMs;
+  }
+
+  async claim(eventKey: string): Promise<boolean> {
+    const existing = this.events.get(eventKey);
+    if (existing && (existing.status === 'processed' || Date.now() - existing.claimedAt < this.staleClaimMs)) {
+      return false;
+    }
+
+    this.events.set(eventKey, { status: 'processing', claimedAt: Date.now() });
+    return true;
+  }
+
+  async complete(eventKey: string): Promise<void> {
+    const existing = this.events.get(eventKey);
+    this.events.set(eventKey, { status: 'processed', claimedAt: existing?.claimedAt ?? Date.now() });
+  }
+
+  async release(eventKey: string): Promise<void> {
+    if (this.events.get(eventKey)?.status === 'processing') {
+      this.events.delete(eventKey);
+    }
+  }
+
+  async isProcessed(eventKey: string): Promise<boolean> {
+    return this.has(eventKey);
+  }
+
+  has(eventKey: string): boolean {
+    return this.events.get(eventKey)?.status === 'processed';
+  }
+}
+
+/**
+ * Store backed by the Supabase webhook_events table (unique on event_key)
+ * Safe across multiple webhook workers
+ */
+export class SupabaseWebhookEventStore implements WebhookEventStore {
+  private supabaseClient: DMShopSupabaseClient;
+  private staleClaimMs: number;
+
+  constructor(supabaseClient: DMShopSupabaseClient, options: WebhookEventStoreOptions = {}) {
+    this.supabaseClient = supabaseClient;
+    this.staleClaimMs = options.staleClaimMs ?? defaultStaleClaimMs;
+  }
+
+  async claim(eventKey: string, eventType: string): Promise<boolean> {
+    return await this.supabaseClient.claimWebhookEvent(eventKey, eventType, this.staleClaimMs);
+  }
+
+  async complete(eventKey: string): Promise<void> {
+    await this.supabaseClient.completeWebhookEvent(eventKey);
+  }
+
+  async release(eventKey: string): Promise<void> {
+    await this.supabaseClient.releaseWebhookEvent(eventKey);
+  }
+
+  async isProcessed(eventKey: string): Promise<boolean> {
+    const existing = await this.supabaseClient.getWebhookEvent(eventKey);
+    return existing?.status === 'processed';
+  }
+}
+
+// Factory function for the in-memory store
+export function createInMemoryWebhookEventStore(options: WebhookEventStoreOptions = {}): InMemoryWebhookEventStore {
+  return new InMemoryWebhookEventStore(options);
+}
+
+// Factory function for the Supabase store
+export function createSupabaseWebhookEventStore(
+  supabaseClient: DMShopSupabaseClient,
+  options: WebhookEventStoreOptions = {}
+): SupabaseWebhookEventStore {
+  return new SupabaseWebhookEventStore(supabaseClient, options);
+}
@@ -0,0 +1,324 @@
+// DM Shop Webhook Inbox
+// Accepted Paystack webhooks waiting for WebhookProcessingWorker, ordered per payment reference
+
+import { randomUUID } from 'crypto';
+import { PaystackWebhookEvent } from '../types/paystack';
+import { DMShopSupabaseClient, WebhookInboxRecord } from '../src/supabase-integration';
+
+export interface WebhookInboxFailure {
+  error: string;
+  retryAt: Date | null; // null marks the event failed until someone replays it
+}
+
+/**
+ * Storage for accepted webhooks
+ * claimReady returns at most one event per ordering key, the oldest unfinished one.
+ * A failed event keeps blocking its key until it is replayed or resolved
+ */
+export interface WebhookInbox {
+  enqueue(eventKey: string, event: PaystackWebhookEvent): Promise<void>;
+  claimReady(limit: number): Promise<WebhookInboxRecord[]>;
+  markProcessed(record: WebhookInboxRecord): Promise<void>;
+  markFailed(record: WebhookInboxRecord, failure: WebhookInboxFailure): Promise<void>;
+  listFailed(limit?: number): Promise<WebhookInboxRecord[]>;
+  findByEventKey(eventKey: string): Promise<WebhookInboxRecord | null>;
+  replay(id: string): Promise<boolean>;
+  resolve(id: string, resolution: string): Promise<boolean>;
+}
+
+export interface WebhookInboxOptions {
+  maxAttempts?: number; // Processing attempts before an event is marked failed, default 10
+  lockTimeoutMs?: number; // An event still locked after this is picked up again, default 5 minutes
+  scanLimit?: number; // Pending and in-flight events examined per claim, default 500
+}
+
+const defaultMaxAttempts = 10;
+const defaultLockTimeoutMs = 5 * 60 * 1000;
+const defaultScanLimit = 500;
+
+/**
+ * Key that orders events about the same payment, transfer or subscription
+ * e.g. a refund is never processed before the charge.success it refunds
+ */
+export function webhookOrderingKey(event: PaystackWebhookEvent): string {
+  switch (event.event) {
+    case 'charge.success':
+    case 'charge.failed':
+      return `payment:${event.data.reference}`;
+    case 'refund.pending':
+    case 'refund.processing':
+    case 'refund.processed':
+    case 'refund.failed':
+      return `payment:${event.data.transaction_reference}`;
+    case 'charge.dispute.create':
+    case 'charge.dispute.remind':
+    case 'charge.dispute.resolve':
+      return `payment:${event.data.transaction.reference}`;
+    case 'transfer.success':
+    case 'transfer.failed':
+    case 'transfer.reversed':
+      return `transfer:${event.data.reference}`;
+    case 'subscription.create':
+    case 'subscription.disable':
+    case 'subscription.not_renew':
+      return `subscription:${event.data.subscription_code}`;
+    case 'invoice.create':
+    case 'invoice.payment_failed':
+    case 'invoice.update':
+      return `subscription:${event.data.subscription.subscription_code}`;
+  }
+}
+
+// The oldest pending or in-flight event per key, if it's due or its lock expired
+// A failed event holds its key, later events about the same payment wait behind it
+function selectReady(
+  active: WebhookInboxRecord[],
+  failedKeys: Iterable<string>,
+  lockTimeoutMs: number,
+  limit: number
+): WebhookInboxRecord[] {
+  const now = Date.now();
+  const seenKeys = new Set<string>(failedKeys);
+  const ready: WebhookInboxRecord[] = [];
+
+  for (const record of active) {
+    if (ready.length >= limit) break;
+    if (seenKeys.has(record.ordering_key)) continue;
+    seenKeys.add(record.ordering_key);
+
+    const due = record.status === 'pending' && Date.parse(record.next_attempt_at) <= now;
+    const lockExpired = record.status === 'processing' && now - Date.parse(record.locked_at!) > lockTimeoutMs;
+    if (due || lockExpired) {
+      ready.push(record);
+    }
+  }
+
+  return ready;
+}
+
+/**
+ * Process-local inbox for tests and single-instance deployments
+ * Accepted events are lost on restart, Paystack won't resend them
+ */
+export class InMemoryWebhookInbox implements WebhookInbox {
+  private records: WebhookInboxRecord[] = [];
+  private maxAttempts: number;
+  private lockTimeoutMs: number;
+
+  constructor(options: WebhookInboxOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? defaultMaxAttempts;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? defaultLockTimeoutMs;
+  }
+
+  async enqueue(eventKey: string, event: PaystackWebhookEvent): Promise<void> {
+    const now = new Date().toISOString();
+    this.records.push({
+      id: randomUUID(),
+      event_key: eventKey,
+      event_type: event.event,
+      ordering_key: webhookOrderingKey(event),
+      payload: event,
+      status: 'pending',
+      attempts: 0,
+      max_attempts: this.maxAttempts,
+      next_attempt_at: now,
+      received_at: now,
+      updated_at: now
+    });
+  }
+
+  async claimReady(limit: number): Promise<WebhookInboxRecord[]> {
+    const active = this.records.filter(record => record.status === 'pending' || record.status === 'processing');
+    const failedKeys = this.records.filter(record => record.status === 'failed').map(record => record.ordering_key);
+    const stamp = new Date().toISOString();
+
+    return selectReady(active, failedKeys, this.lockTimeoutMs, limit).map(record => {
+      Object.assign(record, { status: 'processing', locked_at: stamp, updated_at: stamp });
+      return { ...record };
+    });
+  }
+
+  async markProcessed(record: WebhookInboxRecord): Promise<void> {
+    const stored = this.find(record.id);
+    if (stored?.status === 'processing') {
+      Object.assign(stored, processedUpdates(record));
+    }
+  }
+
+  async markFailed(record: WebhookInboxRecord, failure: WebhookInboxFailure): Promise<void> {
+    const stored = this.find(record.id);
+    if (stored?.status === 'processing') {
+      Object.assign(stored, failureUpdates(record, failure));
+    }
+  }
+
+  async listFailed(limit: number = 50): Promise<WebhookInboxRecord[]> {
+    return this.records
+      .filter(record => record.status === 'failed')
+      .slice(0, limit)
+      .map(record => ({ ...record }));
+  }
+
+  async findByEventKey(eventKey: string): Promise<WebhookInboxRecord | null> {
+    const stored = [...this.records].reverse().find(record => record.event_key === eventKey);
+    return stored ? { ...stored } : null;
+  }
+
+  async replay(id: string): Promise<boolean> {
+    const stored = this.find(id);
+    if (!stored || stored.status !== 'failed') {
+      return false;
+    }
+
+    Object.assign(stored, replayUpdates());
+    return true;
+  }
+
+  async resolve(id: string, resolution: string): Promise<boolean> {
+    const stored = this.find(id);
+    if (!stored || stored.status !== 'failed') {
+      return false;
+    }
+
+    Object.assign(stored, resolveUpdates(resolution));
+    return true;
+  }
+
+  /**
+   * All events in received order, for assertions in tests
+   */
+  list(): WebhookInboxRecord[] {
+    return this.records.map(record => ({ ...record }));
+  }
+
+  private find(id: string): WebhookInboxRecord | undefined {
+    return this.records.find(record => record.id === id);
+  }
+}
+
+/**
+ * Inbox backed by the Supabase webhook_inbox table
+ * Ordering holds within a worker and across workers while an earlier event is still unfinished
+ */
+export class SupabaseWebhookInbox implements WebhookInbox {
+  private supabaseClient: DMShopSupabaseClient;
+  private maxAttempts: number;
+  private lockTimeoutMs: number;
+  private scanLimit: number;
+
+  constructor(supabaseClient: DMShopSupabaseClient, options: WebhookInboxOptions = {}) {
+    this.supabaseClient = supabaseClient;
+    this.maxAttempts = options.maxAttempts ?? defaultMaxAttempts;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? defaultLockTimeoutMs;
+    this.scanLimit = options.scanLimit ?? defaultScanLimit;
+  }
+
+  async enqueue(eventKey: string, event: PaystackWebhookEvent): Promise<void> {
+    await this.supabaseClient.insertWebhookInboxEvent({
+      event_key: eventKey,
+      event_type: event.event,
+      ordering_key: webhookOrderingKey(event),
+      payload: event,
+      max_attempts: this.maxAttempts
+    });
+  }
+
+  async claimReady(limit: number): Promise<WebhookInboxRecord[]> {
+    // Failed rows are looked up by key, so a pile of them never crowds newer events out of the scan
+    const active = await this.supabaseClient.listUnfinishedWebhookInboxEvents(this.scanLimit);
+    const orderingKeys = [...new Set(active.map(record => record.ordering_key))];
+    const failedKeys = orderingKeys.length > 0
+      ? await this.supabaseClient.getFailedWebhookInboxKeys(orderingKeys)
+      : [];
+
+    const claimed: WebhookInboxRecord[] = [];
+    for (const candidate of selectReady(active, failedKeys, this.lockTimeoutMs, limit)) {
+      const locked = await this.supabaseClient.lockWebhookInboxEvent(candidate);
+      if (locked) {
+        claimed.push(locked);
+      }
+    }
+    return claimed;
+  }
+
+  async markProcessed(record: WebhookInboxRecord): Promise<void> {
+    await this.supabaseClient.updateWebhookInboxEvent(record.id, processedUpdates(record), 'processing');
+  }
+
+  async markFailed(record: WebhookInboxRecord, failure: WebhookInboxFailure): Promise<void> {
+    await this.supabaseClient.updateWebhookInboxEvent(record.id, failureUpdates(record, failure), 'processing');
+  }
+
+  async listFailed(limit: number = 50): Promise<WebhookInboxRecord[]> {
+    return await this.supabaseClient.listWebhookInboxEvents('failed', limit);
+  }
+
+  async findByEventKey(eventKey: string): Promise<WebhookInboxRecord | null> {
+    return await this.supabaseClient.getWebhookInboxEventByKey(eventKey);
+  }
+
+  async replay(id: string): Promise<boolean> {
+    const replayed = await this.supabaseClient.updateWebhookInboxEvent(id, replayUpdates(), 'failed');
+    return replayed !== null;
+  }
+
+  async resolve(id: string, resolution: string): Promise<boolean> {
+    const resolved = await this.supabaseClient.updateWebhookInboxEvent(id, resolveUpdates(resolution), 'failed');
+    return resolved !== null;
+  }
+}
+
+function processedUpdates(record: WebhookInboxRecord): Partial<WebhookInboxRecord> {
+  const now = new Date().toISOString();
+  return {
+    status: 'processed',
+    attempts: record.attempts + 1,
+    locked_at: null,
+    processed_at: now,
+    updated_at: now
+  };
+}
+
+function failureUpdates(record: WebhookInboxRecord, failure: WebhookInboxFailure): Partial<WebhookInboxRecord> {
+  return {
+    status: failure.retryAt ? 'pending' : 'failed',
+    attempts: record.attempts + 1,
+    locked_at: null,
+    last_error: failure.error,
+    next_attempt_at: failure.retryAt ? failure.retryAt.toISOString() : record.next_attempt_at,
+    updated_at: new Date().toISOString()
+  };
+}
+
+// A replayed event gets a fresh set of attempts, last_error is kept for the record
+function replayUpdates(): Partial<WebhookInboxRecord> {
+  const now = new Date().toISOString();
+  return {
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: now,
+    updated_at: now
+  };
+}
+
+// Closes a failed event without running it, which unblocks its ordering key
+function resolveUpdates(resolution: string): Partial<WebhookInboxRecord> {
+  return {
+    status: 'resolved',
+    resolution,
+    updated_at: new Date().toISOString()
+  };
+}
+
+// Factory function for the in-memory inbox
+export function createInMemoryWebhookInbox(options: WebhookInboxOptions = {}): InMemoryWebhookInbox {
+  return new InMemoryWebhookInbox(options);
+}
+
+// Factory function for the Supabase inbox
+export function createSupabaseWebhookInbox(
+  supabaseClient: DMShopSupabaseClient,
+  options: WebhookInboxOptions = {}
+): SupabaseWebhookInbox {
+  return new SupabaseWebhookInbox(supabaseClient, options);
+}
@@ -0,0 +1,126 @@
+// DM Shop Webhook Journal
+// Verbatim record of every inbound Paystack webhook request, used to debug and replay events
+
+import { randomUUID } from 'crypto';
+import { DMShopSupabaseClient, WebhookJournalRecord } from '../src/supabase-integration';
+
+// event_type and reference are filled in from the raw body
+export type WebhookJournalEntry = Omit<WebhookJournalRecord, 'id' | 'event_type' | 'reference'>;
+
+// What the worker found when it ran an accepted event
+export type WebhookJournalOutcome = Pick<WebhookJournalRecord, 'success' | 'result_code' | 'result_message' | 'duration_ms'>;
+
+export interface WebhookJournalQuery {
+  from: Date;
+  to: Date; // Exclusive
+  eventType?: string;
+  limit?: number; // Default 500
+}
+
+/**
+ * Storage for journaled webhook requests
+ * recordOutcome replaces an accepted entry's result once WebhookProcessingWorker has run it
+ */
+export interface WebhookJournal {
+  record(entry: WebhookJournalEntry): Promise<WebhookJournalRecord>;
+  recordOutcome(eventKey: string, outcome: WebhookJournalOutcome): Promise<void>;
+  get(id: string): Promise<WebhookJournalRecord | null>;
+  list(query: WebhookJournalQuery): Promise<WebhookJournalRecord[]>;
+}
+
+const defaultListLimit = 500;
+
+// Best effort, the body may not be JSON at all
+function describeBody(rawBody: string): Pick<WebhookJournalRecord, 'event_type' | 'reference'> {
+  try {
+    const parsed = JSON.parse(rawBody);
+    const data = parsed?.data || {};
+    const reference = data.reference ?? data.transaction_reference ?? data.transaction?.reference;
+    return {
+      event_type: typeof parsed?.event === 'string' ? parsed.event : null,
+      reference: typeof reference === 'string' ? reference : null
+    };
+  } catch (error) {
+    return { event_type: null, reference: null };
+  }
+}
+
+/**
+ * Process-local journal for tests and local debugging
+ */
+export class InMemoryWebhookJournal implements WebhookJournal {
+  private records: WebhookJournalRecord[] = [];
+
+  async record(entry: WebhookJournalEntry): Promise<WebhookJournalRecord> {
+    const record = { id: randomUUID(), ...entry, ...describeBody(entry.raw_body) };
+    this.records.push(record);
+    return { ...record };
+  }
+
+  async recordOutcome(eventKey: string, outcome: WebhookJournalOutcome): Promise<void> {
+    this.records
+      .filter(record => record.event_key === eventKey)
+      .forEach(record => Object.assign(record, outcome));
+  }
+
+  async get(id: string): Promise<WebhookJournalRecord | null> {
+    const record = this.records.find(candidate => candidate.id === id);
+    return record ? { ...record } : null;
+  }
+
+  async list(query: WebhookJournalQuery): Promise<WebhookJournalRecord[]> {
+    const from = query.from.getTime();
+    const to = query.to.getTime();
+
+    return this.records
+      .filter(record => {
+        const receivedAt = Date.parse(record.received_at);
+        return receivedAt >= from && receivedAt < to && (!query.eventType || record.event_type === query.eventType);
+      })
+      .sort((a, b) => Date.parse(a.received_at) - Date.parse(b.received_at))
+      .slice(0, query.limit ?? defaultListLimit)
+      .map(record => ({ ...record }));
+  }
+}
+
+/**
+ * Journal backed by the Supabase webhook_journal table
+ */
+export class SupabaseWebhookJournal implements WebhookJournal {
+  private supabaseClient: DMShopSupabaseClient;
+
+  constructor(supabaseClient: DMShopSupabaseClient) {
+    this.supabaseClient = supabaseClient;
+  }
+
+  async record(entry: WebhookJournalEntry): Promise<WebhookJournalRecord> {
+    return await this.supabaseClient.insertWebhookJournalEntry({ ...entry, ...describeBody(entry.raw_body) });
+  }
+
+  async recordOutcome(eventKey: string, outcome: WebhookJournalOutcome): Promise<void> {
+    await this.supabaseClient.updateWebhookJournalEntries(eventKey, outcome);
+  }
+
+  async get(id: string): Promise<WebhookJournalRecord | null> {
+    return await this.supabaseClient.getWebhookJournalEntry(id);
+  }
+
+  async list(query: WebhookJournalQuery): Promise<WebhookJournalRecord[]> {
+    return await this.supabaseClient.listWebhookJournalEntries(
+      query.from,
+      query.to,
+      query.eventType,
+      query.limit ?? defaultListLimit
+    );
+  }
+}
+
+// Factory function for the in-memory journal
+export function createInMemoryWebhookJournal(): InMemoryWebhookJournal {
+  return new InMemoryWebhookJournal();
+}
+
+// Factory function for the Supabase journal
+export function createSupabaseWebhookJournal(supabaseClient: DMShopSupabaseClient): SupabaseWebhookJournal {
+  return new SupabaseWebhookJournal(supabaseClient);
+}
@@ -0,0 +1,115 @@
+// DM Shop Webhook Replay
+// Re-run journaled Paystack webhooks through the handler, one at a time or a whole time range
+
+import { WebhookJournalRecord } from '../src/supabase-integration';
+import { WebhookJournal } from './webhook-journal';
+
+// DMShopWebhookHandler satisfies this
+export interface WebhookReplayTarget {
+  replayPaystackWebhook(
+    payload: string,
+    options: { dryRun?: boolean; force?: boolean }
+  ): Promise<{ success: boolean; code?: string; message: string }>;
+}
+
+export type WebhookReplayMode = 'dry_run' | 'live';
+
+export interface WebhookReplayOutcome {
+  entryId: string;
+  receivedAt?: string;
+  eventType?: string | null;
+  reference?: string | null;
+  mode: WebhookReplayMode;
+  status: 'replayed' | 'would_replay' | 'skipped' | 'failed';
+  message: string;
+}
+
+export interface WebhookReplayRangeOptions {
+  mode?: WebhookReplayMode; // Default dry_run
+  eventType?: string;
+  limit?: number;
+  force?: boolean; // Also run entries that were duplicates or whose event was already processed
+}
+
+/**
+ * Replays journaled webhooks
+ * Dry runs are the default: they parse and validate each payload without running handlers.
+ * Duplicates and already processed events are skipped unless force is set
+ */
+export class WebhookReplayer {
+  private target: WebhookReplayTarget;
+  private journal: WebhookJournal;
+
+  constructor(target: WebhookReplayTarget, journal: WebhookJournal) {
+    this.target = target;
+    this.journal = journal;
+  }
+
+  /**
+   * Replay one journal entry
+   */
+  async replay(id: string, mode: WebhookReplayMode = 'dry_run', force: boolean = false): Promise<WebhookReplayOutcome> {
+    const entry = await this.journal.get(id);
+    if (!entry) {
+      return { entryId: id, mode, status: 'failed', message: `Journal entry ${id} not found` };
+    }
+    return await this.replayEntry(entry, mode, force);
+  }
+
+  /**
+   * Replay every entry received in [from, to), oldest first
+   * Entries run one after another so events about the same payment keep their order
+   */
+  async replayRange(from: Date, to: Date, options: WebhookReplayRangeOptions = {}): Promise<WebhookReplayOutcome[]> {
+    const mode = options.mode ?? 'dry_run';
+    const entries = await this.journal.list({ from, to, eventType: options.eventType, limit: options.limit });
+
+    const outcomes: WebhookReplayOutcome[] = [];
+    for (const entry of entries) {
+      outcomes.push(await this.replayEntry(entry, mode, options.force ?? false));
+    }
+    return outcomes;
+  }
+
+  private async replayEntry(
+    entry: WebhookJournalRecord,
+    mode: WebhookReplayMode,
+    force: boolean
+  ): Promise<WebhookReplayOutcome> {
+    const outcome = {
+      entryId: entry.id,
+      receivedAt: entry.received_at,
+      eventType: entry.event_type,
+      reference: entry.reference,
+      mode
+    };
+
+    // Never replay a body Paystack didn't sign
+    if (entry.signature_check !== 'valid' && entry.signature_check !== 'valid_secondary') {
+      return { ...outcome, status: 'skipped', message: `Signature check was ${entry.signature_check} when received` };
+    }
+    // The original delivery of this event is (or will be) replayed on its own
+    if (entry.result_code === 'duplicate' && !force) {
+      return { ...outcome, status: 'skipped', message: 'Entry was a duplicate delivery when received' };
+    }
+
+    try {
+      const result = await this.target.replayPaystackWebhook(entry.raw_body, { dryRun: mode === 'dry_run', force });
+      if (!result.success) {
+        return { ...outcome, status: 'failed', message: result.message };
+      }
+      if (result.code === 'ignored' || result.code === 'duplicate') {
+        return { ...outcome, status: 'skipped', message: result.message };
+      }
+      return { ...outcome, status: mode === 'live' ? 'replayed' : 'would_replay', message: result.message };
+    } catch (error) {
+      console.error(`Webhook replay error for journal entry ${entry.id}:`, error);
+      return { ...outcome, status: 'failed', message: (error as Error).message };
+    }
+  }
+}
+
+// Factory function for the webhook replayer
+export function createWebhookReplayer(target: WebhookReplayTarget, journal: WebhookJournal): WebhookReplayer {
+  return new WebhookReplayer(target, journal);
+}
@@ -0,0 +1,184 @@
+// DM Shop Webhook Processing Worker
+// Runs handlers for accepted Paystack webhooks with a concurrency limit and retries for transient failures
+
+import { PaystackWebhookEvent } from '../types/paystack';
+import { SupabaseRequestError, WebhookInboxRecord } from '../src/supabase-integration';
+import { PaystackApiError } from './paystack-errors';
+import { WebhookInbox } from './webhook-inbox';
+import { WebhookJournal, WebhookJournalOutcome } from './webhook-journal';
+
+// DMShopWebhookHandler satisfies this
+export interface WebhookEventProcessor {
+  processEvent(event: PaystackWebhookEvent): Promise<{ success: boolean; code?: string; message: string }>;
+}
+
+export interface WebhookWorkerOptions {
+  concurrency?: number; // Events processed at once, default 5
+  batchSize?: number; // Events claimed per run, default 25
+  pollIntervalMs?: number; // Delay between runs when started, default 1 second
+  baseDelayMs?: number; // First retry delay, doubled per attempt, default 2 seconds
+  maxDelayMs?: number; // Retry delay ceiling, default 5 minutes
+  journal?: WebhookJournal; // Gets each event's final result, pass the handler's journal
+}
+
+export interface WebhookWorkerRunResult {
+  processed: number;
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Whether an error is worth retrying: network failures, timeouts, rate limits and 5xx from Supabase or Paystack
+ * Anything else (bad data, a bug) fails the event straight away for a manual replay
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof SupabaseRequestError || error instanceof PaystackApiError) {
+    return error.retryable;
+  }
+  return false;
+}
+
+/**
+ * Processes the webhook inbox
+ * Run one per process with start(), or call runOnce() from a scheduler
+ */
+export class WebhookProcessingWorker {
+  private processor: WebhookEventProcessor;
+  private inbox: WebhookInbox;
+  private concurrency: number;
+  private batchSize: number;
+  private pollIntervalMs: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private journal?: WebhookJournal;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(processor: WebhookEventProcessor, inbox: WebhookInbox, options: WebhookWorkerOptions = {}) {
+    this.processor = processor;
+    this.inbox = inbox;
+    this.concurrency = Math.max(1, options.concurrency ?? 5);
+    this.batchSize = options.batchSize ?? 25;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.baseDelayMs = options.baseDelayMs ?? 2000;
+    this.maxDelayMs = options.maxDelayMs ?? 5 * 60 * 1000;
+    this.journal = options.journal;
+  }
+
+  /**
+   * Claim and process one batch
+   * A batch never holds two events with the same ordering key, so they can run in parallel
+   */
+  async runOnce(): Promise<WebhookWorkerRunResult> {
+    const result: WebhookWorkerRunResult = { processed: 0, retried: 0, failed: 0 };
+    const records = await this.inbox.claimReady(this.batchSize);
+
+    let next = 0;
+    const lanes = Array.from({ length: Math.min(this.concurrency, records.length) }, async () => {
+      while (next < records.length) {
+        const outcome = await this.process(records[next++]);
+        result[outcome]++;
+      }
+    });
+    await Promise.all(lanes);
+
+    return result;
+  }
+
+  /**
+   * Poll the inbox until stop() is called
+   * The timer is unref'd so an idle worker doesn't keep the process alive
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        const result = await this.runOnce();
+        if (result.failed > 0) {
+          console.error(`${result.failed} webhook event(s) failed and need a manual replay`);
+        }
+      } catch (error) {
+        console.error('Webhook worker run error:', error);
+      }
+
+      if (this.running) {
+        this.timer = setTimeout(tick, this.pollIntervalMs);
+        this.timer.unref?.();
+      }
+    };
+
+    void tick();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async process(record: WebhookInboxRecord): Promise<keyof WebhookWorkerRunResult> {
+    const attempt = record.attempts + 1;
+    const startedAt = Date.now();
+
+    try {
+      const result = await this.processor.processEvent(record.payload);
+      await this.inbox.markProcessed(record);
+      await this.journalOutcome(record, {
+        success: result.success,
+        result_code: result.code ?? (result.success ? 'processed' : 'processing_failed'),
+        result_message: result.message,
+        duration_ms: Date.now() - startedAt
+      });
+      return 'processed';
+    } catch (error) {
+      const message = (error as Error).message;
+      const retryable = isTransientError(error) && attempt < record.max_attempts;
+      const retryAt = retryable ? new Date(Date.now() + this.retryDelay(attempt)) : null;
+
+      console.error(
+        `Webhook ${record.event_type} (${record.event_key}) attempt ${attempt}/${record.max_attempts} failed: ${message}` +
+        (retryAt ? `, retrying at ${retryAt.toISOString()}` : ', marked failed')
+      );
+      await this.inbox.markFailed(record, { error: message, retryAt });
+
+      // Retries keep the entry as accepted, only the final failure is journaled
+      if (!retryAt) {
+        await this.journalOutcome(record, {
+          success: false,
+          result_code: 'processing_failed',
+          result_message: message,
+          duration_ms: Date.now() - startedAt
+        });
+      }
+      return retryAt ? 'retried' : 'failed';
+    }
+  }
+
+  // Journal failures are logged, the inbox already holds the outcome
+  private async journalOutcome(record: WebhookInboxRecord, outcome: WebhookJournalOutcome): Promise<void> {
+    if (!this.journal) return;
+
+    try {
+      await this.journal.recordOutcome(record.event_key, outcome);
+    } catch (error) {
+      console.error('Webhook journal error:', error);
+    }
+  }
+
+  private retryDelay(attempt: number): number {
+    return Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, attempt - 1));
+  }
+}
+
+// Factory function for the webhook processing worker
+export function createWebhookProcessingWorker(
+  processor: WebhookEventProcessor,
+  inbox: WebhookInbox,
+  options: WebhookWorkerOptions = {}
+): WebhookProcessingWorker {
+  return new WebhookProcessingWorker(processor, inbox, options);
+}
@@ -1,9 +1,12 @@
 // DM Shop Zapier MCP Tools Integration
 // For MCP tools and integrations, NOT automation (n8n handles automation)
 
+import { HttpTransport, fetchTransport } from './http-transport';
+
 export interface ZapierMCPConfig {
   apiKey: string;
   baseUrl: string;
+  transport?: HttpTransport; // Defaults to the global fetch
 }
 
 export interface ZapierTool {
@@ -34,9 +37,11 @@ export interface ZapierToolResult {
 export class ZapierMCPClient {
   private config: ZapierMCPConfig;
   private baseHeaders: Record<string, string>;
+  private transport: HttpTransport;
 
   constructor(config: ZapierMCPConfig) {
     this.config = config;
+    this.transport = config.transport || fetchTransport;
     this.baseHeaders = {
       'Authorization': `Bearer ${config.apiKey}`,
       'Content-Type': 'application/json',
@@ -50,7 +55,7 @@ export class ZapierMCPClient {
    */
   async listAvailableTools(): Promise<ZapierTool[]> {
     try {
-      const response = await fetch(`${this.config.baseUrl}/api/v1/tools`, {
+      const response = await this.transport(`${this.config.baseUrl}/api/v1/tools`, {
         method: 'GET',
         headers: this.baseHeaders
       });
@@ -73,7 +78,7 @@ export class ZapierMCPClient {
    */
   async executeTool(execution: ZapierToolExecution): Promise<ZapierToolResult> {
     try {
-      const response = await fetch(`${this.config.baseUrl}/api/v1/tools/${execution.toolId}/execute`, {
+      const response = await this.transport(`${this.config.baseUrl}/api/v1/tools/${execution.toolId}/execute`, {
         method: 'POST',
         headers: this.baseHeaders,
         body: JSON.stringify({
@@ -118,7 +123,7 @@ export class ZapierMCPClient {
     error?: string;
   }> {
     try {
-      const response = await fetch(`${this.config.baseUrl}/api/v1/executions/${executionId}`, {
+      const response = await this.transport(`${this.config.baseUrl}/api/v1/executions/${executionId}`, {
         method: 'GET',
         headers: this.baseHeaders
       });
@@ -0,0 +1,94 @@
+// DM Shop Webhook Replay Command
+// npm run replay-webhooks -- --id <journal id> [--live] [--force]
+// npm run replay-webhooks -- --from 2026-01-01T00:00:00Z --to 2026-01-02T00:00:00Z [--event charge.success] [--live] [--force]
+
+import { createPaystackClient } from '../lib/paystack-client';
+import { createSupabaseClient } from '../src/supabase-integration';
+import { createWebhookHandler } from '../api/webhook-handler';
+import { createSupabaseWebhookJournal } from '../lib/webhook-journal';
+import { WebhookReplayMode, WebhookReplayOutcome, createWebhookReplayer } from '../lib/webhook-replay';
+
+interface ReplayArgs {
+  id?: string;
+  from?: Date;
+  to?: Date;
+  event?: string;
+  mode: WebhookReplayMode;
+  force: boolean;
+}
+
+function parseArgs(argv: string[]): ReplayArgs {
+  const args: ReplayArgs = { mode: 'dry_run', force: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === '--live') {
+      args.mode = 'live';
+    } else if (flag === '--force') {
+      args.force = true;
+    } else if (flag === '--id') {
+      args.id = argv[++i];
+    } else if (flag === '--from' || flag === '--to') {
+      const date = new Date(argv[++i]);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`${flag} needs an ISO date`);
+      }
+      args[flag === '--from' ? 'from' : 'to'] = date;
+    } else if (flag === '--event') {
+      args.event = argv[++i];
+    } else {
+      throw new Error(`Unknown argument ${flag}`);
+    }
+  }
+
+  if (!args.id && !(args.from && args.to)) {
+    throw new Error('Pass --id, or --from and --to');
+  }
+  return args;
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+function printOutcome(outcome: WebhookReplayOutcome): void {
+  const subject = [outcome.eventType, outcome.reference].filter(Boolean).join(' ');
+  console.log(`${outcome.status.padEnd(12)} ${outcome.entryId} ${outcome.receivedAt ?? ''} ${subject} - ${outcome.message}`);
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  const supabaseUrl = requireEnv('SUPABASE_URL');
+  const supabaseKey = requireEnv('SUPABASE_SERVICE_KEY');
+  const paystackClient = createPaystackClient({
+    baseUrl: 'https://api.paystack.co',
+    publicKey: requireEnv('PAYSTACK_PUBLIC_KEY'),
+    secretKey: requireEnv('PAYSTACK_SECRET_KEY'),
+    webhookSecret: requireEnv('PAYSTACK_SECRET_KEY')
+  });
+
+  const handler = createWebhookHandler(paystackClient, supabaseUrl, supabaseKey);
+  const journal = createSupabaseWebhookJournal(createSupabaseClient({ url: supabaseUrl, anonKey: supabaseKey }));
+  const replayer = createWebhookReplayer(handler, journal);
+
+  const outcomes = args.id
+    ? [await replayer.replay(args.id, args.mode, args.force)]
+    : await replayer.replayRange(args.from!, args.to!, { mode: args.mode, eventType: args.event, force: args.force });
+
+  outcomes.forEach(printOutcome);
+  console.log(`${outcomes.length} event(s), ${args.mode === 'live' ? 'live' : 'dry run'}`);
+
+  if (outcomes.some(outcome => outcome.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Webhook replay failed:', error.message);
+  process.exitCode = 1;
+});
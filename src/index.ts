@@ -0,0 +1,61 @@
+// DM Shop Payment Foundation
+// Public entry point, re-exports every module
+
+export * from '../types/paystack';
+export * from '../types/dm-shop-events';
+
+export * from '../lib/http-transport';
+export * from '../lib/paystack-errors';
+export * from '../lib/paystack-client';
+// The MCP module has its own simplified shapes under names types/paystack already uses
+export {
+  PaystackMCPConfig,
+  PaystackTransaction as PaystackMCPTransaction,
+  PaystackTransactionResult,
+  PaystackProduct,
+  PaystackProductResult,
+  PaystackInvoice as PaystackMCPInvoice,
+  PaystackInvoiceResult,
+  PaystackCustomer as PaystackMCPCustomer,
+  PaystackCustomerResult,
+  PaystackMCPClient,
+  DMShopPaystackMCP,
+  createPaystackMCPClient,
+  createDMShopPaystackMCP,
+  paystackMCPTools,
+  southAfricanBankCodes,
+  setupDMShopPaystackMCP
+} from '../lib/paystack-mcp-integration';
+export * from '../lib/paystack-webhook-parser';
+export * from '../lib/webhook-event-store';
+export * from '../lib/webhook-inbox';
+export * from '../lib/webhook-journal';
+export * from '../lib/webhook-replay';
+export * from '../lib/webhook-worker';
+export * from '../lib/dm-shop-events';
+export * from '../lib/automation-health';
+export * from '../lib/automation-outbox';
+export * from '../lib/automation-worker';
+export * from '../lib/automation-signing';
+export * from '../lib/automation-routing';
+export * from '../lib/dm-shop-payment-verification';
+export * from '../lib/dm-shop-order-payments';
+export * from '../lib/dm-shop-refunds';
+export * from '../lib/dm-shop-payouts';
+export * from '../lib/dm-shop-subaccounts';
+export * from '../lib/dm-shop-splits';
+export * from '../lib/dm-shop-saved-cards';
+export * from '../lib/dm-shop-subscriptions';
+export * from '../lib/dm-shop-disputes';
+export * from '../lib/dm-shop-reconciliation';
+export * from '../lib/zapier-mcp-tools';
+
+export * from '../utils/money';
+export * from '../utils/payment-calculator';
+export * from '../utils/transaction-export';
+
+export * from './supabase-integration';
+
+export * from '../api/webhook-handler';
+export * from '../api/http-adapters';
+export * from '../api/n8n-automation';
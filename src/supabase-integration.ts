@@ -1,19 +1,47 @@
 // DM Shop Supabase Integration Layer
 // Foundation for database operations and MCP integration
 
-import { DMShopOrderPayment, PaystackWebhookEvent } from '../types/paystack';
+import {
+  DMShopOrderPayment,
+  PaystackChargeEvent,
+  PaystackDispute,
+  PaystackWebhookEvent,
+  PaystackWebhookSignatureCheck
+} from '../types/paystack';
+import { HttpTransport, fetchTransport } from '../lib/http-transport';
+import { DMShopEventEnvelope } from '../types/dm-shop-events';
 
 export interface SupabaseConfig {
   url: string;
   anonKey: string;
   serviceKey?: string;
+  transport?: HttpTransport; // Defaults to the global fetch
+}
+
+/**
+ * Raised when a Supabase request fails
+ * statusCode is 0 when the request never got a response
+ */
+export class SupabaseRequestError extends Error {
+  readonly statusCode: number;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(statusCode: number, message: string, options: { cause?: unknown } = {}) {
+    super(message);
+    this.name = 'SupabaseRequestError';
+    this.statusCode = statusCode;
+    // Network failures, timeouts, rate limits and server errors can succeed on retry
+    this.retryable = statusCode === 0 || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+    this.cause = options.cause;
+  }
 }
 
 export interface OrderRecord {
   id: string;
   user_id: string;
   status: 'pending' | 'paid' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'failed';
-  payment_status: 'pending' | 'paid' | 'failed' | 'refunded';
+  payment_status: 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded' | 'under_review';
   payment_reference?: string;
   paystack_transaction_id?: string;
   total_amount: number;
@@ -25,6 +53,20 @@ export interface OrderRecord {
   metadata?: Record<string, any>;
 }
 
+// Line item captured at checkout, seller_tier is locked in at purchase time
+export interface OrderItemRecord {
+  id: string;
+  order_id: string;
+  product_id: string;
+  variant_id: string;
+  store_id: string;
+  seller_id: string;
+  seller_tier: 'free' | 'premium';
+  price: number; // Unit price in ZAR
+  quantity: number;
+  created_at: string;
+}
+
 export interface StoreRecord {
   id: string;
   user_id: string;
@@ -33,18 +75,36 @@ export interface StoreRecord {
   logo?: string;
   status: 'online' | 'pending' | 'suspended';
   paystack_subaccount_code?: string;
+  paystack_recipient_code?: string | null; // Cleared when the bank details change
+  bank_code?: string;
+  account_number?: string;
+  account_name?: string;
+  bank_verified?: boolean;
   seller_tier: 'free' | 'premium';
   commission_rate: number;
+  premium_subscription_code?: string | null;
+  premium_subscription_status?: 'active' | 'non-renewing' | 'attention' | 'completed' | 'cancelled' | null;
+  premium_email_token?: string | null;
+  premium_pending_email?: string | null; // Set before createSubscription, subscription.create is matched on it until the code is stored
+  premium_grace_until?: string | null; // Downgraded to free once this passes
   total_earnings: number;
   available_balance: number;
+  frozen_balance?: number; // Held back while a dispute is open
   created_at: string;
   updated_at: string;
 }
 
+// Amounts in ZAR added to a store's balances, negative to take money out
+export interface StoreBalanceDeltas {
+  available?: number;
+  frozen?: number;
+  earnings?: number;
+}
+
 export interface TransactionRecord {
   id: string;
-  order_id: string;
-  store_id: string;
+  order_id: string | null; // null for payouts
+  store_id: string | null; // null for platform rows like service_fee
   user_id: string;
   type: 'sale' | 'commission' | 'service_fee' | 'payout' | 'refund';
   amount: number;
@@ -55,12 +115,171 @@ export interface TransactionRecord {
   metadata?: Record<string, any>;
 }
 
+export interface PayoutRecord {
+  id: string;
+  store_id: string;
+  user_id: string;
+  amount: number;
+  status: 'pending' | 'otp' | 'processing' | 'success' | 'failed' | 'reversed';
+  paystack_reference: string;
+  transfer_code?: string;
+  recipient_code: string;
+  transaction_id?: string;
+  failure_reason?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Refund requested from Paystack, written before the API call and settled by the refund.* webhooks
+export interface RefundRecord {
+  id: string;
+  order_id: string;
+  payment_reference: string;
+  amount: number; // In ZAR
+  full_refund: boolean;
+  status: 'pending' | 'processing' | 'processed' | 'failed'; // pending = Paystack hasn't confirmed it yet
+  paystack_refund_id?: number | null;
+  reason: string;
+  store_debits: Array<{ store_id: string; seller_id: string; amount: number }>; // Held from the store balances
+  failure_reason?: string | null;
+  refunded_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Reusable card authorization, never holds the PAN or BIN
+export interface SavedCardRecord {
+  id: string;
+  user_id: string;
+  email: string;
+  authorization_code: string;
+  signature: string;
+  brand: string;
+  card_type: string;
+  last4: string;
+  exp_month: string;
+  exp_year: string;
+  bank: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DisputeRecord {
+  id: string;
+  paystack_dispute_id: number;
+  order_id: string | null;
+  payment_reference: string;
+  amount: number;
+  status: 'open' | 'evidence_submitted' | 'won' | 'lost';
+  paystack_status: string;
+  resolution?: PaystackDispute['resolution'];
+  due_at: string | null; // Evidence deadline
+  freezes: Array<{ store_id: string; seller_id: string; amount: number; frozen?: boolean }>; // frozen once the balance is held
+  evidence_submitted_at?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Payment that Paystack reported but we refused to mark paid
+export interface PaymentReviewRecord {
+  id: string;
+  order_id: string | null;
+  payment_reference: string;
+  reason: 'order_not_found' | 'verification_failed' | 'amount_mismatch' | 'currency_mismatch';
+  expected_amount: number | null; // In ZAR
+  received_amount: number | null; // In ZAR
+  currency: string | null;
+  paystack_transaction_id: string | null;
+  status: 'open' | 'resolved';
+  resolution?: string | null;
+  details?: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+}
+
+// One row per Paystack webhook delivery we have acted on
+export interface WebhookEventRecord {
+  event_key: string;
+  event_type: string;
+  status: 'processing' | 'processed';
+  claimed_at: string;
+  processed_at?: string | null;
+  created_at: string;
+}
+
+// Outbound automation event waiting for, or done with, delivery (automation_outbox table)
+export interface AutomationOutboxRecord {
+  id: string;
+  event_type: string;
+  webhook_url: string;
+  payload: DMShopEventEnvelope | Record<string, any>; // The endpoint's template output when it has one
+  status: 'pending' | 'delivering' | 'delivered' | 'dead'; // dead = dead-letter queue
+  attempts: number;
+  max_attempts: number;
+  dedup_key?: string | null; // Unique together with webhook_url
+  next_attempt_at: string;
+  locked_at?: string | null;
+  last_error?: string | null;
+  last_status_code?: number | null;
+  delivered_at?: string | null;
+  dead_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Paystack webhook accepted but not yet processed (webhook_inbox table)
+export interface WebhookInboxRecord {
+  id: string;
+  event_key: string;
+  event_type: string;
+  ordering_key: string; // Events sharing a key are processed one at a time in received order
+  payload: PaystackWebhookEvent;
+  status: 'pending' | 'processing' | 'processed' | 'failed' | 'resolved'; // failed = needs a manual replay, resolved = closed without one
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at?: string | null;
+  last_error?: string | null;
+  processed_at?: string | null;
+  resolution?: string | null; // Why a failed event was closed without processing
+  received_at: string;
+  updated_at: string;
+}
+
+// Every inbound webhook request as received, kept for debugging and replay
+export interface WebhookJournalRecord {
+  id: string;
+  received_at: string;
+  source_ip?: string | null;
+  headers: Record<string, string>;
+  raw_body: string; // Exact bytes Paystack signed
+  signature?: string | null;
+  signature_check: PaystackWebhookSignatureCheck | 'missing';
+  event_type?: string | null; // From the body when it parses, for filtering
+  reference?: string | null;
+  event_key?: string | null; // Set for accepted events, the worker writes its outcome back by this key
+  success: boolean;
+  result_code?: string | null;
+  result_message?: string | null;
+  duration_ms: number; // For accepted events, how long the worker's handler run took
+}
+
 export class DMShopSupabaseClient {
   private config: SupabaseConfig;
   private baseHeaders: Record<string, string>;
+  private transport: HttpTransport;
 
   constructor(config: SupabaseConfig) {
     this.config = config;
+    const transport = config.transport || fetchTransport;
+    this.transport = async (url, init) => {
+      try {
+        return await transport(url, init);
+      } catch (error) {
+        throw new SupabaseRequestError(0, `Supabase request failed: ${(error as Error).message}`, { cause: error });
+      }
+    };
     this.baseHeaders = {
       'Authorization': `Bearer ${config.anonKey}`,
       'Content-Type': 'application/json',
@@ -74,7 +293,7 @@ export class DMShopSupabaseClient {
    */
   async createOrder(orderData: Partial<OrderRecord>): Promise<OrderRecord> {
     try {
-      const response = await fetch(`${this.config.url}/rest/v1/orders`, {
+      const response = await this.transport(`${this.config.url}/rest/v1/orders`, {
         method: 'POST',
         headers: {
           ...this.baseHeaders,
@@ -89,7 +308,7 @@ export class DMShopSupabaseClient {
 
       if (!response.ok) {
         const error = await response.text();
-        throw new Error(`Failed to create order: ${error}`);
+        throw new SupabaseRequestError(response.status, `Failed to create order: ${error}`);
       }
 
       const [order] = await response.json();
@@ -105,7 +324,7 @@ export class DMShopSupabaseClient {
    */
   async updateOrder(orderId: string, updates: Partial<OrderRecord>): Promise<OrderRecord> {
     try {
-      const response = await fetch(`${this.config.url}/rest/v1/orders?id=eq.${orderId}`, {
+      const response = await this.transport(`${this.config.url}/rest/v1/orders?id=eq.${orderId}`, {
         method: 'PATCH',
         headers: {
           ...this.baseHeaders,
@@ -119,7 +338,7 @@ export class DMShopSupabaseClient {
 
       if (!response.ok) {
         const error = await response.text();
-        throw new Error(`Failed to update order: ${error}`);
+        throw new SupabaseRequestError(response.status, `Failed to update order: ${error}`);
       }
 
       const [order] = await response.json();
@@ -130,12 +349,32 @@ export class DMShopSupabaseClient {
     }
   }
 
+  /**
+   * Get order by id
+   */
+  async getOrder(orderId: string): Promise<OrderRecord | null> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/orders?id=eq.${orderId}&select=*`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch order: ${response.statusText}`);
+    }
+
+    const orders = await response.json();
+    return orders.length > 0 ? orders[0] : null;
+  }
+
   /**
    * Get order by payment reference
    */
   async getOrderByReference(reference: string): Promise<OrderRecord | null> {
     try {
-      const response = await fetch(
+      const response = await this.transport(
         `${this.config.url}/rest/v1/orders?payment_reference=eq.${reference}&select=*`,
         {
           method: 'GET',
@@ -144,7 +383,7 @@ export class DMShopSupabaseClient {
       );
 
       if (!response.ok) {
-        throw new Error(`Failed to fetch order: ${response.statusText}`);
+        throw new SupabaseRequestError(response.status, `Failed to fetch order: ${response.statusText}`);
       }
 
       const orders = await response.json();
@@ -156,65 +395,168 @@ export class DMShopSupabaseClient {
   }
 
   /**
-   * Update store earnings and balance
+   * Get the line items of an order
    */
-  async updateStoreEarnings(
-    storeId: string,
-    earningsAmount: number,
-    transactionType: 'add' | 'subtract' = 'add'
-  ): Promise<StoreRecord> {
-    try {
-      // First get current store data
-      const storeResponse = await fetch(
-        `${this.config.url}/rest/v1/stores?id=eq.${storeId}&select=*`,
-        {
-          method: 'GET',
-          headers: this.baseHeaders
-        }
-      );
-
-      if (!storeResponse.ok) {
-        throw new Error(`Failed to fetch store: ${storeResponse.statusText}`);
+  async getOrderItems(orderId: string): Promise<OrderItemRecord[]> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/order_items?order_id=eq.${orderId}&select=*&order=created_at.asc`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
       }
+    );
 
-      const [store] = await storeResponse.json();
-      if (!store) {
-        throw new Error(`Store not found: ${storeId}`);
-      }
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch order items: ${response.statusText}`);
+    }
 
-      // Calculate new balances
-      const currentEarnings = parseFloat(store.total_earnings || '0');
-      const currentBalance = parseFloat(store.available_balance || '0');
-      
-      const newEarnings = transactionType === 'add' 
-        ? currentEarnings + earningsAmount 
-        : currentEarnings - earningsAmount;
-      
-      const newBalance = transactionType === 'add'
-        ? currentBalance + earningsAmount
-        : currentBalance - earningsAmount;
+    return await response.json();
+  }
 
-      // Update store record
-      const updateResponse = await fetch(`${this.config.url}/rest/v1/stores?id=eq.${storeId}`, {
+  /**
+   * Update the order paid with a Paystack reference
+   * Returns null when no order has that reference
+   */
+  async updateOrderByReference(reference: string, updates: Partial<OrderRecord>): Promise<OrderRecord | null> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/orders?payment_reference=eq.${encodeURIComponent(reference)}`,
+      {
         method: 'PATCH',
         headers: {
           ...this.baseHeaders,
           'Prefer': 'return=representation'
         },
         body: JSON.stringify({
-          total_earnings: newEarnings,
-          available_balance: newBalance,
+          ...updates,
           updated_at: new Date().toISOString()
         })
-      });
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to update order: ${error}`);
+    }
+
+    const orders = await response.json();
+    return orders.length > 0 ? orders[0] : null;
+  }
 
-      if (!updateResponse.ok) {
-        const error = await updateResponse.text();
-        throw new Error(`Failed to update store earnings: ${error}`);
+  /**
+   * Get store by id
+   */
+  async getStore(storeId: string): Promise<StoreRecord | null> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/stores?id=eq.${storeId}&select=*`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
       }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch store: ${response.statusText}`);
+    }
+
+    const stores = await response.json();
+    return stores.length > 0 ? stores[0] : null;
+  }
+
+  /**
+   * Update store fields
+   */
+  async updateStore(storeId: string, updates: Partial<StoreRecord>): Promise<StoreRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/stores?id=eq.${storeId}`, {
+      method: 'PATCH',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to update store: ${error}`);
+    }
+
+    const [store] = await response.json();
+    return store;
+  }
+
+  /**
+   * Add to a store's balances in one UPDATE, so concurrent workers never overwrite each other's changes
+   * Calls the adjust_store_balances function, which raises when the store doesn't exist
+   */
+  async adjustStoreBalances(storeId: string, deltas: StoreBalanceDeltas): Promise<StoreRecord> {
+    const round = (value: number = 0) => Math.round(value * 100) / 100;
+    const response = await this.transport(`${this.config.url}/rest/v1/rpc/adjust_store_balances`, {
+      method: 'POST',
+      headers: this.baseHeaders,
+      body: JSON.stringify({
+        store_id: storeId,
+        available_delta: round(deltas.available),
+        frozen_delta: round(deltas.frozen),
+        earnings_delta: round(deltas.earnings)
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to update store balances for ${storeId}: ${error}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Move money in or out of a store's available balance without touching total earnings
+   * Used to hold funds for payouts and release them when a transfer fails
+   */
+  async updateStoreBalance(
+    storeId: string,
+    amount: number,
+    transactionType: 'add' | 'subtract'
+  ): Promise<StoreRecord> {
+    return await this.adjustStoreBalances(storeId, {
+      available: transactionType === 'add' ? amount : -amount
+    });
+  }
+
+  /**
+   * Move money between a store's available and frozen balance for disputes
+   * freeze: available -> frozen, release: frozen -> available,
+   * forfeit: removed from frozen and total earnings when a dispute is lost
+   */
+  async updateStoreFrozenBalance(
+    storeId: string,
+    amount: number,
+    action: 'freeze' | 'release' | 'forfeit'
+  ): Promise<StoreRecord> {
+    const deltas: StoreBalanceDeltas =
+      action === 'freeze'
+        ? { available: -amount, frozen: amount }
+        : action === 'release'
+          ? { available: amount, frozen: -amount }
+          : { frozen: -amount, earnings: -amount };
+
+    return await this.adjustStoreBalances(storeId, deltas);
+  }
 
-      const [updatedStore] = await updateResponse.json();
-      return updatedStore;
+  /**
+   * Update store earnings and balance
+   */
+  async updateStoreEarnings(
+    storeId: string,
+    earningsAmount: number,
+    transactionType: 'add' | 'subtract' = 'add'
+  ): Promise<StoreRecord> {
+    try {
+      const amount = transactionType === 'add' ? earningsAmount : -earningsAmount;
+      return await this.adjustStoreBalances(storeId, { available: amount, earnings: amount });
     } catch (error) {
       console.error('Store earnings update error:', error);
       throw error;
@@ -226,7 +568,7 @@ export class DMShopSupabaseClient {
    */
   async createTransaction(transactionData: Partial<TransactionRecord>): Promise<TransactionRecord> {
     try {
-      const response = await fetch(`${this.config.url}/rest/v1/transactions`, {
+      const response = await this.transport(`${this.config.url}/rest/v1/transactions`, {
         method: 'POST',
         headers: {
           ...this.baseHeaders,
@@ -240,7 +582,7 @@ export class DMShopSupabaseClient {
 
       if (!response.ok) {
         const error = await response.text();
-        throw new Error(`Failed to create transaction: ${error}`);
+        throw new SupabaseRequestError(response.status, `Failed to create transaction: ${error}`);
       }
 
       const [transaction] = await response.json();
@@ -252,145 +594,1243 @@ export class DMShopSupabaseClient {
   }
 
   /**
-   * Process multi-vendor order payment
-   * Foundation for complex payment splitting
+   * Update a ledger transaction, e.g. to settle or fail a pending payout
    */
-  async processOrderPayment(
-    orderPayment: DMShopOrderPayment,
-    paystackEvent: PaystackWebhookEvent
-  ): Promise<void> {
-    try {
-      // Update main order
-      await this.updateOrder(orderPayment.orderId, {
-        payment_status: 'paid',
-        paystack_transaction_id: paystackEvent.data.id.toString(),
-        payment_reference: paystackEvent.data.reference
-      });
+  async updateTransaction(transactionId: string, updates: Partial<TransactionRecord>): Promise<TransactionRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/transactions?id=eq.${transactionId}`, {
+      method: 'PATCH',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify(updates)
+    });
 
-      // Process each seller's earnings
-      for (const split of orderPayment.paymentSplits) {
-        // Update store earnings
-        await this.updateStoreEarnings(split.storeId, split.amount);
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to update transaction: ${error}`);
+    }
 
-        // Create transaction record for seller
-        await this.createTransaction({
-          order_id: orderPayment.orderId,
-          store_id: split.storeId,
-          user_id: split.sellerId,
-          type: 'sale',
-          amount: split.amount,
-          status: 'completed',
-          paystack_reference: paystackEvent.data.reference,
-          description: `Sale earnings for order ${orderPayment.orderId}`,
-          metadata: {
-            commission_charged: split.commission,
-            original_amount: split.amount + split.commission
-          }
-        });
+    const [transaction] = await response.json();
+    return transaction;
+  }
 
-        // Create commission transaction record
-        await this.createTransaction({
-          order_id: orderPayment.orderId,
-          store_id: split.storeId,
-          user_id: split.sellerId,
-          type: 'commission',
-          amount: split.commission,
-          status: 'completed',
-          paystack_reference: paystackEvent.data.reference,
-          description: `Commission for order ${orderPayment.orderId}`,
-          metadata: {
-            commission_rate: split.commission / (split.amount + split.commission)
-          }
-        });
-      }
+  /**
+   * Create several transaction records in one insert, so either all of them are written or none
+   */
+  async createTransactions(transactions: Array<Partial<TransactionRecord>>): Promise<TransactionRecord[]> {
+    const now = new Date().toISOString();
+    const response = await this.transport(`${this.config.url}/rest/v1/transactions`, {
+      method: 'POST',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify(transactions.map(transaction => ({ ...transaction, created_at: now })))
+    });
 
-      // Create service fee transaction
-      await this.createTransaction({
-        order_id: orderPayment.orderId,
-        store_id: null,
-        user_id: orderPayment.customerId,
-        type: 'service_fee',
-        amount: orderPayment.totals.totalServiceFee,
-        status: 'completed',
-        paystack_reference: paystackEvent.data.reference,
-        description: `Service fee for order ${orderPayment.orderId}`
-      });
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to create transactions: ${error}`);
+    }
 
-    } catch (error) {
-      console.error('Order payment processing error:', error);
-      throw error;
+    return await response.json();
+  }
+
+  /**
+   * Complete a pending sale and credit its amount to the store, in one database transaction
+   * Calls the credit_store_sale function, false when the sale was already completed
+   */
+  async creditStoreSale(saleId: string): Promise<boolean> {
+    const response = await this.transport(`${this.config.url}/rest/v1/rpc/credit_store_sale`, {
+      method: 'POST',
+      headers: this.baseHeaders,
+      body: JSON.stringify({ sale_id: saleId })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to credit sale ${saleId}: ${error}`);
     }
+
+    return (await response.json()) === true;
   }
 
   /**
-   * Get store analytics data
-   * Foundation for seller dashboard
+   * Create payout record
    */
-  async getStoreAnalytics(storeId: string, days: number = 30): Promise<{
-    totalSales: number;
-    totalOrders: number;
-    totalCommissions: number;
-    averageOrderValue: number;
-    recentTransactions: TransactionRecord[];
-  }> {
-    try {
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - days);
+  async createPayout(payoutData: Partial<PayoutRecord>): Promise<PayoutRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/payouts`, {
+      method: 'POST',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        ...payoutData,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+    });
 
-      // Get transactions for the period
-      const response = await fetch(
-        `${this.config.url}/rest/v1/transactions?store_id=eq.${storeId}&created_at=gte.${startDate.toISOString()}&select=*&order=created_at.desc`,
-        {
-          method: 'GET',
-          headers: this.baseHeaders
-        }
-      );
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to create payout: ${error}`);
+    }
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch analytics: ${response.statusText}`);
+    const [payout] = await response.json();
+    return payout;
+  }
+
+  /**
+   * Update payout record
+   */
+  async updatePayout(payoutId: string, updates: Partial<PayoutRecord>): Promise<PayoutRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/payouts?id=eq.${payoutId}`, {
+      method: 'PATCH',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to update payout: ${error}`);
+    }
+
+    const [payout] = await response.json();
+    return payout;
+  }
+
+  /**
+   * Get payout by Paystack transfer reference
+   */
+  async getPayoutByReference(reference: string): Promise<PayoutRecord | null> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/payouts?paystack_reference=eq.${reference}&select=*`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
       }
+    );
 
-      const transactions: TransactionRecord[] = await response.json();
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch payout: ${response.statusText}`);
+    }
 
-      // Calculate analytics
-      const salesTransactions = transactions.filter(t => t.type === 'sale');
-      const commissionTransactions = transactions.filter(t => t.type === 'commission');
+    const payouts = await response.json();
+    return payouts.length > 0 ? payouts[0] : null;
+  }
 
-      const totalSales = salesTransactions.reduce((sum, t) => sum + t.amount, 0);
-      const totalCommissions = commissionTransactions.reduce((sum, t) => sum + t.amount, 0);
-      const totalOrders = salesTransactions.length;
-      const averageOrderValue = totalOrders > 0 ? totalSales / totalOrders : 0;
+  /**
+   * Create refund record
+   */
+  async createRefund(refundData: Partial<RefundRecord>): Promise<RefundRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/refunds`, {
+      method: 'POST',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        ...refundData,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+    });
 
-      return {
-        totalSales,
-        totalOrders,
-        totalCommissions,
-        averageOrderValue,
-        recentTransactions: transactions.slice(0, 10)
-      };
-    } catch (error) {
-      console.error('Analytics fetch error:', error);
-      throw error;
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to create refund: ${error}`);
     }
+
+    const [refund] = await response.json();
+    return refund;
   }
 
   /**
-   * Update store Paystack subaccount code
+   * Update refund record
    */
-  async updateStoreSubaccount(storeId: string, subaccountCode: string): Promise<void> {
-    try {
-      await fetch(`${this.config.url}/rest/v1/stores?id=eq.${storeId}`, {
-        method: 'PATCH',
-        headers: this.baseHeaders,
-        body: JSON.stringify({
-          paystack_subaccount_code: subaccountCode,
-          updated_at: new Date().toISOString()
-        })
-      });
-    } catch (error) {
-      console.error('Subaccount update error:', error);
-      throw error;
+  async updateRefund(refundId: string, updates: Partial<RefundRecord>): Promise<RefundRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/refunds?id=eq.${refundId}`, {
+      method: 'PATCH',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to update refund: ${error}`);
+    }
+
+    const [refund] = await response.json();
+    return refund;
+  }
+
+  /**
+   * Get the refunds recorded against a payment reference, oldest first
+   */
+  async getRefundsByPaymentReference(reference: string): Promise<RefundRecord[]> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/refunds?payment_reference=eq.${encodeURIComponent(reference)}&select=*&order=created_at.asc`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch refunds: ${response.statusText}`);
     }
+
+    return await response.json();
+  }
+
+  /**
+   * Get all ledger transactions recorded for an order
+   */
+  async getOrderTransactions(orderId: string): Promise<TransactionRecord[]> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/transactions?order_id=eq.${orderId}&select=*&order=created_at.asc`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch order transactions: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Get orders created in a period
+   */
+  async getOrdersInPeriod(from: string, to: string): Promise<OrderRecord[]> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/orders?created_at=gte.${encodeURIComponent(from)}&created_at=lte.${encodeURIComponent(to)}&select=*&order=created_at.asc`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch orders: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Get ledger transactions for a set of Paystack references
+   */
+  async getTransactionsByReferences(references: string[]): Promise<TransactionRecord[]> {
+    const transactions: TransactionRecord[] = [];
+
+    // Keep the PostgREST URL a reasonable length
+    for (let index = 0; index < references.length; index += 100) {
+      const chunk = references.slice(index, index + 100).map(reference => `"${reference}"`).join(',');
+      const response = await this.transport(
+        `${this.config.url}/rest/v1/transactions?paystack_reference=in.(${encodeURIComponent(chunk)})&select=*`,
+        {
+          method: 'GET',
+          headers: this.baseHeaders
+        }
+      );
+
+      if (!response.ok) {
+        throw new SupabaseRequestError(response.status, `Failed to fetch transactions: ${response.statusText}`);
+      }
+
+      transactions.push(...await response.json());
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Create dispute record
+   */
+  async createDispute(disputeData: Partial<DisputeRecord>): Promise<DisputeRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/disputes`, {
+      method: 'POST',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        ...disputeData,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to create dispute: ${error}`);
+    }
+
+    const [dispute] = await response.json();
+    return dispute;
+  }
+
+  /**
+   * Update dispute record
+   */
+  async updateDispute(disputeId: string, updates: Partial<DisputeRecord>): Promise<DisputeRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/disputes?id=eq.${disputeId}`, {
+      method: 'PATCH',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to update dispute: ${error}`);
+    }
+
+    const [dispute] = await response.json();
+    return dispute;
+  }
+
+  /**
+   * Get dispute by Paystack dispute id
+   */
+  async getDisputeByPaystackId(paystackDisputeId: number): Promise<DisputeRecord | null> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/disputes?paystack_dispute_id=eq.${paystackDisputeId}&select=*`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch dispute: ${response.statusText}`);
+    }
+
+    const disputes = await response.json();
+    return disputes.length > 0 ? disputes[0] : null;
+  }
+
+  /**
+   * Get open disputes whose evidence deadline falls before the given time
+   */
+  async getDisputesDueBefore(dueBefore: string): Promise<DisputeRecord[]> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/disputes?status=in.(open,evidence_submitted)&due_at=lte.${encodeURIComponent(dueBefore)}&select=*&order=due_at.asc`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch disputes: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Process multi-vendor order payment
+   * Credits each store and writes sale, commission and service fee rows
+   * The order itself is marked paid by payment verification, settlement never changes its status.
+   * Each store's sale and commission rows are inserted together, the sale as pending, and
+   * credit_store_sale then completes the sale and credits the store in one database transaction.
+   * Safe to re-run for the same payment: completed sales are skipped and pending ones are credited,
+   * so a store is credited exactly once
+   * Returns the splits credited by this call
+   */
+  async processOrderPayment(
+    orderPayment: DMShopOrderPayment,
+    paystackEvent: PaystackChargeEvent
+  ): Promise<DMShopOrderPayment['paymentSplits']> {
+    try {
+      const reference = paystackEvent.data.reference;
+
+      const existing = (await this.getOrderTransactions(orderPayment.orderId))
+        .filter(transaction => transaction.paystack_reference === reference);
+      const saleRows = new Map(
+        existing.filter(transaction => transaction.type === 'sale').map(transaction => [transaction.store_id, transaction])
+      );
+      const commissionStores = new Set(
+        existing.filter(transaction => transaction.type === 'commission').map(transaction => transaction.store_id)
+      );
+      const credited: DMShopOrderPayment['paymentSplits'] = [];
+
+      // Process each seller's earnings
+      for (const split of orderPayment.paymentSplits) {
+        let saleRow = saleRows.get(split.storeId);
+        if (saleRow?.status === 'completed') {
+          continue;
+        }
+
+        if (!saleRow) {
+          const sale = split.amount.plus(split.commission);
+          const rows: Array<Partial<TransactionRecord>> = [{
+            order_id: orderPayment.orderId,
+            store_id: split.storeId,
+            user_id: split.sellerId,
+            type: 'sale',
+            amount: split.amount.toAmount(),
+            status: 'pending',
+            paystack_reference: reference,
+            description: `Sale earnings for order ${orderPayment.orderId}`,
+            metadata: {
+              commission_charged: split.commission.toAmount(),
+              original_amount: sale.toAmount()
+            }
+          }];
+
+          // Rows written before sales and commissions were paired may already have the commission
+          if (!commissionStores.has(split.storeId)) {
+            rows.push({
+              order_id: orderPayment.orderId,
+              store_id: split.storeId,
+              user_id: split.sellerId,
+              type: 'commission',
+              amount: split.commission.toAmount(),
+              status: 'completed',
+              paystack_reference: reference,
+              description: `Commission for order ${orderPayment.orderId}`,
+              metadata: {
+                commission_rate: sale.isZero() ? 0 : split.commission.cents / sale.cents
+              }
+            });
+          }
+
+          [saleRow] = await this.createTransactions(rows);
+        }
+
+        // A pending sale left by a failed attempt is credited here, the function skips it once completed
+        if (await this.creditStoreSale(saleRow.id)) {
+          credited.push(split);
+        }
+      }
+
+      // Create service fee transaction
+      if (!existing.some(transaction => transaction.type === 'service_fee')) {
+        await this.createTransaction({
+          order_id: orderPayment.orderId,
+          store_id: null,
+          user_id: orderPayment.customerId,
+          type: 'service_fee',
+          amount: orderPayment.totals.totalServiceFee.toAmount(),
+          status: 'completed',
+          paystack_reference: reference,
+          description: `Service fee for order ${orderPayment.orderId}`
+        });
+      }
+
+      return credited;
+    } catch (error) {
+      console.error('Order payment processing error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get store analytics data
+   * Foundation for seller dashboard
+   */
+  async getStoreAnalytics(storeId: string, days: number = 30): Promise<{
+    totalSales: number;
+    totalOrders: number;
+    totalCommissions: number;
+    averageOrderValue: number;
+    recentTransactions: TransactionRecord[];
+  }> {
+    try {
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - days);
+
+      // Get transactions for the period
+      const response = await this.transport(
+        `${this.config.url}/rest/v1/transactions?store_id=eq.${storeId}&created_at=gte.${startDate.toISOString()}&select=*&order=created_at.desc`,
+        {
+          method: 'GET',
+          headers: this.baseHeaders
+        }
+      );
+
+      if (!response.ok) {
+        throw new SupabaseRequestError(response.status, `Failed to fetch analytics: ${response.statusText}`);
+      }
+
+      const transactions: TransactionRecord[] = await response.json();
+
+      // Calculate analytics
+      const salesTransactions = transactions.filter(t => t.type === 'sale');
+      const commissionTransactions = transactions.filter(t => t.type === 'commission');
+
+      const totalSales = salesTransactions.reduce((sum, t) => sum + t.amount, 0);
+      const totalCommissions = commissionTransactions.reduce((sum, t) => sum + t.amount, 0);
+      const totalOrders = salesTransactions.length;
+      const averageOrderValue = totalOrders > 0 ? totalSales / totalOrders : 0;
+
+      return {
+        totalSales,
+        totalOrders,
+        totalCommissions,
+        averageOrderValue,
+        recentTransactions: transactions.slice(0, 10)
+      };
+    } catch (error) {
+      console.error('Analytics fetch error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a card authorization, replacing an earlier one for the same card
+   */
+  async upsertSavedCard(cardData: Partial<SavedCardRecord>): Promise<SavedCardRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/saved_cards?on_conflict=user_id,signature`, {
+      method: 'POST',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'resolution=merge-duplicates,return=representation'
+      },
+      body: JSON.stringify({
+        ...cardData,
+        updated_at: new Date().toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to save card: ${error}`);
+    }
+
+    const [card] = await response.json();
+    return card;
+  }
+
+  /**
+   * List a customer's saved cards
+   */
+  async listSavedCards(userId: string): Promise<SavedCardRecord[]> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/saved_cards?user_id=eq.${userId}&select=*&order=updated_at.desc`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to list saved cards: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Get a saved card by id
+   */
+  async getSavedCard(cardId: string): Promise<SavedCardRecord | null> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/saved_cards?id=eq.${cardId}&select=*`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch saved card: ${response.statusText}`);
+    }
+
+    const cards = await response.json();
+    return cards.length > 0 ? cards[0] : null;
+  }
+
+  /**
+   * Delete a saved card
+   */
+  async deleteSavedCard(cardId: string): Promise<void> {
+    const response = await this.transport(`${this.config.url}/rest/v1/saved_cards?id=eq.${cardId}`, {
+      method: 'DELETE',
+      headers: this.baseHeaders
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to delete saved card: ${error}`);
+    }
+  }
+
+  /**
+   * Queue a payment for manual review
+   */
+  async createPaymentReview(reviewData: Partial<PaymentReviewRecord>): Promise<PaymentReviewRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/payment_reviews`, {
+      method: 'POST',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        status: 'open',
+        ...reviewData,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to create payment review: ${error}`);
+    }
+
+    const [review] = await response.json();
+    return review;
+  }
+
+  /**
+   * List payment reviews, open ones by default
+   */
+  async listPaymentReviews(status: PaymentReviewRecord['status'] = 'open'): Promise<PaymentReviewRecord[]> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/payment_reviews?status=eq.${status}&select=*&order=created_at.asc`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch payment reviews: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Update a payment review
+   */
+  async updatePaymentReview(reviewId: string, updates: Partial<PaymentReviewRecord>): Promise<PaymentReviewRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/payment_reviews?id=eq.${reviewId}`, {
+      method: 'PATCH',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to update payment review: ${error}`);
+    }
+
+    const [review] = await response.json();
+    return review;
+  }
+
+  /**
+   * Claim a webhook event before acting on it
+   * Returns false when it was already processed, or another delivery is still working on it
+   * A claim older than staleAfterMs is assumed to have crashed and is taken over
+   */
+  async claimWebhookEvent(eventKey: string, eventType: string, staleAfterMs: number): Promise<boolean> {
+    const now = new Date().toISOString();
+    const response = await this.transport(`${this.config.url}/rest/v1/webhook_events?on_conflict=event_key`, {
+      method: 'POST',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'resolution=ignore-duplicates,return=representation'
+      },
+      body: JSON.stringify({
+        event_key: eventKey,
+        event_type: eventType,
+        status: 'processing',
+        claimed_at: now,
+        created_at: now
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to claim webhook event: ${error}`);
+    }
+
+    const inserted = await response.json();
+    if (inserted.length > 0) {
+      return true;
+    }
+
+    const existing = await this.getWebhookEvent(eventKey);
+    if (!existing || existing.status === 'processed') {
+      return false;
+    }
+    if (Date.now() - Date.parse(existing.claimed_at) < staleAfterMs) {
+      return false;
+    }
+
+    // Take over the stale claim, the claimed_at filter makes sure only one delivery wins
+    const takeover = await this.transport(
+      `${this.config.url}/rest/v1/webhook_events?event_key=eq.${encodeURIComponent(eventKey)}&status=eq.processing&claimed_at=eq.${encodeURIComponent(existing.claimed_at)}`,
+      {
+        method: 'PATCH',
+        headers: {
+          ...this.baseHeaders,
+          'Prefer': 'return=representation'
+        },
+        body: JSON.stringify({ claimed_at: now })
+      }
+    );
+
+    if (!takeover.ok) {
+      const error = await takeover.text();
+      throw new SupabaseRequestError(takeover.status, `Failed to take over webhook event: ${error}`);
+    }
+
+    const taken = await takeover.json();
+    return taken.length > 0;
+  }
+
+  /**
+   * Get a webhook event's dedup record, null if it was never claimed
+   */
+  async getWebhookEvent(eventKey: string): Promise<WebhookEventRecord | null> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/webhook_events?event_key=eq.${encodeURIComponent(eventKey)}&select=*`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch webhook event: ${response.statusText}`);
+    }
+
+    const [event] = await response.json();
+    return event || null;
+  }
+
+  /**
+   * Mark a claimed webhook event as processed
+   */
+  async completeWebhookEvent(eventKey: string): Promise<void> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/webhook_events?event_key=eq.${encodeURIComponent(eventKey)}`,
+      {
+        method: 'PATCH',
+        headers: this.baseHeaders,
+        body: JSON.stringify({
+          status: 'processed',
+          processed_at: new Date().toISOString()
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to complete webhook event: ${error}`);
+    }
+  }
+
+  /**
+   * Drop an unfinished claim so Paystack's next retry runs again
+   */
+  async releaseWebhookEvent(eventKey: string): Promise<void> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/webhook_events?event_key=eq.${encodeURIComponent(eventKey)}&status=eq.processing`,
+      {
+        method: 'DELETE',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to release webhook event: ${error}`);
+    }
+  }
+
+  /**
+   * Add automation events to the outbox
+   * Events whose dedup_key is already queued for the same url are skipped and not returned
+   */
+  async insertAutomationOutboxEvents(
+    events: Array<Pick<AutomationOutboxRecord, 'event_type' | 'webhook_url' | 'payload' | 'max_attempts' | 'dedup_key'>>
+  ): Promise<AutomationOutboxRecord[]> {
+    const now = new Date().toISOString();
+    const response = await this.transport(`${this.config.url}/rest/v1/automation_outbox?on_conflict=dedup_key,webhook_url`, {
+      method: 'POST',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'resolution=ignore-duplicates,return=representation'
+      },
+      body: JSON.stringify(events.map(event => ({
+        ...event,
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: now,
+        created_at: now,
+        updated_at: now
+      })))
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to enqueue automation events: ${error}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Outbox events ready to send: pending and due, or stuck delivering past the lease
+   */
+  async listDueAutomationEvents(lockExpiredBefore: string, limit: number): Promise<AutomationOutboxRecord[]> {
+    const now = new Date().toISOString();
+    const due = `or=(and(status.eq.pending,next_attempt_at.lte.${now}),and(status.eq.delivering,locked_at.lt.${lockExpiredBefore}))`;
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/automation_outbox?${encodeURI(due)}&select=*&order=next_attempt_at.asc&limit=${limit}`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to list due automation events: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Lock an outbox event for delivery
+   * Filters on the status and lock the row was read with, so only one worker wins
+   */
+  async lockAutomationEvent(event: AutomationOutboxRecord): Promise<AutomationOutboxRecord | null> {
+    const lockFilter = event.locked_at
+      ? `locked_at=eq.${encodeURIComponent(event.locked_at)}`
+      : 'locked_at=is.null';
+    const now = new Date().toISOString();
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/automation_outbox?id=eq.${event.id}&status=eq.${event.status}&${lockFilter}`,
+      {
+        method: 'PATCH',
+        headers: {
+          ...this.baseHeaders,
+          'Prefer': 'return=representation'
+        },
+        body: JSON.stringify({
+          status: 'delivering',
+          locked_at: now,
+          updated_at: now
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to lock automation event: ${error}`);
+    }
+
+    const [locked] = await response.json();
+    return locked || null;
+  }
+
+  /**
+   * Update an outbox event after a delivery attempt
+   */
+  async updateAutomationEvent(
+    id: string,
+    updates: Partial<Omit<AutomationOutboxRecord, 'id' | 'created_at'>>,
+    expectedStatus?: AutomationOutboxRecord['status']
+  ): Promise<AutomationOutboxRecord | null> {
+    const statusFilter = expectedStatus ? `&status=eq.${expectedStatus}` : '';
+    const response = await this.transport(`${this.config.url}/rest/v1/automation_outbox?id=eq.${id}${statusFilter}`, {
+      method: 'PATCH',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to update automation event: ${error}`);
+    }
+
+    const [updated] = await response.json();
+    return updated || null;
+  }
+
+  /**
+   * List outbox events by status, newest first
+   */
+  async listAutomationEvents(
+    status: AutomationOutboxRecord['status'],
+    limit: number = 50
+  ): Promise<AutomationOutboxRecord[]> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/automation_outbox?status=eq.${status}&select=*&order=updated_at.desc&limit=${limit}`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to list automation events: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Store an accepted Paystack webhook for the processing worker
+   */
+  async insertWebhookInboxEvent(
+    event: Pick<WebhookInboxRecord, 'event_key' | 'event_type' | 'ordering_key' | 'payload' | 'max_attempts'>
+  ): Promise<WebhookInboxRecord> {
+    const now = new Date().toISOString();
+    const response = await this.transport(`${this.config.url}/rest/v1/webhook_inbox`, {
+      method: 'POST',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        ...event,
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: now,
+        received_at: now,
+        updated_at: now
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to store webhook event: ${error}`);
+    }
+
+    const [inserted] = await response.json();
+    return inserted;
+  }
+
+  /**
+   * Pending and in-flight inbox events, oldest first
+   */
+  async listUnfinishedWebhookInboxEvents(limit: number): Promise<WebhookInboxRecord[]> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/webhook_inbox?status=in.(pending,processing)&select=*&order=received_at.asc&limit=${limit}`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to list webhook inbox: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Which of these ordering keys have a failed inbox event holding them
+   */
+  async getFailedWebhookInboxKeys(orderingKeys: string[]): Promise<string[]> {
+    const failedKeys = new Set<string>();
+
+    // Keep the PostgREST URL a reasonable length
+    for (let index = 0; index < orderingKeys.length; index += 100) {
+      const chunk = orderingKeys.slice(index, index + 100).map(key => `"${key}"`).join(',');
+      const response = await this.transport(
+        `${this.config.url}/rest/v1/webhook_inbox?status=eq.failed&ordering_key=in.(${encodeURIComponent(chunk)})&select=ordering_key`,
+        {
+          method: 'GET',
+          headers: this.baseHeaders
+        }
+      );
+
+      if (!response.ok) {
+        throw new SupabaseRequestError(response.status, `Failed to list failed webhook inbox keys: ${response.statusText}`);
+      }
+
+      const rows: Array<Pick<WebhookInboxRecord, 'ordering_key'>> = await response.json();
+      rows.forEach(row => failedKeys.add(row.ordering_key));
+    }
+
+    return [...failedKeys];
+  }
+
+  /**
+   * Lock an inbox event for processing
+   * Filters on the status and lock the row was read with, so only one worker wins
+   */
+  async lockWebhookInboxEvent(event: WebhookInboxRecord): Promise<WebhookInboxRecord | null> {
+    const lockFilter = event.locked_at
+      ? `locked_at=eq.${encodeURIComponent(event.locked_at)}`
+      : 'locked_at=is.null';
+    const now = new Date().toISOString();
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/webhook_inbox?id=eq.${event.id}&status=eq.${event.status}&${lockFilter}`,
+      {
+        method: 'PATCH',
+        headers: {
+          ...this.baseHeaders,
+          'Prefer': 'return=representation'
+        },
+        body: JSON.stringify({
+          status: 'processing',
+          locked_at: now,
+          updated_at: now
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to lock webhook inbox event: ${error}`);
+    }
+
+    const [locked] = await response.json();
+    return locked || null;
+  }
+
+  /**
+   * Update an inbox event after a processing attempt
+   */
+  async updateWebhookInboxEvent(
+    id: string,
+    updates: Partial<Omit<WebhookInboxRecord, 'id' | 'received_at'>>,
+    expectedStatus?: WebhookInboxRecord['status']
+  ): Promise<WebhookInboxRecord | null> {
+    const statusFilter = expectedStatus ? `&status=eq.${expectedStatus}` : '';
+    const response = await this.transport(`${this.config.url}/rest/v1/webhook_inbox?id=eq.${id}${statusFilter}`, {
+      method: 'PATCH',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to update webhook inbox event: ${error}`);
+    }
+
+    const [updated] = await response.json();
+    return updated || null;
+  }
+
+  /**
+   * The latest inbox event stored for a webhook event key
+   */
+  async getWebhookInboxEventByKey(eventKey: string): Promise<WebhookInboxRecord | null> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/webhook_inbox?event_key=eq.${encodeURIComponent(eventKey)}&select=*&order=received_at.desc&limit=1`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch webhook inbox event: ${response.statusText}`);
+    }
+
+    const [event] = await response.json();
+    return event || null;
+  }
+
+  /**
+   * List inbox events by status, newest first
+   */
+  async listWebhookInboxEvents(
+    status: WebhookInboxRecord['status'],
+    limit: number = 50
+  ): Promise<WebhookInboxRecord[]> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/webhook_inbox?status=eq.${status}&select=*&order=updated_at.desc&limit=${limit}`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to list webhook inbox events: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Store a webhook request in the journal
+   */
+  async insertWebhookJournalEntry(entry: Omit<WebhookJournalRecord, 'id'>): Promise<WebhookJournalRecord> {
+    const response = await this.transport(`${this.config.url}/rest/v1/webhook_journal`, {
+      method: 'POST',
+      headers: {
+        ...this.baseHeaders,
+        'Prefer': 'return=representation'
+      },
+      body: JSON.stringify(entry)
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to journal webhook: ${error}`);
+    }
+
+    const [inserted] = await response.json();
+    return inserted;
+  }
+
+  /**
+   * Write the worker's outcome onto the journal entry of an accepted event
+   */
+  async updateWebhookJournalEntries(
+    eventKey: string,
+    updates: Pick<WebhookJournalRecord, 'success' | 'result_code' | 'result_message' | 'duration_ms'>
+  ): Promise<void> {
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/webhook_journal?event_key=eq.${encodeURIComponent(eventKey)}`,
+      {
+        method: 'PATCH',
+        headers: this.baseHeaders,
+        body: JSON.stringify(updates)
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new SupabaseRequestError(response.status, `Failed to update webhook journal: ${error}`);
+    }
+  }
+
+  /**
+   * Get one journal entry by id
+   */
+  async getWebhookJournalEntry(id: string): Promise<WebhookJournalRecord | null> {
+    const response = await this.transport(`${this.config.url}/rest/v1/webhook_journal?id=eq.${id}&select=*`, {
+      method: 'GET',
+      headers: this.baseHeaders
+    });
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to fetch webhook journal entry: ${response.statusText}`);
+    }
+
+    const [entry] = await response.json();
+    return entry || null;
+  }
+
+  /**
+   * Journal entries received in [from, to), oldest first
+   */
+  async listWebhookJournalEntries(
+    from: Date,
+    to: Date,
+    eventType?: string,
+    limit: number = 500
+  ): Promise<WebhookJournalRecord[]> {
+    const typeFilter = eventType ? `&event_type=eq.${encodeURIComponent(eventType)}` : '';
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/webhook_journal?received_at=gte.${encodeURIComponent(from.toISOString())}` +
+      `&received_at=lt.${encodeURIComponent(to.toISOString())}${typeFilter}&select=*&order=received_at.asc&limit=${limit}`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to list webhook journal: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Update store Paystack subaccount code
+   */
+  async updateStoreSubaccount(storeId: string, subaccountCode: string): Promise<void> {
+    try {
+      const response = await this.transport(`${this.config.url}/rest/v1/stores?id=eq.${storeId}`, {
+        method: 'PATCH',
+        headers: this.baseHeaders,
+        body: JSON.stringify({
+          paystack_subaccount_code: subaccountCode,
+          updated_at: new Date().toISOString()
+        })
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new SupabaseRequestError(response.status, `Failed to update store subaccount: ${error}`);
+      }
+    } catch (error) {
+      console.error('Subaccount update error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List stores matching PostgREST filters
+   * e.g. { status: 'eq.online', paystack_subaccount_code: 'not.is.null' }
+   */
+  async listStores(filters: Record<string, string> = {}): Promise<StoreRecord[]> {
+    const query = Object.entries(filters)
+      .map(([column, filter]) => `${column}=${encodeURIComponent(filter)}`)
+      .join('&');
+
+    const response = await this.transport(
+      `${this.config.url}/rest/v1/stores?${query ? `${query}&` : ''}select=*&order=created_at.asc`,
+      {
+        method: 'GET',
+        headers: this.baseHeaders
+      }
+    );
+
+    if (!response.ok) {
+      throw new SupabaseRequestError(response.status, `Failed to list stores: ${response.statusText}`);
+    }
+
+    return await response.json();
   }
 }
 
@@ -0,0 +1,91 @@
+// DM Shop automation endpoint health tests
+
+import { describe, expect, it } from '@jest/globals';
+import { createAutomationHealthTracker, createCircuitBreaker, isRetryableAutomationStatus } from '../lib/automation-health';
+import { createInMemoryAutomationOutbox } from '../lib/automation-outbox';
+import { createPaystackClient } from '../lib/paystack-client';
+import { createWebhookHandler } from '../api/webhook-handler';
+import { createFakePaystackServer } from './support/fake-paystack-server';
+import { createFakeSupabase } from './support/fake-supabase';
+
+const hookUrl = 'https://hooks.example.com/dm-shop';
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and refuses requests until the reset timeout', () => {
+    const breaker = createCircuitBreaker(hookUrl, { failureThreshold: 2, resetTimeoutMs: 60000 });
+
+    breaker.recordFailure(10, 'HTTP 503: Service Unavailable');
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure(10, 'HTTP 503: Service Unavailable');
+
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.retryAt()!.getTime()).toBeGreaterThan(Date.now() + 50000);
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', consecutiveFailures: 2, lastError: 'HTTP 503: Service Unavailable' });
+  });
+
+  it('lets one trial through when half-open, closing on success and reopening on failure', () => {
+    const breaker = createCircuitBreaker(hookUrl, { failureThreshold: 1, resetTimeoutMs: 0 });
+    breaker.recordFailure(10, 'fetch failed');
+
+    expect(breaker.snapshot().state).toBe('half_open');
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordFailure(10, 'fetch failed');
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordSuccess(10);
+
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0, openedAt: null, retryAt: null });
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('counts rejections against the success rate without opening the circuit', () => {
+    const breaker = createCircuitBreaker(hookUrl, { failureThreshold: 1, windowSize: 4 });
+    breaker.recordSuccess(400);
+    [10, 20, 30].forEach(latency => breaker.recordSuccess(latency));
+    breaker.recordFailure(40, 'HTTP 400: Bad Request', isRetryableAutomationStatus(400));
+
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'closed',
+      requests: 4,
+      successRate: 0.75,
+      averageLatencyMs: 25,
+      p95LatencyMs: 40
+    });
+    expect([429, 500, 404].map(isRetryableAutomationStatus)).toEqual([true, true, false]);
+  });
+});
+
+describe('automation endpoint health', () => {
+  it('defers deliveries while the circuit is open and reports it through the handler', async () => {
+    const health = createAutomationHealthTracker({ failureThreshold: 1, resetTimeoutMs: 60000 });
+    const outbox = createInMemoryAutomationOutbox();
+    const supabaseFake = createFakeSupabase();
+    const handler = createWebhookHandler(createPaystackClient(createFakePaystackServer().clientConfig()), supabaseFake.url, supabaseFake.anonKey, [
+      { url: hookUrl, events: ['order.shipped'] }
+    ], {
+      transport: supabaseFake.transport,
+      automationOutbox: outbox,
+      automationHealth: health
+    });
+    let calls = 0;
+    const worker = handler.createAutomationDeliveryWorker({
+      batchSize: 1,
+      transport: async () => {
+        calls++;
+        return new Response(null, { status: 503, statusText: 'Service Unavailable' });
+      }
+    });
+
+    await outbox.enqueue([1, 2].map(n => ({ eventType: 'order.shipped', url: hookUrl, payload: { n }, maxAttempts: 5 })));
+    const results = [await worker.runOnce(), await worker.runOnce()];
+
+    expect(calls).toBe(1);
+    expect(results).toEqual([
+      { delivered: 0, retried: 1, deadLettered: 0, deferred: 0 },
+      { delivered: 0, retried: 0, deadLettered: 0, deferred: 1 }
+    ]);
+    expect(outbox.list().map(event => event.attempts)).toEqual([1, 0]);
+    expect(handler.getAutomationHealth()).toEqual([expect.objectContaining({ url: hookUrl, state: 'open', successRate: 0 })]);
+  });
+});
@@ -0,0 +1,160 @@
+// DM Shop automation outbox tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import {
+  AutomationOutboxEntry,
+  InMemoryAutomationOutbox,
+  createInMemoryAutomationOutbox,
+  createSupabaseAutomationOutbox
+} from '../lib/automation-outbox';
+import { createAutomationDeliveryWorker } from '../lib/automation-worker';
+import { HttpTransport } from '../lib/http-transport';
+import { createPaystackClient } from '../lib/paystack-client';
+import { createWebhookHandler } from '../api/webhook-handler';
+import { AutomationOutboxRecord, createSupabaseClient } from '../src/supabase-integration';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { createFakeSupabase } from './support/fake-supabase';
+
+const hookUrl = 'https://hooks.example.com/dm-shop';
+
+function entry(overrides: Partial<AutomationOutboxEntry> = {}): AutomationOutboxEntry {
+  return {
+    eventType: 'order.shipped',
+    url: hookUrl,
+    payload: { event: 'order.shipped', data: { order_id: 'order_1' } },
+    maxAttempts: 3,
+    ...overrides
+  };
+}
+
+// Endpoint that answers with the queued statuses, then 200
+function endpoint(statuses: number[] = []): { transport: HttpTransport; calls: RequestInit[] } {
+  const calls: RequestInit[] = [];
+  return {
+    calls,
+    transport: async (url, init = {}) => {
+      calls.push(init);
+      return new Response(null, { status: statuses.shift() ?? 200 });
+    }
+  };
+}
+
+describe('AutomationDeliveryWorker', () => {
+  let outbox: InMemoryAutomationOutbox;
+
+  const only = () => outbox.list()[0];
+
+  beforeEach(() => {
+    outbox = createInMemoryAutomationOutbox();
+  });
+
+  it('delivers queued events with their type and delivery id', async () => {
+    await outbox.enqueue([entry()]);
+    const hook = endpoint();
+
+    const result = await createAutomationDeliveryWorker(outbox, [{ url: hookUrl, headers: { 'X-Team': 'ops' } }], {
+      transport: hook.transport
+    }).runOnce();
+
+    expect(result).toEqual({ delivered: 1, retried: 0, deadLettered: 0, deferred: 0 });
+    expect(only()).toMatchObject({ status: 'delivered', attempts: 1 });
+    expect(hook.calls[0].headers).toMatchObject({ 'X-DM-Shop-Event': 'order.shipped', 'X-DM-Shop-Delivery': only().id, 'X-Team': 'ops' });
+  });
+
+  it('backs off after a server error', async () => {
+    await outbox.enqueue([entry()]);
+    const worker = createAutomationDeliveryWorker(outbox, [], { transport: endpoint([503]).transport, baseDelayMs: 60000 });
+
+    expect(await worker.runOnce()).toMatchObject({ retried: 1 });
+    expect(only()).toMatchObject({ status: 'pending', attempts: 1, last_status_code: 503 });
+    expect(Date.parse(only().next_attempt_at)).toBeGreaterThan(Date.now() + 50000);
+    expect(await worker.runOnce()).toEqual({ delivered: 0, retried: 0, deadLettered: 0, deferred: 0 });
+  });
+
+  it('dead-letters an event once its attempts run out', async () => {
+    await outbox.enqueue([entry({ maxAttempts: 2 })]);
+    const worker = createAutomationDeliveryWorker(outbox, [], { transport: endpoint([503, 502]).transport, baseDelayMs: 0 });
+
+    expect(await worker.runOnce()).toMatchObject({ retried: 1 });
+    expect(await worker.runOnce()).toMatchObject({ deadLettered: 1 });
+    expect(only()).toMatchObject({ status: 'dead', attempts: 2, last_status_code: 502 });
+  });
+
+  it('dead-letters a rejected event straight away and replays it with fresh attempts', async () => {
+    await outbox.enqueue([entry()]);
+    const worker = createAutomationDeliveryWorker(outbox, [], { transport: endpoint([400]).transport });
+
+    expect(await worker.runOnce()).toMatchObject({ deadLettered: 1 });
+    expect(await outbox.listDeadLetters()).toHaveLength(1);
+
+    expect(await outbox.replay(only().id)).toBe(true);
+    expect(await outbox.replay(only().id)).toBe(false);
+    expect(await worker.runOnce()).toMatchObject({ delivered: 1 });
+    expect(only()).toMatchObject({ status: 'delivered', attempts: 1, last_status_code: 400 });
+  });
+
+  it('queues an entry with a dedup key once per endpoint', async () => {
+    await outbox.enqueue([entry({ dedupKey: 'seller.sale:ref:a' }), entry({ dedupKey: 'seller.sale:ref:a', url: 'https://n8n.example.com' })]);
+    await outbox.enqueue([entry({ dedupKey: 'seller.sale:ref:a' }), entry()]);
+
+    expect(outbox.list().map(event => [event.webhook_url, event.dedup_key])).toEqual([
+      [hookUrl, 'seller.sale:ref:a'],
+      ['https://n8n.example.com', 'seller.sale:ref:a'],
+      [hookUrl, null]
+    ]);
+  });
+});
+
+describe('SupabaseAutomationOutbox', () => {
+  it('stores, locks and settles events in the automation_outbox table', async () => {
+    const supabaseFake = createFakeSupabase();
+    const outbox = createSupabaseAutomationOutbox(createSupabaseClient(supabaseFake.clientConfig()));
+
+    await outbox.enqueue([entry({ dedupKey: 'order.shipped:order_1' }), entry()]);
+    await outbox.enqueue([entry({ dedupKey: 'order.shipped:order_1' })]);
+    const claimed = await outbox.claimDue(10);
+
+    expect(claimed.map(event => event.status)).toEqual(['delivering', 'delivering']);
+    expect(await outbox.claimDue(10)).toEqual([]);
+
+    await outbox.markDelivered(claimed[0]);
+    await outbox.markFailed(claimed[1], { error: 'HTTP 410: Gone', statusCode: 410, retryAt: null });
+
+    const rows = supabaseFake.rows<AutomationOutboxRecord>('automation_outbox');
+    expect(rows.map(row => [row.status, row.attempts])).toEqual([['delivered', 1], ['dead', 1]]);
+    expect((await outbox.listDeadLetters()).map(event => event.id)).toEqual([claimed[1].id]);
+  });
+});
+
+describe('automation enqueue failures', () => {
+  let fake: FakePaystackServer;
+
+  beforeEach(async () => {
+    fake = createFakePaystackServer();
+    await createPaystackClient(fake.clientConfig()).initializeTransaction({
+      reference: 'dm_order_2',
+      amount: 10000,
+      email: 'buyer@example.com',
+      currency: 'ZAR'
+    });
+  });
+
+  it('fails the webhook so the inbox worker retries it', async () => {
+    const brokenOutbox = Object.assign(createInMemoryAutomationOutbox(), {
+      enqueue: async () => {
+        throw new Error('automation_outbox unavailable');
+      }
+    });
+    const supabaseFake = createFakeSupabase();
+    const handler = createWebhookHandler(createPaystackClient(fake.clientConfig()), supabaseFake.url, supabaseFake.anonKey, [
+      { url: hookUrl, events: ['payment.failed'] }
+    ], {
+      transport: supabaseFake.transport,
+      automationOutbox: brokenOutbox
+    });
+
+    const failed = fake.failTransaction('dm_order_2');
+
+    await expect(handler.processEvent(failed)).rejects.toThrow('automation_outbox unavailable');
+  });
+});
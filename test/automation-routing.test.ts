@@ -0,0 +1,70 @@
+// DM Shop automation routing tests
+
+import { describe, expect, it } from '@jest/globals';
+import { matchesEventPattern, routeAutomationEvent } from '../lib/automation-routing';
+import { createDMShopEvent } from '../lib/dm-shop-events';
+import { DMShopEvent } from '../types/dm-shop-events';
+
+const payment = createDMShopEvent('payment.success', {
+  reference: 'dm_order_1',
+  amount: 150000,
+  customer: {
+    id: 1,
+    first_name: 'Thandi',
+    last_name: 'Nkosi',
+    email: 'buyer@example.co.za',
+    phone: '+27821234567',
+    metadata: {}
+  },
+  order_id: 'order_1'
+}) as DMShopEvent;
+
+describe('routeAutomationEvent', () => {
+  it('matches exact names, whole categories and everything', () => {
+    expect(matchesEventPattern('payment.success', 'payment.success')).toBe(true);
+    expect(matchesEventPattern('payment.*', 'payment.failed')).toBe(true);
+    expect(matchesEventPattern('payment.*', 'payout.success')).toBe(false);
+    expect(matchesEventPattern('*', 'system.test')).toBe(true);
+
+    expect(routeAutomationEvent({ events: ['order.*', 'payout.success'] }, payment)).toBeNull();
+    expect(routeAutomationEvent({ events: ['payment.*'] }, payment)).toEqual(payment);
+  });
+
+  it('skips the endpoint when its filter says no or throws', () => {
+    const bigOrders = (event: DMShopEvent) => event.event === 'payment.success' && event.data.amount >= 100000;
+
+    expect(routeAutomationEvent({ events: ['*'], filter: bigOrders }, payment)).not.toBeNull();
+    expect(routeAutomationEvent({ events: ['*'], filter: event => !bigOrders(event) }, payment)).toBeNull();
+    expect(routeAutomationEvent({
+      events: ['*'],
+      filter: () => {
+        throw new Error('bad filter');
+      }
+    }, payment)).toBeNull();
+  });
+
+  it('keeps only the included fields and drops the excluded ones, without touching the envelope', () => {
+    const routed = routeAutomationEvent({
+      events: ['payment.success'],
+      includeFields: ['reference', 'customer.email', 'customer.phone', 'missing.field'],
+      excludeFields: ['customer.phone']
+    }, payment);
+
+    expect(routed).toEqual({ ...payment, data: { reference: 'dm_order_1', customer: { email: 'buyer@example.co.za' } } });
+    expect((payment.data as any).customer.phone).toBe('+27821234567');
+  });
+
+  it('reshapes the minimised envelope with a template', () => {
+    const routed = routeAutomationEvent({
+      events: ['payment.success'],
+      excludeFields: ['customer'],
+      template: {
+        type: 'event',
+        order: { id: 'data.order_id', amount: 'data.amount' },
+        email: 'data.customer.email'
+      }
+    }, payment);
+
+    expect(routed).toEqual({ type: 'payment.success', order: { id: 'order_1', amount: 150000 }, email: undefined });
+  });
+});
@@ -0,0 +1,76 @@
+// DM Shop automation signing tests
+
+import { describe, expect, it } from '@jest/globals';
+import {
+  automationSignatureHeader,
+  automationSignatureHeaders,
+  n8nSignatureVerificationSnippet,
+  signAutomationPayload,
+  verifyAutomationSignature
+} from '../lib/automation-signing';
+import { createInMemoryAutomationOutbox } from '../lib/automation-outbox';
+import { createAutomationDeliveryWorker } from '../lib/automation-worker';
+
+const body = JSON.stringify({ event: 'seller.sale', data: { order_id: 'order_1', amount: 465 } });
+const now = 1760000000;
+
+describe('automation signatures', () => {
+  it('verifies a signed body and rejects any change to it', () => {
+    const header = signAutomationPayload(body, 'whsec_current', now);
+
+    expect(header).toMatch(/^t=1760000000,v1=[0-9a-f]{64}$/);
+    expect(verifyAutomationSignature(body, header, 'whsec_current', { now })).toBe('valid');
+    expect(verifyAutomationSignature(body.replace('465', '466'), header, 'whsec_current', { now })).toBe('invalid');
+    expect(verifyAutomationSignature(body, header, 'whsec_other', { now })).toBe('invalid');
+  });
+
+  it('signs with both secrets during a rotation so either receiver accepts it', () => {
+    const headers = automationSignatureHeaders(body, { signingSecret: 'whsec_new', previousSigningSecret: 'whsec_old' }, now);
+    const header = headers[automationSignatureHeader];
+
+    expect(header.split(',')).toHaveLength(3);
+    expect(verifyAutomationSignature(body, header, 'whsec_old', { now })).toBe('valid');
+    expect(verifyAutomationSignature(body, header, ['whsec_new'], { now })).toBe('valid');
+    expect(automationSignatureHeaders(body, { previousSigningSecret: 'whsec_old' })).toEqual({});
+  });
+
+  it('rejects old timestamps and headers it cannot parse', () => {
+    const header = signAutomationPayload(body, 'whsec_current', now);
+
+    expect(verifyAutomationSignature(body, header, 'whsec_current', { now: now + 301 })).toBe('expired');
+    expect(verifyAutomationSignature(body, header, 'whsec_current', { now: now + 301, toleranceSeconds: 600 })).toBe('valid');
+    expect(verifyAutomationSignature(body, undefined, 'whsec_current', { now })).toBe('malformed');
+    expect(verifyAutomationSignature(body, `t=${now}`, 'whsec_current', { now })).toBe('malformed');
+    expect(verifyAutomationSignature(body, `t=${now},v1=zz`, 'whsec_current', { now })).toBe('invalid');
+  });
+
+  it('is accepted by the n8n verification snippet', () => {
+    const header = signAutomationPayload(body, 'whsec_old');
+    const runSnippet = new Function('require', '$env', '$input', n8nSignatureVerificationSnippet);
+    const input = (signature: string) => ({
+      all: () => [{
+        json: { headers: { 'x-dm-shop-signature': signature } },
+        binary: { data: { data: Buffer.from(body).toString('base64') } }
+      }]
+    });
+    const env = { DM_SHOP_SIGNING_SECRET: 'whsec_new', DM_SHOP_PREVIOUS_SIGNING_SECRET: 'whsec_old' };
+
+    expect(runSnippet(require, env, input(header))).toEqual([{ json: JSON.parse(body) }]);
+    expect(() => runSnippet(require, env, input(header.replace(/v1=[0-9a-f]+/, `v1=${'0'.repeat(64)}`)))).toThrow('Invalid DM Shop signature');
+  });
+
+  it('is added by the delivery worker when the endpoint has a secret', async () => {
+    const outbox = createInMemoryAutomationOutbox();
+    await outbox.enqueue([{ eventType: 'seller.sale', url: 'https://hooks.example.com/a', payload: JSON.parse(body), maxAttempts: 3 }]);
+    const received: Array<{ body: string; header?: string }> = [];
+
+    await createAutomationDeliveryWorker(outbox, [{ url: 'https://hooks.example.com/a', signingSecret: 'whsec_current' }], {
+      transport: async (url, init = {}) => {
+        received.push({ body: String(init.body), header: (init.headers as Record<string, string>)[automationSignatureHeader] });
+        return new Response(null, { status: 204 });
+      }
+    }).runOnce();
+
+    expect(verifyAutomationSignature(received[0].body, received[0].header, 'whsec_current')).toBe('valid');
+  });
+});
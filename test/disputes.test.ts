@@ -0,0 +1,153 @@
+// DM Shop dispute tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackClient, createPaystackClient } from '../lib/paystack-client';
+import { DMShopDisputeManager, createDisputeManager } from '../lib/dm-shop-disputes';
+import { DisputeRecord, OrderRecord, StoreRecord, TransactionRecord, createSupabaseClient } from '../src/supabase-integration';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { FakeSupabase, createFakeSupabase } from './support/fake-supabase';
+
+function store(id: string, earnings: number): Partial<StoreRecord> {
+  return {
+    id,
+    user_id: `seller_${id}`,
+    name: `Store ${id}`,
+    status: 'online',
+    seller_tier: 'free',
+    commission_rate: 0.07,
+    total_earnings: earnings,
+    available_balance: earnings,
+    frozen_balance: 0
+  };
+}
+
+function sale(storeId: string, amount: number): Partial<TransactionRecord> {
+  return {
+    order_id: 'order_1',
+    store_id: storeId,
+    user_id: `seller_${storeId}`,
+    type: 'sale',
+    amount,
+    status: 'completed',
+    paystack_reference: 'dm_order_1',
+    description: 'Sale for order order_1'
+  };
+}
+
+describe('DMShopDisputeManager', () => {
+  let paystackFake: FakePaystackServer;
+  let supabaseFake: FakeSupabase;
+  let paystack: PaystackClient;
+  let disputes: DMShopDisputeManager;
+
+  const balances = (storeId: string) => {
+    const row = supabaseFake.rows<StoreRecord>('stores').find(candidate => candidate.id === storeId)!;
+    return [row.available_balance, row.frozen_balance, row.total_earnings];
+  };
+
+  beforeEach(async () => {
+    paystackFake = createFakePaystackServer();
+    supabaseFake = createFakeSupabase();
+    paystack = createPaystackClient(paystackFake.clientConfig({ retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 } }));
+    disputes = createDisputeManager(paystack, createSupabaseClient(supabaseFake.clientConfig()));
+
+    await paystack.initializeTransaction({ email: 'buyer@example.com', amount: 100000, reference: 'dm_order_1', currency: 'ZAR' });
+    paystackFake.completeTransaction('dm_order_1');
+
+    supabaseFake.insert<OrderRecord>('orders', {
+      id: 'order_1',
+      user_id: 'buyer_1',
+      status: 'paid',
+      payment_status: 'paid',
+      payment_reference: 'dm_order_1',
+      total_amount: 1000,
+      commission_amount: 63,
+      service_fee: 37,
+      shipping_fee: 0,
+      metadata: {}
+    });
+    supabaseFake.insert<StoreRecord>('stores', store('a', 600), store('b', 300));
+    supabaseFake.insert<TransactionRecord>('transactions', sale('a', 600), sale('b', 300));
+  });
+
+  it('freezes each seller\'s share of the disputed amount once', async () => {
+    const event = paystackFake.openDispute('dm_order_1', { refundAmount: 50000 });
+
+    const record = await disputes.openDispute(event.data);
+    await disputes.openDispute(event.data);
+
+    expect(record).toMatchObject({ order_id: 'order_1', amount: 500, status: 'open' });
+    expect(record.freezes).toEqual([
+      { store_id: 'a', seller_id: 'seller_a', amount: 300, frozen: true },
+      { store_id: 'b', seller_id: 'seller_b', amount: 150, frozen: true }
+    ]);
+    expect(balances('a')).toEqual([300, 300, 600]);
+    expect(balances('b')).toEqual([150, 150, 300]);
+  });
+
+  it('gives the frozen funds back when the dispute is won', async () => {
+    const event = paystackFake.openDispute('dm_order_1');
+    await disputes.openDispute(event.data);
+
+    const closed = await disputes.closeDispute(paystackFake.closeDispute(event.data.id, 'declined').data);
+
+    expect(closed).toMatchObject({ status: 'won', resolution: 'declined' });
+    expect(balances('a')).toEqual([600, 0, 600]);
+    expect(supabaseFake.rows<OrderRecord>('orders')[0].payment_status).toBe('paid');
+  });
+
+  it('writes the frozen funds off once when the dispute is lost', async () => {
+    const event = paystackFake.openDispute('dm_order_1', { refundAmount: 50000 });
+    await disputes.openDispute(event.data);
+    const resolved = paystackFake.closeDispute(event.data.id, 'auto-accepted').data;
+
+    await disputes.closeDispute(resolved);
+    const closed = await disputes.closeDispute(resolved);
+
+    expect(closed).toMatchObject({ status: 'lost', resolution: 'auto-accepted' });
+    expect(balances('a')).toEqual([300, 0, 300]);
+    expect(balances('b')).toEqual([150, 0, 150]);
+    const chargebacks = supabaseFake.rows<TransactionRecord>('transactions').filter(row => row.type === 'refund');
+    expect(chargebacks.map(row => [row.store_id, row.amount])).toEqual([['a', 300], ['b', 150]]);
+    expect(supabaseFake.rows<OrderRecord>('orders')[0].payment_status).toBe('partially_refunded');
+  });
+
+  it('records disputes on payments without an order and freezes nothing', async () => {
+    await paystack.initializeTransaction({ email: 'buyer@example.com', amount: 5000, reference: 'unknown_ref', currency: 'ZAR' });
+    paystackFake.completeTransaction('unknown_ref');
+
+    const record = await disputes.openDispute(paystackFake.openDispute('unknown_ref').data);
+
+    expect(record).toMatchObject({ order_id: null, freezes: [] });
+  });
+
+  it('submits evidence and lists disputes due soon', async () => {
+    const soon = paystackFake.openDispute('dm_order_1', { dueInHours: 24 });
+    await disputes.openDispute(soon.data);
+
+    const updated = await disputes.submitEvidence(soon.data.id, {
+      customer_email: 'buyer@example.com',
+      customer_name: 'Buyer One',
+      customer_phone: '0821234567',
+      service_details: 'Collected from Paxi point'
+    });
+
+    expect(updated.status).toBe('evidence_submitted');
+    expect((await paystack.fetchDispute(soon.data.id)).data.evidence).toMatchObject({ service_details: 'Collected from Paxi point' });
+    expect((await disputes.getUpcomingDeadlines(48)).map((record: DisputeRecord) => record.paystack_dispute_id)).toEqual([soon.data.id]);
+    expect(await disputes.getUpcomingDeadlines(12)).toEqual([]);
+  });
+
+  it('defaults the refund to the disputed amount when accepting', async () => {
+    const event = paystackFake.openDispute('dm_order_1', { refundAmount: 30000 });
+    await disputes.openDispute(event.data);
+
+    const resolved = await disputes.resolveDispute(event.data.id, {
+      resolution: 'merchant-accepted',
+      message: 'Item never shipped',
+      uploadedFilename: 'note.pdf'
+    });
+
+    expect(resolved).toMatchObject({ status: 'resolved', resolution: 'merchant-accepted', refund_amount: 30000 });
+  });
+});
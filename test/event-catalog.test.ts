@@ -0,0 +1,66 @@
+// DM Shop event catalog tests
+
+import { describe, expect, it } from '@jest/globals';
+import {
+  DMShopEventPayloadError,
+  createDMShopEvent,
+  dmShopEventCatalog,
+  isDMShopEventType,
+  validateDMShopEventPayload
+} from '../lib/dm-shop-events';
+import { N8nAutomationClient } from '../api/n8n-automation';
+
+describe('DM Shop event catalog', () => {
+  it('wraps a payload in a versioned envelope', () => {
+    const envelope = createDMShopEvent('order.shipped', { order_id: 'order_1', customer_id: 'buyer_1' }, new Date('2026-10-19T08:00:00Z'));
+
+    expect(envelope).toEqual({
+      event: 'order.shipped',
+      event_version: dmShopEventCatalog['order.shipped'].version,
+      timestamp: '2026-10-19T08:00:00.000Z',
+      data: { order_id: 'order_1', customer_id: 'buyer_1' }
+    });
+  });
+
+  it('names the missing field of a malformed payload', () => {
+    let thrown: unknown;
+    try {
+      validateDMShopEventPayload('seller.sale', { reference: 'ref', order_id: 'order_1', store_id: 'a', seller_id: 'seller_a', amount: 465, commission: null });
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(DMShopEventPayloadError);
+    expect(thrown).toMatchObject({ event: 'seller.sale', field: 'commission', message: 'Invalid seller.sale event: missing required field commission' });
+    expect(() => validateDMShopEventPayload('seller.sale', ['ref'])).toThrow('payload must be an object');
+    expect(() => validateDMShopEventPayload('seller.refund', {})).toThrow('unknown event type');
+  });
+
+  it('keeps every event name under its category and lists its required fields', () => {
+    for (const [event, definition] of Object.entries(dmShopEventCatalog)) {
+      expect(isDMShopEventType(event)).toBe(true);
+      expect(event.startsWith(`${definition.category}.`)).toBe(true);
+      expect(definition.version).toBeGreaterThanOrEqual(1);
+    }
+    expect(isDMShopEventType('hasOwnProperty')).toBe(false);
+  });
+
+  it('is what the n8n client sends', async () => {
+    const sent: Array<{ headers: Record<string, string>; body: any }> = [];
+    const n8n = new N8nAutomationClient({
+      baseUrl: 'https://n8n.example.com',
+      webhookId: 'dm-shop',
+      transport: async (url, init = {}) => {
+        sent.push({ headers: init.headers as Record<string, string>, body: JSON.parse(String(init.body)) });
+        return new Response(null, { status: 200 });
+      }
+    });
+
+    expect(await n8n.triggerEvent('order.shipped', { order_id: 'order_1', customer_id: 'buyer_1' })).toBe(true);
+    await expect(n8n.triggerEvent('order.shipped', { order_id: 'order_1' } as any)).rejects.toThrow(DMShopEventPayloadError);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].headers).toMatchObject({ 'X-DM-Shop-Event': 'order.shipped', 'X-DM-Shop-Source': 'order-system' });
+    expect(sent[0].body).toMatchObject({ event: 'order.shipped', event_version: 1, data: { order_id: 'order_1' } });
+  });
+});
@@ -0,0 +1,172 @@
+// DM Shop webhook HTTP adapter tests
+
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AddressInfo } from 'net';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { createPaystackClient } from '../lib/paystack-client';
+import { createInMemoryWebhookEventStore } from '../lib/webhook-event-store';
+import { InMemoryWebhookInbox, createInMemoryWebhookInbox } from '../lib/webhook-inbox';
+import { InMemoryWebhookJournal, createInMemoryWebhookJournal } from '../lib/webhook-journal';
+import { HttpTransport } from '../lib/http-transport';
+import { DMShopWebhookHandler, createWebhookHandler, paystackWebhookIps } from '../api/webhook-handler';
+import {
+  ExpressLikeRequest,
+  createExpressWebhookMiddleware,
+  createFetchWebhookHandler,
+  createNodeWebhookListener,
+  webhookResultStatus
+} from '../api/http-adapters';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+
+// Accepting an event never reaches Supabase
+const unreachableSupabase: HttpTransport = async url => {
+  throw new Error(`Unexpected Supabase request: ${url}`);
+};
+
+describe('webhook HTTP adapters', () => {
+  let fake: FakePaystackServer;
+  let inbox: InMemoryWebhookInbox;
+  let journal: InMemoryWebhookJournal;
+  let handler: DMShopWebhookHandler;
+  let payload: string;
+  let server: Server | undefined;
+
+  const signedHeaders = (body: string = payload) => ({
+    'Content-Type': 'application/json',
+    'X-Paystack-Signature': fake.signWebhook(body)
+  });
+
+  // Serve a listener on a random local port and return its URL
+  const listen = async (listener: (req: IncomingMessage, res: ServerResponse) => void): Promise<string> => {
+    server = createServer(listener);
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/paystack/webhook`;
+  };
+
+  beforeEach(async () => {
+    fake = createFakePaystackServer();
+    inbox = createInMemoryWebhookInbox();
+    journal = createInMemoryWebhookJournal();
+    const paystack = createPaystackClient(fake.clientConfig());
+    handler = createWebhookHandler(paystack, 'https://dmshop.supabase.co', 'service-key', [], {
+      transport: unreachableSupabase,
+      eventStore: createInMemoryWebhookEventStore(),
+      inbox,
+      journal
+    });
+
+    await paystack.initializeTransaction({ reference: 'dm_order_1', amount: 25000, email: 'buyer@example.co.za', currency: 'ZAR' });
+    payload = JSON.stringify(fake.completeTransaction('dm_order_1'));
+  });
+
+  afterEach(async () => {
+    if (server) {
+      server.closeAllConnections(); // fetch keeps connections alive
+      await new Promise(resolve => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  it('maps result codes to statuses Paystack only retries when a retry could help', () => {
+    expect(webhookResultStatus({ success: true, code: 'duplicate', message: '' })).toBe(200);
+    expect(webhookResultStatus({ success: false, code: 'invalid_signature', message: '' })).toBe(401);
+    expect(webhookResultStatus({ success: false, code: 'ip_not_allowed', message: '' })).toBe(403);
+    expect(webhookResultStatus({ success: false, code: 'stale_event', message: '' })).toBe(400);
+    expect(webhookResultStatus({ success: false, code: 'processing_failed', message: '' })).toBe(500);
+    expect(webhookResultStatus({ success: false, code: 'ignored', message: '' })).toBe(400);
+    expect(webhookResultStatus({ success: false, message: '' })).toBe(500);
+  });
+
+  describe('fetch handler', () => {
+    it('accepts a signed event and keeps result data out of the response', async () => {
+      const response = await createFetchWebhookHandler(handler)(
+        new Request('https://shop.example.com/api/paystack', { method: 'POST', headers: signedHeaders(), body: payload })
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ success: true, code: 'accepted', message: 'Event charge.success accepted' });
+      expect(inbox.list()).toHaveLength(1);
+    });
+
+    it('rejects other methods, oversized bodies and forged signatures', async () => {
+      const fetchHandler = createFetchWebhookHandler(handler, { maxBodyBytes: 64 });
+      const request = (init: RequestInit) => new Request('https://shop.example.com/api/paystack', init);
+
+      const get = await fetchHandler(request({ method: 'GET' }));
+      expect([get.status, get.headers.get('allow')]).toEqual([405, 'POST']);
+      expect((await fetchHandler(request({ method: 'POST', headers: signedHeaders(), body: payload }))).status).toBe(413);
+
+      const forged = await createFetchWebhookHandler(handler)(
+        request({ method: 'POST', headers: { 'X-Paystack-Signature': 'forged' }, body: payload })
+      );
+      expect(forged.status).toBe(401);
+      expect(inbox.list()).toHaveLength(0);
+    });
+
+    it('takes the source IP from the runtime or, behind a proxy, X-Forwarded-For', async () => {
+      handler = createWebhookHandler(createPaystackClient(fake.clientConfig()), 'https://dmshop.supabase.co', 'service-key', [], {
+        transport: unreachableSupabase,
+        eventStore: createInMemoryWebhookEventStore(),
+        inbox,
+        journal,
+        allowedIps: paystackWebhookIps
+      });
+      const forwarded = (ip: string) => new Request('https://shop.example.com/api/paystack', {
+        method: 'POST',
+        headers: { ...signedHeaders(), 'X-Forwarded-For': `${ip}, 10.0.0.2` },
+        body: payload
+      });
+
+      expect((await createFetchWebhookHandler(handler)(forwarded(paystackWebhookIps[0]))).status).toBe(500);
+      expect((await createFetchWebhookHandler(handler, { getSourceIp: () => '198.51.100.7' })(forwarded(paystackWebhookIps[0]))).status).toBe(403);
+      expect((await createFetchWebhookHandler(handler, { trustProxy: true })(forwarded(paystackWebhookIps[0]))).status).toBe(200);
+    });
+  });
+
+  describe('Node listener', () => {
+    it('passes the raw body, signature and headers to the handler', async () => {
+      const url = await listen(createNodeWebhookListener(handler));
+
+      const response = await fetch(url, { method: 'POST', headers: { ...signedHeaders(), 'X-Request-Id': 'req_1' }, body: payload });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ code: 'accepted' });
+      const [entry] = await journal.list({ from: new Date(0), to: new Date(Date.now() + 1000) });
+      expect(entry).toMatchObject({ raw_body: payload, signature: fake.signWebhook(payload), source_ip: '127.0.0.1' });
+      expect(entry.headers).toMatchObject({ 'x-request-id': 'req_1' });
+    });
+
+    it('answers 413 once the body passes the limit', async () => {
+      const url = await listen(createNodeWebhookListener(handler, { maxBodyBytes: 64 }));
+
+      const response = await fetch(url, { method: 'POST', headers: signedHeaders(), body: payload });
+
+      expect(response.status).toBe(413);
+      expect(inbox.list()).toHaveLength(0);
+    });
+  });
+
+  describe('Express middleware', () => {
+    it('reads the raw body from express.raw() and refuses one express.json() already parsed', async () => {
+      const middleware = createExpressWebhookMiddleware(handler);
+      let parseJson = false;
+      const url = await listen((req: ExpressLikeRequest, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+          const raw = Buffer.concat(chunks);
+          req.body = parseJson ? JSON.parse(raw.toString('utf8')) : raw;
+          void middleware(req, res, () => res.end());
+        });
+      });
+
+      const raw = await fetch(url, { method: 'POST', headers: signedHeaders(), body: payload });
+      parseJson = true;
+      const parsed = await fetch(url, { method: 'POST', headers: signedHeaders(), body: payload });
+
+      expect(raw.status).toBe(200);
+      expect(parsed.status).toBe(500);
+      expect(await parsed.json()).toMatchObject({ message: expect.stringContaining('express.raw()') });
+    });
+  });
+});
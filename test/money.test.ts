@@ -0,0 +1,80 @@
+// DM Shop Money tests
+
+import { describe, expect, it } from '@jest/globals';
+import { Money, MoneyError } from '../utils/money';
+import { calculateOrderPayment, calculatePayment } from '../utils/payment-calculator';
+
+describe('Money', () => {
+  it('reads decimal amounts as whole cents', () => {
+    expect(Money.fromAmount(249.99).cents).toBe(24999);
+    expect(Money.fromAmount(0.1 + 0.2).cents).toBe(30);
+    expect(Money.fromAmount(1.005).cents).toBe(101);
+  });
+
+  it('refuses fractional cents and non-finite amounts', () => {
+    expect(() => Money.fromCents(10.5)).toThrow(MoneyError);
+    expect(() => Money.fromAmount(Number.NaN)).toThrow(MoneyError);
+    expect(() => Money.fromCents(100).times(1.5)).toThrow(MoneyError);
+  });
+
+  it('refuses to combine currencies', () => {
+    expect(() => Money.fromCents(100, 'ZAR').plus(Money.fromCents(100, 'NGN'))).toThrow(MoneyError);
+  });
+
+  it('rounds rates with each mode', () => {
+    const amount = Money.fromCents(1050);
+
+    expect(amount.applyRate(0.05, 'half_up').cents).toBe(53); // 52.5
+    expect(amount.applyRate(0.05, 'half_even').cents).toBe(52);
+    expect(amount.applyRate(0.05, 'down').cents).toBe(52);
+    expect(amount.applyRate(0.05, 'up').cents).toBe(53);
+    expect(Money.fromCents(1000).applyRate(0.07, 'up').cents).toBe(70); // float noise is not a fraction
+  });
+
+  it('allocates by largest remainder so the parts add up', () => {
+    const parts = Money.fromAmount(100).allocate([1, 1, 1]);
+
+    expect(parts.map(part => part.cents)).toEqual([3334, 3333, 3333]);
+    expect(Money.sum(parts).cents).toBe(10000);
+  });
+
+  it('allocates negative amounts and zero weights', () => {
+    const parts = Money.fromCents(-1001).allocate([1, 0, 1]);
+
+    expect(parts.map(part => part.cents)).toEqual([-501, 0, -500]);
+    expect(Money.fromCents(500).allocate([0, 0]).map(part => part.cents)).toEqual([0, 0]);
+  });
+
+  it('serialises as rands and reads back to the same cents', () => {
+    const amount = Money.fromCents(51748);
+
+    expect(JSON.stringify(amount)).toBe('517.48');
+    expect(Money.fromAmount(JSON.parse(JSON.stringify(amount))).equals(amount)).toBe(true);
+    expect(amount.toAmount()).toBe(517.48);
+    expect(amount.toString()).toBe('517.48 ZAR');
+  });
+});
+
+describe('payment calculation JSON', () => {
+  it('keeps the number fields Paystack metadata and Supabase rows had before Money', () => {
+    expect(JSON.parse(JSON.stringify(calculatePayment(500, 'free')))).toEqual({
+      productPrice: 500,
+      sellerTier: 'free',
+      commission: 35,
+      serviceFee: 15,
+      customerTotal: 550,
+      sellerReceives: 500,
+      paystackFees: 17.95,
+      netSellerAmount: 482.05
+    });
+
+    const orderPayment = calculateOrderPayment([
+      { productId: 'p1', variantId: 'v1', storeId: 'a', sellerId: 'seller_a', sellerTier: 'premium', price: 99.99, quantity: 2 }
+    ], 60);
+    expect(JSON.parse(JSON.stringify(orderPayment))).toMatchObject({
+      items: [{ price: 99.99, quantity: 2, commission: 8 }],
+      totals: { subtotal: 199.98, totalCommission: 8, totalServiceFee: 15, shippingFee: 60, grandTotal: 282.98 },
+      paymentSplits: [{ storeId: 'a', amount: 199.98, commission: 8 }]
+    });
+  });
+});
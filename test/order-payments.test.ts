@@ -0,0 +1,175 @@
+// DM Shop order settlement tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackClient, createPaystackClient } from '../lib/paystack-client';
+import { DMShopOrderPaymentManager, createOrderPaymentManager } from '../lib/dm-shop-order-payments';
+import { InMemoryAutomationOutbox, createInMemoryAutomationOutbox } from '../lib/automation-outbox';
+import { createInMemoryWebhookEventStore } from '../lib/webhook-event-store';
+import { DMShopWebhookHandler, createWebhookHandler } from '../api/webhook-handler';
+import { OrderItemRecord, OrderRecord, StoreRecord, TransactionRecord, createSupabaseClient } from '../src/supabase-integration';
+import { calculateOrderPayment } from '../utils/payment-calculator';
+import { PaystackChargeEvent } from '../types/paystack';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { FakeSupabase, createFakeSupabase } from './support/fake-supabase';
+
+function item(storeId: string, price: number): Partial<OrderItemRecord> {
+  return {
+    order_id: 'order_1',
+    product_id: `product_${storeId}`,
+    variant_id: `variant_${storeId}`,
+    store_id: storeId,
+    seller_id: `seller_${storeId}`,
+    seller_tier: 'free',
+    price,
+    quantity: 1
+  };
+}
+
+function store(id: string): Partial<StoreRecord> {
+  return {
+    id,
+    user_id: `seller_${id}`,
+    name: `Store ${id}`,
+    status: 'online',
+    seller_tier: 'free',
+    commission_rate: 0.07,
+    total_earnings: 0,
+    available_balance: 0
+  };
+}
+
+describe('order settlement', () => {
+  let paystackFake: FakePaystackServer;
+  let supabaseFake: FakeSupabase;
+  let paystack: PaystackClient;
+  let orderPayments: DMShopOrderPaymentManager;
+  let outbox: InMemoryAutomationOutbox;
+  let handler: DMShopWebhookHandler;
+  let event: PaystackChargeEvent;
+
+  const order = () => supabaseFake.rows<OrderRecord>('orders')[0];
+  const ledger = () => supabaseFake.rows<TransactionRecord>('transactions').map(row => [row.type, row.store_id, row.status]);
+  const balances = () => supabaseFake.rows<StoreRecord>('stores').map(row => [row.id, row.available_balance, row.total_earnings]);
+  const queued = (eventType: string) => outbox.list().filter(entry => entry.event_type === eventType);
+
+  beforeEach(async () => {
+    paystackFake = createFakePaystackServer();
+    supabaseFake = createFakeSupabase();
+    paystack = createPaystackClient(paystackFake.clientConfig({ retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 } }));
+    orderPayments = createOrderPaymentManager(createSupabaseClient(supabaseFake.clientConfig()));
+    outbox = createInMemoryAutomationOutbox();
+    handler = createWebhookHandler(paystack, supabaseFake.url, supabaseFake.anonKey, [
+      { url: 'https://hooks.example.com/dm-shop', events: ['payment.success', 'seller.sale'] }
+    ], {
+      transport: supabaseFake.transport,
+      eventStore: createInMemoryWebhookEventStore(),
+      automationOutbox: outbox,
+      processInline: true
+    });
+
+    const items = [item('a', 500), item('b', 250)];
+    const { totals } = calculateOrderPayment(
+      items.map(row => ({
+        productId: row.product_id!,
+        variantId: row.variant_id!,
+        storeId: row.store_id!,
+        sellerId: row.seller_id!,
+        sellerTier: row.seller_tier!,
+        price: row.price!,
+        quantity: row.quantity!
+      })),
+      0
+    );
+
+    supabaseFake.insert<StoreRecord>('stores', store('a'), store('b'));
+    supabaseFake.insert<OrderItemRecord>('order_items', ...items);
+    supabaseFake.insert<OrderRecord>('orders', {
+      id: 'order_1',
+      user_id: 'buyer_1',
+      status: 'pending',
+      payment_status: 'pending',
+      payment_reference: 'dm_order_1',
+      total_amount: totals.grandTotal.toAmount(),
+      commission_amount: totals.totalCommission.toAmount(),
+      service_fee: totals.totalServiceFee.toAmount(),
+      shipping_fee: 0,
+      metadata: {}
+    });
+
+    await paystack.initializeTransaction({
+      email: 'buyer@example.com',
+      amount: totals.grandTotal.cents,
+      reference: 'dm_order_1',
+      currency: 'ZAR',
+      metadata: {
+        order_id: 'order_1',
+        seller_id: 'seller_a',
+        store_id: 'a',
+        commission_rate: 0.07,
+        service_fee: totals.totalServiceFee.toAmount(),
+        user_id: 'buyer_1',
+        save_card: true
+      }
+    });
+    event = paystackFake.completeTransaction('dm_order_1', { last4: '4242' }) as PaystackChargeEvent;
+  });
+
+  it('credits each store once and writes each sale with its commission', async () => {
+    await orderPayments.settleOrder(order(), event);
+    const replay = await orderPayments.settleOrder(order(), event);
+
+    expect(replay.credited).toEqual([]);
+    expect(ledger()).toEqual([
+      ['sale', 'a', 'completed'],
+      ['commission', 'a', 'completed'],
+      ['sale', 'b', 'completed'],
+      ['commission', 'b', 'completed'],
+      ['service_fee', null, 'completed']
+    ]);
+    expect(balances()).toEqual([['a', 500, 500], ['b', 250, 250]]);
+  });
+
+  it('credits a sale left pending by an attempt that failed before the credit', async () => {
+    let failCredit = true;
+    const interrupted = createOrderPaymentManager(createSupabaseClient(supabaseFake.clientConfig({
+      transport: async (url, init) => {
+        if (failCredit && url.endsWith('/rpc/credit_store_sale')) {
+          failCredit = false;
+          throw new TypeError('fetch failed');
+        }
+        return await supabaseFake.transport(url, init);
+      }
+    })));
+
+    await expect(interrupted.settleOrder(order(), event)).rejects.toThrow('fetch failed');
+    expect(ledger()).toEqual([['sale', 'a', 'pending'], ['commission', 'a', 'completed']]);
+
+    const retry = await orderPayments.settleOrder(order(), event);
+
+    expect(retry.credited.map(split => split.storeId)).toEqual(['a', 'b']);
+    expect(ledger().filter(([type]) => type === 'commission')).toHaveLength(2);
+    expect(balances()).toEqual([['a', 500, 500], ['b', 250, 250]]);
+  });
+
+  it('never changes the status of an order that was refunded', async () => {
+    order().payment_status = 'refunded';
+
+    await orderPayments.settleOrder(order(), event);
+
+    expect(order().payment_status).toBe('refunded');
+    expect(supabaseFake.requests.some(request => request.method === 'PATCH' && request.table === 'orders')).toBe(false);
+  });
+
+  it('queues payment.success and saves the card once, even when the order was already paid', async () => {
+    order().payment_status = 'paid';
+
+    const first = await handler.processEvent(event);
+    const retry = await handler.processEvent(event);
+
+    expect(first).toMatchObject({ success: true, message: 'Order already paid', automationTriggered: true });
+    expect(retry.data).toMatchObject({ storesCredited: 0 });
+    expect(queued('payment.success')).toHaveLength(1);
+    expect(queued('seller.sale')).toHaveLength(2);
+    expect(supabaseFake.rows('saved_cards')).toEqual([expect.objectContaining({ user_id: 'buyer_1', last4: '4242' })]);
+  });
+});
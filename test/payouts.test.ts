@@ -0,0 +1,121 @@
+// DM Shop seller payout tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { createPaystackClient } from '../lib/paystack-client';
+import { DMShopPayoutManager, createPayoutManager } from '../lib/dm-shop-payouts';
+import { PayoutRecord, StoreRecord, TransactionRecord, createSupabaseClient } from '../src/supabase-integration';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { FakeSupabase, createFakeSupabase } from './support/fake-supabase';
+
+function store(id: string, balance: number): Partial<StoreRecord> {
+  return {
+    id,
+    user_id: `seller_${id}`,
+    name: `Store ${id}`,
+    description: '',
+    status: 'online',
+    bank_code: '632005',
+    account_number: '0123456789',
+    account_name: `Seller ${id}`,
+    bank_verified: true,
+    seller_tier: 'free',
+    commission_rate: 0.07,
+    total_earnings: balance,
+    available_balance: balance
+  };
+}
+
+describe('DMShopPayoutManager', () => {
+  let fake: FakePaystackServer;
+  let tables: FakeSupabase;
+  let payouts: DMShopPayoutManager;
+
+  const storeRow = (id: string) => tables.rows<StoreRecord>('stores').find(row => row.id === id)!;
+  const transactionRow = (id: string) => tables.rows<TransactionRecord>('transactions').find(row => row.id === id)!;
+  const payoutRows = () => tables.rows<PayoutRecord>('payouts');
+
+  beforeEach(() => {
+    fake = createFakePaystackServer();
+    tables = createFakeSupabase();
+    tables.insert<StoreRecord>('stores', store('a', 500), store('b', 120.5));
+
+    const paystack = createPaystackClient(fake.clientConfig({ retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 } }));
+    payouts = createPayoutManager(paystack, createSupabaseClient(tables.clientConfig()));
+  });
+
+  it('holds the balance and sends the transfer', async () => {
+    const payout = await payouts.payoutStore({ storeId: 'a', amount: 200 });
+
+    expect(payout).toMatchObject({ status: 'processing', amount: 200 });
+    expect(storeRow('a').available_balance).toBe(300);
+    expect(fake.getTransfer(payout.paystack_reference)).toMatchObject({ amount: 20000, status: 'pending' });
+    expect(transactionRow(payout.transaction_id!)).toMatchObject({ type: 'payout', status: 'pending', order_id: null });
+  });
+
+  it('refuses more than the available balance', async () => {
+    await expect(payouts.payoutStore({ storeId: 'b', amount: 120.51 })).rejects.toThrow('between R0.01 and R120.50');
+    expect(payoutRows().length).toBe(0);
+  });
+
+  it('settles the payout on transfer.success', async () => {
+    const payout = await payouts.payoutStore({ storeId: 'a' });
+    const event = fake.completeTransfer(payout.paystack_reference);
+
+    const settled = await payouts.settleTransfer(event.data);
+
+    expect(settled).toMatchObject({ status: 'success' });
+    expect(transactionRow(payout.transaction_id!).status).toBe('completed');
+    expect(storeRow('a').available_balance).toBe(0);
+  });
+
+  it('gives the balance back when the transfer is reversed', async () => {
+    const payout = await payouts.payoutStore({ storeId: 'a', amount: 50 });
+    const event = fake.completeTransfer(payout.paystack_reference, 'reversed');
+
+    await payouts.reverseTransfer(event.data, 'reversed');
+    await payouts.reverseTransfer(event.data, 'reversed');
+
+    expect(payoutRows().find(row => row.id === payout.id)!.status).toBe('reversed');
+    expect(storeRow('a').available_balance).toBe(500);
+  });
+
+  it('releases the payout when Paystack rejects the transfer', async () => {
+    await payouts.ensureTransferRecipient(storeRow('a'));
+    fake.failNextRequest(400, 'Insufficient balance');
+
+    await expect(payouts.payoutStore({ storeId: 'a', amount: 100 })).rejects.toThrow('Insufficient balance');
+
+    const [payout] = payoutRows();
+    expect(payout).toMatchObject({ status: 'failed', failure_reason: expect.stringContaining('Insufficient balance') });
+    expect(storeRow('a').available_balance).toBe(500);
+  });
+
+  it('keeps the balance held when the outcome is unknown, then syncs it', async () => {
+    // The transfer request times out with a 504, and the lookup by reference finds nothing
+    await payouts.ensureTransferRecipient(storeRow('a'));
+    fake.failNextRequest(504, 'Gateway timeout');
+
+    await expect(payouts.payoutStore({ storeId: 'a', amount: 100 })).rejects.toThrow();
+
+    const [payout] = payoutRows();
+    expect(payout.status).toBe('processing');
+    expect(storeRow('a').available_balance).toBe(400);
+
+    const synced = await payouts.syncPayout(payout.paystack_reference);
+    expect(synced).toMatchObject({ status: 'failed', failure_reason: 'Transfer was never created' });
+    expect(storeRow('a').available_balance).toBe(500);
+  });
+
+  it('pays several stores in one bulk transfer and reports the ones it skipped', async () => {
+    tables.insert<StoreRecord>('stores', { ...store('c', 80), bank_verified: false });
+
+    const result = await payouts.payoutStores([{ storeId: 'a' }, { storeId: 'b' }, { storeId: 'c' }, { storeId: 'missing' }]);
+
+    expect(result.payouts.map(payout => [payout.store_id, payout.amount, payout.status])).toEqual([
+      ['a', 500, 'processing'],
+      ['b', 120.5, 'processing']
+    ]);
+    expect(result.skipped.map(skip => skip.storeId)).toEqual(['c', 'missing']);
+    expect(fake.requests.filter(request => request.path === '/transfer/bulk')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,113 @@
+// DM Shop reconciliation tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackClient, createPaystackClient } from '../lib/paystack-client';
+import { DMShopReconciliationJob, ReconciliationPeriod, createReconciliationJob } from '../lib/dm-shop-reconciliation';
+import { OrderRecord, TransactionRecord, createSupabaseClient } from '../src/supabase-integration';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { FakeSupabase, createFakeSupabase } from './support/fake-supabase';
+
+function order(id: string, reference: string, total: number, paymentStatus: OrderRecord['payment_status']): Partial<OrderRecord> {
+  return {
+    id,
+    user_id: 'buyer_1',
+    status: paymentStatus === 'paid' ? 'paid' : 'pending',
+    payment_status: paymentStatus,
+    payment_reference: reference,
+    total_amount: total,
+    commission_amount: 0,
+    service_fee: 0,
+    shipping_fee: 0,
+    metadata: {}
+  };
+}
+
+describe('DMShopReconciliationJob', () => {
+  let paystackFake: FakePaystackServer;
+  let supabaseFake: FakeSupabase;
+  let paystack: PaystackClient;
+  let job: DMShopReconciliationJob;
+  let period: ReconciliationPeriod;
+
+  const pay = async (reference: string, amount: number) => {
+    await paystack.initializeTransaction({ email: 'buyer@example.com', amount, reference, currency: 'ZAR' });
+    paystackFake.completeTransaction(reference);
+  };
+
+  beforeEach(() => {
+    paystackFake = createFakePaystackServer();
+    supabaseFake = createFakeSupabase();
+    paystack = createPaystackClient(paystackFake.clientConfig({ retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 } }));
+    job = createReconciliationJob(paystack, createSupabaseClient(supabaseFake.clientConfig()));
+    period = {
+      from: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      to: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    };
+  });
+
+  it('reports nothing when Paystack, the orders and the ledger agree', async () => {
+    await pay('ref_a', 10000);
+    supabaseFake.insert<OrderRecord>('orders', order('order_a', 'ref_a', 100, 'paid'));
+    supabaseFake.insert<TransactionRecord>('transactions', {
+      order_id: 'order_a',
+      store_id: 'store_a',
+      user_id: 'seller_a',
+      type: 'sale',
+      amount: 80,
+      status: 'completed',
+      paystack_reference: 'ref_a',
+      description: 'Sale for order order_a'
+    });
+    paystackFake.settle(['ref_a']);
+
+    const report = await job.run(period);
+
+    expect(report.summary).toMatchObject({
+      paystackTransactions: 1,
+      paystackGross: 100,
+      ordersMatched: 1,
+      sellerCredits: 80,
+      settlements: 1,
+      issues: 0
+    });
+  });
+
+  it('finds payments without orders, wrong amounts, uncredited payments and unverified orders', async () => {
+    await pay('ref_missing', 5000);
+    await pay('ref_short', 9000);
+    supabaseFake.insert<OrderRecord>('orders',
+      order('order_short', 'ref_short', 100, 'pending'),
+      order('order_unpaid', 'ref_never_paid', 75, 'paid')
+    );
+
+    const report = await job.run(period);
+
+    expect(report.missingOrders).toEqual([expect.objectContaining({ reference: 'ref_missing', amount: 50 })]);
+    expect(report.amountMismatches).toEqual([
+      { reference: 'ref_short', orderId: 'order_short', orderAmount: 100, paystackAmount: 90 }
+    ]);
+    expect(report.orphanedPayments).toEqual([
+      { reference: 'ref_short', orderId: 'order_short', reason: 'Order payment_status is pending' }
+    ]);
+    expect(report.unverifiedOrders).toEqual([{ orderId: 'order_unpaid', reference: 'ref_never_paid', amount: 75 }]);
+    expect(report.summary.issues).toBe(4);
+  });
+
+  it('flags settlements whose totals don\'t add up to their transactions', async () => {
+    await pay('ref_a', 10000);
+    await pay('ref_b', 20000);
+    supabaseFake.insert<OrderRecord>('orders', order('order_a', 'ref_a', 100, 'paid'), order('order_b', 'ref_b', 200, 'paid'));
+    const settlement = paystackFake.settle(['ref_a', 'ref_b'], { total_processed: 25000 });
+
+    const report = await job.run(period);
+
+    expect(report.settlementDiscrepancies).toEqual([
+      expect.objectContaining({
+        settlementId: settlement.id,
+        reason: 'Transaction volume differs from total_processed',
+        expected: 250,
+        actual: 300
+      })
+    ]);
+  });
+});
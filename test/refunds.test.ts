@@ -0,0 +1,182 @@
+// DM Shop refund tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackClient, createPaystackClient } from '../lib/paystack-client';
+import { HttpTransport } from '../lib/http-transport';
+import { DMShopRefundManager, createRefundManager } from '../lib/dm-shop-refunds';
+import {
+  OrderRecord,
+  RefundRecord,
+  StoreRecord,
+  TransactionRecord,
+  createSupabaseClient
+} from '../src/supabase-integration';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { FakeSupabase, createFakeSupabase } from './support/fake-supabase';
+
+function store(id: string, earnings: number): Partial<StoreRecord> {
+  return {
+    id,
+    user_id: `seller_${id}`,
+    name: `Store ${id}`,
+    description: '',
+    status: 'online',
+    seller_tier: 'free',
+    commission_rate: 0.07,
+    total_earnings: earnings,
+    available_balance: earnings
+  };
+}
+
+function sale(storeId: string, amount: number): Partial<TransactionRecord> {
+  return {
+    order_id: 'order_1',
+    store_id: storeId,
+    user_id: `seller_${storeId}`,
+    type: 'sale',
+    amount,
+    status: 'completed',
+    paystack_reference: 'dm_order_1',
+    description: 'Sale for order order_1'
+  };
+}
+
+describe('DMShopRefundManager', () => {
+  let paystackFake: FakePaystackServer;
+  let supabaseFake: FakeSupabase;
+  let paystack: PaystackClient;
+  let refunds: DMShopRefundManager;
+  let nextRefund: 'reject' | 'lose_response' | null;
+
+  const balance = (storeId: string) =>
+    supabaseFake.rows<StoreRecord>('stores').find(row => row.id === storeId)!.available_balance;
+  const refundRows = () => supabaseFake.rows<RefundRecord>('refunds');
+  const order = () => supabaseFake.rows<OrderRecord>('orders')[0];
+
+  beforeEach(async () => {
+    paystackFake = createFakePaystackServer();
+    supabaseFake = createFakeSupabase();
+    nextRefund = null;
+
+    // Lets a test reject the next POST /refund, or let it through and lose the response
+    const transport: HttpTransport = async (url, init = {}) => {
+      const mode = init.method === 'POST' && new URL(url).pathname === '/refund' ? nextRefund : null;
+      if (!mode) {
+        return paystackFake.transport(url, init);
+      }
+
+      nextRefund = null;
+      if (mode === 'lose_response') {
+        await paystackFake.transport(url, init);
+      }
+      return mode === 'reject'
+        ? new Response(JSON.stringify({ status: false, message: 'Transaction has been fully reversed' }), { status: 400 })
+        : new Response(JSON.stringify({ status: false, message: 'Gateway timeout' }), { status: 504 });
+    };
+
+    paystack = createPaystackClient(paystackFake.clientConfig({ transport }));
+    refunds = createRefundManager(paystack, createSupabaseClient(supabaseFake.clientConfig()));
+
+    await paystack.initializeTransaction({ email: 'buyer@example.com', amount: 100000, reference: 'dm_order_1', currency: 'ZAR' });
+    paystackFake.completeTransaction('dm_order_1');
+
+    supabaseFake.insert<OrderRecord>('orders', {
+      id: 'order_1',
+      user_id: 'buyer_1',
+      status: 'paid',
+      payment_status: 'paid',
+      payment_reference: 'dm_order_1',
+      total_amount: 1000,
+      commission_amount: 63,
+      service_fee: 37,
+      shipping_fee: 0,
+      metadata: {}
+    });
+    supabaseFake.insert<StoreRecord>('stores', store('a', 600), store('b', 300));
+    supabaseFake.insert<TransactionRecord>('transactions', sale('a', 600), sale('b', 300));
+  });
+
+  it('holds each store\'s share of a partial refund and settles it on refund.processed', async () => {
+    const result = await refunds.refundOrder({ orderId: 'order_1', amount: 100, reason: 'Damaged item' });
+
+    expect(result.fullRefund).toBe(false);
+    expect(result.refund.status).toBe('processing');
+    expect(result.storeDebits).toEqual([
+      { storeId: 'a', sellerId: 'seller_a', amount: 60 },
+      { storeId: 'b', sellerId: 'seller_b', amount: 30 }
+    ]);
+    expect([balance('a'), balance('b')]).toEqual([540, 270]);
+
+    const settled = await refunds.reconcileRefund(paystackFake.processRefund(result.refund.paystack_refund_id!));
+
+    expect(settled).toMatchObject({ status: 'processed' });
+    expect(order()).toMatchObject({ payment_status: 'partially_refunded', metadata: { refunded_amount: 100 } });
+    const held = supabaseFake.rows<TransactionRecord>('transactions').filter(row => row.type === 'refund');
+    expect(held.map(row => row.status)).toEqual(['completed', 'completed']);
+  });
+
+  it('refunds whatever is left when no amount is given', async () => {
+    await refunds.refundOrder({ orderId: 'order_1', amount: 100, reason: 'Damaged item' });
+    const result = await refunds.refundOrder({ orderId: 'order_1', reason: 'Order cancelled' });
+
+    expect(result.fullRefund).toBe(true);
+    expect(result.refund.amount).toBe(900);
+    expect([balance('a'), balance('b')]).toEqual([0, 0]);
+  });
+
+  it('refuses more than the unrefunded amount', async () => {
+    await expect(refunds.refundOrder({ orderId: 'order_1', amount: 1000.01, reason: 'Too much' }))
+      .rejects.toThrow('between R0.01 and R1000.00');
+    expect(refundRows()).toHaveLength(0);
+  });
+
+  it('fails the refund and releases the held amounts when Paystack rejects it', async () => {
+    nextRefund = 'reject';
+
+    await expect(refunds.refundOrder({ orderId: 'order_1', amount: 100, reason: 'Damaged item' }))
+      .rejects.toThrow('Transaction has been fully reversed');
+
+    expect(refundRows()[0]).toMatchObject({ status: 'failed', failure_reason: 'Transaction has been fully reversed' });
+    expect([balance('a'), balance('b')]).toEqual([600, 300]);
+  });
+
+  it('leaves the refund pending when the outcome is unknown and matches it up on retry', async () => {
+    // Paystack creates the refund but the response never arrives
+    nextRefund = 'lose_response';
+    await expect(refunds.refundOrder({ orderId: 'order_1', amount: 100, reason: 'Damaged item' }))
+      .rejects.toThrow();
+
+    expect(refundRows()[0].status).toBe('pending');
+    expect([balance('a'), balance('b')]).toEqual([540, 270]);
+
+    const result = await refunds.refundOrder({ orderId: 'order_1', amount: 100, reason: 'Damaged item' });
+
+    expect(result.refund).toMatchObject({ id: refundRows()[0].id, status: 'processing' });
+    expect(refundRows()).toHaveLength(1);
+    expect(paystackFake.requests.filter(request => request.method === 'POST' && request.path === '/refund')).toHaveLength(1);
+    expect([balance('a'), balance('b')]).toEqual([540, 270]);
+  });
+
+  it('gives the sellers their money back on refund.failed', async () => {
+    const result = await refunds.refundOrder({ orderId: 'order_1', amount: 100, reason: 'Damaged item' });
+    const event = paystackFake.processRefund(result.refund.paystack_refund_id!);
+
+    const released = await refunds.reconcileRefund({
+      ...event,
+      event: 'refund.failed',
+      data: { ...event.data, status: 'failed' }
+    });
+
+    expect(released).toMatchObject({ status: 'failed', failure_reason: 'Refund failed at Paystack' });
+    expect([balance('a'), balance('b')]).toEqual([600, 300]);
+    expect(order().payment_status).toBe('paid');
+  });
+
+  it('ignores refund events it did not start', async () => {
+    const event = paystackFake.processRefund(
+      (await paystack.createRefund({ transaction: 'dm_order_1', amount: 5000 })).data.id
+    );
+
+    expect(await refunds.reconcileRefund(event)).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+// DM Shop saved card tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackClient, createPaystackClient } from '../lib/paystack-client';
+import { DMShopSavedCardManager, createSavedCardManager } from '../lib/dm-shop-saved-cards';
+import { OrderRecord, SavedCardRecord, createSupabaseClient } from '../src/supabase-integration';
+import { PaystackAuthorization } from '../types/paystack';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { FakeSupabase, createFakeSupabase } from './support/fake-supabase';
+
+describe('DMShopSavedCardManager', () => {
+  let paystackFake: FakePaystackServer;
+  let supabaseFake: FakeSupabase;
+  let paystack: PaystackClient;
+  let cards: DMShopSavedCardManager;
+  let authorization: PaystackAuthorization;
+
+  const order = () => supabaseFake.rows<OrderRecord>('orders')[0];
+  const chargePosts = () =>
+    paystackFake.requests.filter(request => request.path === '/transaction/charge_authorization');
+
+  beforeEach(async () => {
+    paystackFake = createFakePaystackServer();
+    supabaseFake = createFakeSupabase();
+    paystack = createPaystackClient(paystackFake.clientConfig({ retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 } }));
+    cards = createSavedCardManager(paystack, createSupabaseClient(supabaseFake.clientConfig()));
+
+    await paystack.initializeTransaction({ email: 'buyer@example.com', amount: 5000, reference: 'first_order', currency: 'ZAR' });
+    authorization = paystackFake.completeTransaction('first_order', { last4: '1234' }).data.authorization as PaystackAuthorization;
+
+    supabaseFake.insert<OrderRecord>('orders', {
+      id: 'order_2',
+      user_id: 'buyer_1',
+      status: 'pending',
+      payment_status: 'pending',
+      total_amount: 122,
+      commission_amount: 0,
+      service_fee: 15,
+      shipping_fee: 0,
+      metadata: {}
+    });
+  });
+
+  it('keeps one card per signature and never exposes the authorization code', async () => {
+    const saved = await cards.saveAuthorization('buyer_1', 'buyer@example.com', authorization);
+    await cards.saveAuthorization('buyer_1', 'buyer@example.com', { ...authorization, exp_year: '2040' });
+
+    expect(saved).toMatchObject({ last4: '1234', brand: 'visa' });
+    expect(saved).not.toHaveProperty('authorization_code');
+    expect(supabaseFake.rows<SavedCardRecord>('saved_cards')).toHaveLength(1);
+    expect(await cards.listCards('buyer_1')).toEqual([expect.objectContaining({ exp_year: '2040' })]);
+  });
+
+  it('skips authorizations Paystack marked as not reusable', async () => {
+    expect(await cards.saveAuthorization('buyer_1', 'buyer@example.com', { ...authorization, reusable: false })).toBeNull();
+    expect(supabaseFake.rows('saved_cards')).toHaveLength(0);
+  });
+
+  it('stores the reference on the order before charging and reuses it on retry', async () => {
+    const saved = (await cards.saveAuthorization('buyer_1', 'buyer@example.com', authorization))!;
+
+    const first = await cards.chargeCard({ userId: 'buyer_1', cardId: saved.id, orderId: 'order_2', amount: 122 });
+    const second = await cards.chargeCard({ userId: 'buyer_1', cardId: saved.id, orderId: 'order_2', amount: 122 });
+
+    expect(first.data).toMatchObject({ status: 'success', amount: 12200, reference: order().payment_reference });
+    expect(order().metadata).toMatchObject({ card_charge_reference: order().payment_reference });
+    expect(second.data.reference).toBe(first.data.reference);
+    expect(chargePosts()).toHaveLength(2);
+    expect(paystackFake.getTransaction(first.data.reference)).toMatchObject({ status: 'success' });
+  });
+
+  it('finds the charge by reference when the response is lost', async () => {
+    const saved = (await cards.saveAuthorization('buyer_1', 'buyer@example.com', authorization))!;
+    const transport = paystackFake.transport;
+    let lost = false;
+    cards = createSavedCardManager(
+      createPaystackClient(paystackFake.clientConfig({
+        transport: async (url, init) => {
+          const response = await transport(url, init);
+          if (!lost && url.endsWith('/transaction/charge_authorization')) {
+            lost = true;
+            return new Response(JSON.stringify({ status: false, message: 'Gateway timeout' }), { status: 504 });
+          }
+          return response;
+        }
+      })),
+      createSupabaseClient(supabaseFake.clientConfig())
+    );
+
+    const result = await cards.chargeCard({ userId: 'buyer_1', cardId: saved.id, orderId: 'order_2', amount: 122 });
+
+    expect(result.data).toMatchObject({ status: 'success', reference: order().payment_reference });
+    expect(chargePosts()).toHaveLength(1);
+  });
+
+  it('refuses another customer\'s card and orders that are already paid', async () => {
+    const saved = (await cards.saveAuthorization('buyer_1', 'buyer@example.com', authorization))!;
+
+    await expect(cards.chargeCard({ userId: 'buyer_2', cardId: saved.id, orderId: 'order_2', amount: 122 }))
+      .rejects.toThrow('Saved card not found');
+
+    order().payment_status = 'paid';
+    await expect(cards.chargeCard({ userId: 'buyer_1', cardId: saved.id, orderId: 'order_2', amount: 122 }))
+      .rejects.toThrow('cannot be charged from payment status paid');
+    expect(chargePosts()).toHaveLength(0);
+  });
+
+  it('deactivates the authorization when a card is deleted, even if Paystack already dropped it', async () => {
+    const saved = (await cards.saveAuthorization('buyer_1', 'buyer@example.com', authorization))!;
+    await paystack.deactivateAuthorization(authorization.authorization_code);
+
+    await cards.deleteCard('buyer_1', saved.id);
+
+    expect(await cards.listCards('buyer_1')).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+// DM Shop split allocation and split manager tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { Money } from '../utils/money';
+import { allocateProportionally, calculateOrderPayment } from '../utils/payment-calculator';
+import { DMShopSplitManager, buildOrderSplit, createSplitManager } from '../lib/dm-shop-splits';
+import { PaystackClient, createPaystackClient } from '../lib/paystack-client';
+import { StoreRecord, createSupabaseClient } from '../src/supabase-integration';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { FakeSupabase, createFakeSupabase } from './support/fake-supabase';
+
+const items = [
+  { productId: 'p1', variantId: 'v1', storeId: 'store_a', sellerId: 'seller_a', sellerTier: 'free' as const, price: 199.99, quantity: 3 },
+  { productId: 'p2', variantId: 'v2', storeId: 'store_b', sellerId: 'seller_b', sellerTier: 'premium' as const, price: 89.95, quantity: 1 },
+  { productId: 'p3', variantId: 'v3', storeId: 'store_a', sellerId: 'seller_a', sellerTier: 'free' as const, price: 15.5, quantity: 2 }
+];
+
+describe('calculateOrderPayment', () => {
+  it('groups items per seller with exact commission', () => {
+    const payment = calculateOrderPayment(items);
+
+    expect(payment.paymentSplits.map(split => [split.sellerId, split.amount.cents, split.commission.cents])).toEqual([
+      ['seller_a', 59997 + 3100, 4200 + 217], // 7% of R599.97 and R31.00, rounded half up
+      ['seller_b', 8995, 360] // 4% of R89.95
+    ]);
+  });
+
+  it('makes the grand total exactly the splits plus fees and shipping', () => {
+    const payment = calculateOrderPayment(items, Money.fromAmount(85));
+    const { totals } = payment;
+    const splits = Money.sum(payment.paymentSplits.map(split => split.amount));
+
+    expect(totals.subtotal.equals(splits)).toBe(true);
+    expect(totals.grandTotal.cents).toBe(
+      splits.cents + totals.totalCommission.cents + totals.totalServiceFee.cents + totals.shippingFee.cents
+    );
+    expect(totals.totalServiceFee.cents).toBe(4500); // R15 per item line
+  });
+});
+
+describe('buildOrderSplit', () => {
+  it('gives each subaccount its share in kobo and lets sellers share the fees', () => {
+    const payment = { ...calculateOrderPayment(items), orderId: 'order_1' };
+    payment.paymentSplits[0].subaccountCode = 'ACCT_b';
+    payment.paymentSplits[1].subaccountCode = 'ACCT_a';
+
+    expect(buildOrderSplit(payment)).toEqual({
+      name: 'DM Shop order order_1',
+      type: 'flat',
+      currency: 'ZAR',
+      subaccounts: [
+        { subaccount: 'ACCT_a', share: 8995 },
+        { subaccount: 'ACCT_b', share: 63097 }
+      ],
+      bearer_type: 'all-proportional'
+    });
+  });
+
+  it('makes a single seller bear the fees', () => {
+    const payment = { ...calculateOrderPayment([items[1]]), orderId: 'order_2' };
+    const split = buildOrderSplit(payment);
+
+    expect(split.bearer_type).toBe('subaccount');
+    expect(split.bearer_subaccount).toBe('ACCT_seller_b');
+  });
+});
+
+describe('allocateProportionally', () => {
+  it('keeps the parts adding up to the amount', () => {
+    const parts = allocateProportionally(100, [59997, 8995, 3100]);
+
+    expect(parts).toEqual([83.22, 12.48, 4.3]);
+    expect(Math.round(parts.reduce((sum, part) => sum + part, 0) * 100)).toBe(10000);
+  });
+});
+
+describe('DMShopSplitManager', () => {
+  let paystackFake: FakePaystackServer;
+  let supabaseFake: FakeSupabase;
+  let paystack: PaystackClient;
+  let splits: DMShopSplitManager;
+  const codes: Record<string, string> = {};
+
+  const order = (lines: typeof items) => ({ ...calculateOrderPayment(lines), orderId: 'order_1' });
+  const splitPosts = () => paystackFake.requests.filter(request => request.method === 'POST' && request.path === '/split');
+
+  beforeEach(async () => {
+    paystackFake = createFakePaystackServer();
+    supabaseFake = createFakeSupabase();
+    paystack = createPaystackClient(paystackFake.clientConfig({ retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 } }));
+    splits = createSplitManager(paystack, createSupabaseClient(supabaseFake.clientConfig()));
+
+    for (const id of ['store_a', 'store_b', 'store_c']) {
+      const { data } = await paystack.createSubaccount({
+        business_name: id,
+        settlement_bank: '632005',
+        account_number: '0123456789',
+        percentage_charge: 7
+      });
+      codes[id] = data.subaccount_code;
+      supabaseFake.insert<StoreRecord>('stores', {
+        id,
+        user_id: id.replace('store', 'seller'),
+        name: id,
+        status: 'online',
+        seller_tier: 'free',
+        paystack_subaccount_code: data.subaccount_code
+      });
+    }
+  });
+
+  it('creates the order split with the stores\' real subaccount codes and reuses it on retry', async () => {
+    const created = await splits.resolveOrderSplit(order(items));
+    const reused = await splits.resolveOrderSplit(order(items));
+
+    expect(reused.split_code).toBe(created.split_code);
+    expect(splitPosts()).toHaveLength(1);
+    expect(created.subaccounts.map(item => [item.subaccount.subaccount_code, item.share]).sort()).toEqual(
+      [[codes.store_a, 63097], [codes.store_b, 8995]].sort()
+    );
+  });
+
+  it('updates the order split in place when the cart changes', async () => {
+    const created = await splits.resolveOrderSplit(order(items));
+    const changed = [
+      items[0],
+      { productId: 'p4', variantId: 'v4', storeId: 'store_c', sellerId: 'seller_c', sellerTier: 'free' as const, price: 50, quantity: 1 }
+    ];
+
+    const updated = await splits.resolveOrderSplit(order(changed));
+
+    expect(updated.split_code).toBe(created.split_code);
+    expect(splitPosts()).toHaveLength(1);
+    expect(updated.subaccounts.map(item => [item.subaccount.subaccount_code, item.share]).sort()).toEqual(
+      [[codes.store_a, 59997], [codes.store_c, 5000]].sort()
+    );
+  });
+
+  it('refuses suspended stores', async () => {
+    supabaseFake.rows<StoreRecord>('stores')[1].status = 'suspended';
+
+    await expect(splits.resolveOrderSplit(order(items))).rejects.toThrow('Store store_b is suspended');
+  });
+
+  it('deactivates the order split once, after settlement', async () => {
+    const created = await splits.resolveOrderSplit(order(items));
+
+    expect(await splits.deactivateOrderSplit('order_1')).toBe(1);
+    expect(await splits.deactivateOrderSplit('order_1')).toBe(0);
+    expect((await paystack.fetchSplit(created.split_code)).data.active).toBe(false);
+  });
+
+  it('settles a single-seller checkout to the seller\'s subaccount without a split', async () => {
+    const payment = order([items[1]]);
+
+    await splits.initializeOrderTransaction({ email: 'buyer@example.com', reference: 'dm_order_1' }, payment);
+
+    const [initialize] = paystackFake.requests.filter(request => request.path === '/transaction/initialize');
+    expect(initialize.body).toMatchObject({
+      subaccount: codes.store_b,
+      amount: payment.totals.grandTotal.cents,
+      transaction_charge: payment.totals.grandTotal.cents - 8995,
+      bearer: 'subaccount'
+    });
+    expect(splitPosts()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,117 @@
+// DM Shop subaccount lifecycle tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackClient, createPaystackClient } from '../lib/paystack-client';
+import { DMShopSubaccountManager, createSubaccountManager } from '../lib/dm-shop-subaccounts';
+import { StoreRecord, createSupabaseClient } from '../src/supabase-integration';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { FakeSupabase, createFakeSupabase } from './support/fake-supabase';
+
+function store(id: string, overrides: Partial<StoreRecord> = {}): Partial<StoreRecord> {
+  return {
+    id,
+    user_id: `seller_${id}`,
+    name: `Store ${id}`,
+    description: '',
+    status: 'online',
+    bank_code: '632005',
+    account_number: '0123456789',
+    bank_verified: true,
+    seller_tier: 'free',
+    commission_rate: 0.07,
+    total_earnings: 0,
+    available_balance: 0,
+    ...overrides
+  };
+}
+
+describe('DMShopSubaccountManager', () => {
+  let paystackFake: FakePaystackServer;
+  let supabaseFake: FakeSupabase;
+  let paystack: PaystackClient;
+  let subaccounts: DMShopSubaccountManager;
+
+  const storeRow = (id: string) => supabaseFake.rows<StoreRecord>('stores').find(row => row.id === id)!;
+  const subaccountOf = async (id: string) =>
+    (await paystack.fetchSubaccount(storeRow(id).paystack_subaccount_code!)).data;
+
+  beforeEach(() => {
+    paystackFake = createFakePaystackServer();
+    supabaseFake = createFakeSupabase();
+    paystack = createPaystackClient(paystackFake.clientConfig({ retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 } }));
+    subaccounts = createSubaccountManager(paystack, createSupabaseClient(supabaseFake.clientConfig()));
+    supabaseFake.insert<StoreRecord>('stores', store('a'));
+  });
+
+  it('creates the subaccount with the tier commission as percentage_charge', async () => {
+    const subaccount = await subaccounts.createStoreSubaccount('a', 'seller@example.com');
+
+    expect(subaccount).toMatchObject({ business_name: 'Store a', percentage_charge: 7, account_number: '0123456789' });
+    expect(subaccount.metadata).toMatchObject({ store_id: 'a', seller_tier: 'free' });
+    expect(storeRow('a').paystack_subaccount_code).toBe(subaccount.subaccount_code);
+  });
+
+  it('refuses stores without verified bank details or with a subaccount already', async () => {
+    supabaseFake.insert<StoreRecord>('stores', store('b', { bank_verified: false }));
+    await subaccounts.createStoreSubaccount('a');
+
+    await expect(subaccounts.createStoreSubaccount('b')).rejects.toThrow('has no verified bank details');
+    await expect(subaccounts.createStoreSubaccount('a')).rejects.toThrow('already has subaccount');
+  });
+
+  it('moves commission_rate and percentage_charge together when the tier changes', async () => {
+    await subaccounts.createStoreSubaccount('a');
+
+    const updated = await subaccounts.changeSellerTier('a', 'premium');
+
+    expect(updated).toMatchObject({ seller_tier: 'premium', commission_rate: 0.04 });
+    expect(await subaccountOf('a')).toMatchObject({ percentage_charge: 4, metadata: { seller_tier: 'premium' } });
+  });
+
+  it('verifies new bank details and drops the stale transfer recipient', async () => {
+    supabaseFake.rows<StoreRecord>('stores')[0].paystack_recipient_code = 'RCP_old';
+    await subaccounts.createStoreSubaccount('a');
+
+    const updated = await subaccounts.updateStoreBankDetails('a', '470010', '9876543210');
+
+    expect(updated).toMatchObject({
+      bank_code: '470010',
+      account_number: '9876543210',
+      account_name: 'ACCOUNT HOLDER 3210',
+      paystack_recipient_code: null
+    });
+    expect(await subaccountOf('a')).toMatchObject({ settlement_bank: '470010', account_number: '9876543210' });
+  });
+
+  it('saves nothing when the account cannot be resolved', async () => {
+    await expect(subaccounts.updateStoreBankDetails('a', '470010', '12')).rejects.toThrow('Could not resolve account name');
+    expect(storeRow('a').account_number).toBe('0123456789');
+  });
+
+  it('deactivates the subaccount on suspension and reactivates it on reinstatement', async () => {
+    await subaccounts.createStoreSubaccount('a');
+
+    await subaccounts.suspendStore('a');
+    expect(await subaccountOf('a')).toMatchObject({ active: false });
+
+    await subaccounts.reinstateStore('a');
+    expect(storeRow('a').status).toBe('online');
+    expect(await subaccountOf('a')).toMatchObject({ active: true });
+  });
+
+  it('reports drift between the stores and their subaccounts', async () => {
+    supabaseFake.insert<StoreRecord>('stores', store('b'), store('c', { paystack_subaccount_code: 'ACCT_gone' }));
+    await subaccounts.createStoreSubaccount('a');
+    await subaccounts.createStoreSubaccount('b');
+    await paystack.updateSubaccount(storeRow('b').paystack_subaccount_code!, { percentage_charge: 10, active: false });
+
+    const report = await subaccounts.generateDriftReport();
+
+    expect(report.storesChecked).toBe(3);
+    expect(report.errors).toEqual([]);
+    expect(report.entries.map(entry => [entry.storeId, entry.issues.map(issue => issue.field)])).toEqual([
+      ['b', ['percentage_charge', 'active']],
+      ['c', ['subaccount']]
+    ]);
+  });
+});
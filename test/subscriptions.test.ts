@@ -0,0 +1,130 @@
+// DM Shop premium subscription tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackClient, createPaystackClient } from '../lib/paystack-client';
+import { DMShopSubscriptionManager, createSubscriptionManager } from '../lib/dm-shop-subscriptions';
+import { DMShopSupabaseClient, StoreRecord, createSupabaseClient } from '../src/supabase-integration';
+import { PaystackInvoice } from '../types/paystack';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { FakeSupabase, createFakeSupabase } from './support/fake-supabase';
+
+const day = 24 * 60 * 60 * 1000;
+
+describe('DMShopSubscriptionManager', () => {
+  let paystackFake: FakePaystackServer;
+  let supabaseFake: FakeSupabase;
+  let paystack: PaystackClient;
+  let supabase: DMShopSupabaseClient;
+  let subscriptions: DMShopSubscriptionManager;
+
+  const storeRow = () => supabaseFake.rows<StoreRecord>('stores')[0];
+  const invoice = (paid: boolean): PaystackInvoice => ({
+    domain: 'test',
+    invoice_code: 'INV_1',
+    amount: 29900,
+    period_start: new Date().toISOString(),
+    period_end: new Date(Date.now() + 30 * day).toISOString(),
+    status: paid ? 'success' : 'failed',
+    paid,
+    paid_at: paid ? new Date().toISOString() : null,
+    description: null,
+    subscription: {
+      status: 'active',
+      subscription_code: storeRow().premium_subscription_code!,
+      email_token: storeRow().premium_email_token!,
+      amount: 29900,
+      next_payment_date: null
+    },
+    customer: { id: 1, customer_code: 'CUS_1', email: 'seller@example.com' }
+  });
+
+  beforeEach(async () => {
+    paystackFake = createFakePaystackServer();
+    supabaseFake = createFakeSupabase();
+    paystack = createPaystackClient(paystackFake.clientConfig({ retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 } }));
+    supabase = createSupabaseClient(supabaseFake.clientConfig());
+    subscriptions = createSubscriptionManager(paystack, supabase);
+
+    const { data: subaccount } = await paystack.createSubaccount({
+      business_name: 'Store a',
+      settlement_bank: '632005',
+      account_number: '0123456789',
+      percentage_charge: 7
+    });
+    supabaseFake.insert<StoreRecord>('stores', {
+      id: 'a',
+      user_id: 'seller_a',
+      name: 'Store a',
+      status: 'online',
+      seller_tier: 'free',
+      commission_rate: 0.07,
+      paystack_subaccount_code: subaccount.subaccount_code
+    });
+  });
+
+  it('subscribes a store and moves it to the premium commission', async () => {
+    const store = await subscriptions.subscribeStore('a', ' Seller@Example.com ');
+
+    expect(store).toMatchObject({
+      seller_tier: 'premium',
+      commission_rate: 0.04,
+      premium_subscription_status: 'active',
+      premium_pending_email: null
+    });
+    expect(store.premium_subscription_code).toMatch(/^SUB_/);
+    expect((await paystack.fetchSubaccount(store.paystack_subaccount_code!)).data.percentage_charge).toBe(4);
+  });
+
+  it('creates the premium plan once and finds it again after a restart', async () => {
+    const code = await subscriptions.ensurePremiumPlan();
+    const restarted = createSubscriptionManager(paystack, supabase);
+
+    expect(await restarted.ensurePremiumPlan()).toBe(code);
+    expect(paystackFake.requests.filter(request => request.method === 'POST' && request.path === '/plan')).toHaveLength(1);
+  });
+
+  it('clears the pending marker when Paystack refuses the subscription', async () => {
+    await subscriptions.ensurePremiumPlan();
+    paystackFake.failNextRequest(400, 'Customer has no authorization');
+
+    await expect(subscriptions.subscribeStore('a', 'seller@example.com')).rejects.toThrow('Customer has no authorization');
+    expect(storeRow()).toMatchObject({ seller_tier: 'free', premium_pending_email: null });
+  });
+
+  it('matches a subscription.create that beats the subscription code to the store', async () => {
+    const plan = await subscriptions.ensurePremiumPlan();
+    storeRow().premium_pending_email = 'seller@example.com';
+    const { data: subscription } = await paystack.createSubscription({ customer: 'Seller@example.com', plan });
+
+    const store = await subscriptions.handleSubscriptionCreated(subscription);
+
+    expect(store).toMatchObject({ id: 'a', seller_tier: 'premium', premium_subscription_code: subscription.subscription_code });
+    expect(storeRow().premium_pending_email).toBeNull();
+  });
+
+  it('keeps premium through the grace period after cancelling, then downgrades', async () => {
+    await subscriptions.subscribeStore('a', 'seller@example.com');
+
+    const cancelled = await subscriptions.cancelStoreSubscription('a');
+
+    expect(cancelled).toMatchObject({ seller_tier: 'premium', premium_subscription_status: 'cancelled' });
+    expect(await subscriptions.enforceGracePeriods(new Date(Date.now() + 6 * day))).toEqual([]);
+
+    const [downgraded] = await subscriptions.enforceGracePeriods(new Date(Date.now() + 8 * day));
+    expect(downgraded).toMatchObject({ id: 'a', seller_tier: 'free', commission_rate: 0.07, premium_grace_until: null });
+  });
+
+  it('starts a grace period on a failed invoice and clears it once an invoice is paid', async () => {
+    await subscriptions.subscribeStore('a', 'seller@example.com');
+
+    const failed = await subscriptions.handleInvoicePaymentFailed(invoice(false));
+    expect(failed).toMatchObject({ premium_subscription_status: 'attention' });
+    expect(Date.parse(failed!.premium_grace_until!)).toBeGreaterThan(Date.now() + 6 * day);
+
+    expect(await subscriptions.handleInvoiceUpdated(invoice(true))).toMatchObject({
+      seller_tier: 'premium',
+      premium_subscription_status: 'active',
+      premium_grace_until: null
+    });
+  });
+});
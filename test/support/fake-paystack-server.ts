@@ -0,0 +1,1168 @@
+// DM Shop Fake Paystack Server
+// In-process stand-in for the Paystack API so integration tests run offline
+
+import { createHmac } from 'crypto';
+import {
+  PaystackAuthorization,
+  PaystackChargeEvent,
+  PaystackChargeEventData,
+  PaystackDispute,
+  PaystackDisputeEvent,
+  PaystackConfig,
+  PaystackPaginationMeta,
+  PaystackPlan,
+  PaystackRefund,
+  PaystackRefundEvent,
+  PaystackSettlement,
+  PaystackSplitRecord,
+  PaystackSubaccountRecord,
+  PaystackSubscription,
+  PaystackTransactionRecord,
+  PaystackTransfer,
+  PaystackTransferEvent,
+  PaystackTransferRecipient,
+  PaystackTransferStatus
+} from '../../types/paystack';
+import { HttpTransport } from '../../lib/http-transport';
+import { estimatePaystackFees } from '../../utils/payment-calculator';
+import { Money } from '../../utils/money';
+
+export interface FakePaystackServerOptions {
+  secretKey?: string;
+  baseUrl?: string;
+  webhookSecret?: string; // Defaults to the secret key, like Paystack
+  transferOtp?: boolean; // Transfers wait for finalize_transfer instead of going straight to pending
+}
+
+// Anything that can receive a signed webhook, normally DMShopWebhookHandler
+export interface FakeWebhookReceiver<T = unknown> {
+  processPaystackWebhook(payload: string, signature: string, context?: { sourceIp?: string }): Promise<T>;
+}
+
+// Loosely typed so tests can also deliver malformed or unknown events
+export interface FakeWebhookEvent {
+  event: string;
+  data: Record<string, any>;
+}
+
+export interface FakeRecordedRequest {
+  method: string;
+  path: string;
+  body?: any;
+  headers: Record<string, string>;
+}
+
+interface FakeTransaction extends PaystackTransactionRecord {
+  access_code: string;
+  split_code?: string;
+  authorization: PaystackAuthorization | null;
+  refunded: number; // In kobo
+}
+
+interface QueuedFailure {
+  status: number;
+  body: Record<string, any>;
+  headers: Record<string, string>;
+}
+
+class FakeHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const fakeTransferOtp = '123456';
+
+/**
+ * Stateful fake of the Paystack endpoints DM Shop uses
+ * Covers checkout and saved cards, subaccounts, splits, refunds, transfers and subscriptions
+ */
+export class FakePaystackServer {
+  readonly secretKey: string;
+  readonly baseUrl: string;
+  readonly webhookSecret: string;
+  readonly requests: FakeRecordedRequest[] = [];
+
+  private transferOtp: boolean;
+  private nextId = 1000;
+  private transactions = new Map<string, FakeTransaction>();
+  private subaccounts = new Map<string, PaystackSubaccountRecord>();
+  private splits = new Map<string, PaystackSplitRecord>();
+  private refunds = new Map<number, PaystackRefund>();
+  private recipients = new Map<string, PaystackTransferRecipient>();
+  private transfers = new Map<string, PaystackTransfer>();
+  private plans = new Map<string, PaystackPlan>();
+  private disputes = new Map<number, PaystackDispute>();
+  private settlements = new Map<number, { settlement: PaystackSettlement; references: string[] }>();
+  private subscriptions = new Map<string, PaystackSubscription>();
+  private deactivatedAuthorizations = new Set<string>();
+  private failures: QueuedFailure[] = [];
+
+  constructor(options: FakePaystackServerOptions = {}) {
+    this.secretKey = options.secretKey || 'sk_test_dmshop_fake';
+    this.baseUrl = options.baseUrl || 'https://api.paystack.co';
+    this.webhookSecret = options.webhookSecret || this.secretKey;
+    this.transferOtp = options.transferOtp ?? false;
+  }
+
+  /**
+   * Transport to hand to PaystackClient
+   */
+  readonly transport: HttpTransport = async (url, init = {}) => this.handle(url, init);
+
+  /**
+   * PaystackClient config pointed at this server
+   */
+  clientConfig(overrides: Partial<PaystackConfig> = {}): PaystackConfig {
+    return {
+      publicKey: 'pk_test_dmshop_fake',
+      secretKey: this.secretKey,
+      baseUrl: this.baseUrl,
+      webhookSecret: this.webhookSecret,
+      transport: this.transport,
+      ...overrides
+    };
+  }
+
+  /**
+   * Make the next request fail, e.g. a 503 or a 429 with Retry-After, to exercise retries
+   */
+  failNextRequest(status: number, message: string = 'Simulated failure', headers: Record<string, string> = {}): void {
+    this.failures.push({ status, body: { status: false, message }, headers });
+  }
+
+  /**
+   * The customer paid on the checkout page
+   * Returns the charge.success event Paystack would send
+   */
+  completeTransaction(
+    reference: string,
+    options: { channel?: string; reusable?: boolean; last4?: string } = {}
+  ): PaystackChargeEvent {
+    const transaction = this.requireTransaction(reference);
+    const now = new Date().toISOString();
+
+    transaction.status = 'success';
+    transaction.gateway_response = 'Successful';
+    transaction.paid_at = now;
+    transaction.channel = options.channel || 'card';
+    transaction.fees = estimatePaystackFees(Money.fromCents(transaction.amount)).cents;
+    transaction.authorization = {
+      authorization_code: `AUTH_${this.randomCode(10)}`,
+      bin: '408408',
+      last4: options.last4 || '4081',
+      exp_month: '12',
+      exp_year: String(new Date().getFullYear() + 3),
+      channel: transaction.channel,
+      card_type: 'visa ',
+      bank: 'TEST BANK',
+      country_code: 'ZA',
+      brand: 'visa',
+      reusable: options.reusable ?? true,
+      signature: `SIG_${this.randomCode(20)}`
+    };
+
+    return { event: 'charge.success', data: this.toChargeEventData(transaction) };
+  }
+
+  /**
+   * The charge was declined
+   * Returns the charge.failed event Paystack would send
+   */
+  failTransaction(reference: string, gatewayResponse: string = 'Declined'): PaystackChargeEvent {
+    const transaction = this.requireTransaction(reference);
+
+    transaction.status = 'failed';
+    transaction.gateway_response = gatewayResponse;
+    transaction.message = gatewayResponse;
+
+    return { event: 'charge.failed', data: this.toChargeEventData(transaction) };
+  }
+
+  /**
+   * Move a refund to processed, as Paystack does once the bank confirms
+   */
+  processRefund(refundId: number): PaystackRefundEvent {
+    const refund = this.refunds.get(refundId);
+    if (!refund) {
+      throw new Error(`Fake refund not found: ${refundId}`);
+    }
+
+    refund.status = 'processed';
+    refund.refunded_at = new Date().toISOString();
+
+    const transaction = this.findTransactionById(refund.transaction);
+    return {
+      event: 'refund.processed',
+      data: {
+        status: 'processed',
+        transaction_reference: transaction?.reference || String(refund.transaction),
+        refund_reference: `RF_${refund.id}`,
+        amount: refund.amount,
+        currency: 'ZAR',
+        processor: refund.channel || 'card',
+        customer: transaction && {
+          first_name: transaction.customer.first_name,
+          last_name: transaction.customer.last_name,
+          email: transaction.customer.email
+        },
+        domain: refund.domain
+      }
+    };
+  }
+
+  /**
+   * Settle a transfer
+   * Returns the transfer.success, transfer.failed or transfer.reversed event
+   */
+  completeTransfer(reference: string, status: 'success' | 'failed' | 'reversed' = 'success'): PaystackTransferEvent {
+    const transfer = this.transfers.get(reference);
+    if (!transfer) {
+      throw new Error(`Fake transfer not found: ${reference}`);
+    }
+
+    transfer.status = status;
+    transfer.updated_at = new Date().toISOString();
+    if (status !== 'success') {
+      transfer.failures = status === 'failed' ? 'Account details invalid' : null;
+    }
+
+    const recipient = Array.from(this.recipients.values()).find(candidate => candidate.id === transfer.recipient);
+    return {
+      event: `transfer.${status}` as PaystackTransferEvent['event'],
+      data: { ...transfer, recipient: recipient || transfer.recipient }
+    };
+  }
+
+  /**
+   * Sign a raw webhook body the way Paystack does (HMAC-SHA512, hex)
+   */
+  signWebhook(payload: string): string {
+    return createHmac('sha512', this.webhookSecret).update(payload, 'utf8').digest('hex');
+  }
+
+  /**
+   * Deliver a correctly signed webhook to a handler
+   */
+  async deliverWebhook<T>(
+    receiver: FakeWebhookReceiver<T>,
+    event: FakeWebhookEvent,
+    context: { sourceIp?: string } = {}
+  ): Promise<T> {
+    const payload = JSON.stringify(event);
+    return await receiver.processPaystackWebhook(payload, this.signWebhook(payload), context);
+  }
+
+  getTransaction(reference: string): PaystackTransactionRecord | undefined {
+    const transaction = this.transactions.get(reference);
+    return transaction ? this.toTransactionRecord(transaction) : undefined;
+  }
+
+  getTransfer(reference: string): PaystackTransfer | undefined {
+    return this.transfers.get(reference);
+  }
+
+  /**
+   * The customer's bank opened a chargeback on a successful transaction
+   * Returns the charge.dispute.create event Paystack would send
+   */
+  openDispute(reference: string, options: { refundAmount?: number; dueInHours?: number } = {}): PaystackDisputeEvent {
+    const transaction = this.requireTransaction(reference);
+    const now = new Date();
+
+    const dispute: PaystackDispute = {
+      id: this.nextId++,
+      domain: 'test',
+      refund_amount: options.refundAmount ?? transaction.amount,
+      currency: 'ZAR',
+      status: 'awaiting-merchant-feedback',
+      resolution: null,
+      category: 'chargeback',
+      transaction: {
+        id: transaction.id,
+        reference: transaction.reference,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        paid_at: transaction.paid_at,
+        metadata: transaction.metadata
+      },
+      customer: {
+        id: transaction.customer.id,
+        email: transaction.customer.email,
+        customer_code: transaction.customer.customer_code,
+        first_name: transaction.customer.first_name || null,
+        last_name: transaction.customer.last_name || null,
+        phone: transaction.customer.phone || null
+      },
+      dueAt: new Date(now.getTime() + (options.dueInHours ?? 72) * 60 * 60 * 1000).toISOString(),
+      resolvedAt: null,
+      evidence: null,
+      created_at: now.toISOString()
+    };
+    this.disputes.set(dispute.id, dispute);
+
+    return { event: 'charge.dispute.create', data: { ...dispute } };
+  }
+
+  /**
+   * Paystack closed the dispute, e.g. auto-accepted after the evidence deadline
+   * Returns the charge.dispute.resolve event Paystack would send
+   */
+  closeDispute(disputeId: number, resolution: PaystackDispute['resolution']): PaystackDisputeEvent {
+    const dispute = this.requireDispute(disputeId);
+    dispute.status = 'resolved';
+    dispute.resolution = resolution;
+    dispute.resolvedAt = new Date().toISOString();
+
+    return { event: 'charge.dispute.resolve', data: { ...dispute } };
+  }
+
+  /**
+   * Pay successful transactions out to the bank in one settlement
+   * Overrides let a test make the totals disagree with the transactions
+   */
+  settle(references: string[], overrides: Partial<PaystackSettlement> = {}): PaystackSettlement {
+    const transactions = references.map(reference => this.requireTransaction(reference));
+    const processed = transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+    const fees = transactions.reduce((sum, transaction) => sum + (transaction.fees || 0), 0);
+    const now = new Date().toISOString();
+
+    const settlement: PaystackSettlement = {
+      id: this.nextId++,
+      domain: 'test',
+      status: 'success',
+      currency: 'ZAR',
+      total_amount: processed - fees,
+      total_fees: fees,
+      total_processed: processed,
+      deductions: null,
+      settlement_date: now,
+      created_at: now,
+      ...overrides
+    };
+    this.settlements.set(settlement.id, { settlement, references });
+    return settlement;
+  }
+
+  /**
+   * Clear all state between tests
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.transactions.clear();
+    this.subaccounts.clear();
+    this.splits.clear();
+    this.refunds.clear();
+    this.recipients.clear();
+    this.transfers.clear();
+    this.plans.clear();
+    this.disputes.clear();
+    this.settlements.clear();
+    this.subscriptions.clear();
+    this.deactivatedAuthorizations.clear();
+    this.failures = [];
+  }
+
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    if (!url.startsWith(this.baseUrl)) {
+      throw new TypeError(`FakePaystackServer cannot route ${url}`);
+    }
+
+    const method = (init.method || 'GET').toUpperCase();
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(new URL(this.baseUrl).pathname.replace(/\/$/, ''), '');
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+    const body = typeof init.body === 'string' && init.body.length > 0 ? JSON.parse(init.body) : undefined;
+
+    this.requests.push({ method, path, body, headers });
+
+    const failure = this.failures.shift();
+    if (failure) {
+      return jsonResponse(failure.status, failure.body, failure.headers);
+    }
+
+    if (headers['authorization'] !== `Bearer ${this.secretKey}`) {
+      return jsonResponse(401, { status: false, message: 'Invalid key' });
+    }
+
+    let status = 200;
+    let responseBody: any;
+    try {
+      const result = this.route(method, path, parsed.searchParams, body || {});
+      status = result.status;
+      responseBody = result.body;
+    } catch (error) {
+      status = error instanceof FakeHttpError ? error.status : 500;
+      responseBody = { status: false, message: (error as Error).message };
+    }
+
+    return jsonResponse(status, responseBody);
+  }
+
+  private route(
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    body: Record<string, any>
+  ): { status: number; body: any } {
+    const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+    const [resource, id, action, subaction] = segments;
+
+    switch (`${method} ${resource}`) {
+      case 'POST transaction':
+        if (id === 'initialize') return this.initializeTransaction(body);
+        if (id === 'charge_authorization') return this.chargeAuthorization(body);
+        break;
+      case 'GET transaction':
+        if (id === 'verify' && action) return ok('Verification successful', this.toTransactionRecord(this.requireTransaction(action)));
+        if (!id) return this.list('Transactions retrieved', Array.from(this.transactions.values())
+          .filter(t => !query.get('status') || t.status === query.get('status'))
+          .map(t => this.toTransactionRecord(t)), query);
+        break;
+
+      case 'POST customer':
+        if (id === 'deactivate_authorization') return this.deactivateAuthorization(body);
+        break;
+
+      case 'GET bank':
+        if (id === 'resolve') return this.resolveAccount(query);
+        break;
+
+      case 'POST subaccount':
+        if (!id) return this.createSubaccount(body);
+        break;
+      case 'GET subaccount':
+        if (!id) return this.list('Subaccounts retrieved', Array.from(this.subaccounts.values()), query);
+        return ok('Subaccount retrieved', this.requireSubaccount(id));
+      case 'PUT subaccount':
+        if (id) return this.updateSubaccount(id, body);
+        break;
+
+      case 'POST split':
+        if (!id) return this.createSplit(body);
+        if (action === 'subaccount' && subaction === 'add') return this.addSplitSubaccount(id, body);
+        if (action === 'subaccount' && subaction === 'remove') return this.removeSplitSubaccount(id, body);
+        break;
+      case 'GET split':
+        if (!id) return this.list('Split retrieved', Array.from(this.splits.values()).filter(split =>
+          (!query.get('name') || split.name === query.get('name')) &&
+          (!query.get('active') || String(split.active) === query.get('active'))
+        ), query);
+        return ok('Split retrieved', this.requireSplit(id));
+      case 'PUT split':
+        if (id) return this.updateSplit(id, body);
+        break;
+
+      case 'GET settlement':
+        if (!id) return this.list('Settlements retrieved', Array.from(this.settlements.values()).map(entry => entry.settlement), query);
+        if (action === 'transactions') {
+          const entry = this.settlements.get(Number(id));
+          if (!entry) throw new FakeHttpError(404, 'Settlement not found');
+          return this.list('Settlement transactions retrieved', entry.references.map(reference =>
+            this.toTransactionRecord(this.requireTransaction(reference))
+          ), query);
+        }
+        break;
+
+      case 'GET dispute':
+        if (!id) return this.list('Disputes retrieved', Array.from(this.disputes.values()), query);
+        if (action === 'upload_url') {
+          return ok('Upload url generated', { signedUrl: `https://uploads.paystack.test/${id}`, fileName: query.get('upload_filename') });
+        }
+        return ok('Dispute retrieved', this.requireDispute(Number(id)));
+      case 'POST dispute':
+        if (id && action === 'evidence') return this.addDisputeEvidence(Number(id), body);
+        break;
+      case 'PUT dispute':
+        if (id && action === 'resolve') return this.resolveDispute(Number(id), body);
+        break;
+
+      case 'POST plan':
+        if (!id) return this.createPlan(body);
+        break;
+      case 'GET plan':
+        if (!id) return this.list('Plans retrieved', Array.from(this.plans.values()).filter(plan =>
+          (!query.get('amount') || plan.amount === Number(query.get('amount'))) &&
+          (!query.get('interval') || plan.interval === query.get('interval'))
+        ), query);
+        break;
+
+      case 'POST subscription':
+        if (!id) return this.createSubscription(body);
+        if (id === 'disable') return this.disableSubscription(body);
+        break;
+      case 'GET subscription':
+        if (id && action === 'manage' && subaction === 'link') {
+          return ok('Link generated', { link: `https://paystack.com/manage/subscriptions/${this.requireSubscription(id).subscription_code}` });
+        }
+        if (id && !action) return ok('Subscription retrieved', this.requireSubscription(id));
+        break;
+
+      case 'POST refund':
+        if (!id) return this.createRefund(body);
+        break;
+      case 'GET refund':
+        if (!id) return this.listRefunds(query);
+        return ok('Refund retrieved', this.requireRefund(Number(id)));
+
+      case 'POST transferrecipient':
+        if (!id) return this.createRecipient(body);
+        break;
+      case 'POST transfer':
+        if (!id) return this.initiateTransfer(body);
+        if (id === 'bulk') return this.initiateBulkTransfer(body);
+        if (id === 'finalize_transfer') return this.finalizeTransfer(body);
+        break;
+      case 'GET transfer':
+        if (id === 'verify' && action) return ok('Transfer retrieved', this.requireTransfer(action));
+        break;
+    }
+
+    throw new FakeHttpError(404, `Route not found: ${method} ${path}`);
+  }
+
+  private initializeTransaction(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['email', 'amount']);
+    if (!Number.isInteger(body.amount) || body.amount <= 0) {
+      throw new FakeHttpError(400, 'Invalid amount');
+    }
+    if (body.split_code) {
+      this.requireSplit(body.split_code);
+    }
+    if (body.subaccount) {
+      this.requireSubaccount(body.subaccount);
+    }
+
+    const reference = body.reference || this.randomCode(12).toLowerCase();
+    if (this.transactions.has(reference)) {
+      throw new FakeHttpError(400, 'Duplicate Transaction Reference');
+    }
+
+    const accessCode = this.randomCode(15).toLowerCase();
+    const transaction: FakeTransaction = {
+      id: this.nextId++,
+      domain: 'test',
+      status: 'abandoned',
+      reference,
+      amount: body.amount,
+      message: null,
+      gateway_response: 'The transaction was not completed',
+      paid_at: null,
+      created_at: new Date().toISOString(),
+      channel: 'card',
+      currency: 'ZAR',
+      ip_address: null,
+      metadata: body.metadata || null,
+      fees: null,
+      customer: {
+        id: this.nextId++,
+        email: body.email,
+        customer_code: `CUS_${this.randomCode(15).toLowerCase()}`,
+        first_name: null,
+        last_name: null,
+        phone: null
+      },
+      access_code: accessCode,
+      split_code: body.split_code,
+      subaccount: body.subaccount ? this.requireSubaccount(body.subaccount) : null,
+      split: body.split_code ? this.requireSplit(body.split_code) : null,
+      authorization: null,
+      refunded: 0
+    };
+    this.transactions.set(reference, transaction);
+
+    return ok('Authorization URL created', {
+      authorization_url: `https://checkout.paystack.com/${accessCode}`,
+      access_code: accessCode,
+      reference
+    });
+  }
+
+  private chargeAuthorization(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['email', 'amount', 'authorization_code', 'reference']);
+    const source = Array.from(this.transactions.values()).find(transaction =>
+      transaction.authorization?.authorization_code === body.authorization_code
+    );
+    if (!source?.authorization?.reusable || this.deactivatedAuthorizations.has(body.authorization_code)) {
+      throw new FakeHttpError(400, 'Invalid authorization code');
+    }
+    if (source.customer.email !== body.email) {
+      throw new FakeHttpError(400, 'Email does not match Authorization code');
+    }
+
+    this.initializeTransaction(body);
+    const transaction = this.requireTransaction(body.reference);
+    transaction.status = 'success';
+    transaction.gateway_response = 'Approved';
+    transaction.paid_at = new Date().toISOString();
+    transaction.fees = estimatePaystackFees(Money.fromCents(transaction.amount)).cents;
+    transaction.authorization = { ...source.authorization };
+
+    return ok('Charge attempted', this.toTransactionRecord(transaction));
+  }
+
+  private deactivateAuthorization(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['authorization_code']);
+    const known = Array.from(this.transactions.values()).some(transaction =>
+      transaction.authorization?.authorization_code === body.authorization_code
+    );
+    if (!known || this.deactivatedAuthorizations.has(body.authorization_code)) {
+      throw new FakeHttpError(404, 'Authorization code not found');
+    }
+
+    this.deactivatedAuthorizations.add(body.authorization_code);
+    return ok('Authorization has been deactivated', null);
+  }
+
+  private resolveAccount(query: URLSearchParams): { status: number; body: any } {
+    const accountNumber = query.get('account_number') || '';
+    if (!query.get('bank_code') || !/^\d{6,16}$/.test(accountNumber)) {
+      throw new FakeHttpError(422, 'Could not resolve account name. Check parameters or try again.');
+    }
+
+    return ok('Account number resolved', {
+      account_number: accountNumber,
+      account_name: `ACCOUNT HOLDER ${accountNumber.slice(-4)}`,
+      bank_id: Number(query.get('bank_code'))
+    });
+  }
+
+  private createSubaccount(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['business_name', 'settlement_bank', 'account_number', 'percentage_charge']);
+    if (!/^\d{6,16}$/.test(String(body.account_number))) {
+      throw new FakeHttpError(400, 'Account number is invalid');
+    }
+
+    const subaccount: PaystackSubaccountRecord = {
+      id: this.nextId++,
+      subaccount_code: `ACCT_${this.randomCode(15).toLowerCase()}`,
+      business_name: body.business_name,
+      description: body.description || null,
+      primary_contact_email: body.primary_contact_email || null,
+      primary_contact_name: body.primary_contact_name || null,
+      primary_contact_phone: body.primary_contact_phone || null,
+      settlement_bank: body.settlement_bank,
+      account_number: String(body.account_number),
+      account_name: body.business_name.toUpperCase(),
+      percentage_charge: body.percentage_charge,
+      settlement_schedule: 'auto',
+      active: true,
+      is_verified: false,
+      currency: 'ZAR',
+      metadata: body.metadata || null
+    };
+    this.subaccounts.set(subaccount.subaccount_code, subaccount);
+
+    return ok('Subaccount created', subaccount, 201);
+  }
+
+  private updateSubaccount(idOrCode: string, body: Record<string, any>): { status: number; body: any } {
+    const subaccount = this.requireSubaccount(idOrCode);
+    Object.assign(subaccount, pick(body, [
+      'business_name',
+      'settlement_bank',
+      'account_number',
+      'percentage_charge',
+      'description',
+      'primary_contact_email',
+      'primary_contact_name',
+      'primary_contact_phone',
+      'settlement_schedule',
+      'active',
+      'metadata'
+    ]));
+
+    return ok('Subaccount updated', subaccount);
+  }
+
+  private createSplit(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['name', 'type', 'currency', 'subaccounts']);
+    if (!Array.isArray(body.subaccounts) || body.subaccounts.length === 0) {
+      throw new FakeHttpError(400, 'At least one subaccount is required');
+    }
+    if (body.type === 'percentage') {
+      const total = body.subaccounts.reduce((sum: number, entry: { share: number }) => sum + entry.share, 0);
+      if (total > 100) {
+        throw new FakeHttpError(400, 'Total share cannot exceed 100');
+      }
+    }
+
+    const split: PaystackSplitRecord = {
+      id: this.nextId++,
+      name: body.name,
+      type: body.type,
+      currency: 'ZAR',
+      split_code: `SPL_${this.randomCode(10)}`,
+      active: true,
+      bearer_type: body.bearer_type || 'account',
+      bearer_subaccount: body.bearer_subaccount || null,
+      subaccounts: body.subaccounts.map((entry: { subaccount: string; share: number }) => ({
+        subaccount: this.splitSubaccountSummary(entry.subaccount),
+        share: entry.share
+      })),
+      total_subaccounts: body.subaccounts.length
+    };
+    this.splits.set(split.split_code, split);
+
+    return ok('Split created', split);
+  }
+
+  private updateSplit(idOrCode: string, body: Record<string, any>): { status: number; body: any } {
+    const split = this.requireSplit(idOrCode);
+    Object.assign(split, pick(body, ['name', 'active', 'bearer_type', 'bearer_subaccount']));
+    return ok('Split group updated', split);
+  }
+
+  private addSplitSubaccount(idOrCode: string, body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['subaccount', 'share']);
+    const split = this.requireSplit(idOrCode);
+    const existing = split.subaccounts.find(entry => entry.subaccount.subaccount_code === body.subaccount);
+
+    if (existing) {
+      existing.share = body.share;
+    } else {
+      split.subaccounts.push({ subaccount: this.splitSubaccountSummary(body.subaccount), share: body.share });
+    }
+    split.total_subaccounts = split.subaccounts.length;
+
+    return ok('Subaccount added to split', split);
+  }
+
+  private removeSplitSubaccount(idOrCode: string, body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['subaccount']);
+    const split = this.requireSplit(idOrCode);
+    const remaining = split.subaccounts.filter(entry => entry.subaccount.subaccount_code !== body.subaccount);
+
+    if (remaining.length === split.subaccounts.length) {
+      throw new FakeHttpError(400, 'Subaccount is not part of this split');
+    }
+    split.subaccounts = remaining;
+    split.total_subaccounts = remaining.length;
+
+    return ok('Subaccount removed', null);
+  }
+
+  private addDisputeEvidence(disputeId: number, body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['customer_email', 'customer_name', 'customer_phone', 'service_details']);
+    const dispute = this.requireDispute(disputeId);
+    dispute.evidence = { id: this.nextId++, ...body };
+    return ok('Evidence created', { id: dispute.evidence.id }, 201);
+  }
+
+  private resolveDispute(disputeId: number, body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['resolution', 'message', 'refund_amount', 'uploaded_filename']);
+    const dispute = this.requireDispute(disputeId);
+    if (dispute.status === 'resolved') {
+      throw new FakeHttpError(400, 'Dispute has already been resolved');
+    }
+
+    dispute.status = 'resolved';
+    dispute.resolution = body.resolution;
+    dispute.refund_amount = body.refund_amount;
+    dispute.resolvedAt = new Date().toISOString();
+    return ok('Dispute successfully resolved', dispute);
+  }
+
+  private requireDispute(disputeId: number): PaystackDispute {
+    const dispute = this.disputes.get(disputeId);
+    if (!dispute) {
+      throw new FakeHttpError(404, 'Dispute not found');
+    }
+    return dispute;
+  }
+
+  private createPlan(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['name', 'amount', 'interval']);
+    const plan: PaystackPlan = {
+      id: this.nextId++,
+      name: body.name,
+      plan_code: `PLN_${this.randomCode(14).toLowerCase()}`,
+      amount: body.amount,
+      interval: body.interval,
+      currency: 'ZAR',
+      description: body.description || null
+    };
+    this.plans.set(plan.plan_code, plan);
+
+    return ok('Plan created', plan, 201);
+  }
+
+  private createSubscription(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['customer', 'plan']);
+    const plan = this.plans.get(body.plan);
+    if (!plan) {
+      throw new FakeHttpError(404, 'Plan not found');
+    }
+
+    const nextPayment = new Date();
+    nextPayment.setMonth(nextPayment.getMonth() + 1);
+    const subscription: PaystackSubscription = {
+      id: this.nextId++,
+      domain: 'test',
+      subscription_code: `SUB_${this.randomCode(14).toLowerCase()}`,
+      email_token: this.randomCode(14).toLowerCase(),
+      status: 'active',
+      amount: plan.amount,
+      next_payment_date: nextPayment.toISOString(),
+      plan: plan.id,
+      customer: {
+        id: this.nextId++,
+        customer_code: `CUS_${this.randomCode(15).toLowerCase()}`,
+        email: body.customer
+      },
+      created_at: new Date().toISOString()
+    };
+    this.subscriptions.set(subscription.subscription_code, subscription);
+
+    return ok('Subscription successfully created', subscription);
+  }
+
+  private disableSubscription(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['code', 'token']);
+    const subscription = this.subscriptions.get(body.code);
+    if (!subscription || subscription.email_token !== body.token || subscription.status === 'cancelled') {
+      throw new FakeHttpError(400, 'Subscription with code not found or already inactive');
+    }
+
+    subscription.status = 'cancelled';
+    return ok('Subscription disabled successfully', null);
+  }
+
+  private requireSubscription(idOrCode: string): PaystackSubscription {
+    const subscription = this.subscriptions.get(idOrCode)
+      || Array.from(this.subscriptions.values()).find(candidate => String(candidate.id) === idOrCode);
+    if (!subscription) {
+      throw new FakeHttpError(404, 'Subscription not found');
+    }
+    return subscription;
+  }
+
+  private createRefund(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['transaction']);
+    const transaction = typeof body.transaction === 'number'
+      ? this.findTransactionById(body.transaction)
+      : this.transactions.get(String(body.transaction)) || this.findTransactionById(Number(body.transaction));
+
+    if (!transaction) {
+      throw new FakeHttpError(404, 'Transaction not found');
+    }
+    if (transaction.status !== 'success') {
+      throw new FakeHttpError(400, 'Cannot refund a transaction that was not successful');
+    }
+
+    const refundable = transaction.amount - transaction.refunded;
+    const amount = body.amount ?? refundable;
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new FakeHttpError(400, 'Invalid amount');
+    }
+    if (amount > refundable) {
+      throw new FakeHttpError(400, 'Refund amount cannot be more than the unrefunded transaction amount');
+    }
+
+    transaction.refunded += amount;
+    if (transaction.refunded === transaction.amount) {
+      transaction.status = 'reversed';
+    }
+
+    const now = new Date();
+    const refund: PaystackRefund = {
+      id: this.nextId++,
+      domain: 'test',
+      transaction: transaction.id,
+      dispute: null,
+      amount,
+      deducted_amount: amount,
+      currency: 'ZAR',
+      channel: transaction.channel,
+      status: 'pending',
+      refunded_by: 'fake@dmshop.co.za',
+      expected_at: new Date(now.getTime() + 10 * 24 * 60 * 60 * 1000).toISOString(),
+      customer_note: body.customer_note,
+      merchant_note: body.merchant_note,
+      created_at: now.toISOString()
+    };
+    this.refunds.set(refund.id, refund);
+
+    return ok('Refund has been queued for processing', refund);
+  }
+
+  private listRefunds(query: URLSearchParams): { status: number; body: any } {
+    let refunds = Array.from(this.refunds.values());
+    const transactionFilter = query.get('transaction');
+
+    if (transactionFilter) {
+      const transaction = this.transactions.get(transactionFilter) || this.findTransactionById(Number(transactionFilter));
+      refunds = refunds.filter(refund => refund.transaction === transaction?.id);
+    }
+
+    return this.list('Refunds retrieved', refunds, query);
+  }
+
+  private createRecipient(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['type', 'name', 'account_number', 'bank_code']);
+    if (body.type !== 'basa') {
+      throw new FakeHttpError(400, 'Recipient type is not supported for ZAR');
+    }
+
+    // Paystack returns the existing recipient for the same account
+    const existing = Array.from(this.recipients.values()).find(
+      recipient => recipient.details.account_number === body.account_number && recipient.details.bank_code === body.bank_code
+    );
+    if (existing) {
+      return ok('Transfer recipient created successfully', existing);
+    }
+
+    const recipient: PaystackTransferRecipient = {
+      id: this.nextId++,
+      recipient_code: `RCP_${this.randomCode(15).toLowerCase()}`,
+      name: body.name,
+      type: 'basa',
+      active: true,
+      currency: 'ZAR',
+      details: {
+        account_number: body.account_number,
+        account_name: body.name,
+        bank_code: body.bank_code,
+        bank_name: 'Test Bank'
+      },
+      metadata: body.metadata
+    };
+    this.recipients.set(recipient.recipient_code, recipient);
+
+    return ok('Transfer recipient created successfully', recipient, 201);
+  }
+
+  private initiateTransfer(body: Record<string, any>): { status: number; body: any } {
+    return ok('Transfer has been queued', this.createTransfer(body));
+  }
+
+  private initiateBulkTransfer(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['transfers']);
+    const results = (body.transfers as Array<Record<string, any>>).map(transfer => {
+      const created = this.createTransfer({ ...transfer, currency: body.currency || 'ZAR' });
+      return {
+        reference: created.reference,
+        recipient: transfer.recipient,
+        amount: created.amount,
+        transfer_code: created.transfer_code,
+        currency: created.currency,
+        status: created.status
+      };
+    });
+
+    return ok(`${results.length} transfers queued.`, results);
+  }
+
+  private finalizeTransfer(body: Record<string, any>): { status: number; body: any } {
+    requireFields(body, ['transfer_code', 'otp']);
+    const transfer = Array.from(this.transfers.values()).find(candidate => candidate.transfer_code === body.transfer_code);
+
+    if (!transfer) {
+      throw new FakeHttpError(404, 'Transfer not found');
+    }
+    if (transfer.status !== 'otp') {
+      throw new FakeHttpError(400, 'Transfer is not currently awaiting OTP');
+    }
+    if (body.otp !== fakeTransferOtp) {
+      throw new FakeHttpError(400, 'Invalid OTP');
+    }
+
+    transfer.status = 'pending';
+    transfer.updated_at = new Date().toISOString();
+    return ok('Transfer has been queued', transfer);
+  }
+
+  private createTransfer(body: Record<string, any>): PaystackTransfer {
+    requireFields(body, ['amount', 'recipient']);
+    const recipient = this.recipients.get(body.recipient);
+    if (!recipient) {
+      throw new FakeHttpError(400, 'Recipient specified is invalid');
+    }
+    if (!Number.isInteger(body.amount) || body.amount <= 0) {
+      throw new FakeHttpError(400, 'Invalid amount');
+    }
+
+    const reference = body.reference || this.randomCode(16).toLowerCase();
+    if (!/^[a-z0-9_-]+$/.test(reference)) {
+      throw new FakeHttpError(400, 'Reference can only contain lowercase letters, digits, - and _');
+    }
+    if (this.transfers.has(reference)) {
+      throw new FakeHttpError(400, 'Duplicate Transfer Reference');
+    }
+
+    const status: PaystackTransferStatus = this.transferOtp ? 'otp' : 'pending';
+    const transfer: PaystackTransfer = {
+      id: this.nextId++,
+      domain: 'test',
+      transfer_code: `TRF_${this.randomCode(15).toLowerCase()}`,
+      reference,
+      amount: body.amount,
+      currency: 'ZAR',
+      status,
+      reason: body.reason,
+      recipient: recipient.id,
+      created_at: new Date().toISOString()
+    };
+    this.transfers.set(reference, transfer);
+
+    return transfer;
+  }
+
+  private list<T>(message: string, items: T[], query: URLSearchParams): { status: number; body: any } {
+    const perPage = Number(query.get('perPage')) || 50;
+    const page = Number(query.get('page')) || 1;
+    const from = query.get('from') ? Date.parse(query.get('from')!) : undefined;
+    const to = query.get('to') ? Date.parse(query.get('to')!) : undefined;
+
+    const filtered = items.filter(item => {
+      const created = Date.parse((item as any).created_at);
+      if (Number.isNaN(created)) return true;
+      return (from === undefined || created >= from) && (to === undefined || created <= to);
+    });
+
+    const meta: PaystackPaginationMeta = {
+      total: filtered.length,
+      skipped: (page - 1) * perPage,
+      perPage,
+      page,
+      pageCount: Math.max(1, Math.ceil(filtered.length / perPage))
+    };
+
+    return {
+      status: 200,
+      body: { status: true, message, data: filtered.slice(meta.skipped, meta.skipped + perPage), meta }
+    };
+  }
+
+  private requireTransaction(reference: string): FakeTransaction {
+    const transaction = this.transactions.get(reference);
+    if (!transaction) {
+      throw new FakeHttpError(404, 'Transaction reference not found');
+    }
+    return transaction;
+  }
+
+  private findTransactionById(id: number): FakeTransaction | undefined {
+    return Array.from(this.transactions.values()).find(transaction => transaction.id === id);
+  }
+
+  private requireSubaccount(idOrCode: string | number): PaystackSubaccountRecord {
+    const subaccount = this.subaccounts.get(String(idOrCode))
+      || Array.from(this.subaccounts.values()).find(candidate => String(candidate.id) === String(idOrCode));
+    if (!subaccount) {
+      throw new FakeHttpError(404, 'Subaccount not found');
+    }
+    return subaccount;
+  }
+
+  private requireSplit(idOrCode: string | number): PaystackSplitRecord {
+    const split = this.splits.get(String(idOrCode))
+      || Array.from(this.splits.values()).find(candidate => String(candidate.id) === String(idOrCode));
+    if (!split) {
+      throw new FakeHttpError(404, 'Split not found');
+    }
+    return split;
+  }
+
+  private requireRefund(id: number): PaystackRefund {
+    const refund = this.refunds.get(id);
+    if (!refund) {
+      throw new FakeHttpError(404, 'Refund not found');
+    }
+    return refund;
+  }
+
+  private requireTransfer(reference: string): PaystackTransfer {
+    const transfer = this.transfers.get(reference);
+    if (!transfer) {
+      throw new FakeHttpError(404, 'Transfer not found');
+    }
+    return transfer;
+  }
+
+  private splitSubaccountSummary(code: string): PaystackSplitRecord['subaccounts'][number]['subaccount'] {
+    const subaccount = this.requireSubaccount(code);
+    return {
+      id: subaccount.id,
+      subaccount_code: subaccount.subaccount_code,
+      business_name: subaccount.business_name
+    };
+  }
+
+  private toTransactionRecord(transaction: FakeTransaction): PaystackTransactionRecord {
+    const { access_code, split_code, authorization, refunded, ...record } = transaction;
+    return { ...record, customer: { ...record.customer } };
+  }
+
+  private toChargeEventData(transaction: FakeTransaction): PaystackChargeEventData {
+    return {
+      id: transaction.id,
+      domain: transaction.domain,
+      status: transaction.status as PaystackChargeEventData['status'],
+      reference: transaction.reference,
+      amount: transaction.amount,
+      message: transaction.message,
+      gateway_response: transaction.gateway_response,
+      paid_at: transaction.paid_at || '',
+      created_at: transaction.created_at,
+      channel: transaction.channel,
+      currency: 'ZAR',
+      ip_address: transaction.ip_address || '127.0.0.1',
+      metadata: transaction.metadata || {},
+      fees_breakdown: transaction.fees
+        ? [{ type: 'paystack', amount: transaction.fees, percentage: 2.9, currency: 'ZAR' }]
+        : [],
+      customer: {
+        id: transaction.customer.id,
+        first_name: transaction.customer.first_name || '',
+        last_name: transaction.customer.last_name || '',
+        email: transaction.customer.email,
+        phone: transaction.customer.phone || '',
+        metadata: {}
+      },
+      authorization: transaction.authorization as PaystackAuthorization
+    };
+  }
+
+  private randomCode(length: number): string {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    let code = '';
+    for (let i = 0; i < length; i++) {
+      code += alphabet[Math.floor(Math.random() * alphabet.length)];
+    }
+    return code;
+  }
+}
+
+function ok(message: string, data: any, status: number = 200): { status: number; body: any } {
+  return { status, body: { status: true, message, data } };
+}
+
+function requireFields(body: Record<string, any>, fields: string[]): void {
+  const missing = fields.filter(field => body[field] === undefined || body[field] === null || body[field] === '');
+  if (missing.length > 0) {
+    throw new FakeHttpError(400, `${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} required`);
+  }
+}
+
+function pick(body: Record<string, any>, fields: string[]): Record<string, any> {
+  return Object.fromEntries(fields.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+}
+
+function jsonResponse(status: number, body: any, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+// Factory function for the fake Paystack server
+export function createFakePaystackServer(options: FakePaystackServerOptions = {}): FakePaystackServer {
+  return new FakePaystackServer(options);
+}
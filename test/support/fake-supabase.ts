@@ -0,0 +1,414 @@
+// DM Shop Fake Supabase
+// In-memory stand-in for the PostgREST endpoints so manager tests run offline
+
+import { randomUUID } from 'crypto';
+import { SupabaseConfig } from '../../src/supabase-integration';
+import { HttpTransport } from '../../lib/http-transport';
+
+export interface FakeSupabaseOptions {
+  url?: string;
+  anonKey?: string;
+}
+
+export interface FakeSupabaseRequest {
+  method: string;
+  table: string;
+  query: string;
+  body?: any;
+}
+
+// Postgres function stand-in, called with the JSON body of POST /rpc/<name>
+export type FakeRpcHandler = (args: Record<string, any>, fake: FakeSupabase) => any;
+
+type Row = Record<string, any>;
+
+interface QueuedFailure {
+  status: number;
+  message: string;
+}
+
+class FakeHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Query parameters PostgREST reads itself rather than as column filters
+const reservedParams = new Set(['select', 'order', 'limit', 'offset', 'on_conflict']);
+
+/**
+ * Stateful fake of the Supabase REST API
+ * Understands the filters, ordering and upserts DMShopSupabaseClient sends, not all of PostgREST
+ * The Postgres functions the client calls are registered up front, tests can override them with defineRpc
+ */
+export class FakeSupabase {
+  readonly url: string;
+  readonly anonKey: string;
+  readonly requests: FakeSupabaseRequest[] = [];
+
+  private tables = new Map<string, Row[]>();
+  private rpcs = new Map<string, FakeRpcHandler>();
+  private failures: QueuedFailure[] = [];
+
+  constructor(options: FakeSupabaseOptions = {}) {
+    this.url = options.url || 'https://dmshop.supabase.test';
+    this.anonKey = options.anonKey || 'anon_test_dmshop_fake';
+    this.defineRpc('credit_store_sale', creditStoreSale);
+    this.defineRpc('adjust_store_balances', adjustStoreBalances);
+  }
+
+  /**
+   * Transport to hand to DMShopSupabaseClient
+   */
+  readonly transport: HttpTransport = async (url, init = {}) => this.handle(url, init);
+
+  /**
+   * DMShopSupabaseClient config pointed at this fake
+   */
+  clientConfig(overrides: Partial<SupabaseConfig> = {}): SupabaseConfig {
+    return {
+      url: this.url,
+      anonKey: this.anonKey,
+      transport: this.transport,
+      ...overrides
+    };
+  }
+
+  /**
+   * Make the next request fail, e.g. a 503 to simulate an outage
+   */
+  failNextRequest(status: number, message: string = 'Simulated failure'): void {
+    this.failures.push({ status, message });
+  }
+
+  /**
+   * Register a Postgres function, e.g. an atomic balance update
+   */
+  defineRpc(name: string, handler: FakeRpcHandler): void {
+    this.rpcs.set(name, handler);
+  }
+
+  /**
+   * Seed rows directly, filling id and timestamps like the table defaults would
+   */
+  insert<T extends Row>(table: string, ...rows: Partial<T>[]): T[] {
+    return rows.map(row => this.insertRow(table, row) as T);
+  }
+
+  /**
+   * Current rows of a table, oldest first
+   */
+  rows<T extends Row>(table: string): T[] {
+    return this.table(table) as T[];
+  }
+
+  /**
+   * Clear all state between tests, registered functions are kept
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.tables.clear();
+    this.failures = [];
+  }
+
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    if (!url.startsWith(`${this.url}/rest/v1/`)) {
+      throw new TypeError(`FakeSupabase cannot route ${url}`);
+    }
+
+    const method = (init.method || 'GET').toUpperCase();
+    const [path, query = ''] = url.slice(`${this.url}/rest/v1/`.length).split(/\?(.*)/s);
+    const headers = new Headers(init.headers);
+    const body = typeof init.body === 'string' && init.body.length > 0 ? JSON.parse(init.body) : undefined;
+
+    this.requests.push({ method, table: path, query, body });
+
+    const failure = this.failures.shift();
+    if (failure) {
+      return jsonResponse(failure.status, { message: failure.message });
+    }
+
+    if (headers.get('apikey') !== this.anonKey) {
+      return jsonResponse(401, { message: 'Invalid API key' });
+    }
+
+    try {
+      if (path.startsWith('rpc/')) {
+        return jsonResponse(200, this.callRpc(path.slice('rpc/'.length), body || {}));
+      }
+
+      const params = parseQuery(query);
+      const result = this.route(method, path, params, body, headers.get('prefer') || '');
+      return result === undefined ? new Response(null, { status: 204 }) : jsonResponse(200, result);
+    } catch (error) {
+      const status = error instanceof FakeHttpError ? error.status : 500;
+      return jsonResponse(status, { message: (error as Error).message });
+    }
+  }
+
+  private route(
+    method: string,
+    table: string,
+    params: Array<[string, string]>,
+    body: any,
+    prefer: string
+  ): Row[] | undefined {
+    const representation = prefer.includes('return=representation');
+
+    switch (method) {
+      case 'GET':
+        return this.select(table, params);
+      case 'POST': {
+        const onConflict = param(params, 'on_conflict');
+        const rows = (Array.isArray(body) ? body : [body]).map(row =>
+          this.upsert(table, row, onConflict ? onConflict.split(',') : [], prefer)
+        );
+        const written = rows.filter((row): row is Row => row !== null).map(row => ({ ...row }));
+        return representation ? written : undefined;
+      }
+      case 'PATCH': {
+        const matched = this.table(table).filter(row => matches(row, params));
+        matched.forEach(row => Object.assign(row, body));
+        return representation ? matched.map(row => ({ ...row })) : undefined;
+      }
+      case 'DELETE': {
+        const rows = this.table(table);
+        const removed = rows.filter(row => matches(row, params));
+        this.tables.set(table, rows.filter(row => !removed.includes(row)));
+        return representation ? removed : undefined;
+      }
+      default:
+        throw new FakeHttpError(405, `Unsupported method ${method}`);
+    }
+  }
+
+  private select(table: string, params: Array<[string, string]>): Row[] {
+    let rows = this.table(table).filter(row => matches(row, params));
+
+    const order = param(params, 'order');
+    if (order) {
+      const [column, direction] = order.split('.');
+      const sign = direction === 'desc' ? -1 : 1;
+      rows = [...rows].sort((a, b) => sign * compare(a[column], b[column]));
+    }
+
+    const offset = Number(param(params, 'offset') || 0);
+    const limit = param(params, 'limit');
+    rows = rows.slice(offset, limit === undefined ? undefined : offset + Number(limit));
+
+    return rows.map(row => ({ ...row }));
+  }
+
+  private upsert(table: string, row: Row, conflictColumns: string[], prefer: string): Row | null {
+    const key = conflictColumns.length > 0 ? conflictColumns : ['id'];
+    // Like a unique index, a null in any key column never conflicts
+    const existing = key.every(column => row[column] !== undefined && row[column] !== null)
+      ? this.table(table).find(candidate => key.every(column => candidate[column] === row[column]))
+      : undefined;
+
+    if (existing) {
+      if (prefer.includes('resolution=ignore-duplicates')) {
+        return null;
+      }
+      if (prefer.includes('resolution=merge-duplicates')) {
+        return Object.assign(existing, row);
+      }
+      throw new FakeHttpError(409, `duplicate key value violates unique constraint on ${table} (${key.join(', ')})`);
+    }
+
+    return this.insertRow(table, row);
+  }
+
+  private insertRow(table: string, row: Row): Row {
+    const now = new Date().toISOString();
+    const inserted = { id: randomUUID(), created_at: now, updated_at: now, ...row };
+    this.table(table).push(inserted);
+    return inserted;
+  }
+
+  private callRpc(name: string, args: Record<string, any>): any {
+    const handler = this.rpcs.get(name);
+    if (!handler) {
+      throw new FakeHttpError(404, `Could not find the function public.${name}`);
+    }
+    return handler(args, this);
+  }
+
+  private table(name: string): Row[] {
+    if (!this.tables.has(name)) {
+      this.tables.set(name, []);
+    }
+    return this.tables.get(name)!;
+  }
+}
+
+// Same effect as the credit_store_sale SQL function in the README
+function creditStoreSale(args: Record<string, any>, fake: FakeSupabase): boolean {
+  const sale = fake.rows('transactions').find(row => row.id === args.sale_id && row.type === 'sale' && row.status === 'pending');
+  if (!sale) {
+    return false;
+  }
+  const store = fake.rows('stores').find(row => row.id === sale.store_id);
+  if (!store) {
+    throw new Error(`Store not found: ${sale.store_id}`);
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  sale.status = 'completed';
+  store.total_earnings = round(Number(store.total_earnings || 0) + Number(sale.amount));
+  store.available_balance = round(Number(store.available_balance || 0) + Number(sale.amount));
+  return true;
+}
+
+// Same effect as the adjust_store_balances SQL function in the README
+function adjustStoreBalances(args: Record<string, any>, fake: FakeSupabase): Row {
+  const store = fake.rows('stores').find(row => row.id === args.store_id);
+  if (!store) {
+    throw new FakeHttpError(400, `Store not found: ${args.store_id}`);
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  store.available_balance = round(Number(store.available_balance || 0) + Number(args.available_delta));
+  store.frozen_balance = round(Number(store.frozen_balance || 0) + Number(args.frozen_delta));
+  store.total_earnings = round(Number(store.total_earnings || 0) + Number(args.earnings_delta));
+  store.updated_at = new Date().toISOString();
+  return { ...store };
+}
+
+function parseQuery(query: string): Array<[string, string]> {
+  return query
+    .split('&')
+    .filter(Boolean)
+    .map(pair => {
+      const index = pair.indexOf('=');
+      return [decodeURIComponent(pair.slice(0, index)), decodeURIComponent(pair.slice(index + 1))];
+    });
+}
+
+function param(params: Array<[string, string]>, name: string): string | undefined {
+  return params.find(([key]) => key === name)?.[1];
+}
+
+function matches(row: Row, params: Array<[string, string]>): boolean {
+  return params.every(([column, filter]) => {
+    if (reservedParams.has(column)) {
+      return true;
+    }
+    if (column === 'or') {
+      return splitTopLevel(unwrap(filter)).some(condition => matchesCondition(row, condition));
+    }
+    return matchesFilter(row[column], filter);
+  });
+}
+
+// One condition inside or=(...), either column.op.value or and(...)
+function matchesCondition(row: Row, condition: string): boolean {
+  if (condition.startsWith('and(')) {
+    return splitTopLevel(unwrap(condition.slice('and'.length))).every(part => matchesCondition(row, part));
+  }
+  const index = condition.indexOf('.');
+  return matchesFilter(row[condition.slice(0, index)], condition.slice(index + 1));
+}
+
+function matchesFilter(value: any, filter: string): boolean {
+  if (filter.startsWith('not.')) {
+    return !matchesFilter(value, filter.slice('not.'.length));
+  }
+
+  const index = filter.indexOf('.');
+  const operator = filter.slice(0, index);
+  const operand = filter.slice(index + 1);
+
+  switch (operator) {
+    case 'eq':
+      return value !== null && value !== undefined && compare(value, operand) === 0;
+    case 'neq':
+      return value !== null && value !== undefined && compare(value, operand) !== 0;
+    case 'gt':
+      return value !== null && value !== undefined && compare(value, operand) > 0;
+    case 'gte':
+      return value !== null && value !== undefined && compare(value, operand) >= 0;
+    case 'lt':
+      return value !== null && value !== undefined && compare(value, operand) < 0;
+    case 'lte':
+      return value !== null && value !== undefined && compare(value, operand) <= 0;
+    case 'in':
+      return value !== null && value !== undefined && splitTopLevel(unwrap(operand)).some(item => compare(value, unquote(item)) === 0);
+    case 'is':
+      if (operand === 'null') return value === null || value === undefined;
+      if (operand === 'true') return value === true;
+      if (operand === 'false') return value === false;
+      throw new FakeHttpError(400, `Unsupported is filter ${operand}`);
+    default:
+      throw new FakeHttpError(400, `Unsupported filter operator ${operator}`);
+  }
+}
+
+// Numbers compare as numbers, timestamps as instants, anything else as text
+function compare(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+
+  const left = Number(a);
+  const right = Number(b);
+  if (typeof a !== 'boolean' && a !== '' && b !== '' && !Number.isNaN(left) && !Number.isNaN(right)) {
+    return left - right;
+  }
+
+  const leftTime = isTimestamp(a) ? Date.parse(a) : NaN;
+  const rightTime = isTimestamp(b) ? Date.parse(b) : NaN;
+  if (!Number.isNaN(leftTime) && !Number.isNaN(rightTime)) {
+    return leftTime - rightTime;
+  }
+
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function isTimestamp(value: any): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value);
+}
+
+function unwrap(value: string): string {
+  return value.startsWith('(') && value.endsWith(')') ? value.slice(1, -1) : value;
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+// Split on commas that are not inside parentheses
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.length > 0) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+function jsonResponse(status: number, body: any): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Factory function for the fake Supabase
+export function createFakeSupabase(options: FakeSupabaseOptions = {}): FakeSupabase {
+  return new FakeSupabase(options);
+}
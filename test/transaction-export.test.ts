@@ -0,0 +1,89 @@
+// DM Shop transaction listing and export tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackClient, createPaystackClient } from '../lib/paystack-client';
+import { exportTransactions, toTransactionExportRow, transactionsToCSV } from '../utils/transaction-export';
+import { PaystackTransactionRecord } from '../types/paystack';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+
+describe('transaction listing and export', () => {
+  let fake: FakePaystackServer;
+  let paystack: PaystackClient;
+
+  const pay = async (reference: string, amount: number, email: string = 'buyer@example.com') => {
+    await paystack.initializeTransaction({
+      email,
+      amount,
+      reference,
+      currency: 'ZAR',
+      metadata: { seller_id: 'seller_a', store_id: 'store_a', order_id: `order_${reference}`, commission_rate: 0.07, service_fee: 15 }
+    });
+    fake.completeTransaction(reference);
+  };
+
+  beforeEach(() => {
+    fake = createFakePaystackServer();
+    paystack = createPaystackClient(fake.clientConfig({ retryPolicy: { baseDelayMs: 1, maxDelayMs: 1 } }));
+  });
+
+  it('walks every page of transactions', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await pay(`ref_${i}`, i * 1000);
+    }
+    fake.requests.length = 0;
+
+    const references: string[] = [];
+    for await (const transaction of paystack.iterateTransactions({ perPage: 2 })) {
+      references.push(transaction.reference);
+    }
+
+    expect(references.sort()).toEqual(['ref_1', 'ref_2', 'ref_3', 'ref_4', 'ref_5']);
+    expect(fake.requests.map(request => request.path)).toEqual(['/transaction', '/transaction', '/transaction']);
+  });
+
+  it('passes the filters on to Paystack', async () => {
+    await pay('ref_paid', 1000);
+    await paystack.initializeTransaction({ email: 'buyer@example.com', amount: 2000, reference: 'ref_failed', currency: 'ZAR' });
+    fake.failTransaction('ref_failed');
+
+    const failed: PaystackTransactionRecord[] = [];
+    for await (const transaction of paystack.iterateTransactions({ status: 'failed' })) {
+      failed.push(transaction);
+    }
+
+    expect(failed.map(transaction => transaction.reference)).toEqual(['ref_failed']);
+  });
+
+  it('converts kobo to rands and keeps the order and store ids', async () => {
+    await pay('ref_1', 12345);
+
+    const row = toTransactionExportRow(fake.getTransaction('ref_1')!);
+
+    expect(row).toMatchObject({
+      reference: 'ref_1',
+      status: 'success',
+      amount_zar: 123.45,
+      order_id: 'order_ref_1',
+      store_id: 'store_a'
+    });
+    expect(row.net_zar).toBe(Math.round((row.amount_zar - row.fees_zar) * 100) / 100);
+  });
+
+  it('escapes CSV fields that contain commas or quotes', async () => {
+    await pay('ref_1', 1000, 'o"neil,jr@example.com');
+
+    const [header, line] = transactionsToCSV([fake.getTransaction('ref_1')!]).split('\n');
+
+    expect(header.split(',')[0]).toBe('reference');
+    expect(line).toContain('"o""neil,jr@example.com"');
+  });
+
+  it('exports every matching transaction as JSON', async () => {
+    await pay('ref_1', 1000);
+    await pay('ref_2', 2000);
+
+    const rows = JSON.parse(await exportTransactions(paystack, { status: 'success' }, 'json'));
+
+    expect(rows.map((row: { amount_zar: number }) => row.amount_zar).sort()).toEqual([10, 20]);
+  });
+});
@@ -0,0 +1,142 @@
+// DM Shop webhook deduplication tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackWebhookEvent } from '../types/paystack';
+import { createPaystackClient } from '../lib/paystack-client';
+import {
+  InMemoryWebhookEventStore,
+  SupabaseWebhookEventStore,
+  createInMemoryWebhookEventStore,
+  createSupabaseWebhookEventStore,
+  webhookEventKey
+} from '../lib/webhook-event-store';
+import { InMemoryWebhookInbox, createInMemoryWebhookInbox } from '../lib/webhook-inbox';
+import { createInMemoryWebhookJournal } from '../lib/webhook-journal';
+import { HttpTransport } from '../lib/http-transport';
+import { DMShopWebhookHandler, createWebhookHandler } from '../api/webhook-handler';
+import { WebhookEventRecord, createSupabaseClient } from '../src/supabase-integration';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { FakeSupabase, createFakeSupabase } from './support/fake-supabase';
+
+// Accepting an event never reaches Supabase, anything that does is a bug in the test
+const unreachableSupabase: HttpTransport = async url => {
+  throw new Error(`Unexpected Supabase request: ${url}`);
+};
+
+describe('webhook deduplication', () => {
+  let fake: FakePaystackServer;
+  let eventStore: InMemoryWebhookEventStore;
+  let inbox: InMemoryWebhookInbox;
+  let handler: DMShopWebhookHandler;
+
+  beforeEach(async () => {
+    fake = createFakePaystackServer();
+    eventStore = createInMemoryWebhookEventStore();
+    inbox = createInMemoryWebhookInbox();
+
+    const paystack = createPaystackClient(fake.clientConfig());
+    handler = createWebhookHandler(paystack, 'https://dmshop.supabase.co', 'service-key', [], {
+      transport: unreachableSupabase,
+      eventStore,
+      inbox,
+      journal: createInMemoryWebhookJournal()
+    });
+
+    await paystack.initializeTransaction({ reference: 'dm_order_1', amount: 25000, email: 'buyer@example.co.za', currency: 'ZAR' });
+  });
+
+  it('accepts an event once and acknowledges retries as duplicates', async () => {
+    const event = fake.completeTransaction('dm_order_1');
+
+    const first = await fake.deliverWebhook(handler, event);
+    const retry = await fake.deliverWebhook(handler, event);
+
+    expect(first).toMatchObject({ success: true, code: 'accepted' });
+    expect(retry).toMatchObject({ success: true, code: 'duplicate' });
+    expect(inbox.list()).toHaveLength(1);
+    expect(eventStore.has(webhookEventKey(event))).toBe(true);
+  });
+
+  it('rejects a forged delivery without claiming the event', async () => {
+    const event = fake.completeTransaction('dm_order_1');
+    const payload = JSON.stringify(event);
+
+    const result = await handler.processPaystackWebhook(payload, 'not-a-signature');
+
+    expect(result).toMatchObject({ success: false, code: 'invalid_signature' });
+    expect(eventStore.has(webhookEventKey(event))).toBe(false);
+    expect(inbox.list()).toHaveLength(0);
+  });
+
+  it('keys repeated dispute reminders by what changed', () => {
+    const reminder = (dueAt: string) => ({
+      event: 'charge.dispute.remind',
+      data: { id: 77, status: 'awaiting-merchant-feedback', dueAt, transaction: { reference: 'dm_order_1' } }
+    }) as unknown as PaystackWebhookEvent;
+
+    expect(webhookEventKey(reminder('2026-10-20T00:00:00Z'))).toBe(webhookEventKey(reminder('2026-10-20T00:00:00Z')));
+    expect(webhookEventKey(reminder('2026-10-20T00:00:00Z'))).not.toBe(webhookEventKey(reminder('2026-10-21T00:00:00Z')));
+  });
+
+  it('hashes the payload of events without an id or reference', () => {
+    const event = (plan: string) => ({ event: 'subscription.not_renew', data: { plan } }) as unknown as PaystackWebhookEvent;
+
+    expect(webhookEventKey(event('PLN_a'))).toMatch(/^subscription\.not_renew:sha256:[0-9a-f]{64}$/);
+    expect(webhookEventKey(event('PLN_a'))).not.toBe(webhookEventKey(event('PLN_b')));
+  });
+});
+
+describe('InMemoryWebhookEventStore', () => {
+  it('lets a released claim be retried and takes over claims older than staleClaimMs', async () => {
+    const store = createInMemoryWebhookEventStore({ staleClaimMs: 20 });
+
+    expect(await store.claim('charge.success:1:ref')).toBe(true);
+    expect(await store.claim('charge.success:1:ref')).toBe(false);
+    await store.release('charge.success:1:ref');
+    expect(await store.claim('charge.success:1:ref')).toBe(true);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(await store.claim('charge.success:1:ref')).toBe(true);
+
+    await store.complete('charge.success:1:ref');
+    await store.release('charge.success:1:ref');
+    expect(await store.isProcessed('charge.success:1:ref')).toBe(true);
+    expect(await store.claim('charge.success:1:ref')).toBe(false);
+  });
+});
+
+describe('SupabaseWebhookEventStore', () => {
+  let supabaseFake: FakeSupabase;
+  let store: SupabaseWebhookEventStore;
+
+  const record = () => supabaseFake.rows<WebhookEventRecord>('webhook_events')[0];
+
+  beforeEach(() => {
+    supabaseFake = createFakeSupabase();
+    store = createSupabaseWebhookEventStore(createSupabaseClient(supabaseFake.clientConfig()), { staleClaimMs: 60 * 1000 });
+  });
+
+  it('claims an event key once until it is released', async () => {
+    expect(await store.claim('charge.success:1:ref', 'charge.success')).toBe(true);
+    expect(await store.claim('charge.success:1:ref', 'charge.success')).toBe(false);
+
+    await store.release('charge.success:1:ref');
+
+    expect(supabaseFake.rows('webhook_events')).toHaveLength(0);
+    expect(await store.claim('charge.success:1:ref', 'charge.success')).toBe(true);
+  });
+
+  it('takes over a stale claim but never a processed event', async () => {
+    await store.claim('charge.success:1:ref', 'charge.success');
+    record().claimed_at = new Date(Date.now() - 2 * 60 * 1000).toISOString();
+
+    expect(await store.claim('charge.success:1:ref', 'charge.success')).toBe(true);
+    expect(Date.parse(record().claimed_at)).toBeGreaterThan(Date.now() - 1000);
+
+    await store.complete('charge.success:1:ref');
+    record().claimed_at = new Date(Date.now() - 2 * 60 * 1000).toISOString();
+
+    expect(await store.isProcessed('charge.success:1:ref')).toBe(true);
+    expect(await store.claim('charge.success:1:ref', 'charge.success')).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+// DM Shop webhook parser tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackClient, createPaystackClient } from '../lib/paystack-client';
+import { PaystackWebhookPayloadError, isPaystackWebhookEventType, parsePaystackWebhookEvent } from '../lib/paystack-webhook-parser';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+
+describe('parsePaystackWebhookEvent', () => {
+  let fake: FakePaystackServer;
+  let paystack: PaystackClient;
+  let charge: Record<string, any>;
+
+  const withData = (changes: Record<string, unknown>) => ({ ...charge, data: { ...charge.data, ...changes } });
+
+  beforeEach(async () => {
+    fake = createFakePaystackServer();
+    paystack = createPaystackClient(fake.clientConfig());
+    await paystack.initializeTransaction({
+      reference: 'dm_order_1',
+      amount: 25000,
+      email: 'buyer@example.co.za',
+      currency: 'ZAR'
+    });
+    charge = JSON.parse(JSON.stringify(fake.completeTransaction('dm_order_1')));
+  });
+
+  it('narrows the events the fake server sends', async () => {
+    const { data: recipient } = await paystack.createTransferRecipient({
+      type: 'basa',
+      name: 'Store a',
+      account_number: '0123456789',
+      bank_code: '632005',
+      currency: 'ZAR'
+    });
+    await paystack.initiateTransfer({
+      source: 'balance',
+      amount: 10000,
+      recipient: recipient.recipient_code,
+      reference: 'payout_1',
+      currency: 'ZAR'
+    });
+
+    expect(parsePaystackWebhookEvent(charge).event).toBe('charge.success');
+    expect(parsePaystackWebhookEvent(JSON.parse(JSON.stringify(fake.completeTransfer('payout_1')))).event).toBe('transfer.success');
+    expect(parsePaystackWebhookEvent(JSON.parse(JSON.stringify(fake.openDispute('dm_order_1')))).event).toBe('charge.dispute.create');
+  });
+
+  it('names the path of the first field that is missing or mistyped', () => {
+    const failure = (raw: unknown) => {
+      try {
+        parsePaystackWebhookEvent(raw);
+      } catch (error) {
+        return error instanceof PaystackWebhookPayloadError ? error.path : 'not a payload error';
+      }
+      return 'parsed';
+    };
+
+    expect(failure([])).toBe('$');
+    expect(failure({ data: {} })).toBe('event');
+    expect(failure({ event: 'charge.refunded', data: {} })).toBe('event');
+    expect(failure({ event: 'charge.success' })).toBe('data');
+    expect(failure(withData({ amount: '25000' }))).toBe('data.amount');
+    expect(failure(withData({ reference: '' }))).toBe('data.reference');
+    expect(failure(withData({ customer: { email: null } }))).toBe('data.customer.email');
+    expect(failure(withData({ authorization: 'AUTH_x' }))).toBe('data.authorization');
+  });
+
+  it('normalizes the metadata Paystack sends when checkout passed none or a string', () => {
+    const metadata = (value: unknown) => (parsePaystackWebhookEvent(withData({ metadata: value })).data as any).metadata;
+
+    expect(metadata('')).toBeUndefined();
+    expect(metadata(0)).toBeUndefined();
+    expect(metadata('not json')).toBeUndefined();
+    expect(metadata('[1,2]')).toBeUndefined();
+    expect(metadata('{"order_id":"order_1"}')).toEqual({ order_id: 'order_1' });
+    expect(metadata({ order_id: 'order_1' })).toEqual({ order_id: 'order_1' });
+  });
+
+  it('only recognizes the event types it models', () => {
+    expect(isPaystackWebhookEventType('refund.processed')).toBe(true);
+    expect(isPaystackWebhookEventType('paymentrequest.success')).toBe(false);
+    expect(isPaystackWebhookEventType('toString')).toBe(false);
+  });
+});
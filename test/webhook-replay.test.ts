@@ -0,0 +1,118 @@
+// DM Shop webhook journal and replay tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { createPaystackClient } from '../lib/paystack-client';
+import { createInMemoryWebhookEventStore, webhookEventKey } from '../lib/webhook-event-store';
+import { InMemoryWebhookInbox, createInMemoryWebhookInbox } from '../lib/webhook-inbox';
+import { InMemoryWebhookJournal, createInMemoryWebhookJournal } from '../lib/webhook-journal';
+import { WebhookReplayer, createWebhookReplayer } from '../lib/webhook-replay';
+import { createWebhookProcessingWorker } from '../lib/webhook-worker';
+import { createInMemoryAutomationOutbox } from '../lib/automation-outbox';
+import { DMShopWebhookHandler, createWebhookHandler } from '../api/webhook-handler';
+import { OrderRecord, createSupabaseClient } from '../src/supabase-integration';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+import { FakeSupabase, createFakeSupabase } from './support/fake-supabase';
+
+describe('webhook journal and replay', () => {
+  let fake: FakePaystackServer;
+  let supabaseFake: FakeSupabase;
+  let inbox: InMemoryWebhookInbox;
+  let journal: InMemoryWebhookJournal;
+  let handler: DMShopWebhookHandler;
+  let replayer: WebhookReplayer;
+
+  const everything = () => ({ from: new Date(0), to: new Date(Date.now() + 1000) });
+  const worker = () => createWebhookProcessingWorker(handler, inbox, { baseDelayMs: 0, journal });
+  const order = () => supabaseFake.rows<OrderRecord>('orders')[0];
+
+  beforeEach(async () => {
+    fake = createFakePaystackServer();
+    supabaseFake = createFakeSupabase();
+    inbox = createInMemoryWebhookInbox();
+    journal = createInMemoryWebhookJournal();
+
+    const paystack = createPaystackClient(fake.clientConfig());
+    handler = createWebhookHandler(paystack, supabaseFake.url, supabaseFake.anonKey, [], {
+      transport: supabaseFake.transport,
+      eventStore: createInMemoryWebhookEventStore(),
+      automationOutbox: createInMemoryAutomationOutbox(),
+      inbox,
+      journal
+    });
+    replayer = createWebhookReplayer(handler, journal);
+
+    supabaseFake.insert<OrderRecord>('orders', {
+      id: 'order_1',
+      user_id: 'buyer_1',
+      status: 'pending',
+      payment_status: 'pending',
+      payment_reference: 'dm_order_1',
+      total_amount: 250,
+      metadata: {}
+    });
+    await paystack.initializeTransaction({ reference: 'dm_order_1', amount: 25000, email: 'buyer@example.co.za', currency: 'ZAR' });
+  });
+
+  it('journals the accepted delivery with its event key', async () => {
+    const event = fake.failTransaction('dm_order_1');
+    await fake.deliverWebhook(handler, event);
+    await fake.deliverWebhook(handler, event);
+
+    const entries = await journal.list(everything());
+
+    expect(entries.map(entry => [entry.result_code, entry.event_key])).toEqual([
+      ['accepted', webhookEventKey(event)],
+      ['duplicate', null]
+    ]);
+  });
+
+  it('skips queued and processed events and duplicate entries unless forced', async () => {
+    const event = fake.failTransaction('dm_order_1');
+    await fake.deliverWebhook(handler, event);
+    await fake.deliverWebhook(handler, event);
+
+    const queued = await replayer.replayRange(everything().from, everything().to, { mode: 'live' });
+    await worker().runOnce();
+    const processed = await replayer.replayRange(everything().from, everything().to, { mode: 'live' });
+
+    expect(queued.map(outcome => outcome.status)).toEqual(['skipped', 'skipped']);
+    expect(queued[0].message).toContain('queued');
+    expect(processed.map(outcome => outcome.status)).toEqual(['skipped', 'skipped']);
+    expect(processed[0].message).toContain('already processed');
+    expect(processed[1].message).toContain('duplicate');
+
+    const forced = await handler.replayPaystackWebhook(JSON.stringify(event), { dryRun: true, force: true });
+    expect(forced).toMatchObject({ success: true, data: { eventKey: webhookEventKey(event) } });
+  });
+
+  it('re-runs an event the worker failed and resolves its inbox row', async () => {
+    await fake.deliverWebhook(handler, fake.failTransaction('dm_order_1'));
+    supabaseFake.failNextRequest(400, 'column orders.payment_reference does not exist');
+    await worker().runOnce();
+    const [entry] = await journal.list(everything());
+    expect(entry).toMatchObject({ success: false, result_code: 'processing_failed' });
+
+    const dryRun = await replayer.replay(entry.id);
+    expect(dryRun.status).toBe('would_replay');
+    expect(order().payment_status).toBe('pending');
+
+    const replayed = await replayer.replay(entry.id, 'live');
+
+    expect(replayed.status).toBe('replayed');
+    expect(order().payment_status).toBe('failed');
+    expect(inbox.list()[0]).toMatchObject({ status: 'resolved', resolution: 'Replayed from the webhook journal' });
+    expect(await worker().runOnce()).toEqual({ processed: 0, retried: 0, failed: 0 });
+    expect((await replayer.replay(entry.id, 'live')).message).toContain('already resolved');
+  });
+
+  it('resolves the failed inbox row on a forced live replay', async () => {
+    await fake.deliverWebhook(handler, fake.failTransaction('dm_order_1'));
+    supabaseFake.failNextRequest(400, 'column orders.payment_reference does not exist');
+    await worker().runOnce();
+    const [entry] = await journal.list(everything());
+
+    expect(await replayer.replay(entry.id, 'live', true)).toMatchObject({ status: 'replayed' });
+    expect(inbox.list()[0].status).toBe('resolved');
+    expect(await inbox.listFailed()).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+// DM Shop webhook verification tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackClient, createPaystackClient } from '../lib/paystack-client';
+import { InMemoryWebhookInbox, createInMemoryWebhookInbox } from '../lib/webhook-inbox';
+import { createInMemoryWebhookEventStore } from '../lib/webhook-event-store';
+import { createInMemoryWebhookJournal } from '../lib/webhook-journal';
+import { HttpTransport } from '../lib/http-transport';
+import { DMShopWebhookHandler, WebhookHandlerOptions, createWebhookHandler, paystackWebhookIps } from '../api/webhook-handler';
+import { FakePaystackServer, createFakePaystackServer } from './support/fake-paystack-server';
+
+// Verification happens before anything reaches Supabase
+const unreachableSupabase: HttpTransport = async url => {
+  throw new Error(`Unexpected Supabase request: ${url}`);
+};
+
+describe('webhook verification', () => {
+  let fake: FakePaystackServer;
+  let paystack: PaystackClient;
+  let inbox: InMemoryWebhookInbox;
+
+  const handlerWith = (options: WebhookHandlerOptions = {}, client: PaystackClient = paystack): DMShopWebhookHandler => {
+    inbox = createInMemoryWebhookInbox();
+    return createWebhookHandler(client, 'https://dmshop.supabase.co', 'service-key', [], {
+      transport: unreachableSupabase,
+      eventStore: createInMemoryWebhookEventStore(),
+      inbox,
+      journal: createInMemoryWebhookJournal(),
+      ...options
+    });
+  };
+
+  beforeEach(async () => {
+    fake = createFakePaystackServer();
+    paystack = createPaystackClient(fake.clientConfig());
+    await paystack.initializeTransaction({ reference: 'dm_order_1', amount: 25000, email: 'buyer@example.co.za', currency: 'ZAR' });
+  });
+
+  it('tells a valid signature from a tampered payload or a missing header', () => {
+    const payload = JSON.stringify(fake.completeTransaction('dm_order_1'));
+    const signature = fake.signWebhook(payload);
+
+    expect(paystack.verifyWebhookSignature(payload, signature)).toBe('valid');
+    expect(paystack.verifyWebhookSignature(payload.replace('25000', '250000'), signature)).toBe('invalid');
+    expect(paystack.verifyWebhookSignature(payload, signature.slice(0, 64))).toBe('invalid');
+    expect(paystack.verifyWebhookSignature(payload, '')).toBe('invalid');
+  });
+
+  it('accepts the secondary secret during a key rotation', async () => {
+    const rotated = createPaystackClient(fake.clientConfig({
+      webhookSecret: 'whsec_new_dmshop',
+      secondaryWebhookSecret: fake.webhookSecret
+    }));
+    const payload = JSON.stringify(fake.completeTransaction('dm_order_1'));
+
+    expect(rotated.verifyWebhookSignature(payload, fake.signWebhook(payload))).toBe('valid_secondary');
+    expect(await fake.deliverWebhook(handlerWith({}, rotated), JSON.parse(payload))).toMatchObject({ code: 'accepted' });
+  });
+
+  it('reports a missing secret and a missing signature as separate codes', async () => {
+    const payload = JSON.stringify(fake.completeTransaction('dm_order_1'));
+    const unconfigured = createPaystackClient(fake.clientConfig({ webhookSecret: '' }));
+
+    expect(await handlerWith({}, unconfigured).processPaystackWebhook(payload, 'sig'))
+      .toMatchObject({ success: false, code: 'secret_not_configured' });
+    expect(await handlerWith().processPaystackWebhook(payload, ''))
+      .toMatchObject({ success: false, code: 'missing_signature' });
+  });
+
+  it('only accepts allowlisted source IPs, including IPv4 seen on a dual-stack socket', async () => {
+    const handler = handlerWith({ allowedIps: paystackWebhookIps });
+    const event = fake.completeTransaction('dm_order_1');
+
+    expect(await fake.deliverWebhook(handler, event, { sourceIp: '203.0.113.9' }))
+      .toMatchObject({ success: false, code: 'ip_not_allowed' });
+    expect(await fake.deliverWebhook(handler, event))
+      .toMatchObject({ success: false, code: 'source_ip_unavailable' });
+    expect(inbox.list()).toHaveLength(0);
+
+    expect(await fake.deliverWebhook(handler, event, { sourceIp: `::ffff:${paystackWebhookIps[1]}` }))
+      .toMatchObject({ success: true, code: 'accepted' });
+  });
+
+  it('rejects events older than the replay window unless the check is off', async () => {
+    const event = fake.completeTransaction('dm_order_1');
+    const threeDaysAgo = new Date(Date.now() - 73 * 60 * 60 * 1000).toISOString();
+    const old = { ...event, data: { ...event.data, paid_at: threeDaysAgo, created_at: threeDaysAgo } };
+
+    expect(await fake.deliverWebhook(handlerWith(), old)).toMatchObject({ success: false, code: 'stale_event' });
+    expect(await fake.deliverWebhook(handlerWith({ maxEventAgeMs: 0 }), old)).toMatchObject({ success: true, code: 'accepted' });
+    expect(await fake.deliverWebhook(handlerWith({ maxEventAgeMs: 60 * 1000 }), event)).toMatchObject({ code: 'accepted' });
+  });
+});
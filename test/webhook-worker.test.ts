@@ -0,0 +1,184 @@
+// DM Shop webhook inbox and processing worker tests
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { PaystackWebhookEvent } from '../types/paystack';
+import { StoreRecord, SupabaseRequestError, WebhookInboxRecord, createSupabaseClient } from '../src/supabase-integration';
+import { InMemoryWebhookInbox, createInMemoryWebhookInbox, createSupabaseWebhookInbox } from '../lib/webhook-inbox';
+import { InMemoryWebhookJournal, createInMemoryWebhookJournal } from '../lib/webhook-journal';
+import { WebhookEventProcessor, createWebhookProcessingWorker } from '../lib/webhook-worker';
+import { createFakeSupabase } from './support/fake-supabase';
+
+function chargeEvent(reference: string): PaystackWebhookEvent {
+  return { event: 'charge.success', data: { id: 1, reference } } as unknown as PaystackWebhookEvent;
+}
+
+function refundEvent(reference: string): PaystackWebhookEvent {
+  return { event: 'refund.processed', data: { transaction_reference: reference, refund_reference: `RF_${reference}` } } as unknown as PaystackWebhookEvent;
+}
+
+// Runs events through a queue of scripted outcomes, success once the queue is empty
+class ScriptedProcessor implements WebhookEventProcessor {
+  readonly seen: string[] = [];
+  private failures: Error[] = [];
+
+  failNext(...errors: Error[]): void {
+    this.failures.push(...errors);
+  }
+
+  async processEvent(event: PaystackWebhookEvent): Promise<{ success: boolean; message: string }> {
+    this.seen.push(event.event);
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+    return { success: true, message: `${event.event} handled` };
+  }
+}
+
+describe('WebhookProcessingWorker', () => {
+  let inbox: InMemoryWebhookInbox;
+  let journal: InMemoryWebhookJournal;
+  let processor: ScriptedProcessor;
+
+  beforeEach(() => {
+    inbox = createInMemoryWebhookInbox({ maxAttempts: 3 });
+    journal = createInMemoryWebhookJournal();
+    processor = new ScriptedProcessor();
+  });
+
+  function worker() {
+    return createWebhookProcessingWorker(processor, inbox, { baseDelayMs: 0, journal });
+  }
+
+  it('processes one event per ordering key at a time, oldest first', async () => {
+    await inbox.enqueue('charge:a', chargeEvent('ref_a'));
+    await inbox.enqueue('refund:a', refundEvent('ref_a'));
+    await inbox.enqueue('charge:b', chargeEvent('ref_b'));
+
+    expect(await worker().runOnce()).toEqual({ processed: 2, retried: 0, failed: 0 });
+    expect(processor.seen).toEqual(['charge.success', 'charge.success']);
+
+    expect(await worker().runOnce()).toEqual({ processed: 1, retried: 0, failed: 0 });
+    expect(processor.seen[2]).toBe('refund.processed');
+  });
+
+  it('retries transient errors and fails the rest', async () => {
+    await inbox.enqueue('charge:a', chargeEvent('ref_a'));
+    await inbox.enqueue('charge:b', chargeEvent('ref_b'));
+    processor.failNext(new SupabaseRequestError(503, 'Service unavailable'), new Error('Order not found'));
+
+    expect(await worker().runOnce()).toEqual({ processed: 0, retried: 1, failed: 1 });
+
+    const [retried, failed] = inbox.list();
+    expect(retried).toMatchObject({ status: 'pending', attempts: 1, last_error: 'Service unavailable' });
+    expect(failed).toMatchObject({ status: 'failed', attempts: 1, last_error: 'Order not found' });
+  });
+
+  it('marks an event failed once it runs out of attempts', async () => {
+    await inbox.enqueue('charge:a', chargeEvent('ref_a'));
+    processor.failNext(...[1, 2, 3].map(() => new SupabaseRequestError(0, 'Network error')));
+
+    const results = [await worker().runOnce(), await worker().runOnce(), await worker().runOnce()];
+
+    expect(results.map(result => result.failed)).toEqual([0, 0, 1]);
+    expect(inbox.list()[0]).toMatchObject({ status: 'failed', attempts: 3 });
+  });
+
+  it('keeps later events for the same key waiting behind a failed one', async () => {
+    await inbox.enqueue('charge:a', chargeEvent('ref_a'));
+    await inbox.enqueue('refund:a', refundEvent('ref_a'));
+    processor.failNext(new Error('Order not found'));
+
+    await worker().runOnce();
+    expect(await worker().runOnce()).toEqual({ processed: 0, retried: 0, failed: 0 });
+
+    const [failed] = await inbox.listFailed();
+    expect(failed.ordering_key).toBe('payment:ref_a');
+
+    expect(await inbox.replay(failed.id)).toBe(true);
+    expect(await worker().runOnce()).toEqual({ processed: 1, retried: 0, failed: 0 });
+    expect(await worker().runOnce()).toEqual({ processed: 1, retried: 0, failed: 0 });
+    expect(processor.seen).toEqual(['charge.success', 'charge.success', 'refund.processed']);
+  });
+
+  it('unblocks the key when a failed event is resolved without running it', async () => {
+    await inbox.enqueue('charge:a', chargeEvent('ref_a'));
+    await inbox.enqueue('refund:a', refundEvent('ref_a'));
+    processor.failNext(new Error('Order not found'));
+    await worker().runOnce();
+
+    const [failed] = await inbox.listFailed();
+    expect(await inbox.resolve(failed.id, 'Settled by hand')).toBe(true);
+    expect(await inbox.resolve(failed.id, 'Settled by hand')).toBe(false);
+
+    expect(await worker().runOnce()).toEqual({ processed: 1, retried: 0, failed: 0 });
+    expect(inbox.list()[0]).toMatchObject({ status: 'resolved', resolution: 'Settled by hand' });
+  });
+
+  it('writes the final result back to the journal entry', async () => {
+    const received = {
+      received_at: new Date().toISOString(),
+      headers: {},
+      signature_check: 'valid' as const,
+      success: true,
+      result_code: 'accepted',
+      result_message: 'Event accepted',
+      duration_ms: 3
+    };
+    await journal.record({ ...received, raw_body: JSON.stringify(chargeEvent('ref_a')), event_key: 'charge:a' });
+    await journal.record({ ...received, raw_body: JSON.stringify(chargeEvent('ref_b')), event_key: 'charge:b' });
+    await inbox.enqueue('charge:a', chargeEvent('ref_a'));
+    await inbox.enqueue('charge:b', chargeEvent('ref_b'));
+    processor.failNext(new Error('Order not found'));
+
+    await worker().runOnce();
+
+    const entries = await journal.list({ from: new Date(0), to: new Date(Date.now() + 1000) });
+    expect(entries.map(entry => [entry.event_key, entry.success, entry.result_code, entry.result_message])).toEqual([
+      ['charge:a', false, 'processing_failed', 'Order not found'],
+      ['charge:b', true, 'processed', 'charge.success handled']
+    ]);
+  });
+});
+
+describe('SupabaseWebhookInbox', () => {
+  it('claims new events when more events have failed than it scans', async () => {
+    const supabaseFake = createFakeSupabase();
+    const inbox = createSupabaseWebhookInbox(createSupabaseClient(supabaseFake.clientConfig()), { scanLimit: 2 });
+    const processor = new ScriptedProcessor();
+    for (const reference of ['ref_a', 'ref_b', 'ref_c']) {
+      await inbox.enqueue(`charge:${reference}`, chargeEvent(reference));
+    }
+    processor.failNext(...[1, 2, 3].map(() => new Error('Order not found')));
+    const worker = createWebhookProcessingWorker(processor, inbox, { baseDelayMs: 0 });
+    await worker.runOnce();
+    await worker.runOnce();
+
+    await inbox.enqueue('refund:ref_a', refundEvent('ref_a'));
+    await inbox.enqueue('charge:ref_d', chargeEvent('ref_d'));
+
+    expect((await inbox.listFailed()).length).toBeGreaterThan(2);
+    expect((await inbox.claimReady(10)).map(record => record.ordering_key)).toEqual(['payment:ref_d']);
+    expect(supabaseFake.rows<WebhookInboxRecord>('webhook_inbox').map(row => row.status)).toEqual([
+      'failed', 'failed', 'failed', 'pending', 'processing'
+    ]);
+  });
+});
+
+describe('store balance updates', () => {
+  it('keeps every change when workers update the same store at once', async () => {
+    const supabaseFake = createFakeSupabase();
+    const supabase = createSupabaseClient(supabaseFake.clientConfig());
+    supabaseFake.insert<StoreRecord>('stores', { id: 'store_1', total_earnings: 100, available_balance: 100, frozen_balance: 0 });
+
+    await Promise.all([
+      supabase.updateStoreEarnings('store_1', 50.25),
+      supabase.updateStoreBalance('store_1', 30, 'subtract'),
+      supabase.updateStoreFrozenBalance('store_1', 20, 'freeze')
+    ]);
+
+    const [store] = supabaseFake.rows<StoreRecord>('stores');
+    expect([store.available_balance, store.frozen_balance, store.total_earnings]).toEqual([100.25, 20, 150.25]);
+    await expect(supabase.updateStoreBalance('store_missing', 10, 'add')).rejects.toThrow('Store not found: store_missing');
+  });
+});
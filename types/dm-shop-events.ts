@@ -0,0 +1,220 @@
+// DM Shop Event Catalog Types
+// Every event we send to automation channels (webhook endpoints, n8n, Zapier, Buildship) and its payload
+
+import { PaystackChargeEventData, PaystackTransfer } from './paystack';
+
+// Payments (amounts in kobo, as charged by Paystack)
+export interface PaymentPendingPayload {
+  reference: string;
+  amount: number;
+  order_id?: string;
+  customer_email?: string;
+}
+
+export interface PaymentSuccessPayload {
+  reference: string;
+  amount: number;
+  customer: PaystackChargeEventData['customer'];
+  metadata?: Record<string, any>; // Paystack sends none when checkout passed none
+  order_id?: string;
+  seller_id?: string;
+  store_id?: string;
+}
+
+export interface PaymentFailedPayload {
+  reference: string;
+  customer: PaystackChargeEventData['customer'];
+  metadata?: Record<string, any>;
+  failure_reason: string;
+}
+
+export interface PaymentReviewRequiredPayload {
+  reference: string;
+  amount: number;
+  order_id?: string;
+  review_id: string;
+  reason: 'order_not_found' | 'verification_failed' | 'amount_mismatch' | 'currency_mismatch';
+}
+
+// Orders (amounts in ZAR)
+export interface OrderCreatedPayload {
+  order_id: string;
+  customer_id: string;
+  total_amount: number;
+  reference?: string;
+}
+
+export interface OrderPaidPayload {
+  order_id: string;
+  customer_id: string;
+  total_amount: number;
+  reference: string;
+}
+
+export interface OrderShippedPayload {
+  order_id: string;
+  customer_id: string;
+  store_id?: string;
+  courier?: string;
+  tracking_number?: string;
+}
+
+export interface OrderDeliveredPayload {
+  order_id: string;
+  customer_id: string;
+  store_id?: string;
+}
+
+export interface OrderCancelledPayload {
+  order_id: string;
+  customer_id: string;
+  reason?: string;
+}
+
+// Payouts (transfer fields as sent by Paystack, amount in kobo)
+export interface PayoutSuccessPayload extends PaystackTransfer {
+  payout_id?: string;
+  store_id?: string;
+  seller_id?: string;
+}
+
+export interface PayoutFailedPayload extends PayoutSuccessPayload {
+  payout_status: 'failed' | 'reversed';
+}
+
+// Sellers (amounts in ZAR)
+export interface SellerSalePayload {
+  reference: string;
+  order_id: string;
+  store_id: string;
+  seller_id: string;
+  amount: number; // Credited to the store after commission
+  commission: number;
+}
+
+export interface SellerPremiumActivatedPayload {
+  store_id: string;
+  seller_id: string;
+  subscription_code: string;
+}
+
+export interface SellerPremiumCancelledPayload {
+  store_id: string;
+  seller_id: string;
+  subscription_code: string;
+  premium_until?: string | null;
+}
+
+export interface SellerPremiumPaymentFailedPayload {
+  store_id: string;
+  seller_id: string;
+  invoice_code: string;
+  amount: number; // kobo
+  premium_until?: string | null;
+}
+
+interface DisputeEventFields {
+  dispute_id: number;
+  order_id: string | null;
+  payment_reference: string;
+  status: 'open' | 'evidence_submitted' | 'won' | 'lost';
+  due_at: string | null;
+}
+
+export interface SellerDisputePayload extends DisputeEventFields {
+  store_id: string;
+  seller_id: string;
+  amount: number; // Frozen share of the disputed amount
+}
+
+// Customers
+export interface CustomerDisputePayload extends DisputeEventFields {
+  email?: string;
+  amount: number;
+}
+
+export interface CustomerWelcomePayload {
+  customer_id: string;
+  email: string;
+  name?: string;
+}
+
+export interface CustomerOrderConfirmationPayload {
+  order_id: string;
+  customer_id: string;
+  email: string;
+  total_amount: number;
+}
+
+export interface CustomerShippingUpdatePayload {
+  order_id: string;
+  customer_id: string;
+  email: string;
+  status: 'processing' | 'shipped' | 'delivered';
+  tracking_number?: string;
+}
+
+export interface CustomerSupportPayload {
+  customer_id: string;
+  email: string;
+  subject: string;
+  message?: string;
+}
+
+export interface SystemTestPayload {
+  test: true;
+}
+
+/**
+ * Payload type for each event name
+ * Adding an event here requires a matching entry in dmShopEventCatalog (lib/dm-shop-events.ts)
+ */
+export interface DMShopEventPayloads {
+  'payment.pending': PaymentPendingPayload;
+  'payment.success': PaymentSuccessPayload;
+  'payment.failed': PaymentFailedPayload;
+  'payment.review_required': PaymentReviewRequiredPayload;
+  'order.created': OrderCreatedPayload;
+  'order.paid': OrderPaidPayload;
+  'order.shipped': OrderShippedPayload;
+  'order.delivered': OrderDeliveredPayload;
+  'order.cancelled': OrderCancelledPayload;
+  'payout.success': PayoutSuccessPayload;
+  'payout.failed': PayoutFailedPayload;
+  'seller.sale': SellerSalePayload;
+  'seller.premium_activated': SellerPremiumActivatedPayload;
+  'seller.premium_cancelled': SellerPremiumCancelledPayload;
+  'seller.premium_payment_failed': SellerPremiumPaymentFailedPayload;
+  'seller.dispute_opened': SellerDisputePayload;
+  'seller.dispute_reminder': SellerDisputePayload;
+  'seller.dispute_resolved': SellerDisputePayload;
+  'customer.welcome': CustomerWelcomePayload;
+  'customer.order_confirmation': CustomerOrderConfirmationPayload;
+  'customer.shipping_update': CustomerShippingUpdatePayload;
+  'customer.support': CustomerSupportPayload;
+  'customer.dispute_opened': CustomerDisputePayload;
+  'customer.dispute_reminder': CustomerDisputePayload;
+  'customer.dispute_resolved': CustomerDisputePayload;
+  'system.test': SystemTestPayload;
+}
+
+export type DMShopEventType = keyof DMShopEventPayloads;
+
+export type DMShopEventCategory = 'payment' | 'order' | 'payout' | 'seller' | 'customer' | 'system';
+
+// Event names in one category, e.g. DMShopEventTypeIn<'order'> = 'order.created' | 'order.paid' | ...
+export type DMShopEventTypeIn<C extends DMShopEventCategory> = Extract<DMShopEventType, `${C}.${string}`>;
+
+/**
+ * Envelope posted to every automation channel
+ * event_version changes whenever the payload for that event changes incompatibly
+ */
+export interface DMShopEventEnvelope<T extends DMShopEventType = DMShopEventType> {
+  event: T;
+  event_version: number;
+  timestamp: string;
+  data: DMShopEventPayloads[T];
+}
+
+// Union of every envelope, narrows on event: if (e.event === 'seller.sale') e.data.store_id
+export type DMShopEvent = { [T in DMShopEventType]: DMShopEventEnvelope<T> }[DMShopEventType];
@@ -1,11 +1,32 @@
 // DM Shop Paystack Integration Types
 // Foundation for Manus enhancement phase
 
+import { HttpTransport } from '../lib/http-transport';
+import { Money } from '../utils/money';
+
 export interface PaystackConfig {
   publicKey: string;
   secretKey: string;
   baseUrl: string;
   webhookSecret: string;
+  secondaryWebhookSecret?: string; // Also accepted while a key rotation is in progress
+  retryPolicy?: Partial<PaystackRetryPolicy>;
+  timeoutMs?: number; // Per-request timeout, defaults to 30s
+  transport?: HttpTransport; // Defaults to the global fetch
+}
+
+export interface PaystackRetryPolicy {
+  maxAttempts: number; // Total attempts including the first request
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOnRateLimit: boolean;
+}
+
+// Outcome of checking a webhook signature against the configured secrets
+export type PaystackWebhookSignatureCheck = 'valid' | 'valid_secondary' | 'invalid' | 'secret_not_configured';
+
+export interface PaystackRequestOptions {
+  timeoutMs?: number;
 }
 
 export interface PaystackCustomer {
@@ -28,6 +49,8 @@ export interface PaystackTransaction {
     order_id: string;
     commission_rate: number;
     service_fee: number;
+    user_id?: string; // DM Shop customer, needed to save the card
+    save_card?: boolean; // Customer opted in to one-click repeat checkout
     custom_fields?: Array<{
       display_name: string;
       variable_name: string;
@@ -35,6 +58,78 @@ export interface PaystackTransaction {
     }>;
   };
   split_code?: string; // For multi-vendor payment splitting
+  subaccount?: string; // Single-seller orders settle straight to the seller's subaccount
+  transaction_charge?: number; // Flat platform cut in kobo, overrides the subaccount percentage_charge
+  bearer?: 'account' | 'subaccount';
+}
+
+export interface PaystackChargeAuthorizationRequest {
+  email: string; // Must match the email the authorization was created with
+  amount: number; // Amount in kobo (ZAR cents)
+  authorization_code: string;
+  reference: string; // Looked up after a timeout or 5xx, so a retry never charges twice
+  currency: 'ZAR';
+  metadata?: PaystackTransaction['metadata'];
+  split_code?: string;
+  subaccount?: string;
+  transaction_charge?: number;
+  bearer?: 'account' | 'subaccount';
+}
+
+export interface PaystackTransactionListParams extends PaystackListParams {
+  status?: 'success' | 'failed' | 'abandoned';
+  customer?: number; // Paystack customer id
+  amount?: number; // Exact amount in kobo
+}
+
+// Transaction as returned by the list and verify endpoints
+export interface PaystackTransactionRecord {
+  id: number;
+  domain: string;
+  status: 'success' | 'failed' | 'abandoned' | 'ongoing' | 'pending' | 'reversed';
+  reference: string;
+  amount: number; // Amount in kobo (ZAR cents)
+  message: string | null;
+  gateway_response: string;
+  paid_at: string | null;
+  created_at: string;
+  channel: string;
+  currency: 'ZAR';
+  ip_address: string | null;
+  metadata: Record<string, any> | null;
+  fees: number | null; // In kobo
+  customer: {
+    id: number;
+    email: string;
+    customer_code: string;
+    first_name: string | null;
+    last_name: string | null;
+    phone: string | null;
+  };
+  subaccount?: Record<string, any> | null;
+  split?: Record<string, any> | null;
+}
+
+export interface PaystackSettlementListParams extends PaystackListParams {
+  status?: 'success' | 'processing' | 'pending' | 'failed';
+  subaccount?: string; // Subaccount id, or 'none' for the main account only
+}
+
+export interface PaystackSettlement {
+  id: number;
+  domain: string;
+  status: 'success' | 'processing' | 'pending' | 'failed';
+  currency: 'ZAR';
+  total_amount: number; // Settled to the bank, in kobo
+  effective_amount?: number;
+  total_fees: number;
+  total_processed: number; // Gross transaction volume, in kobo
+  deductions?: number | null;
+  settlement_date: string;
+  settled_by?: string | null;
+  subaccount?: Record<string, any> | null;
+  created_at: string;
+  updated_at?: string;
 }
 
 export interface PaystackSplit {
@@ -49,6 +144,34 @@ export interface PaystackSplit {
   bearer_subaccount?: string;
 }
 
+export interface PaystackSplitRecord {
+  id: number;
+  name: string;
+  type: 'percentage' | 'flat';
+  currency: 'ZAR';
+  split_code: string;
+  active: boolean;
+  bearer_type: PaystackSplit['bearer_type'];
+  bearer_subaccount?: string | number | null;
+  subaccounts: Array<{
+    subaccount: Pick<PaystackSubaccountRecord, 'id' | 'subaccount_code' | 'business_name'>;
+    share: number;
+  }>;
+  total_subaccounts: number;
+}
+
+export interface PaystackSplitUpdate {
+  name?: string;
+  active?: boolean;
+  bearer_type?: PaystackSplit['bearer_type'];
+  bearer_subaccount?: string;
+}
+
+export interface PaystackSplitListParams extends PaystackListParams {
+  name?: string;
+  active?: boolean;
+}
+
 export interface PaystackSubaccount {
   business_name: string;
   settlement_bank: string;
@@ -65,63 +188,385 @@ export interface PaystackSubaccount {
   };
 }
 
-export interface PaystackWebhookEvent {
-  event: string;
-  data: {
+export interface PaystackSubaccountRecord {
+  id: number;
+  subaccount_code: string;
+  business_name: string;
+  description?: string | null;
+  primary_contact_email?: string | null;
+  primary_contact_name?: string | null;
+  primary_contact_phone?: string | null;
+  settlement_bank: string;
+  account_number: string;
+  account_name?: string | null;
+  percentage_charge: number;
+  settlement_schedule?: 'auto' | 'weekly' | 'monthly' | 'manual';
+  active: boolean;
+  is_verified?: boolean;
+  currency: 'ZAR';
+  metadata?: Record<string, any> | null;
+}
+
+export interface PaystackSubaccountUpdate extends Partial<PaystackSubaccount> {
+  active?: boolean;
+  settlement_schedule?: 'auto' | 'weekly' | 'monthly' | 'manual';
+}
+
+export interface PaystackListParams {
+  perPage?: number;
+  page?: number;
+  from?: string; // ISO date
+  to?: string; // ISO date
+}
+
+export type PaystackPlanInterval = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'biannually' | 'annually';
+
+export interface PaystackPlanRequest {
+  name: string;
+  amount: number; // Amount in kobo (ZAR cents)
+  interval: PaystackPlanInterval;
+  currency: 'ZAR';
+  description?: string;
+}
+
+export interface PaystackPlan {
+  id: number;
+  name: string;
+  plan_code: string;
+  amount: number;
+  interval: PaystackPlanInterval;
+  currency: 'ZAR';
+  description?: string | null;
+}
+
+export interface PaystackSubscriptionRequest {
+  customer: string; // Customer email or code
+  plan: string; // Plan code
+  authorization?: string; // Defaults to the customer's most recent authorization
+  start_date?: string; // ISO date
+}
+
+export type PaystackSubscriptionStatus = 'active' | 'non-renewing' | 'attention' | 'completed' | 'cancelled';
+
+export interface PaystackSubscription {
+  id?: number;
+  domain?: string;
+  subscription_code: string;
+  email_token: string;
+  status: PaystackSubscriptionStatus;
+  amount: number;
+  next_payment_date: string | null;
+  plan?: PaystackPlan | number;
+  customer?: {
     id: number;
-    domain: string;
-    status: 'success' | 'failed' | 'abandoned';
-    reference: string;
+    customer_code: string;
+    email: string;
+  } | number;
+  created_at?: string;
+}
+
+export interface PaystackInvoice {
+  domain: string;
+  invoice_code: string;
+  amount: number;
+  period_start: string;
+  period_end: string;
+  status: 'pending' | 'success' | 'failed';
+  paid: boolean;
+  paid_at: string | null;
+  description: string | null;
+  subscription: Pick<PaystackSubscription, 'status' | 'subscription_code' | 'email_token' | 'amount' | 'next_payment_date'>;
+  customer: {
+    id: number;
+    customer_code: string;
+    email: string;
+  };
+}
+
+export type PaystackDisputeStatus =
+  | 'awaiting-merchant-feedback'
+  | 'awaiting-bank-feedback'
+  | 'pending'
+  | 'resolved'
+  | 'archived';
+
+export interface PaystackDispute {
+  id: number;
+  domain: string;
+  refund_amount: number | null; // In kobo
+  currency: 'ZAR';
+  status: PaystackDisputeStatus;
+  resolution: 'merchant-accepted' | 'auto-accepted' | 'declined' | null; // auto-accepted when the evidence deadline passes
+  category: 'chargeback' | 'fraud' | string;
+  transaction: Pick<PaystackTransactionRecord, 'id' | 'reference' | 'amount' | 'currency' | 'paid_at' | 'metadata'>;
+  customer: {
+    id: number;
+    email: string;
+    customer_code: string;
+    first_name: string | null;
+    last_name: string | null;
+    phone: string | null;
+  };
+  dueAt: string | null; // Evidence deadline
+  resolvedAt: string | null;
+  evidence: Record<string, any> | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface PaystackDisputeListParams extends PaystackListParams {
+  status?: PaystackDisputeStatus;
+  transaction?: number;
+}
+
+export interface PaystackDisputeEvidence {
+  customer_email: string;
+  customer_name: string;
+  customer_phone: string;
+  service_details: string;
+  delivery_address?: string;
+  delivery_date?: string; // ISO date
+}
+
+export interface PaystackDisputeResolution {
+  resolution: 'merchant-accepted' | 'declined';
+  message: string;
+  refund_amount: number; // In kobo
+  uploaded_filename: string;
+  evidence?: number; // Evidence id returned by the evidence endpoint
+}
+
+export interface PaystackAuthorization {
+  authorization_code: string;
+  bin: string;
+  last4: string;
+  exp_month: string;
+  exp_year: string;
+  channel: string;
+  card_type: string;
+  bank: string;
+  country_code: string;
+  brand: string;
+  reusable: boolean;
+  signature: string;
+}
+
+// charge.success / charge.failed payload
+export interface PaystackChargeEventData {
+  id: number;
+  domain: string;
+  status: 'success' | 'failed' | 'abandoned';
+  reference: string;
+  amount: number;
+  message: string | null;
+  gateway_response: string;
+  paid_at: string;
+  created_at: string;
+  channel: string;
+  currency: 'ZAR';
+  ip_address: string;
+  metadata: Record<string, any>;
+  fees_breakdown: Array<{
+    type: string;
     amount: number;
-    message: string | null;
-    gateway_response: string;
-    paid_at: string;
-    created_at: string;
-    channel: string;
+    percentage: number;
     currency: 'ZAR';
-    ip_address: string;
+  }>;
+  customer: {
+    id: number;
+    first_name: string;
+    last_name: string;
+    email: string;
+    phone: string;
     metadata: Record<string, any>;
-    fees_breakdown: Array<{
-      type: string;
-      amount: number;
-      percentage: number;
-      currency: 'ZAR';
-    }>;
-    customer: {
-      id: number;
-      first_name: string;
-      last_name: string;
-      email: string;
-      phone: string;
-      metadata: Record<string, any>;
-    };
-    authorization: {
-      authorization_code: string;
-      bin: string;
-      last4: string;
-      exp_month: string;
-      exp_year: string;
-      channel: string;
-      card_type: string;
-      bank: string;
-      country_code: string;
-      brand: string;
-      reusable: boolean;
-      signature: string;
-    };
   };
+  authorization: PaystackAuthorization;
+}
+
+// refund.* payload, shaped differently from the refund API resource
+export interface PaystackRefundEventData {
+  status: 'pending' | 'processing' | 'processed' | 'failed';
+  transaction_reference: string;
+  refund_reference: string | null;
+  amount: number; // In kobo
+  currency: 'ZAR';
+  processor?: string;
+  customer?: {
+    first_name: string | null;
+    last_name: string | null;
+    email: string;
+  };
+  integration?: number;
+  domain?: string;
+}
+
+export interface PaystackChargeEvent {
+  event: 'charge.success' | 'charge.failed';
+  data: PaystackChargeEventData;
+}
+
+export interface PaystackTransferEvent {
+  event: 'transfer.success' | 'transfer.failed' | 'transfer.reversed';
+  data: PaystackTransfer;
+}
+
+export interface PaystackRefundEvent {
+  event: 'refund.pending' | 'refund.processing' | 'refund.processed' | 'refund.failed';
+  data: PaystackRefundEventData;
+}
+
+export interface PaystackSubscriptionEvent {
+  event: 'subscription.create' | 'subscription.disable' | 'subscription.not_renew';
+  data: PaystackSubscription;
+}
+
+export interface PaystackInvoiceEvent {
+  event: 'invoice.create' | 'invoice.payment_failed' | 'invoice.update';
+  data: PaystackInvoice;
+}
+
+export interface PaystackDisputeEvent {
+  event: 'charge.dispute.create' | 'charge.dispute.remind' | 'charge.dispute.resolve';
+  data: PaystackDispute;
+}
+
+// Every webhook we model, narrowed by switching on `event`
+export type PaystackWebhookEvent =
+  | PaystackChargeEvent
+  | PaystackTransferEvent
+  | PaystackRefundEvent
+  | PaystackSubscriptionEvent
+  | PaystackInvoiceEvent
+  | PaystackDisputeEvent;
+
+export type PaystackWebhookEventType = PaystackWebhookEvent['event'];
+
+export interface PaystackRefundRequest {
+  transaction: string | number; // Transaction reference or id
+  amount?: number; // Amount in kobo, omit to refund the full transaction
+  currency?: 'ZAR';
+  customer_note?: string;
+  merchant_note?: string;
+}
+
+export interface PaystackRefund {
+  id: number;
+  domain: string;
+  transaction: number;
+  dispute?: number | null;
+  amount: number; // Amount in kobo (ZAR cents)
+  deducted_amount?: number;
+  currency: 'ZAR';
+  channel: string | null;
+  status: 'pending' | 'processing' | 'processed' | 'failed' | 'needs-attention';
+  refunded_by?: string;
+  refunded_at?: string;
+  expected_at?: string;
+  customer_note?: string;
+  merchant_note?: string;
+  created_at: string;
 }
 
-// DM Shop specific payment calculation types
+export interface PaystackRefundListParams {
+  transaction?: string | number;
+  currency?: 'ZAR';
+  from?: string; // ISO date
+  to?: string; // ISO date
+  perPage?: number;
+  page?: number;
+}
+
+export interface PaystackTransferRecipientRequest {
+  type: 'basa'; // South African bank account
+  name: string;
+  account_number: string;
+  bank_code: string;
+  currency: 'ZAR';
+  description?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface PaystackTransferRecipient {
+  id: number;
+  recipient_code: string;
+  name: string;
+  type: string;
+  active: boolean;
+  currency: 'ZAR';
+  details: {
+    account_number: string;
+    account_name: string | null;
+    bank_code: string;
+    bank_name: string;
+  };
+  metadata?: Record<string, any>;
+}
+
+export interface PaystackTransferRequest {
+  source: 'balance';
+  amount: number; // Amount in kobo (ZAR cents)
+  recipient: string; // Recipient code
+  reference: string; // Lowercase letters, digits, - and _ only
+  reason?: string;
+  currency: 'ZAR';
+}
+
+export type PaystackTransferStatus =
+  | 'pending'
+  | 'otp'
+  | 'received'
+  | 'success'
+  | 'failed'
+  | 'reversed'
+  | 'abandoned'
+  | 'blocked'
+  | 'rejected';
+
+export interface PaystackTransfer {
+  id: number;
+  domain?: string;
+  transfer_code: string;
+  reference: string;
+  amount: number; // Amount in kobo (ZAR cents)
+  currency: 'ZAR';
+  status: PaystackTransferStatus;
+  reason?: string;
+  recipient: number | PaystackTransferRecipient;
+  failures?: any;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface PaystackBulkTransferRequest {
+  source: 'balance';
+  currency: 'ZAR';
+  transfers: Array<{
+    amount: number; // Amount in kobo (ZAR cents)
+    recipient: string;
+    reference: string;
+    reason?: string;
+  }>;
+}
+
+export interface PaystackBulkTransferResult {
+  reference: string;
+  recipient: string;
+  amount: number;
+  transfer_code: string;
+  currency: 'ZAR';
+  status: PaystackTransferStatus;
+}
+
+// DM Shop specific payment calculation types, amounts in integer cents (see utils/money.ts)
 export interface DMShopPaymentCalculation {
-  productPrice: number;
+  productPrice: Money;
   sellerTier: 'free' | 'premium';
-  commission: number;
-  serviceFee: number;
-  customerTotal: number;
-  sellerReceives: number;
-  paystackFees: number;
-  netSellerAmount: number;
+  commission: Money;
+  serviceFee: Money;
+  customerTotal: Money;
+  sellerReceives: Money;
+  paystackFees: Money;
+  netSellerAmount: Money;
 }
 
 export interface DMShopOrderPayment {
@@ -133,23 +578,23 @@ export interface DMShopOrderPayment {
     storeId: string;
     sellerId: string;
     sellerTier: 'free' | 'premium';
-    price: number;
+    price: Money;
     quantity: number;
-    commission: number;
+    commission: Money;
   }>;
   totals: {
-    subtotal: number;
-    totalCommission: number;
-    totalServiceFee: number;
-    shippingFee: number;
-    grandTotal: number;
+    subtotal: Money;
+    totalCommission: Money;
+    totalServiceFee: Money;
+    shippingFee: Money;
+    grandTotal: Money; // Always the exact sum of the parts
   };
   paymentSplits: Array<{
     sellerId: string;
     storeId: string;
     subaccountCode: string;
-    amount: number;
-    commission: number;
+    amount: Money;
+    commission: Money;
   }>;
 }
 
@@ -157,6 +602,15 @@ export interface PaystackApiResponse<T = any> {
   status: boolean;
   message: string;
   data: T;
+  meta?: PaystackPaginationMeta; // Present on list endpoints
+}
+
+export interface PaystackPaginationMeta {
+  total: number;
+  skipped: number;
+  perPage: number;
+  page: number;
+  pageCount: number;
 }
 
 export interface PaystackError {
@@ -0,0 +1,206 @@
+// DM Shop Money
+// Immutable amounts in integer minor units (cents, kobo) so totals and splits always add up
+
+// half_up rounds halves away from zero, half_even to the nearest even cent
+export type MoneyRoundingMode = 'half_up' | 'half_even' | 'up' | 'down';
+
+/**
+ * Raised for fractional cents, mismatched currencies and invalid allocations
+ */
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MoneyError';
+  }
+}
+
+// Rate products carry float noise (1000 * 0.07 = 70.00000000000001), trimmed before rounding
+const ratePrecision = 1e6;
+
+function roundCents(value: number, rounding: MoneyRoundingMode): number {
+  const trimmed = Math.round(value * ratePrecision) / ratePrecision;
+  const sign = trimmed < 0 ? -1 : 1;
+  const magnitude = Math.abs(trimmed);
+  const whole = Math.floor(magnitude);
+  const fraction = magnitude - whole;
+
+  let rounded: number;
+  switch (rounding) {
+    case 'down':
+      rounded = whole;
+      break;
+    case 'up':
+      rounded = fraction > 0 ? whole + 1 : whole;
+      break;
+    case 'half_up':
+      rounded = fraction >= 0.5 ? whole + 1 : whole;
+      break;
+    case 'half_even':
+      rounded = fraction > 0.5 || (fraction === 0.5 && whole % 2 === 1) ? whole + 1 : whole;
+      break;
+  }
+  return sign * rounded + 0; // + 0 turns -0 into 0
+}
+
+/**
+ * An amount of money in integer minor units
+ * Every operation returns a new Money, amounts never hold fractions of a cent
+ */
+export class Money {
+  readonly cents: number; // Minor units, the same unit Paystack calls kobo
+  readonly currency: string;
+
+  private constructor(cents: number, currency: string) {
+    if (!Number.isSafeInteger(cents)) {
+      throw new MoneyError(`Money needs a whole number of cents, got ${cents}`);
+    }
+    this.cents = cents + 0;
+    this.currency = currency;
+    Object.freeze(this);
+  }
+
+  static fromCents(cents: number, currency: string = 'ZAR'): Money {
+    return new Money(cents, currency);
+  }
+
+  /**
+   * From a decimal amount in rands (or the currency's major unit), rounded half up to the cent
+   */
+  static fromAmount(amount: number, currency: string = 'ZAR'): Money {
+    if (!Number.isFinite(amount)) {
+      throw new MoneyError(`Money needs a finite amount, got ${amount}`);
+    }
+    return new Money(roundCents(amount * 100, 'half_up'), currency);
+  }
+
+  /**
+   * Pass Money through, read a number as a decimal amount in the given currency
+   */
+  static from(value: Money | number, currency: string = 'ZAR'): Money {
+    return value instanceof Money ? value : Money.fromAmount(value, currency);
+  }
+
+  static zero(currency: string = 'ZAR'): Money {
+    return new Money(0, currency);
+  }
+
+  /**
+   * Total of a list, zero in the given currency when the list is empty
+   */
+  static sum(amounts: Money[], currency: string = 'ZAR'): Money {
+    return amounts.reduce((total, amount) => total.plus(amount), Money.zero(amounts[0]?.currency ?? currency));
+  }
+
+  plus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.cents + other.cents, this.currency);
+  }
+
+  minus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.cents - other.cents, this.currency);
+  }
+
+  /**
+   * Multiply by a whole number, e.g. a quantity
+   */
+  times(quantity: number): Money {
+    if (!Number.isInteger(quantity)) {
+      throw new MoneyError(`times() needs a whole number, use applyRate() for ${quantity}`);
+    }
+    return new Money(this.cents * quantity, this.currency);
+  }
+
+  /**
+   * Apply a rate (0.07 = 7%) and round the result to the cent
+   */
+  applyRate(rate: number, rounding: MoneyRoundingMode): Money {
+    return new Money(roundCents(this.cents * rate, rounding), this.currency);
+  }
+
+  /**
+   * Split across weights by largest remainder, the parts always add up to this amount
+   * allocate([1, 1, 1]) on R100.00 gives R33.34, R33.33, R33.33
+   */
+  allocate(weights: number[]): Money[] {
+    if (weights.some(weight => weight < 0 || !Number.isFinite(weight))) {
+      throw new MoneyError('Allocation weights must be finite and not negative');
+    }
+
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (weights.length === 0 || totalWeight <= 0) {
+      return weights.map(() => Money.zero(this.currency));
+    }
+
+    const exact = weights.map(weight => (this.cents * weight) / totalWeight);
+    const parts = exact.map(value => Math.trunc(value));
+    let remainder = this.cents - parts.reduce((sum, value) => sum + value, 0);
+
+    const step = remainder < 0 ? -1 : 1;
+    const byRemainder = exact
+      .map((value, index) => ({ index, fraction: Math.abs(value - parts[index]) }))
+      .sort((a, b) => b.fraction - a.fraction);
+
+    for (const { index } of byRemainder) {
+      if (remainder === 0) break;
+      parts[index] += step;
+      remainder -= step;
+    }
+
+    return parts.map(cents => new Money(cents, this.currency));
+  }
+
+  negate(): Money {
+    return new Money(-this.cents, this.currency);
+  }
+
+  isZero(): boolean {
+    return this.cents === 0;
+  }
+
+  isNegative(): boolean {
+    return this.cents < 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.cents === other.cents;
+  }
+
+  /**
+   * Negative, zero or positive, like a sort comparator
+   */
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return this.cents - other.cents;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  /**
+   * Decimal amount for Supabase rows and automation payloads, e.g. 250.5
+   */
+  toAmount(): number {
+    return this.cents / 100;
+  }
+
+  // Serialised as the decimal amount, so calculations stored in Paystack metadata or Supabase keep their number fields
+  toJSON(): number {
+    return this.toAmount();
+  }
+
+  toString(): string {
+    return `${(this.cents / 100).toFixed(2)} ${this.currency}`;
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new MoneyError(`Cannot combine ${this.currency} with ${other.currency}`);
+    }
+  }
+}
@@ -2,60 +2,63 @@
 // Foundation for commission and fee calculations
 
 import { DMShopPaymentCalculation, DMShopOrderPayment } from '../types/paystack';
+import { Money, MoneyError } from './money';
+
+/**
+ * Commission rate charged on each sale, by seller tier
+ */
+export const sellerTierCommissionRates = {
+  free: 0.07,
+  premium: 0.04
+} as const;
+
+/**
+ * Get the commission rate for a seller tier (0.07 = 7%)
+ */
+export function getCommissionRate(sellerTier: 'free' | 'premium'): number {
+  return sellerTierCommissionRates[sellerTier];
+}
+
+/**
+ * Estimate Paystack fees for a local card payment (2.9% + R2)
+ */
+export function estimatePaystackFees(amount: Money): Money {
+  return amount.applyRate(0.029, 'half_up').plus(Money.fromAmount(2, amount.currency));
+}
 
 /**
  * Calculate payment breakdown for DM Shop freemium model
  * Free tier: 7% commission + R15 service fee (charged to customer)
  * Premium tier: 4% commission + R15 service fee (charged to customer)
+ * A number price is read as rands. Commission is rounded half up to the cent
  */
 export function calculatePayment(
-  productPrice: number, 
+  productPrice: Money | number,
   sellerTier: 'free' | 'premium'
 ): DMShopPaymentCalculation {
-  const serviceFee = 15; // R15 service fee for both tiers
-  
-  if (sellerTier === 'free') {
-    const commission = productPrice * 0.07; // 7% commission
-    const customerTotal = productPrice + commission + serviceFee;
-    
-    // Estimate Paystack fees (2.9% + R2 for local cards)
-    const paystackFees = (customerTotal * 0.029) + 2;
-    const netSellerAmount = productPrice - paystackFees;
-    
-    return {
-      productPrice,
-      sellerTier,
-      commission,
-      serviceFee,
-      customerTotal,
-      sellerReceives: productPrice,
-      paystackFees,
-      netSellerAmount
-    };
-  } else {
-    const commission = productPrice * 0.04; // 4% commission for premium
-    const customerTotal = productPrice + commission + serviceFee;
-    
-    // Estimate Paystack fees
-    const paystackFees = (customerTotal * 0.029) + 2;
-    const netSellerAmount = productPrice - paystackFees;
-    
-    return {
-      productPrice,
-      sellerTier,
-      commission,
-      serviceFee,
-      customerTotal,
-      sellerReceives: productPrice,
-      paystackFees,
-      netSellerAmount
-    };
-  }
+  const price = Money.from(productPrice);
+  const serviceFee = Money.fromAmount(15, price.currency); // R15 service fee for both tiers
+  const commission = price.applyRate(getCommissionRate(sellerTier), 'half_up');
+  const customerTotal = price.plus(commission).plus(serviceFee);
+
+  // Estimate Paystack fees (2.9% + R2 for local cards)
+  const paystackFees = estimatePaystackFees(customerTotal);
+
+  return {
+    productPrice: price,
+    sellerTier,
+    commission,
+    serviceFee,
+    customerTotal,
+    sellerReceives: price,
+    paystackFees,
+    netSellerAmount: price.minus(paystackFees)
+  };
 }
 
 /**
  * Calculate multi-vendor order payment splits
- * Foundation for complex order processing
+ * Every amount is whole cents, so grandTotal is exactly the splits plus commission, service fees and shipping
  */
 export function calculateOrderPayment(
   items: Array<{
@@ -64,41 +67,36 @@ export function calculateOrderPayment(
     storeId: string;
     sellerId: string;
     sellerTier: 'free' | 'premium';
-    price: number;
+    price: Money | number; // A number is read as rands
     quantity: number;
   }>,
-  shippingFee: number = 85 // Default R85 Paxi shipping
+  shippingFee: Money | number = 85 // Default R85 Paxi shipping
 ): DMShopOrderPayment {
-  let subtotal = 0;
-  let totalCommission = 0;
-  let totalServiceFee = 0;
-  const paymentSplits: Array<{
-    sellerId: string;
-    storeId: string;
-    subaccountCode: string;
-    amount: number;
-    commission: number;
-  }> = [];
+  const shipping = Money.from(shippingFee);
+  let subtotal = Money.zero(shipping.currency);
+  let totalCommission = Money.zero(shipping.currency);
+  let totalServiceFee = Money.zero(shipping.currency);
+  const paymentSplits: DMShopOrderPayment['paymentSplits'] = [];
 
   // Calculate totals and prepare splits
   const processedItems = items.map(item => {
-    const itemTotal = item.price * item.quantity;
-    const calculation = calculatePayment(itemTotal, item.sellerTier);
-    
-    subtotal += itemTotal;
-    totalCommission += calculation.commission;
-    totalServiceFee += calculation.serviceFee;
+    const price = Money.from(item.price, shipping.currency);
+    const calculation = calculatePayment(price.times(item.quantity), item.sellerTier);
+
+    subtotal = subtotal.plus(calculation.productPrice);
+    totalCommission = totalCommission.plus(calculation.commission);
+    totalServiceFee = totalServiceFee.plus(calculation.serviceFee);
 
     // Group by seller for payment splits
     const existingSplit = paymentSplits.find(split => split.sellerId === item.sellerId);
     if (existingSplit) {
-      existingSplit.amount += calculation.sellerReceives;
-      existingSplit.commission += calculation.commission;
+      existingSplit.amount = existingSplit.amount.plus(calculation.sellerReceives);
+      existingSplit.commission = existingSplit.commission.plus(calculation.commission);
     } else {
       paymentSplits.push({
         sellerId: item.sellerId,
         storeId: item.storeId,
-        subaccountCode: `ACCT_${item.sellerId}`, // To be replaced with actual subaccount codes
+        subaccountCode: `ACCT_${item.sellerId}`, // Placeholder, DMShopSplitManager.attachSubaccountCodes sets the real code
         amount: calculation.sellerReceives,
         commission: calculation.commission
       });
@@ -106,11 +104,12 @@ export function calculateOrderPayment(
 
     return {
       ...item,
+      price,
       commission: calculation.commission
     };
   });
 
-  const grandTotal = subtotal + totalCommission + totalServiceFee + shippingFee;
+  const grandTotal = subtotal.plus(totalCommission).plus(totalServiceFee).plus(shipping);
 
   return {
     orderId: '', // To be set by calling function
@@ -120,13 +119,21 @@ export function calculateOrderPayment(
       subtotal,
       totalCommission,
       totalServiceFee,
-      shippingFee,
+      shippingFee: shipping,
       grandTotal
     },
     paymentSplits
   };
 }
 
+/**
+ * Split a ZAR amount across weights, rounded to the cent
+ * Uses largest remainder so the parts always add up to the original amount
+ */
+export function allocateProportionally(amount: number, weights: number[]): number[] {
+  return Money.fromAmount(amount).allocate(weights).map(part => part.toAmount());
+}
+
 /**
  * Convert ZAR amount to kobo (cents) for Paystack
  */
@@ -142,14 +149,18 @@ export function koboToZar(koboAmount: number): number {
 }
 
 /**
- * Format ZAR currency for display
+ * Format ZAR currency for display, from rands or Money
  */
-export function formatZAR(amount: number): string {
+export function formatZAR(amount: number | Money): string {
+  if (amount instanceof Money && amount.currency !== 'ZAR') {
+    throw new MoneyError(`formatZAR cannot format ${amount.currency}`);
+  }
+
   return new Intl.NumberFormat('en-ZA', {
     style: 'currency',
     currency: 'ZAR',
     minimumFractionDigits: 2
-  }).format(amount);
+  }).format(amount instanceof Money ? amount.toAmount() : amount);
 }
 
 /**
@@ -161,6 +172,17 @@ export function generatePaymentReference(orderId: string): string {
   return `DMSHOP_${orderId}_${timestamp}_${random}`.toUpperCase();
 }
 
+/**
+ * Generate unique transfer reference for a seller payout
+ * Paystack transfer references only allow lowercase letters, digits, - and _
+ */
+export function generatePayoutReference(storeId: string): string {
+  const timestamp = Date.now();
+  const random = Math.random().toString(36).substring(2, 8);
+  const store = storeId.toLowerCase().replace(/[^a-z0-9_-]/g, '').substring(0, 20);
+  return `dmshop_payout_${store}_${timestamp}_${random}`;
+}
+
 /**
  * Validate South African phone number format
  */
@@ -0,0 +1,106 @@
+// DM Shop Transaction Export Utilities
+// CSV/JSON exports of Paystack transactions for support and accounting
+
+import { PaystackTransactionListParams, PaystackTransactionRecord } from '../types/paystack';
+import { PaystackClient } from '../lib/paystack-client';
+import { formatZAR, koboToZar } from './payment-calculator';
+
+export interface TransactionExportRow {
+  reference: string;
+  status: string;
+  created_at: string;
+  paid_at: string;
+  channel: string;
+  customer_email: string;
+  amount_zar: number;
+  amount_formatted: string;
+  fees_zar: number;
+  fees_formatted: string;
+  net_zar: number;
+  order_id: string;
+  store_id: string;
+}
+
+const exportColumns: Array<keyof TransactionExportRow> = [
+  'reference',
+  'status',
+  'created_at',
+  'paid_at',
+  'channel',
+  'customer_email',
+  'amount_zar',
+  'amount_formatted',
+  'fees_zar',
+  'fees_formatted',
+  'net_zar',
+  'order_id',
+  'store_id'
+];
+
+/**
+ * Flatten a Paystack transaction into an export row with kobo converted to ZAR
+ */
+export function toTransactionExportRow(transaction: PaystackTransactionRecord): TransactionExportRow {
+  const amount = koboToZar(transaction.amount);
+  const fees = koboToZar(transaction.fees || 0);
+  const net = koboToZar(transaction.amount - (transaction.fees || 0));
+
+  return {
+    reference: transaction.reference,
+    status: transaction.status,
+    created_at: transaction.created_at,
+    paid_at: transaction.paid_at || '',
+    channel: transaction.channel,
+    customer_email: transaction.customer?.email || '',
+    amount_zar: amount,
+    amount_formatted: formatZAR(amount),
+    fees_zar: fees,
+    fees_formatted: formatZAR(fees),
+    net_zar: net,
+    order_id: transaction.metadata?.order_id || '',
+    store_id: transaction.metadata?.store_id || ''
+  };
+}
+
+/**
+ * Convert transactions to CSV with a header row
+ */
+export function transactionsToCSV(transactions: PaystackTransactionRecord[]): string {
+  const lines = [exportColumns.join(',')];
+
+  for (const transaction of transactions) {
+    const row = toTransactionExportRow(transaction);
+    lines.push(exportColumns.map(column => escapeCSV(row[column])).join(','));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert transactions to a JSON array of export rows
+ */
+export function transactionsToJSON(transactions: PaystackTransactionRecord[], pretty: boolean = true): string {
+  return JSON.stringify(transactions.map(toTransactionExportRow), null, pretty ? 2 : undefined);
+}
+
+/**
+ * Pull every transaction matching the filters and export it
+ */
+export async function exportTransactions(
+  client: PaystackClient,
+  filters: Omit<PaystackTransactionListParams, 'page'>,
+  format: 'csv' | 'json' = 'csv'
+): Promise<string> {
+  const transactions: PaystackTransactionRecord[] = [];
+
+  for await (const transaction of client.iterateTransactions(filters)) {
+    transactions.push(transaction);
+  }
+
+  return format === 'csv' ? transactionsToCSV(transactions) : transactionsToJSON(transactions);
+}
+
+function escapeCSV(value: string | number): string {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}